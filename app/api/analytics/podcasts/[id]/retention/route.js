@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { buildRetentionCurve } from '@/lib/analytics';
+import { LISTEN_SETTINGS } from '@/lib/listens';
+
+// GET /api/analytics/podcasts/[id]/retention - Share of starters still listening at each 5% of an episode
+export async function GET(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: { userId: true, duration: true },
+    });
+
+    if (!podcast) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    if (podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You can only view analytics for your own podcasts' },
+        { status: 403 }
+      );
+    }
+
+    if (!podcast.duration) {
+      return NextResponse.json(
+        { error: 'Retention is unavailable until the episode duration is known' },
+        { status: 422 }
+      );
+    }
+
+    // Every playback session is a starter; segments come from the coverage bitmask
+    const [starters, segmentRows] = await Promise.all([
+      prisma.listen.count({ where: { podcastId: id } }),
+      prisma.$queryRaw`
+        SELECT s.segment::int AS segment,
+               COUNT(l."id") FILTER (WHERE (l."coverage" & (1 << s.segment)) <> 0)::int AS listeners
+        FROM generate_series(0, ${LISTEN_SETTINGS.RETENTION_SEGMENTS - 1}::int) AS s(segment)
+        LEFT JOIN "Listen" l ON l."podcastId" = ${id}
+        GROUP BY s.segment
+        ORDER BY s.segment`,
+    ]);
+
+    const segmentCounts = segmentRows.map(row => row.listeners);
+
+    return NextResponse.json({
+      podcastId: id,
+      duration: podcast.duration,
+      starters,
+      curve: buildRetentionCurve(podcast.duration, starters, segmentCounts),
+    });
+
+  } catch (error) {
+    console.error('Error fetching retention:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch retention' },
+      { status: 500 }
+    );
+  }
+}
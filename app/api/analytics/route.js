@@ -0,0 +1,175 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { buildAnalyticsSeries, parseAnalyticsRange, sumAnalyticsSeries } from '@/lib/analytics';
+
+// GET /api/analytics - Time-bucketed plays, listeners, likes, comments and follower growth
+// for the current creator, or for one of their episodes with ?podcastId=
+export async function GET(request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const userId = session.user.id;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const { range, error } = parseAnalyticsRange(searchParams);
+
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const podcastId = searchParams.get('podcastId');
+
+    if (podcastId) {
+      const podcast = await prisma.podcast.findUnique({
+        where: { id: podcastId },
+        select: { userId: true },
+      });
+
+      if (!podcast) {
+        return NextResponse.json(
+          { error: 'Podcast not found' },
+          { status: 404 }
+        );
+      }
+
+      if (podcast.userId !== userId) {
+        return NextResponse.json(
+          { error: 'You can only view analytics for your own podcasts' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const { from, to, interval } = range;
+    const podcastFilter = podcastId ? Prisma.sql`AND p."id" = ${podcastId}` : Prisma.empty;
+
+    const [playRows, likeRows, commentRows, listenerRows] = await Promise.all([
+      prisma.$queryRaw`
+        SELECT date_trunc(${interval}, l."createdAt") AS bucket,
+               COUNT(*)::int AS plays,
+               COUNT(DISTINCT l."listenerHash")::int AS listeners
+        FROM "Listen" l
+        JOIN "Podcast" p ON p."id" = l."podcastId"
+        WHERE p."userId" = ${userId} ${podcastFilter}
+          AND l."counted" = true
+          AND l."createdAt" >= ${from} AND l."createdAt" < ${to}
+        GROUP BY 1`,
+      prisma.$queryRaw`
+        SELECT date_trunc(${interval}, k."createdAt") AS bucket, COUNT(*)::int AS count
+        FROM "Like" k
+        JOIN "Podcast" p ON p."id" = k."podcastId"
+        WHERE p."userId" = ${userId} ${podcastFilter}
+          AND k."createdAt" >= ${from} AND k."createdAt" < ${to}
+        GROUP BY 1`,
+      prisma.$queryRaw`
+        SELECT date_trunc(${interval}, c."createdAt") AS bucket, COUNT(*)::int AS count
+        FROM "Comment" c
+        JOIN "Podcast" p ON p."id" = c."podcastId"
+        WHERE p."userId" = ${userId} ${podcastFilter}
+          AND c."createdAt" >= ${from} AND c."createdAt" < ${to}
+        GROUP BY 1`,
+      // Unique listeners aren't additive across buckets, so count them over the whole range
+      prisma.$queryRaw`
+        SELECT COUNT(DISTINCT l."listenerHash")::int AS count
+        FROM "Listen" l
+        JOIN "Podcast" p ON p."id" = l."podcastId"
+        WHERE p."userId" = ${userId} ${podcastFilter}
+          AND l."counted" = true
+          AND l."createdAt" >= ${from} AND l."createdAt" < ${to}`,
+    ]);
+
+    // Follower growth only applies to the creator as a whole. Unfollows delete the
+    // follow row, so the running total reflects current followers by follow date.
+    let followerRows = [];
+    let followerBaseline = 0;
+    if (!podcastId) {
+      [followerRows, followerBaseline] = await Promise.all([
+        prisma.$queryRaw`
+          SELECT date_trunc(${interval}, f."createdAt") AS bucket, COUNT(*)::int AS count
+          FROM "Follow" f
+          WHERE f."followingId" = ${userId}
+            AND f."createdAt" >= ${from} AND f."createdAt" < ${to}
+          GROUP BY 1`,
+        prisma.follow.count({
+          where: {
+            followingId: userId,
+            createdAt: { lt: from },
+          },
+        }),
+      ]);
+    }
+
+    const series = buildAnalyticsSeries(range, {
+      plays: playRows.map(row => ({ bucket: row.bucket, count: row.plays })),
+      uniqueListeners: playRows.map(row => ({ bucket: row.bucket, count: row.listeners })),
+      likes: likeRows,
+      comments: commentRows,
+      followers: followerRows,
+    }, followerBaseline);
+
+    const response = {
+      range: {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        interval,
+      },
+      podcastId: podcastId || null,
+      totals: sumAnalyticsSeries(series, listenerRows[0]?.count || 0),
+      series,
+    };
+
+    // Creator-level requests also get all-time totals and a per-episode breakdown
+    if (!podcastId) {
+      const [podcastCount, lifetimePlays, lifetimeLikes, lifetimeComments, followerCount, episodeRows] = await Promise.all([
+        prisma.podcast.count({ where: { userId } }),
+        prisma.listen.count({ where: { counted: true, podcast: { userId } } }),
+        prisma.like.count({ where: { podcast: { userId } } }),
+        prisma.comment.count({ where: { podcast: { userId } } }),
+        prisma.follow.count({ where: { followingId: userId } }),
+        prisma.$queryRaw`
+          SELECT p."id", p."title",
+                 COUNT(l."id")::int AS plays,
+                 COUNT(DISTINCT l."listenerHash")::int AS "uniqueListeners"
+          FROM "Podcast" p
+          LEFT JOIN "Listen" l ON l."podcastId" = p."id"
+            AND l."counted" = true
+            AND l."createdAt" >= ${from} AND l."createdAt" < ${to}
+          WHERE p."userId" = ${userId}
+          GROUP BY p."id", p."title"
+          ORDER BY plays DESC, p."createdAt" DESC
+          LIMIT 50`,
+      ]);
+
+      response.lifetime = {
+        podcasts: podcastCount,
+        plays: lifetimePlays,
+        likes: lifetimeLikes,
+        comments: lifetimeComments,
+        followers: followerCount,
+      };
+      response.episodes = episodeRows;
+    }
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error fetching analytics:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch analytics' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { CONVERSATION_ROLES, ConversationRole } from '@/lib/messages';
+import {
+  addSystemMessage,
+  findConversationForUser,
+  getConversationSummary,
+  removeParticipant,
+} from '@/lib/conversations';
+
+type MemberParams = { params: { id: string; userId: string } };
+
+/**
+ * PATCH /api/conversations/[id]/members/[userId] - Change a member's `role` (`admin` or
+ * `member`); admins only. A group always keeps at least one admin.
+ */
+export async function PATCH(request: NextRequest, { params }: MemberParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const actorId = session.user.id;
+    const { id, userId } = params;
+
+    const conversation = await findConversationForUser(id, actorId);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found or access denied' }, { status: 404 });
+    }
+
+    const actor = conversation.participants.find(participant => participant.userId === actorId);
+    if (!conversation.isGroup || actor.role !== 'admin') {
+      return NextResponse.json({ error: 'Only group admins can change roles' }, { status: 403 });
+    }
+
+    const member = conversation.participants.find(participant => participant.userId === userId);
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const role = body?.role as ConversationRole;
+    if (!CONVERSATION_ROLES.includes(role)) {
+      return NextResponse.json({ error: `role must be one of: ${CONVERSATION_ROLES.join(', ')}` }, { status: 400 });
+    }
+
+    if (role === member.role) {
+      return NextResponse.json(await getConversationSummary(id, actorId));
+    }
+
+    const adminCount = conversation.participants.filter(participant => participant.role === 'admin').length;
+    if (role === 'member' && adminCount === 1) {
+      return NextResponse.json({ error: 'A group needs at least one admin' }, { status: 409 });
+    }
+
+    await prisma.conversationParticipant.update({
+      where: { id: member.id },
+      data: { role }
+    });
+
+    const actorName = actor.user.name || 'Someone';
+    const memberName = member.user.name || 'Someone';
+    await addSystemMessage(
+      id,
+      actorId,
+      role === 'admin'
+        ? `${actorName} made ${memberName} an admin`
+        : `${actorName} removed ${memberName} as an admin`,
+      conversation.participants.map(participant => participant.userId)
+    );
+
+    return NextResponse.json(await getConversationSummary(id, actorId));
+  } catch (error) {
+    console.error('PATCH /api/conversations/[id]/members/[userId] error:', error);
+    return NextResponse.json({ error: 'Failed to change role' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/conversations/[id]/members/[userId] - Remove a member (admins only), or
+ * leave the group when [userId] is the current user
+ */
+export async function DELETE(request: NextRequest, { params }: MemberParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const actorId = session.user.id;
+    const { id, userId } = params;
+    const isLeaving = userId === actorId;
+
+    const conversation = await findConversationForUser(id, actorId);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found or access denied' }, { status: 404 });
+    }
+
+    if (!conversation.isGroup) {
+      return NextResponse.json({ error: 'Only group conversations have members to remove' }, { status: 400 });
+    }
+
+    const actor = conversation.participants.find(participant => participant.userId === actorId);
+    if (!isLeaving && actor.role !== 'admin') {
+      return NextResponse.json({ error: 'Only group admins can remove members' }, { status: 403 });
+    }
+
+    const member = conversation.participants.find(participant => participant.userId === userId);
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    const { deleted, promotedUserId } = await removeParticipant(id, userId);
+
+    if (!deleted) {
+      // The removed member still hears about it, so their page can close the group
+      const notifyUserIds = conversation.participants.map(participant => participant.userId);
+      const actorName = actor.user.name || 'Someone';
+      const memberName = member.user.name || 'Someone';
+
+      await addSystemMessage(
+        id,
+        actorId,
+        isLeaving ? `${actorName} left the group` : `${actorName} removed ${memberName}`,
+        notifyUserIds
+      );
+
+      const promoted = conversation.participants.find(participant => participant.userId === promotedUserId);
+      if (promoted) {
+        await addSystemMessage(
+          id,
+          promoted.userId,
+          `${promoted.user.name || 'Someone'} is now an admin`,
+          notifyUserIds.filter(notifyId => notifyId !== userId)
+        );
+      }
+    }
+
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error('DELETE /api/conversations/[id]/members/[userId] error:', error);
+    return NextResponse.json({ error: 'Failed to remove member' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { MESSAGE_SETTINGS, formatNameList, getNewMemberData, parseMemberIds } from '@/lib/messages';
+import { addSystemMessage, findConversationForUser, getConversationSummary } from '@/lib/conversations';
+
+/**
+ * POST /api/conversations/[id]/members - Add users (`userIds`) to a group; admins only.
+ * Users who are already members are skipped.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = params;
+
+    const conversation = await findConversationForUser(id, userId);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found or access denied' }, { status: 404 });
+    }
+
+    const actor = conversation.participants.find(participant => participant.userId === userId);
+    if (!conversation.isGroup || actor.role !== 'admin') {
+      return NextResponse.json({ error: 'Only group admins can add members' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const { data: userIds, error } = parseMemberIds(body?.userIds);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const memberIds = conversation.participants.map(participant => participant.userId);
+    const newIds = userIds.filter(newId => !memberIds.includes(newId));
+
+    if (newIds.length === 0) {
+      return NextResponse.json(await getConversationSummary(id, userId));
+    }
+
+    if (memberIds.length + newIds.length > MESSAGE_SETTINGS.MAX_GROUP_MEMBERS) {
+      return NextResponse.json(
+        { error: `A group may have at most ${MESSAGE_SETTINGS.MAX_GROUP_MEMBERS} members` },
+        { status: 409 }
+      );
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: newIds } },
+      select: { id: true, name: true }
+    });
+
+    if (users.length !== newIds.length) {
+      return NextResponse.json({ error: 'Some of these users were not found' }, { status: 404 });
+    }
+
+    await prisma.conversationParticipant.createMany({
+      data: users.map(user => getNewMemberData(id, user.id)),
+      skipDuplicates: true
+    });
+
+    await addSystemMessage(
+      id,
+      userId,
+      `${actor.user.name || 'Someone'} added ${formatNameList(users.map(user => user.name))}`,
+      [...memberIds, ...newIds]
+    );
+
+    return NextResponse.json(await getConversationSummary(id, userId), { status: 201 });
+  } catch (error) {
+    console.error('POST /api/conversations/[id]/members error:', error);
+    return NextResponse.json({ error: 'Failed to add members' }, { status: 500 });
+  }
+}
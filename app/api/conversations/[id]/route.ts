@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { parseGroupFields } from '@/lib/messages';
+import { addSystemMessage, findConversationForUser, getConversationSummary } from '@/lib/conversations';
+
+/**
+ * PATCH /api/conversations/[id] - Change a group's `title` or avatar (`image`, null to
+ * remove it); admins only
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const { id } = params;
+
+    const conversation = await findConversationForUser(id, userId);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found or access denied' }, { status: 404 });
+    }
+
+    const actor = conversation.participants.find(participant => participant.userId === userId);
+    if (!conversation.isGroup || actor.role !== 'admin') {
+      return NextResponse.json({ error: 'Only group admins can change the group' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const { data, error } = parseGroupFields(body, true);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    await prisma.conversation.update({
+      where: { id },
+      data
+    });
+
+    const actorName = actor.user.name || 'Someone';
+    const participantIds = conversation.participants.map(participant => participant.userId);
+
+    if (data.title !== undefined && data.title !== conversation.title) {
+      await addSystemMessage(id, userId, `${actorName} renamed the group to "${data.title}"`, participantIds);
+    }
+    if (data.image !== undefined && data.image !== conversation.image) {
+      await addSystemMessage(
+        id,
+        userId,
+        data.image ? `${actorName} changed the group photo` : `${actorName} removed the group photo`,
+        participantIds
+      );
+    }
+
+    return NextResponse.json(await getConversationSummary(id, userId));
+  } catch (error) {
+    console.error('PATCH /api/conversations/[id] error:', error);
+    return NextResponse.json({ error: 'Failed to update group' }, { status: 500 });
+  }
+}
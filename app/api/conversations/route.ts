@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { MESSAGE_SETTINGS, formatNameList, parseGroupFields, parseMemberIds } from '@/lib/messages';
+import { addSystemMessage, getConversationSummary } from '@/lib/conversations';
+
+/**
+ * POST /api/conversations - Create a group conversation with a `title`, an optional
+ * avatar (`image`) and the `userIds` of its first members; the creator becomes its admin
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const body = await request.json().catch(() => null);
+
+    const { data: fields, error: fieldsError } = parseGroupFields(body, false);
+    if (fieldsError) {
+      return NextResponse.json({ error: fieldsError }, { status: 400 });
+    }
+
+    const { data: memberIds, error: membersError } = parseMemberIds(body?.userIds);
+    if (membersError) {
+      return NextResponse.json({ error: membersError }, { status: 400 });
+    }
+
+    const otherIds = memberIds.filter(id => id !== userId);
+    if (otherIds.length + 1 > MESSAGE_SETTINGS.MAX_GROUP_MEMBERS) {
+      return NextResponse.json(
+        { error: `A group may have at most ${MESSAGE_SETTINGS.MAX_GROUP_MEMBERS} members` },
+        { status: 400 }
+      );
+    }
+
+    const members = await prisma.user.findMany({
+      where: { id: { in: otherIds } },
+      select: { id: true, name: true }
+    });
+
+    if (members.length !== otherIds.length || members.length === 0) {
+      return NextResponse.json({ error: 'Some of these users were not found' }, { status: 404 });
+    }
+
+    const conversation = await prisma.conversation.create({
+      data: {
+        isGroup: true,
+        title: fields.title,
+        image: fields.image ?? null,
+        participants: {
+          create: [
+            { userId, role: 'admin' },
+            ...members.map(member => ({ userId: member.id, role: 'member' }))
+          ]
+        }
+      }
+    });
+
+    const creator = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+    const message = await addSystemMessage(
+      conversation.id,
+      userId,
+      `${creator?.name || 'Someone'} created the group with ${formatNameList(members.map(member => member.name))}`,
+      [userId, ...otherIds]
+    );
+
+    const summary = await getConversationSummary(conversation.id, userId);
+    return NextResponse.json({ ...summary, messages: [message], unreadCount: 0 }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/conversations error:', error);
+    return NextResponse.json({ error: 'Failed to create group' }, { status: 500 });
+  }
+}
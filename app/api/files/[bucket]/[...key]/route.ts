@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { PUBLISHED_PODCASTS_WHERE } from '@/lib/media';
+import prisma from '@/lib/prisma';
+import { getFolderForBucket, getStorageDriver } from '@/lib/storageDrivers';
+import { getLocalContentType, resolveLocalPath, verifyLocalSignature } from '@/lib/storageDrivers/local';
+
+/**
+ * Serve a file stored by the local storage driver, with byte ranges so audio can seek.
+ * Only the buckets of the upload folders are served.
+ * URLs from getSignedUrl carry expires/signature parameters, which must be valid. The audio
+ * of a private, draft or scheduled episode is only served with a signature, so its plain
+ * storage URL doesn't leak it.
+ * GET /api/files/:bucket/:key
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { bucket: string; key: string[] } }
+) {
+  // Only the local driver stores files on this server
+  if (process.env.STORAGE_DRIVER !== 'local') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const { bucket } = params;
+    const key = params.key.join('/');
+
+    const folder = getFolderForBucket(bucket);
+    if (!folder) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    let filePath: string;
+    try {
+      filePath = resolveLocalPath(bucket, key);
+    } catch {
+      // Keys that escape the bucket don't name a file
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const signature = request.nextUrl.searchParams.get('signature');
+    const expires = request.nextUrl.searchParams.get('expires');
+
+    if (signature !== null && !verifyLocalSignature(bucket, key, expires, signature)) {
+      return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 });
+    }
+
+    if (signature === null && folder === 'podcast-audio') {
+      const url = getStorageDriver(folder).getPublicUrl(key);
+      const unreleasedPodcast = await prisma.podcast.findFirst({
+        where: {
+          NOT: PUBLISHED_PODCASTS_WHERE,
+          OR: [{ audioUrl: url }, { audioMp3Url: url }, { audioAacUrl: url }],
+        },
+        select: { id: true },
+      });
+
+      if (unreleasedPodcast) {
+        return NextResponse.json({ error: 'Signature required' }, { status: 403 });
+      }
+    }
+
+    const fileStat = await stat(filePath).catch(() => null);
+
+    if (!fileStat?.isFile()) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': getLocalContentType(key),
+      // Browsers must not guess a more dangerous type, such as HTML, from the contents
+      'X-Content-Type-Options': 'nosniff',
+      'Accept-Ranges': 'bytes',
+      // Signed URLs expire, so they must not be cached past their expiry, and released audio
+      // is rechecked on every request because its episode can be made private later
+      'Cache-Control': signature !== null
+        ? 'private, no-store'
+        : folder === 'podcast-audio' ? 'no-cache' : 'public, max-age=31536000, immutable',
+    };
+
+    const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') || '');
+    if (range && (range[1] || range[2])) {
+      // "bytes=-500" means the last 500 bytes
+      const start = range[1] ? Number(range[1]) : Math.max(0, fileStat.size - Number(range[2]));
+      const end = range[1] && range[2] ? Math.min(Number(range[2]), fileStat.size - 1) : fileStat.size - 1;
+
+      if (start > end || start >= fileStat.size) {
+        return new NextResponse(null, {
+          status: 416,
+          headers: { 'Content-Range': `bytes */${fileStat.size}` },
+        });
+      }
+
+      const stream = Readable.toWeb(createReadStream(filePath, { start, end })) as ReadableStream;
+      return new NextResponse(stream, {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${start}-${end}/${fileStat.size}`,
+          'Content-Length': String(end - start + 1),
+        },
+      });
+    }
+
+    const stream = Readable.toWeb(createReadStream(filePath)) as ReadableStream;
+    return new NextResponse(stream, {
+      headers: { ...headers, 'Content-Length': String(fileStat.size) },
+    });
+  } catch (error) {
+    console.error('Error serving file:', error);
+    return NextResponse.json(
+      { error: 'Failed to serve file' },
+      { status: 500 }
+    );
+  }
+}
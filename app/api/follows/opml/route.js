@@ -0,0 +1,222 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { getFeedUrl, resolveSiteUrl } from '@/lib/feed';
+import { buildOpml, extractUserIdFromUrl, parseOpml } from '@/lib/opml';
+
+// Upper bound on outlines processed per import
+const MAX_IMPORT_OUTLINES = 500;
+
+// GET /api/follows/opml - Export the current user's follows as OPML 2.0
+export async function GET(request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const follows = await prisma.follow.findMany({
+      where: { followerId: session.user.id },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        following: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    const siteUrl = resolveSiteUrl(request.url);
+    const outlines = follows.map(follow => ({
+      text: follow.following.name || 'Unknown creator',
+      xmlUrl: getFeedUrl(siteUrl, follow.following.id),
+      htmlUrl: `${siteUrl}/profile/${follow.following.id}`,
+    }));
+
+    const opml = buildOpml(`${session.user.name || 'My'} subscriptions`, outlines);
+
+    return new NextResponse(opml, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/x-opml; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="subscriptions.opml"',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error exporting OPML:', error);
+    return NextResponse.json(
+      { error: 'Failed to export subscriptions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/follows/opml - Import an OPML file and follow every matching creator
+export async function POST(request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const userId = session.user.id;
+
+  try {
+    // Accept either a multipart upload ("file" field) or the raw OPML document as the body
+    let xml;
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+      xml = file && typeof file !== 'string' ? await file.text() : file;
+    } else {
+      xml = await request.text();
+    }
+
+    if (!xml) {
+      return NextResponse.json(
+        { error: 'No OPML document provided' },
+        { status: 400 }
+      );
+    }
+
+    let outlines;
+    try {
+      outlines = parseOpml(xml);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (outlines.length > MAX_IMPORT_OUTLINES) {
+      return NextResponse.json(
+        { error: `OPML files may contain at most ${MAX_IMPORT_OUTLINES} feeds` },
+        { status: 400 }
+      );
+    }
+
+    // Resolve outlines pointing at our own feed or profile URLs by id
+    const referencedIds = outlines
+      .map(outline => extractUserIdFromUrl(outline.xmlUrl) || extractUserIdFromUrl(outline.htmlUrl))
+      .filter(Boolean);
+
+    const usersById = referencedIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: referencedIds } },
+          select: { id: true, name: true },
+        })
+      : [];
+
+    // Fall back to matching the outline title against creator names
+    const unresolvedNames = outlines
+      .filter(outline => {
+        const id = extractUserIdFromUrl(outline.xmlUrl) || extractUserIdFromUrl(outline.htmlUrl);
+        return !id || !usersById.some(user => user.id === id);
+      })
+      .map(outline => outline.text)
+      .filter(Boolean);
+
+    const usersByName = unresolvedNames.length > 0
+      ? await prisma.user.findMany({
+          where: {
+            OR: unresolvedNames.map(name => ({
+              name: { equals: name, mode: 'insensitive' },
+            })),
+          },
+          select: { id: true, name: true },
+        })
+      : [];
+
+    const results = outlines.map(outline => {
+      const id = extractUserIdFromUrl(outline.xmlUrl) || extractUserIdFromUrl(outline.htmlUrl);
+      const user = usersById.find(candidate => candidate.id === id)
+        || usersByName.find(candidate => candidate.name?.toLowerCase() === outline.text.toLowerCase());
+
+      if (!user) {
+        return { ...outline, status: 'unmatched', reason: 'No matching creator found' };
+      }
+
+      if (user.id === userId) {
+        return { ...outline, status: 'unmatched', userId: user.id, reason: 'You cannot follow yourself' };
+      }
+
+      return { ...outline, status: 'matched', userId: user.id };
+    });
+
+    const matchedIds = results
+      .filter(result => result.status === 'matched')
+      .map(result => result.userId);
+
+    const existingFollows = matchedIds.length > 0
+      ? await prisma.follow.findMany({
+          where: {
+            followerId: userId,
+            followingId: { in: matchedIds },
+          },
+          select: { followingId: true },
+        })
+      : [];
+
+    // Mark existing follows and de-duplicate outlines that point at the same creator
+    const toFollow = [];
+    results.forEach(result => {
+      if (result.status !== 'matched') return;
+
+      if (existingFollows.some(follow => follow.followingId === result.userId) || toFollow.includes(result.userId)) {
+        result.status = 'already_followed';
+        return;
+      }
+
+      toFollow.push(result.userId);
+    });
+
+    if (toFollow.length > 0) {
+      await prisma.follow.createMany({
+        data: toFollow.map(followingId => ({
+          followerId: userId,
+          followingId,
+        })),
+        skipDuplicates: true,
+      });
+
+      await prisma.notification.createMany({
+        data: toFollow.map(followingId => ({
+          type: 'follow',
+          content: `${session.user.name || 'Someone'} started following you`,
+          userId: followingId,
+          senderId: userId,
+        })),
+      });
+    }
+
+    return NextResponse.json({
+      results,
+      summary: {
+        total: results.length,
+        matched: results.filter(result => result.status === 'matched').length,
+        alreadyFollowed: results.filter(result => result.status === 'already_followed').length,
+        unmatched: results.filter(result => result.status === 'unmatched').length,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error importing OPML:', error);
+    return NextResponse.json(
+      { error: 'Failed to import subscriptions' },
+      { status: 500 }
+    );
+  }
+}
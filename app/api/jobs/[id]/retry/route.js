@@ -0,0 +1,59 @@
+import { NextResponse, after } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { processDueJobs, retryJob } from '@/lib/jobQueue';
+
+// POST /api/jobs/[id]/retry - Re-queue a failed job on one of the current user's podcasts
+export async function POST(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const job = await prisma.job.findUnique({
+      where: { id },
+      select: {
+        status: true,
+        podcast: {
+          select: { userId: true },
+        },
+      },
+    });
+
+    if (!job || job.podcast?.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'failed') {
+      return NextResponse.json(
+        { error: 'Only failed jobs can be retried' },
+        { status: 409 }
+      );
+    }
+
+    const retried = await retryJob(id);
+
+    after(() => processDueJobs().catch(error => {
+      console.error('Error processing jobs:', error);
+    }));
+
+    return NextResponse.json(retried);
+
+  } catch (error) {
+    console.error('Error retrying job:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { JOB_STATUSES, JOB_TYPES } from '@/lib/jobs';
+
+// GET /api/jobs - List background jobs for the current user's podcasts
+export async function GET(request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const podcastId = searchParams.get('podcastId');
+    const type = searchParams.get('type');
+    const status = searchParams.get('status');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+
+    if (type && !JOB_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `type must be one of: ${JOB_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const where = {
+      podcast: { userId: session.user.id },
+    };
+    if (podcastId) where.podcastId = podcastId;
+    if (type) where.type = type;
+    if (status) where.status = status;
+
+    const jobs = await prisma.job.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        lastError: true,
+        runAt: true,
+        createdAt: true,
+        completedAt: true,
+        podcastId: true,
+      },
+    });
+
+    return NextResponse.json(jobs);
+
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { processDueJobs } from '@/lib/jobQueue';
+import { publishDueEpisodes } from '@/lib/publishing';
+import { expireAbandonedUploads } from '@/lib/uploadSessions';
+import { deleteOldSignals } from '@/lib/sessionSignals';
+
+// Jobs can run for a long time (e.g. transcribing a full episode)
+export const maxDuration = 300;
+
+// GET /api/jobs/run - Release scheduled episodes, process due background jobs, expire abandoned uploads and delete old session signals; called by a cron with CRON_SECRET as a bearer token
+export async function GET(request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const publishedEpisodes = await publishDueEpisodes();
+    const summary = await processDueJobs();
+    const expiredUploads = await expireAbandonedUploads();
+    const deletedSignals = await deleteOldSignals();
+    return NextResponse.json({ ...summary, publishedEpisodes, expiredUploads, deletedSignals });
+
+  } catch (error) {
+    console.error('Error processing jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to process jobs' },
+      { status: 500 }
+    );
+  }
+}
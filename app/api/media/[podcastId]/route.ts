@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { MEDIA_SETTINGS, canAccessPodcast, getRenditionUrl, parseMediaRendition } from '@/lib/media';
+import { getShareLinkStatus, getSharePlayWhere } from '@/lib/shareLinks';
+import { getSignedFileUrl } from '@/lib/storageDrivers';
+
+/**
+ * Whether a share link grants access to an episode, counting a play when it does. Links
+ * with a password are used through POST /api/share/[token], which checks it.
+ */
+const redeemShareLink = async (podcastId: string, token: string | null): Promise<boolean> => {
+  if (!token) return false;
+
+  const link = await prisma.shareLink.findUnique({ where: { token } });
+  if (!link || link.podcastId !== podcastId || link.passwordHash || getShareLinkStatus(link) !== 'active') {
+    return false;
+  }
+
+  const { count } = await prisma.shareLink.updateMany({
+    where: getSharePlayWhere(link),
+    data: { plays: { increment: 1 }, lastPlayedAt: new Date() },
+  });
+  return count > 0;
+};
+
+/**
+ * Redirect to an episode's audio; private and unreleased episodes get a short-lived signed URL.
+ * Besides the owner, holders of a share link to the episode may listen (`share`).
+ * GET /api/media/:podcastId?rendition=original|mp3|aac&share=token
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { podcastId: string } }
+) {
+  try {
+    const { podcastId } = params;
+    const rendition = parseMediaRendition(request.nextUrl.searchParams.get('rendition'));
+
+    if (!rendition) {
+      return NextResponse.json(
+        { error: 'rendition must be original, mp3 or aac' },
+        { status: 400 }
+      );
+    }
+
+    const podcast = await prisma.podcast.findUnique({
+      where: { id: podcastId },
+      select: {
+        id: true,
+        userId: true,
+        isPublic: true,
+        status: true,
+        audioUrl: true,
+        audioMp3Url: true,
+        audioAacUrl: true,
+      },
+    });
+
+    // Private and unreleased episodes are indistinguishable from missing ones to other users
+    const session = podcast && !canAccessPodcast(podcast, null) ? await getServerSession(authOptions) : null;
+    const canListen = podcast && (
+      canAccessPodcast(podcast, session?.user?.id) ||
+      await redeemShareLink(podcast.id, request.nextUrl.searchParams.get('share'))
+    );
+    if (!canListen) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    const url = getRenditionUrl(podcast, rendition);
+    if (!url) {
+      return NextResponse.json(
+        { error: `No ${rendition} audio for this podcast` },
+        { status: 404 }
+      );
+    }
+
+    // Released audio and files kept outside our storage (e.g. imported episodes) have nothing to sign
+    const isReleased = canAccessPodcast(podcast, null);
+    const location = isReleased ? url : await getSignedFileUrl(url, MEDIA_SETTINGS.SIGNED_URL_EXPIRY);
+
+    const response = NextResponse.redirect(new URL(location, request.url), 302);
+    response.headers.set('Cache-Control', isReleased ? 'public, max-age=300' : 'private, no-store');
+    return response;
+  } catch (error) {
+    console.error('Error resolving media URL:', error);
+    return NextResponse.json(
+      { error: 'Failed to load media' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getPubSub } from '@/lib/pubsub';
+import { PublishedMessagingEvent, getUserChannel } from '@/lib/messages';
+import { getUnreadCount, loadMessagingEvent, markAllDelivered, markDelivered } from '@/lib/messageEvents';
+import { createEventStream } from '@/lib/serverSentEvents';
+
+export const dynamic = 'force-dynamic';
+
+// Streams are closed before this and reconnected by the browser
+export const maxDuration = 300;
+
+/**
+ * GET /api/messages/events - Server-Sent Events stream of the current user's new messages,
+ * read and delivery receipts, typing indicators and unread count. Starts with the unread
+ * count; events published while disconnected are not replayed, so clients reload
+ * conversations when they reconnect. Messages count as delivered once streamed.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+
+    return createEventStream({
+      signal: request.signal,
+      subscribe: push => {
+        // New messages are loaded before they are pushed; the queue keeps events in order
+        let queue = Promise.resolve();
+
+        return getPubSub().subscribe(getUserChannel(userId), message => {
+          queue = queue.then(async () => {
+            const event = await loadMessagingEvent(message as PublishedMessagingEvent);
+            if (!event) return;
+
+            push({ event: event.type, data: event });
+
+            if (event.type === 'message' && event.message.senderId !== userId) {
+              markDelivered(event.message.conversationId, userId, new Date(event.message.createdAt))
+                .catch(error => console.error('Error marking message delivered:', error));
+            }
+          }).catch(error => console.error('Error loading message event:', error));
+        });
+      },
+      onOpen: async () => {
+        await markAllDelivered(userId);
+        return [
+          { event: 'unread', data: { type: 'unread', count: await getUnreadCount(userId) } },
+        ];
+      },
+    });
+  } catch (error) {
+    console.error('GET /api/messages/events error:', error);
+    return NextResponse.json({ error: 'Failed to open message events' }, { status: 500 });
+  }
+}
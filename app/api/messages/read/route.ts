@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { markConversationRead } from '@/lib/messageEvents';
+import { findConversationForUser } from '@/lib/conversations';
+
+/**
+ * POST /api/messages/read - Move the current user's read cursor in a conversation to
+ * `messageId`, or to its latest message. Cursors never move back.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const body = await request.json().catch(() => null);
+    const conversationId = body?.conversationId;
+    const messageId = body?.messageId;
+
+    if (typeof conversationId !== 'string' || !conversationId) {
+      return NextResponse.json({ error: 'conversationId is required' }, { status: 400 });
+    }
+
+    if (messageId !== undefined && (typeof messageId !== 'string' || !messageId)) {
+      return NextResponse.json({ error: 'messageId must be a message id' }, { status: 400 });
+    }
+
+    const conversation = await findConversationForUser(conversationId, userId);
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found or access denied' }, { status: 404 });
+    }
+
+    const message = await markConversationRead(
+      conversationId,
+      userId,
+      conversation.participants.map(participant => participant.userId),
+      messageId
+    );
+
+    if (messageId && !message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      lastReadMessageId: message ? message.id : null,
+      lastReadAt: message ? message.createdAt.toISOString() : null
+    });
+  } catch (error) {
+    console.error('POST /api/messages/read error:', error);
+    return NextResponse.json({ error: 'Failed to mark messages as read' }, { status: 500 });
+  }
+}
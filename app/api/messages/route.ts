@@ -2,9 +2,24 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import {
+  CONVERSATION_PARTICIPANTS_INCLUDE,
+  MESSAGE_INCLUDE,
+  MESSAGE_SETTINGS,
+  encodePageCursor,
+  parseAttachment,
+  parseMessageContent,
+  parsePageParams,
+  toMessageSummary,
+  toParticipantSummaries,
+} from '@/lib/messages';
+import { getUnreadCounts, markDelivered, publishNewMessage } from '@/lib/messageEvents';
+import { findConversationForUser, resolveAttachment } from '@/lib/conversations';
 
 /**
- * GET /api/messages - Get all messages from all conversations for the current user
+ * GET /api/messages - A page of the current user's conversations, most recently active
+ * first, with their latest message and unread count; or, with `conversationId`, a page of
+ * that conversation's messages (oldest first, `nextCursor` loads the ones before it)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -21,128 +36,103 @@ export async function GET(request: NextRequest) {
     
     // If conversationId is provided, get messages for that conversation
     if (conversationId) {
+      const { data: page, error } = parsePageParams(searchParams, MESSAGE_SETTINGS.MESSAGE_PAGE_SIZE);
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+      }
+      
       // First, verify that the user is a participant in the conversation
-      const conversation = await prisma.conversation.findFirst({
-        where: {
-          id: conversationId,
-          participants: {
-            some: {
-              id: userId
-            }
-          }
-        },
-        include: {
-          participants: {
-            select: {
-              id: true,
-              name: true,
-              image: true
-            }
-          }
-        }
-      });
+      const conversation = await findConversationForUser(conversationId, userId);
       
       if (!conversation) {
         return NextResponse.json({ error: 'Conversation not found or access denied' }, { status: 404 });
       }
       
-      // Get messages for the conversation
-      const messages = await prisma.message.findMany({
-        where: {
-          conversationId
-        },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              name: true,
-              image: true
-            }
-          }
-        },
-        orderBy: {
-          createdAt: 'asc'
-        }
-      });
-      
-      // Mark unread messages as read
-      await prisma.message.updateMany({
+      // Newest first from the cursor, with one extra to tell whether there are older ones
+      const newestFirst = await prisma.message.findMany({
         where: {
           conversationId,
-          senderId: {
-            not: userId
-          },
-          readAt: null
+          ...(page.cursor && {
+            OR: [
+              { createdAt: { lt: page.cursor.at } },
+              { createdAt: page.cursor.at, id: { lt: page.cursor.id } }
+            ]
+          })
         },
-        data: {
-          readAt: new Date()
-        }
+        include: MESSAGE_INCLUDE,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: page.limit + 1
       });
       
+      const hasMore = newestFirst.length > page.limit;
+      const messages = newestFirst.slice(0, page.limit).reverse();
+      
+      // Fetching doesn't mark anything read (see POST /api/messages/read), but the
+      // latest messages have now reached one of the user's devices
+      if (!page.cursor && messages.length > 0) {
+        await markDelivered(conversationId, userId, messages[messages.length - 1].createdAt);
+      }
+      
       return NextResponse.json({
-        conversation,
-        messages
+        conversation: {
+          ...conversation,
+          participants: toParticipantSummaries(conversation.participants)
+        },
+        messages: messages.map(toMessageSummary),
+        nextCursor: hasMore ? encodePageCursor(messages[0].createdAt, messages[0].id) : null
       });
     }
     
-    // Get all conversations with latest message for the user
+    const { data: page, error } = parsePageParams(searchParams, MESSAGE_SETTINGS.CONVERSATION_PAGE_SIZE);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    
+    // Get a page of conversations with latest message for the user
     const conversations = await prisma.conversation.findMany({
       where: {
         participants: {
           some: {
-            id: userId
+            userId
           }
-        }
+        },
+        ...(page.cursor && {
+          OR: [
+            { lastMessageAt: { lt: page.cursor.at } },
+            { lastMessageAt: page.cursor.at, id: { lt: page.cursor.id } }
+          ]
+        })
       },
       include: {
-        participants: {
-          select: {
-            id: true,
-            name: true,
-            image: true
-          }
-        },
+        ...CONVERSATION_PARTICIPANTS_INCLUDE,
         messages: {
           orderBy: {
             createdAt: 'desc'
           },
           take: 1,
-          include: {
-            sender: {
-              select: {
-                id: true,
-                name: true
-              }
-            }
-          }
+          include: MESSAGE_INCLUDE
         }
       },
-      orderBy: {
-        lastMessageAt: 'desc'
-      }
+      orderBy: [{ lastMessageAt: 'desc' }, { id: 'desc' }],
+      take: page.limit + 1
     });
     
-    // Count unread messages for each conversation
-    const conversationsWithUnreadCount = await Promise.all(
-      conversations.map(async (conversation) => {
-        const unreadCount = await prisma.message.count({
-          where: {
-            conversationId: conversation.id,
-            senderId: {
-              not: userId
-            },
-            readAt: null
-          }
-        });
-        
-        return {
-          ...conversation,
-          unreadCount
-        };
-      })
-    );
+    const hasMore = conversations.length > page.limit;
+    const pageConversations = conversations.slice(0, page.limit);
+    const last = pageConversations[pageConversations.length - 1];
+    
+    // Count unread messages for the whole page at once
+    const unreadCounts = await getUnreadCounts(userId, pageConversations.map(conversation => conversation.id));
     
-    return NextResponse.json(conversationsWithUnreadCount);
+    return NextResponse.json({
+      conversations: pageConversations.map(conversation => ({
+        ...conversation,
+        participants: toParticipantSummaries(conversation.participants),
+        messages: conversation.messages.map(toMessageSummary),
+        unreadCount: unreadCounts[conversation.id] || 0
+      })),
+      nextCursor: hasMore ? encodePageCursor(last.lastMessageAt, last.id) : null
+    });
   } catch (error) {
     console.error('GET /api/messages error:', error);
     return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 });
@@ -150,7 +140,10 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST /api/messages - Send a new message
+ * POST /api/messages - Send a new message, optionally with an `attachment`: a voice note
+ * (`type: 'voice'`, the uploaded recording's `url` and its `duration`), an episode
+ * (`type: 'podcast'`, `podcastId`) or a clip of one (`type: 'clip'`, `podcastId`,
+ * `startTime` and `endTime` in seconds)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -161,11 +154,30 @@ export async function POST(request: NextRequest) {
 
     const userId = session.user.id;
     const body = await request.json();
-    const { content, conversationId, recipientId } = body;
+    const { conversationId, recipientId } = body;
     
-    if (!content || (!conversationId && !recipientId)) {
+    if (!conversationId && !recipientId) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
+
+    let attachment;
+    if (body.attachment != null) {
+      const { data: input, error } = parseAttachment(body.attachment);
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+      }
+      
+      const resolved = await resolveAttachment(input, userId);
+      if (resolved.error) {
+        return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+      }
+      attachment = { create: resolved.data };
+    }
+
+    const { data: content, error } = parseMessageContent(body.content, Boolean(attachment));
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
     
     // If sending to an existing conversation
     if (conversationId) {
@@ -175,7 +187,14 @@ export async function POST(request: NextRequest) {
           id: conversationId,
           participants: {
             some: {
-              id: userId
+              userId
+            }
+          }
+        },
+        include: {
+          participants: {
+            select: {
+              userId: true
             }
           }
         }
@@ -190,17 +209,10 @@ export async function POST(request: NextRequest) {
         data: {
           content,
           senderId: userId,
-          conversationId
+          conversationId,
+          attachment
         },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              name: true,
-              image: true
-            }
-          }
-        }
+        include: MESSAGE_INCLUDE
       });
       
       // Update the conversation's lastMessageAt
@@ -212,12 +224,21 @@ export async function POST(request: NextRequest) {
           lastMessageAt: new Date()
         }
       });
+
+      await publishNewMessage(
+        toMessageSummary(message),
+        conversationExists.participants.map(participant => participant.userId)
+      );
       
-      return NextResponse.json(message);
+      return NextResponse.json(toMessageSummary(message));
     }
     
     // If starting a new conversation
     if (recipientId) {
+      if (recipientId === userId) {
+        return NextResponse.json({ error: 'You cannot message yourself' }, { status: 400 });
+      }
+      
       // Check if the recipient exists
       const recipient = await prisma.user.findUnique({
         where: {
@@ -229,35 +250,38 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'Recipient not found' }, { status: 404 });
       }
       
-      // Check if a conversation already exists between these users
+      // Check if a 1:1 conversation already exists between these users: one that has
+      // both of them and nobody else (groups they are both in don't count)
       const existingConversation = await prisma.conversation.findFirst({
         where: {
+          isGroup: false,
           AND: [
             {
               participants: {
                 some: {
-                  id: userId
+                  userId
                 }
               }
             },
             {
               participants: {
                 some: {
-                  id: recipientId
+                  userId: recipientId
+                }
+              }
+            },
+            {
+              participants: {
+                every: {
+                  userId: {
+                    in: [userId, recipientId]
+                  }
                 }
               }
             }
           ]
         },
-        include: {
-          participants: {
-            select: {
-              id: true,
-              name: true,
-              image: true
-            }
-          }
-        }
+        include: CONVERSATION_PARTICIPANTS_INCLUDE
       });
       
       if (existingConversation) {
@@ -266,17 +290,10 @@ export async function POST(request: NextRequest) {
           data: {
             content,
             senderId: userId,
-            conversationId: existingConversation.id
+            conversationId: existingConversation.id,
+            attachment
           },
-          include: {
-            sender: {
-              select: {
-                id: true,
-                name: true,
-                image: true
-              }
-            }
-          }
+          include: MESSAGE_INCLUDE
         });
         
         // Update the conversation's lastMessageAt
@@ -289,10 +306,16 @@ export async function POST(request: NextRequest) {
           }
         });
         
+        await publishNewMessage(
+          toMessageSummary(message),
+          existingConversation.participants.map(participant => participant.userId)
+        );
+        
         // Return the existing conversation with the new message
         return NextResponse.json({
           ...existingConversation,
-          messages: [message]
+          participants: toParticipantSummaries(existingConversation.participants),
+          messages: [toMessageSummary(message)]
         });
       }
       
@@ -300,39 +323,32 @@ export async function POST(request: NextRequest) {
       const newConversation = await prisma.conversation.create({
         data: {
           participants: {
-            connect: [{ id: userId }, { id: recipientId }]
+            create: [{ userId }, { userId: recipientId }]
           },
           lastMessageAt: new Date(),
           messages: {
             create: {
               content,
-              senderId: userId
+              senderId: userId,
+              attachment
             }
           }
         },
         include: {
-          participants: {
-            select: {
-              id: true,
-              name: true,
-              image: true
-            }
-          },
+          ...CONVERSATION_PARTICIPANTS_INCLUDE,
           messages: {
-            include: {
-              sender: {
-                select: {
-                  id: true,
-                  name: true,
-                  image: true
-                }
-              }
-            }
+            include: MESSAGE_INCLUDE
           }
         }
       });
+
+      await publishNewMessage(toMessageSummary(newConversation.messages[0]), [userId, recipientId]);
       
-      return NextResponse.json(newConversation);
+      return NextResponse.json({
+        ...newConversation,
+        participants: toParticipantSummaries(newConversation.participants),
+        messages: newConversation.messages.map(toMessageSummary)
+      });
     }
     
     return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
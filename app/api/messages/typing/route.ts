@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { publishTyping } from '@/lib/messageEvents';
+import { findConversationForUser } from '@/lib/conversations';
+
+/**
+ * POST /api/messages/typing - Show (`isTyping: true`) or hide the current user's typing
+ * indicator to the other members of a conversation. Clients repeat it while the user
+ * keeps typing and drop indicators that aren't repeated.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const body = await request.json().catch(() => null);
+    const conversationId = body?.conversationId;
+
+    if (typeof conversationId !== 'string' || !conversationId) {
+      return NextResponse.json({ error: 'conversationId is required' }, { status: 400 });
+    }
+
+    if (typeof body.isTyping !== 'boolean') {
+      return NextResponse.json({ error: 'isTyping must be true or false' }, { status: 400 });
+    }
+
+    const conversation = await findConversationForUser(conversationId, userId);
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found or access denied' }, { status: 404 });
+    }
+
+    const actor = conversation.participants.find(participant => participant.userId === userId);
+
+    await publishTyping(
+      conversationId,
+      { id: userId, name: actor.user.name },
+      body.isTyping,
+      conversation.participants.map(participant => participant.userId)
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('POST /api/messages/typing error:', error);
+    return NextResponse.json({ error: 'Failed to send typing indicator' }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import prisma from '@/lib/prisma';
+import { getUnreadCount } from '@/lib/messageEvents';
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,21 +14,7 @@ export async function GET(request: NextRequest) {
     const userId = session.user.id;
 
     // Count unread messages across all conversations
-    const unreadCount = await prisma.message.count({
-      where: {
-        conversation: {
-          participants: {
-            some: {
-              id: userId,
-            },
-          },
-        },
-        senderId: {
-          not: userId,
-        },
-        readAt: null,
-      },
-    });
+    const unreadCount = await getUnreadCount(userId);
 
     return NextResponse.json({ count: unreadCount });
   } catch (error) {
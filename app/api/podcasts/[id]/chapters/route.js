@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { CHAPTERS_MIME_TYPE, buildJsonChapters, parseChapters } from '@/lib/chapters';
+
+// GET /api/podcasts/[id]/chapters - Get an episode's chapters as Podcasting 2.0 JSON chapters
+export async function GET(request, { params }) {
+  const { id } = params;
+
+  try {
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: {
+        title: true,
+        userId: true,
+        isPublic: true,
+        status: true,
+        chapters: {
+          orderBy: { startTime: 'asc' },
+          select: {
+            startTime: true,
+            title: true,
+            url: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    if (!podcast) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!podcast.isPublic || podcast.status !== 'published') {
+      const session = await getServerSession(authOptions);
+      if (session?.user?.id !== podcast.userId) {
+        return NextResponse.json(
+          { error: 'Podcast not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    return new NextResponse(JSON.stringify(buildJsonChapters(podcast.chapters, podcast.title)), {
+      status: 200,
+      headers: {
+        'Content-Type': `${CHAPTERS_MIME_TYPE}; charset=utf-8`,
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error fetching chapters:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch chapters' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/podcasts/[id]/chapters - Replace an episode's chapters
+export async function PUT(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: { userId: true, title: true, duration: true },
+    });
+
+    if (!podcast) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    if (podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You can only edit chapters of your own podcasts' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { chapters, error } = parseChapters(Array.isArray(body) ? body : body?.chapters, podcast.duration);
+
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    // Updating through the podcast bumps its updatedAt, so feed caches pick up the change
+    await prisma.podcast.update({
+      where: { id },
+      data: {
+        chapters: {
+          deleteMany: {},
+          create: chapters,
+        },
+      },
+    });
+
+    return NextResponse.json(buildJsonChapters(chapters, podcast.title));
+
+  } catch (error) {
+    console.error('Error updating chapters:', error);
+    return NextResponse.json(
+      { error: 'Failed to update chapters' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse, after } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { enqueueJob, processDueJobs } from '@/lib/jobQueue';
+
+// POST /api/podcasts/[id]/edit/render - Queue rendering the saved edit into the draft's audio
+export async function POST(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: { userId: true, status: true, edl: true, edlUpdatedAt: true },
+    });
+
+    if (!podcast || podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    if (podcast.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Only drafts can be rendered' },
+        { status: 409 }
+      );
+    }
+
+    if (!podcast.edl || !podcast.edlUpdatedAt) {
+      return NextResponse.json(
+        { error: 'Save the edit before rendering it' },
+        { status: 400 }
+      );
+    }
+
+    // The job renders this exact version, even if the edit changes while it waits
+    const job = await enqueueJob('edit-render', {
+      podcastId: id,
+      payload: { edl: podcast.edl, edlUpdatedAt: podcast.edlUpdatedAt.toISOString() },
+    });
+
+    after(() => processDueJobs().catch(error => {
+      console.error('Error processing jobs:', error);
+    }));
+
+    return NextResponse.json(job, { status: 202 });
+
+  } catch (error) {
+    console.error('Error queueing edit render:', error);
+    return NextResponse.json(
+      { error: 'Failed to render edit' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { getDefaultEdl, needsRender, parseEdl } from '@/lib/edl';
+
+const toEditState = (podcast) => ({
+  edl: podcast.edl || getDefaultEdl(podcast.takes),
+  edlUpdatedAt: podcast.edlUpdatedAt,
+  edlRenderedAt: podcast.edlRenderedAt,
+  needsRender: needsRender(podcast),
+});
+
+const findOwnDraft = (id) =>
+  prisma.podcast.findUnique({
+    where: { id },
+    select: {
+      userId: true,
+      status: true,
+      edl: true,
+      edlUpdatedAt: true,
+      edlRenderedAt: true,
+      takes: {
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, kind: true, duration: true },
+      },
+    },
+  });
+
+// GET /api/podcasts/[id]/edit - Get a draft's edit decision list, or the default edit of its takes
+export async function GET(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const podcast = await findOwnDraft(id);
+
+    if (!podcast || podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toEditState(podcast));
+
+  } catch (error) {
+    console.error('Error fetching edit:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch edit' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/podcasts/[id]/edit - Save a draft's edit decision list; the takes are never changed
+export async function PUT(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const podcast = await findOwnDraft(id);
+
+    if (!podcast || podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    if (podcast.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Only drafts can be edited' },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { data, error } = parseEdl(body, podcast.takes);
+
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.podcast.update({
+      where: { id },
+      data: {
+        edl: data,
+        edlUpdatedAt: new Date(),
+      },
+      select: {
+        edl: true,
+        edlUpdatedAt: true,
+        edlRenderedAt: true,
+        takes: { select: { id: true, kind: true, duration: true } },
+      },
+    });
+
+    return NextResponse.json(toEditState(updated));
+
+  } catch (error) {
+    console.error('Error saving edit:', error);
+    return NextResponse.json(
+      { error: 'Failed to save edit' },
+      { status: 500 }
+    );
+  }
+}
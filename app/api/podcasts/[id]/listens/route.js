@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { createHash } from 'crypto';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { canAccessPodcast } from '@/lib/media';
+import {
+  INITIAL_LISTEN_PROGRESS,
+  LISTEN_EVENTS,
+  LISTEN_SETTINGS,
+  applyListenEvent,
+  qualifiesAsPlay,
+} from '@/lib/listens';
+
+// Anonymous listeners are identified by a salted hash so raw IPs are never stored
+const hashListener = (request) => {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  const ip = forwardedFor?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+  const userAgent = request.headers.get('user-agent') || '';
+  const salt = process.env.LISTEN_HASH_SALT || process.env.NEXTAUTH_SECRET || '';
+
+  return createHash('sha256').update(`${salt}:${ip}:${userAgent}`).digest('hex');
+};
+
+// POST /api/podcasts/[id]/listens - Record a player start/progress/complete event
+export async function POST(request, { params }) {
+  const { id } = params;
+
+  try {
+    // Beacons sent on page unload arrive as text/plain, so parse the body manually
+    const body = await request.text()
+      .then(text => JSON.parse(text))
+      .catch(() => null);
+
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { event, sessionId, position } = body;
+
+    if (!LISTEN_EVENTS.includes(event)) {
+      return NextResponse.json(
+        { error: `event must be one of: ${LISTEN_EVENTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!sessionId || typeof sessionId !== 'string' || sessionId.length > 64) {
+      return NextResponse.json({ error: 'A valid sessionId is required' }, { status: 400 });
+    }
+
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: { id: true, userId: true, isPublic: true, status: true, duration: true },
+    });
+
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id || null;
+
+    // Plays are only recorded for episodes the listener may hear
+    if (!podcast || !canAccessPodcast(podcast, userId)) {
+      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+    }
+
+    let existing = await prisma.listen.findUnique({
+      where: { sessionId },
+    });
+    let listen = null;
+
+    if (!existing) {
+      try {
+        listen = await prisma.listen.create({
+          data: {
+            ...applyListenEvent(INITIAL_LISTEN_PROGRESS, event, Number(position), podcast.duration),
+            sessionId,
+            podcastId: id,
+            userId,
+            listenerHash: userId ? `user:${userId}` : hashListener(request),
+          },
+        });
+      } catch (error) {
+        // A concurrent first event of the session created it; apply this one on top
+        if (error?.code !== 'P2002') throw error;
+        existing = await prisma.listen.findUnique({
+          where: { sessionId },
+        });
+      }
+    }
+
+    if (existing) {
+      if (existing.podcastId !== id) {
+        return NextResponse.json({ error: 'Session belongs to another podcast' }, { status: 400 });
+      }
+
+      listen = await prisma.listen.update({
+        where: { id: existing.id },
+        data: applyListenEvent(existing, event, Number(position), podcast.duration),
+      });
+    }
+
+    let counted = listen.counted;
+
+    if (!counted && qualifiesAsPlay(listen, podcast.duration)) {
+      counted = await prisma.$transaction(async tx => {
+        // Concurrent sessions of the same listener take turns, so only one of them is counted
+        await tx.$queryRaw`SELECT 1 FROM pg_advisory_xact_lock(hashtext(${`listen:${id}:${listen.listenerHash}`}))`;
+
+        // Only one play per listener per episode inside the de-duplication window
+        const duplicate = await tx.listen.findFirst({
+          where: {
+            podcastId: id,
+            listenerHash: listen.listenerHash,
+            counted: true,
+            createdAt: { gte: new Date(Date.now() - LISTEN_SETTINGS.DEDUPE_WINDOW_MS) },
+            id: { not: listen.id },
+          },
+          select: { id: true },
+        });
+
+        if (duplicate) return false;
+
+        // Concurrent events of this session count it once
+        await tx.listen.updateMany({
+          where: { id: listen.id, counted: false },
+          data: { counted: true },
+        });
+        return true;
+      });
+    }
+
+    return NextResponse.json({ counted });
+  } catch (error) {
+    console.error('Error recording listen:', error);
+    return NextResponse.json({ error: 'Failed to record listen' }, { status: 500 });
+  }
+}
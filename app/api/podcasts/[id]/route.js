@@ -1,7 +1,12 @@
-import { NextResponse } from 'next/server';
+import { NextResponse, after } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
 import { authOptions } from '@/lib/auth';
+import { parseEpisodeFields, parsePublishFields } from '@/lib/episodes';
+import { canAccessPodcast, withMediaUrls } from '@/lib/media';
+import { notifyFollowersOfEpisode } from '@/lib/publishing';
+import { enqueueEpisodeJobs, processDueJobs } from '@/lib/jobQueue';
 
 // GET /api/podcasts/[id] - Get a single podcast by ID
 export async function GET(request, { params }) {
@@ -18,6 +23,7 @@ export async function GET(request, { params }) {
             image: true,
           },
         },
+        show: true,
         comments: {
           include: {
             user: {
@@ -34,13 +40,17 @@ export async function GET(request, { params }) {
           select: {
             likes: true,
             comments: true,
+            listens: { where: { counted: true } },
           },
         },
         tags: true,
       },
     });
     
-    if (!podcast) {
+    const session = await getServerSession(authOptions);
+    
+    // Private, draft and scheduled podcasts are only visible to their owner
+    if (!podcast || !canAccessPodcast(podcast, session?.user?.id)) {
       return NextResponse.json(
         { error: 'Podcast not found' },
         { status: 404 }
@@ -49,7 +59,6 @@ export async function GET(request, { params }) {
     
     // Check if the current user has liked this podcast
     let userLiked = false;
-    const session = await getServerSession(authOptions);
     if (session?.user) {
       const like = await prisma.like.findUnique({
         where: {
@@ -62,7 +71,7 @@ export async function GET(request, { params }) {
       userLiked = !!like;
     }
     
-    return NextResponse.json({ ...podcast, userLiked });
+    return NextResponse.json({ ...withMediaUrls(podcast), listens: podcast._count.listens, userLiked });
     
   } catch (error) {
     console.error('Error fetching podcast:', error);
@@ -89,7 +98,7 @@ export async function PATCH(request, { params }) {
     // First check if the podcast exists and belongs to the user
     const podcast = await prisma.podcast.findUnique({
       where: { id },
-      select: { userId: true },
+      select: { userId: true, status: true, title: true, audioUrl: true },
     });
     
     if (!podcast) {
@@ -109,15 +118,92 @@ export async function PATCH(request, { params }) {
     
     // Get request body
     const body = await request.json();
-    const { title, description, coverImage, isPublic, tags } = body;
+    const { title, description, coverImage, isPublic, tags, audioUrl } = body;
+    const { data: episodeFields, error: episodeError } = parseEpisodeFields(body);
+    const { data: publishFields, error: publishError } = parsePublishFields(body);
+    
+    if (episodeError || publishError) {
+      return NextResponse.json(
+        { error: episodeError || publishError },
+        { status: 400 }
+      );
+    }
+    
+    // Audio can be attached, re-recorded or removed while the episode is a draft
+    const isNewAudio = audioUrl !== undefined && audioUrl !== podcast.audioUrl;
+    if (isNewAudio && podcast.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Audio can only be replaced on drafts' },
+        { status: 400 }
+      );
+    }
+    
+    if (isNewAudio && audioUrl !== '' && !(typeof audioUrl === 'string' && audioUrl.startsWith('http'))) {
+      return NextResponse.json(
+        { error: 'Invalid audio URL format. Must be a valid URL.' },
+        { status: 400 }
+      );
+    }
+    
+    if (publishFields && publishFields.status !== 'draft') {
+      if (!(title !== undefined ? title : podcast.title)) {
+        return NextResponse.json(
+          { error: 'Add a title before publishing' },
+          { status: 400 }
+        );
+      }
+      
+      if (!(isNewAudio ? audioUrl : podcast.audioUrl)) {
+        return NextResponse.json(
+          { error: 'Add audio before publishing' },
+          { status: 400 }
+        );
+      }
+    }
+    
+    // Moving an episode is only allowed into one of the owner's shows
+    if (episodeFields.showId) {
+      const show = await prisma.show.findUnique({
+        where: { id: episodeFields.showId },
+        select: { userId: true },
+      });
+      
+      if (!show || show.userId !== session.user.id) {
+        return NextResponse.json(
+          { error: 'Show not found' },
+          { status: 404 }
+        );
+      }
+    }
     
     // Prepare update data
-    const updateData = {};
+    const updateData = { ...episodeFields };
     if (title !== undefined) updateData.title = title;
     if (description !== undefined) updateData.description = description;
     if (coverImage !== undefined) updateData.coverImage = coverImage;
     if (isPublic !== undefined) updateData.isPublic = isPublic;
     
+    // Results of processing the previous audio no longer apply
+    if (isNewAudio) {
+      Object.assign(updateData, {
+        audioUrl,
+        duration: null,
+        audioMp3Url: null,
+        audioAacUrl: null,
+        bitrate: null,
+        codec: null,
+        loudness: null,
+        processedAt: null,
+        waveform: Prisma.DbNull,
+      });
+    }
+    
+    // Re-publishing a released episode keeps its original release time
+    const isRelease = publishFields?.status === 'published' && podcast.status !== 'published';
+    if (publishFields && (publishFields.status !== 'published' || isRelease)) {
+      Object.assign(updateData, publishFields);
+    }
+    
     // Handle tags update if provided
     if (tags) {
       // First disconnect all existing tags
@@ -149,11 +235,37 @@ export async function PATCH(request, { params }) {
             image: true,
           },
         },
+        show: {
+          select: {
+            id: true,
+            title: true,
+            artwork: true,
+          },
+        },
         tags: true,
       },
     });
     
-    return NextResponse.json(updatedPodcast);
+    if (isNewAudio && audioUrl) {
+      try {
+        const jobs = await enqueueEpisodeJobs(id);
+        if (jobs.length > 0) {
+          after(() => processDueJobs().catch(error => {
+            console.error('Error processing jobs:', error);
+          }));
+        }
+      } catch (error) {
+        console.error('Error queueing background jobs:', error);
+      }
+    }
+    
+    if (isRelease) {
+      after(() => notifyFollowersOfEpisode(updatedPodcast).catch(error => {
+        console.error('Error notifying followers:', error);
+      }));
+    }
+    
+    return NextResponse.json(withMediaUrls(updatedPodcast));
     
   } catch (error) {
     console.error('Error updating podcast:', error);
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { toShareLinkSummary } from '@/lib/shareLinks';
+
+// DELETE /api/podcasts/[id]/share-links/[linkId] - Revoke a share link; it stays listed with its play count
+export async function DELETE(request, { params }) {
+  const { id, linkId } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const link = await prisma.shareLink.findUnique({
+      where: { id: linkId },
+      include: { podcast: { select: { userId: true } } },
+    });
+
+    if (!link || link.podcastId !== id || link.podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Share link not found' },
+        { status: 404 }
+      );
+    }
+
+    const revoked = link.revokedAt
+      ? link
+      : await prisma.shareLink.update({
+        where: { id: linkId },
+        data: { revokedAt: new Date() },
+      });
+
+    return NextResponse.json(toShareLinkSummary(revoked));
+
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
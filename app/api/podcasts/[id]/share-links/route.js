@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import bcrypt from 'bcrypt';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { generateShareToken, parseShareLinkRequest, toShareLinkSummary } from '@/lib/shareLinks';
+
+// GET /api/podcasts/[id]/share-links - List an episode's share links (owner only)
+export async function GET(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: {
+        userId: true,
+        shareLinks: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+
+    if (!podcast || podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    const now = new Date();
+    return NextResponse.json(podcast.shareLinks.map(link => toShareLinkSummary(link, now)));
+
+  } catch (error) {
+    console.error('Error fetching share links:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch share links' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/podcasts/[id]/share-links - Create a share link with an optional expiry, play limit and password
+export async function POST(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    if (!podcast || podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { data, error } = parseShareLinkRequest(body);
+
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const link = await prisma.shareLink.create({
+      data: {
+        token: generateShareToken(),
+        label: data.label,
+        passwordHash: data.password ? await bcrypt.hash(data.password, 12) : null,
+        expiresAt: data.expiresAt,
+        maxPlays: data.maxPlays,
+        podcastId: id,
+      },
+    });
+
+    return NextResponse.json(toShareLinkSummary(link), { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { EDL_SETTINGS, parseTakeFields, toTakeSummary } from '@/lib/edl';
+import { getSignedFileUrl } from '@/lib/storageDrivers';
+
+const findOwnTake = async (id, takeId, userId) => {
+  const take = await prisma.take.findUnique({
+    where: { id: takeId },
+    include: { podcast: { select: { userId: true, status: true, edl: true } } },
+  });
+
+  return take && take.podcastId === id && take.podcast.userId === userId ? take : null;
+};
+
+// PATCH /api/podcasts/[id]/takes/[takeId] - Rename a take
+export async function PATCH(request, { params }) {
+  const { id, takeId } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const take = await findOwnTake(id, takeId, session.user.id);
+
+    if (!take) {
+      return NextResponse.json(
+        { error: 'Take not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { data, error } = parseTakeFields(body, true);
+
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.take.update({
+      where: { id: takeId },
+      data,
+    });
+
+    return NextResponse.json(
+      toTakeSummary(updated, await getSignedFileUrl(updated.url, EDL_SETTINGS.TAKE_URL_EXPIRY))
+    );
+
+  } catch (error) {
+    console.error('Error updating take:', error);
+    return NextResponse.json(
+      { error: 'Failed to update take' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/podcasts/[id]/takes/[takeId] - Delete a take that the saved edit no longer uses
+export async function DELETE(request, { params }) {
+  const { id, takeId } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const take = await findOwnTake(id, takeId, session.user.id);
+
+    if (!take) {
+      return NextResponse.json(
+        { error: 'Take not found' },
+        { status: 404 }
+      );
+    }
+
+    if (take.podcast.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Takes can only be removed from drafts' },
+        { status: 409 }
+      );
+    }
+
+    const edl = take.podcast.edl;
+    const beds = edl ? [edl.intro, edl.outro].filter(Boolean) : [];
+    if (edl && [...edl.clips, ...beds].some(clip => clip.takeId === takeId)) {
+      return NextResponse.json(
+        { error: 'This take is used in the edit; remove it from the edit first' },
+        { status: 409 }
+      );
+    }
+
+    await prisma.take.delete({ where: { id: takeId } });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting take:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete take' },
+      { status: 500 }
+    );
+  }
+}
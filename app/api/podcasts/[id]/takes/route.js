@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { EDL_SETTINGS, parseTakeFields, toTakeSummary } from '@/lib/edl';
+import { getSignedFileUrl } from '@/lib/storageDrivers';
+
+// Takes are only shown to their owner, who may keep the bucket private
+const withSignedUrl = async (take) =>
+  toTakeSummary(take, await getSignedFileUrl(take.url, EDL_SETTINGS.TAKE_URL_EXPIRY));
+
+// GET /api/podcasts/[id]/takes - List a draft's recorded takes and music beds
+export async function GET(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: {
+        userId: true,
+        takes: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!podcast || podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await Promise.all(podcast.takes.map(withSignedUrl)));
+
+  } catch (error) {
+    console.error('Error fetching takes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch takes' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/podcasts/[id]/takes - Add an uploaded file to a draft as a take or music bed
+export async function POST(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: {
+        userId: true,
+        status: true,
+        _count: { select: { takes: true } },
+      },
+    });
+
+    if (!podcast || podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    if (podcast.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Takes can only be added to drafts' },
+        { status: 409 }
+      );
+    }
+
+    if (podcast._count.takes >= EDL_SETTINGS.MAX_TAKES) {
+      return NextResponse.json(
+        { error: `A draft may have at most ${EDL_SETTINGS.MAX_TAKES} takes` },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { data, error } = parseTakeFields(body);
+
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    // Only files the creator has uploaded themselves can become takes
+    const upload = typeof body.url === 'string'
+      ? await prisma.upload.findFirst({
+        where: {
+          url: body.url,
+          userId: session.user.id,
+          folder: 'podcast-audio',
+          status: 'completed',
+        },
+        select: { url: true },
+      })
+      : null;
+
+    if (!upload) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    const take = await prisma.take.create({
+      data: {
+        ...data,
+        url: upload.url,
+        podcastId: id,
+      },
+    });
+
+    return NextResponse.json(await withSignedUrl(take), { status: 201 });
+
+  } catch (error) {
+    console.error('Error adding take:', error);
+    return NextResponse.json(
+      { error: 'Failed to add take' },
+      { status: 500 }
+    );
+  }
+}
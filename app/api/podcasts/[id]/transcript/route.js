@@ -0,0 +1,220 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import {
+  TRANSCRIPT_FORMATS,
+  TRANSCRIPT_SETTINGS,
+  detectTranscriptFormat,
+  parseTranscript,
+} from '@/lib/transcripts';
+import { replaceTranscript } from '@/lib/transcriptStore';
+
+// GET /api/podcasts/[id]/transcript - Get an episode's transcript segments
+export async function GET(request, { params }) {
+  const { id } = params;
+
+  try {
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: { userId: true, isPublic: true, status: true },
+    });
+
+    if (!podcast) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!podcast.isPublic || podcast.status !== 'published') {
+      const session = await getServerSession(authOptions);
+      if (session?.user?.id !== podcast.userId) {
+        return NextResponse.json(
+          { error: 'Podcast not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const transcript = await prisma.transcript.findUnique({
+      where: { podcastId: id },
+      include: {
+        segments: {
+          orderBy: { startTime: 'asc' },
+          select: {
+            id: true,
+            startTime: true,
+            endTime: true,
+            text: true,
+            speaker: true,
+          },
+        },
+      },
+    });
+
+    if (!transcript) {
+      return NextResponse.json(
+        { error: 'Transcript not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(transcript);
+
+  } catch (error) {
+    console.error('Error fetching transcript:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transcript' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/podcasts/[id]/transcript - Upload a WebVTT, SRT or JSON transcript, replacing any existing one
+export async function POST(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    if (!podcast) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    if (podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You can only add transcripts to your own podcasts' },
+        { status: 403 }
+      );
+    }
+
+    // Accept either a multipart upload ("file" field) or the raw transcript as the body
+    const { searchParams } = new URL(request.url);
+    const contentType = request.headers.get('content-type') || '';
+    let content;
+    let fileName = null;
+    let format = searchParams.get('format');
+    let language = searchParams.get('language');
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+      if (file && typeof file !== 'string') {
+        content = await file.text();
+        fileName = file.name;
+      } else {
+        content = file;
+      }
+      format = formData.get('format') || format;
+      language = formData.get('language') || language;
+    } else {
+      content = await request.text();
+    }
+
+    if (!content) {
+      return NextResponse.json(
+        { error: 'No transcript provided' },
+        { status: 400 }
+      );
+    }
+
+    if (content.length > TRANSCRIPT_SETTINGS.MAX_BYTES) {
+      return NextResponse.json(
+        { error: 'Transcript file is too large' },
+        { status: 413 }
+      );
+    }
+
+    format = format || detectTranscriptFormat(content, fileName, contentType);
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Transcript format must be one of: ${TRANSCRIPT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let segments;
+    try {
+      segments = parseTranscript(content, format);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    const transcript = await replaceTranscript(id, { format, language, segments });
+
+    return NextResponse.json({
+      ...transcript,
+      segmentCount: segments.length,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error uploading transcript:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload transcript' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/podcasts/[id]/transcript - Remove an episode's transcript
+export async function DELETE(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const podcast = await prisma.podcast.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    if (!podcast) {
+      return NextResponse.json(
+        { error: 'Podcast not found' },
+        { status: 404 }
+      );
+    }
+
+    if (podcast.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You can only remove transcripts from your own podcasts' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.transcript.deleteMany({ where: { podcastId: id } });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting transcript:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete transcript' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,11 @@
-import { NextResponse } from 'next/server';
+import { NextResponse, after } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import prisma from '@/lib/prisma';
 import { authOptions } from '@/lib/auth';
+import { parseEpisodeFields, parsePublishFields } from '@/lib/episodes';
+import { enqueueEpisodeJobs, processDueJobs } from '@/lib/jobQueue';
+import { PUBLISHED_PODCASTS_WHERE, getVisiblePodcastsWhere, withMediaUrls } from '@/lib/media';
+import { notifyFollowersOfEpisode } from '@/lib/publishing';
 
 // GET /api/podcasts - Get podcasts with optional filters
 export async function GET(request) {
@@ -9,15 +13,19 @@ export async function GET(request) {
     const { searchParams } = new URL(request.url);
     const isPublic = searchParams.get('isPublic');
     const tagId = searchParams.get('tagId');
+    const showId = searchParams.get('showId');
     const query = searchParams.get('q');
     const limit = parseInt(searchParams.get('limit') || '20', 10);
     
     // Build the where clause for the query
     const where = {};
     
-    // Filter by public/private
+    // Filter by public/private; other users' private and unreleased podcasts are never listed
     if (isPublic === 'true') {
-      where.isPublic = true;
+      Object.assign(where, PUBLISHED_PODCASTS_WHERE);
+    } else {
+      const session = await getServerSession(authOptions);
+      where.AND = [getVisiblePodcastsWhere(session?.user?.id)];
     }
     
     // Filter by tag
@@ -29,6 +37,11 @@ export async function GET(request) {
       };
     }
     
+    // Filter by show
+    if (showId) {
+      where.showId = showId;
+    }
+    
     // Filter by search query (title or description)
     if (query) {
       where.OR = [
@@ -38,9 +51,10 @@ export async function GET(request) {
     }
     
     // Get podcasts with pagination
+    // Newest releases first; the owner's drafts (no release time) come before them
     const podcasts = await prisma.podcast.findMany({
       where,
-      orderBy: { createdAt: 'desc' },
+      orderBy: [{ publishAt: 'desc' }, { createdAt: 'desc' }],
       take: limit,
       include: {
         user: {
@@ -50,12 +64,20 @@ export async function GET(request) {
             image: true,
           },
         },
+        show: {
+          select: {
+            id: true,
+            title: true,
+            artwork: true,
+          },
+        },
         likes: {
           select: { id: true },
         },
         _count: {
           select: {
             comments: true,
+            listens: { where: { counted: true } },
           },
         },
         tags: {
@@ -69,9 +91,10 @@ export async function GET(request) {
     
     // Format the response
     const formattedPodcasts = podcasts.map(podcast => ({
-      ...podcast,
+      ...withMediaUrls(podcast),
       likes: podcast.likes.length,
       comments: podcast._count.comments,
+      listens: podcast._count.listens,
       createdAt: podcast.createdAt.toISOString(),
       updatedAt: podcast.updatedAt.toISOString(),
     }));
@@ -103,7 +126,13 @@ export async function POST(request) {
       return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
     }
     
-    const { title, description, audioUrl, coverImage, duration, isPublic = true, tags = [] } = body;
+    const { description, audioUrl, coverImage, duration, isPublic = true, tags = [] } = body;
+    const { data: episodeFields, error: episodeError } = parseEpisodeFields(body);
+    const { data: publishFields, error: publishError } = parsePublishFields(body);
+    
+    // Drafts are saved as soon as the creator starts, before there is a title or audio
+    const isDraft = publishFields?.status === 'draft';
+    const title = typeof body.title === 'string' ? body.title : '';
     
     console.log('Creating podcast with data:', {
       title,
@@ -113,34 +142,54 @@ export async function POST(request) {
       duration,
       isPublic,
       userId,
+      showId: episodeFields.showId,
       tagsCount: tags?.length || 0
     });
     
     // Validate required fields
-    if (!title) {
+    if (!title && !isDraft) {
       return NextResponse.json({ error: 'Title is required' }, { status: 400 });
     }
     
-    if (!audioUrl) {
+    if (!audioUrl && !isDraft) {
       return NextResponse.json({ error: 'Audio URL is required' }, { status: 400 });
     }
     
-    if (!audioUrl.startsWith('http')) {
+    if (audioUrl && !audioUrl.startsWith('http')) {
       return NextResponse.json(
         { error: 'Invalid audio URL format. Must be a valid URL.' },
         { status: 400 }
       );
     }
     
+    if (episodeError || publishError) {
+      return NextResponse.json({ error: episodeError || publishError }, { status: 400 });
+    }
+    
+    // Episodes can only be added to the creator's own shows
+    if (episodeFields.showId) {
+      const show = await prisma.show.findUnique({
+        where: { id: episodeFields.showId },
+        select: { userId: true },
+      });
+      
+      if (!show || show.userId !== userId) {
+        return NextResponse.json({ error: 'Show not found' }, { status: 404 });
+      }
+    }
+    
     // Create the podcast
     const podcast = await prisma.podcast.create({
       data: {
         title,
         description: description || '',
-        audioUrl,
+        audioUrl: audioUrl || '',
         coverImage: coverImage || null,
         duration: duration ? Number(duration) : null,
         isPublic: Boolean(isPublic),
+        ...episodeFields,
+        // Episodes are released right away unless saved as a draft or scheduled
+        ...(publishFields || { status: 'published', publishAt: new Date() }),
         userId,
         tags: Array.isArray(tags) && tags.length > 0 ? {
           connectOrCreate: tags.map(tag => ({
@@ -157,16 +206,44 @@ export async function POST(request) {
             image: true,
           },
         },
+        show: {
+          select: {
+            id: true,
+            title: true,
+            artwork: true,
+          },
+        },
         tags: true,
       },
     });
     
     console.log('Podcast created successfully with ID:', podcast.id);
+
+    if (podcast.status === 'published') {
+      after(() => notifyFollowersOfEpisode(podcast).catch(error => {
+        console.error('Error notifying followers:', error);
+      }));
+    }
+
+    // Process and transcribe in the background; a failure to queue shouldn't fail the upload
+    if (podcast.audioUrl) {
+      try {
+        const jobs = await enqueueEpisodeJobs(podcast.id);
+        if (jobs.length > 0) {
+          after(() => processDueJobs().catch(error => {
+            console.error('Error processing jobs:', error);
+          }));
+        }
+      } catch (error) {
+        console.error('Error queueing background jobs:', error);
+      }
+    }
     
     return NextResponse.json({
-      ...podcast,
+      ...withMediaUrls(podcast),
       likes: 0,
       comments: 0,
+      listens: 0,
       createdAt: podcast.createdAt.toISOString(),
       updatedAt: podcast.updatedAt.toISOString(),
     });
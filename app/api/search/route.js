@@ -0,0 +1,156 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { buildSearchFacet, parseSearchRequest } from '@/lib/search';
+
+// Best matching transcript segment of each podcast, used to deep-link into the episode
+const transcriptMoment = (query) => Prisma.sql`
+  LEFT JOIN LATERAL (
+    SELECT s."startTime", s."text",
+           ts_rank_cd(s."searchVector", websearch_to_tsquery('english', ${query})) AS rank
+    FROM "Transcript" tr
+    JOIN "TranscriptSegment" s ON s."transcriptId" = tr."id"
+    WHERE tr."podcastId" = p."id"
+      AND s."searchVector" @@ websearch_to_tsquery('english', ${query})
+    ORDER BY rank DESC, s."startTime" ASC
+    LIMIT 1
+  ) m ON true`;
+
+// Public podcasts whose search document or transcript matches the query, or whose title is a close trigram match
+const searchPodcasts = async (query, limit, offset) => {
+  const [rows, [{ total }]] = await Promise.all([
+    prisma.$queryRaw`
+      SELECT p."id", p."title", p."description", p."coverImage", p."duration", p."createdAt",
+             u."id" AS "userId", u."name" AS "userName", u."image" AS "userImage",
+             (SELECT COUNT(*) FROM "Listen" l WHERE l."podcastId" = p."id" AND l."counted")::int AS listens,
+             m."startTime" AS "momentStart", m."text" AS "momentText",
+             coalesce(ts_rank_cd(p."searchVector", websearch_to_tsquery('english', ${query})), 0)
+               + similarity(p."title", ${query})
+               + coalesce(m."rank", 0) * 0.5 AS rank
+      FROM "Podcast" p
+      JOIN "User" u ON u."id" = p."userId"
+      ${transcriptMoment(query)}
+      WHERE p."isPublic" = true AND p."status" = 'published'
+        AND (p."searchVector" @@ websearch_to_tsquery('english', ${query})
+          OR p."title" % ${query}
+          OR m."startTime" IS NOT NULL)
+      ORDER BY rank DESC, p."publishAt" DESC
+      LIMIT ${limit} OFFSET ${offset}`,
+    prisma.$queryRaw`
+      SELECT COUNT(*)::int AS total
+      FROM "Podcast" p
+      ${transcriptMoment(query)}
+      WHERE p."isPublic" = true AND p."status" = 'published'
+        AND (p."searchVector" @@ websearch_to_tsquery('english', ${query})
+          OR p."title" % ${query}
+          OR m."startTime" IS NOT NULL)`,
+  ]);
+
+  const items = rows.map(row => ({
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    coverImage: row.coverImage,
+    duration: row.duration,
+    createdAt: row.createdAt,
+    listens: row.listens,
+    // Where in the episode the query is discussed, when it matched the transcript
+    moment: row.momentStart !== null
+      ? { startTime: row.momentStart, text: row.momentText }
+      : null,
+    user: {
+      id: row.userId,
+      name: row.userName,
+      image: row.userImage,
+    },
+  }));
+
+  return { items, total };
+};
+
+// Creators matched by name, tolerating typos
+const searchUsers = async (query, limit, offset) => {
+  const [items, [{ total }]] = await Promise.all([
+    prisma.$queryRaw`
+      SELECT u."id", u."name", u."image",
+             (SELECT COUNT(*) FROM "Follow" f WHERE f."followingId" = u."id")::int AS followers,
+             (SELECT COUNT(*) FROM "Podcast" p WHERE p."userId" = u."id" AND p."isPublic" AND p."status" = 'published')::int AS "podcastCount"
+      FROM "User" u
+      WHERE to_tsvector('simple', coalesce(u."name", '')) @@ plainto_tsquery('simple', ${query})
+         OR u."name" % ${query}
+      ORDER BY similarity(u."name", ${query}) DESC, followers DESC
+      LIMIT ${limit} OFFSET ${offset}`,
+    prisma.$queryRaw`
+      SELECT COUNT(*)::int AS total
+      FROM "User" u
+      WHERE to_tsvector('simple', coalesce(u."name", '')) @@ plainto_tsquery('simple', ${query})
+         OR u."name" % ${query}`,
+  ]);
+
+  return { items, total };
+};
+
+// Tags matched by name, with the number of public podcasts using them
+const searchTags = async (query, limit, offset) => {
+  const [items, [{ total }]] = await Promise.all([
+    prisma.$queryRaw`
+      SELECT t."id", t."name", COUNT(p."id")::int AS "podcastCount"
+      FROM "Tag" t
+      LEFT JOIN "_PodcastTags" pt ON pt."B" = t."id"
+      LEFT JOIN "Podcast" p ON p."id" = pt."A" AND p."isPublic" = true AND p."status" = 'published'
+      WHERE to_tsvector('english', t."name") @@ websearch_to_tsquery('english', ${query})
+         OR t."name" % ${query}
+      GROUP BY t."id", t."name"
+      ORDER BY similarity(t."name", ${query}) DESC, "podcastCount" DESC
+      LIMIT ${limit} OFFSET ${offset}`,
+    prisma.$queryRaw`
+      SELECT COUNT(*)::int AS total
+      FROM "Tag" t
+      WHERE to_tsvector('english', t."name") @@ websearch_to_tsquery('english', ${query})
+         OR t."name" % ${query}`,
+  ]);
+
+  return { items, total };
+};
+
+const SEARCHERS = {
+  podcasts: searchPodcasts,
+  users: searchUsers,
+  tags: searchTags,
+};
+
+// GET /api/search - Full-text search across podcasts (including transcripts), users and tags with paginated facets
+export async function GET(request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { request: search, error } = parseSearchRequest(searchParams);
+
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const { query, types, page, limit } = search;
+    const offset = (page - 1) * limit;
+
+    const results = await Promise.all(
+      types.map(type => SEARCHERS[type](query, limit, offset))
+    );
+
+    const response = { query };
+    types.forEach((type, index) => {
+      response[type] = buildSearchFacet(results[index].items, results[index].total, page, limit);
+    });
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error searching:', error);
+    return NextResponse.json(
+      { error: 'Failed to search' },
+      { status: 500 }
+    );
+  }
+}
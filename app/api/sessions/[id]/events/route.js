@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { SESSION_SETTINGS } from '@/lib/recordingSessions';
+import { createEventStream, getLastEventId } from '@/lib/serverSentEvents';
+import {
+  getLatestSignalId,
+  getSignalsAfter,
+  markParticipantGone,
+  markParticipantSeen,
+  toSignalEvent,
+} from '@/lib/sessionSignals';
+
+export const dynamic = 'force-dynamic';
+
+// Streams are closed before this and reconnected by the browser
+export const maxDuration = 300;
+
+// How often an open stream refreshes its participant's presence
+const PRESENCE_REFRESH_MS = SESSION_SETTINGS.PRESENCE_TIMEOUT_MS / 3;
+
+// GET /api/sessions/[id]/events - Server-Sent Events stream of the signals for the current participant
+export async function GET(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const participant = await prisma.sessionParticipant.findUnique({
+      where: { sessionId_userId: { sessionId: id, userId: session.user.id } },
+      select: { id: true },
+    });
+
+    if (!participant) {
+      return NextResponse.json(
+        { error: 'Recording session not found' },
+        { status: 404 }
+      );
+    }
+
+    // A reconnecting browser picks up after the last signal it received
+    let lastSignalId = Number(getLastEventId(request)) || await getLatestSignalId(id);
+    let lastSeenAt = 0;
+
+    const refreshPresence = async () => {
+      if (Date.now() - lastSeenAt < PRESENCE_REFRESH_MS) return;
+      lastSeenAt = Date.now();
+      await markParticipantSeen(id, participant.id);
+    };
+
+    return createEventStream({
+      signal: request.signal,
+      onOpen: async () => {
+        await refreshPresence();
+        return [{ id: lastSignalId, event: 'ready', data: { participantId: participant.id } }];
+      },
+      poll: async () => {
+        await refreshPresence();
+        const signals = await getSignalsAfter(id, participant.id, lastSignalId);
+        if (signals.length > 0) {
+          lastSignalId = signals[signals.length - 1].id;
+        }
+        return signals.map(signal => ({ id: signal.id, event: 'signal', data: toSignalEvent(signal) }));
+      },
+      onClose: async clientLeft => {
+        if (clientLeft) {
+          await markParticipantGone(id, participant.id);
+        }
+      },
+    });
+
+  } catch (error) {
+    console.error('Error opening session events:', error);
+    return NextResponse.json(
+      { error: 'Failed to open session events' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse, after } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { enqueueJob, processDueJobs } from '@/lib/jobQueue';
+
+// POST /api/sessions/[id]/mixdown - Mix the uploaded tracks into a draft episode (host only).
+// The draft is created on the first mixdown; mixing again after late tracks arrive adds a new take.
+export async function POST(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const recordingSession = await prisma.recordingSession.findUnique({
+      where: { id },
+      select: {
+        title: true,
+        status: true,
+        hostId: true,
+        podcastId: true,
+        _count: { select: { participants: { where: { trackUrl: { not: null } } } } },
+      },
+    });
+
+    if (!recordingSession || recordingSession.hostId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Recording session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (recordingSession.status !== 'stopped') {
+      return NextResponse.json(
+        { error: 'Stop the recording before mixing it' },
+        { status: 409 }
+      );
+    }
+
+    if (recordingSession._count.participants === 0) {
+      return NextResponse.json(
+        { error: 'No participant has uploaded a track yet' },
+        { status: 409 }
+      );
+    }
+
+    let podcastId = recordingSession.podcastId;
+    if (!podcastId) {
+      const podcast = await prisma.podcast.create({
+        data: {
+          title: recordingSession.title,
+          description: '',
+          audioUrl: '',
+          isPublic: true,
+          status: 'draft',
+          userId: session.user.id,
+        },
+        select: { id: true },
+      });
+      podcastId = podcast.id;
+
+      await prisma.recordingSession.update({
+        where: { id },
+        data: { podcastId },
+      });
+    }
+
+    const job = await enqueueJob('session-mixdown', {
+      podcastId,
+      payload: { sessionId: id },
+    });
+
+    after(() => processDueJobs().catch(error => {
+      console.error('Error processing jobs:', error);
+    }));
+
+    return NextResponse.json({ podcastId, job }, { status: 202 });
+
+  } catch (error) {
+    console.error('Error queueing session mixdown:', error);
+    return NextResponse.json(
+      { error: 'Failed to mix recording session' },
+      { status: 500 }
+    );
+  }
+}
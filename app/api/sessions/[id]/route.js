@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { SESSION_SUMMARY_INCLUDE, toSessionSummary } from '@/lib/recordingSessions';
+
+// GET /api/sessions/[id] - Get a recording session with its participants' presence (participants only).
+// serverTime lets the browser work out how far its clock is from the server's.
+export async function GET(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const recordingSession = await prisma.recordingSession.findUnique({
+      where: { id },
+      include: SESSION_SUMMARY_INCLUDE,
+    });
+
+    const participant = recordingSession?.participants.find(item => item.userId === session.user.id);
+
+    if (!participant) {
+      return NextResponse.json(
+        { error: 'Recording session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...toSessionSummary(recordingSession, session.user.id),
+      participantId: participant.id,
+      serverTime: Date.now(),
+    });
+
+  } catch (error) {
+    console.error('Error fetching recording session:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recording session' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/sessions/[id] - Delete a recording session (host only); a draft made from it is kept
+export async function DELETE(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const recordingSession = await prisma.recordingSession.findUnique({
+      where: { id },
+      select: { hostId: true },
+    });
+
+    if (!recordingSession || recordingSession.hostId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Recording session not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.recordingSession.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error deleting recording session:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete recording session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { parseRelaySignal } from '@/lib/recordingSessions';
+import { sendSignal } from '@/lib/sessionSignals';
+
+// POST /api/sessions/[id]/signals - Relay a WebRTC offer, answer or ICE candidate to another participant
+export async function POST(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const participants = await prisma.sessionParticipant.findMany({
+      where: { sessionId: id },
+      select: { id: true, userId: true },
+    });
+
+    const sender = participants.find(participant => participant.userId === session.user.id);
+
+    if (!sender) {
+      return NextResponse.json(
+        { error: 'Recording session not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { data, error } = parseRelaySignal(body);
+
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    if (data.toId === sender.id || !participants.some(participant => participant.id === data.toId)) {
+      return NextResponse.json(
+        { error: 'toId must be another participant of this session' },
+        { status: 400 }
+      );
+    }
+
+    const signal = await sendSignal(id, data.type, {
+      payload: data.payload,
+      fromId: sender.id,
+      toId: data.toId,
+    });
+
+    return NextResponse.json({ id: signal.id }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error relaying signal:', error);
+    return NextResponse.json(
+      { error: 'Failed to relay signal' },
+      { status: 500 }
+    );
+  }
+}
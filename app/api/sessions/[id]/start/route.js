@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { SESSION_SETTINGS, SESSION_SUMMARY_INCLUDE, toSessionSummary } from '@/lib/recordingSessions';
+import { sendSignal } from '@/lib/sessionSignals';
+
+// POST /api/sessions/[id]/start - Start recording for every participant (host only).
+// Recording starts START_LEAD_MS from now, the time every track is aligned to.
+export async function POST(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const recordingSession = await prisma.recordingSession.findUnique({
+      where: { id },
+      select: { hostId: true },
+    });
+
+    if (!recordingSession || recordingSession.hostId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Recording session not found' },
+        { status: 404 }
+      );
+    }
+
+    const startAt = new Date(Date.now() + SESSION_SETTINGS.START_LEAD_MS);
+
+    // Only one start wins if the host double-clicks
+    const { count } = await prisma.recordingSession.updateMany({
+      where: { id, status: 'waiting' },
+      data: { status: 'recording', startAt },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'This session has already been recorded' },
+        { status: 409 }
+      );
+    }
+
+    await sendSignal(id, 'start', { payload: { startAt: startAt.toISOString() } });
+
+    const updated = await prisma.recordingSession.findUnique({
+      where: { id },
+      include: SESSION_SUMMARY_INCLUDE,
+    });
+
+    return NextResponse.json(toSessionSummary(updated, session.user.id));
+
+  } catch (error) {
+    console.error('Error starting recording session:', error);
+    return NextResponse.json(
+      { error: 'Failed to start recording' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { SESSION_SUMMARY_INCLUDE, toSessionSummary } from '@/lib/recordingSessions';
+import { sendSignal } from '@/lib/sessionSignals';
+
+// POST /api/sessions/[id]/stop - Stop recording for every participant (host only); each then uploads the rest of their track
+export async function POST(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const recordingSession = await prisma.recordingSession.findUnique({
+      where: { id },
+      select: { hostId: true },
+    });
+
+    if (!recordingSession || recordingSession.hostId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Recording session not found' },
+        { status: 404 }
+      );
+    }
+
+    const { count } = await prisma.recordingSession.updateMany({
+      where: { id, status: 'recording' },
+      data: { status: 'stopped', stoppedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'This session is not recording' },
+        { status: 409 }
+      );
+    }
+
+    await sendSignal(id, 'stop');
+
+    const updated = await prisma.recordingSession.findUnique({
+      where: { id },
+      include: SESSION_SUMMARY_INCLUDE,
+    });
+
+    return NextResponse.json(toSessionSummary(updated, session.user.id));
+
+  } catch (error) {
+    console.error('Error stopping recording session:', error);
+    return NextResponse.json(
+      { error: 'Failed to stop recording' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { parseTrackFields } from '@/lib/recordingSessions';
+import { sendSignal } from '@/lib/sessionSignals';
+
+// PUT /api/sessions/[id]/track - Submit the current participant's uploaded recording (`url`),
+// with the seconds it started after the session's startAt (`offset`) and its `duration`
+export async function PUT(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const participant = await prisma.sessionParticipant.findUnique({
+      where: { sessionId_userId: { sessionId: id, userId: session.user.id } },
+      include: { session: { select: { status: true } } },
+    });
+
+    if (!participant) {
+      return NextResponse.json(
+        { error: 'Recording session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (participant.session.status === 'waiting') {
+      return NextResponse.json(
+        { error: 'This session has not been recorded yet' },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { data, error } = parseTrackFields(body);
+
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    // The track must be the participant's own upload
+    const upload = await prisma.upload.findFirst({
+      where: {
+        url: data.url,
+        userId: session.user.id,
+        folder: 'podcast-audio',
+        status: 'completed',
+      },
+      select: { id: true },
+    });
+
+    if (!upload) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.sessionParticipant.update({
+      where: { id: participant.id },
+      data: {
+        trackUrl: data.url,
+        trackOffset: data.offset,
+        trackDuration: data.duration,
+      },
+    });
+
+    await sendSignal(id, 'track', { payload: { participantId: participant.id }, fromId: participant.id });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error saving session track:', error);
+    return NextResponse.json(
+      { error: 'Failed to save track' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { SESSION_SETTINGS } from '@/lib/recordingSessions';
+import { sendSignal } from '@/lib/sessionSignals';
+
+const findInvitedSession = (token) =>
+  prisma.recordingSession.findUnique({
+    where: { inviteToken: token },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      host: { select: { id: true, name: true, image: true } },
+      participants: { select: { id: true, userId: true } },
+    },
+  });
+
+// GET /api/sessions/join/[token] - Describe the session an invite link is for; works signed out
+export async function GET(request, { params }) {
+  const { token } = params;
+
+  try {
+    const recordingSession = await findInvitedSession(token);
+
+    if (!recordingSession) {
+      return NextResponse.json(
+        { error: 'This invite link is not valid' },
+        { status: 404 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+
+    return NextResponse.json({
+      id: recordingSession.id,
+      title: recordingSession.title,
+      status: recordingSession.status,
+      host: recordingSession.host,
+      isParticipant: recordingSession.participants.some(participant => participant.userId === session?.user?.id),
+    });
+
+  } catch (error) {
+    console.error('Error fetching session invite:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invite' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sessions/join/[token] - Join a recording session as a guest
+export async function POST(request, { params }) {
+  const { token } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const recordingSession = await findInvitedSession(token);
+
+    if (!recordingSession) {
+      return NextResponse.json(
+        { error: 'This invite link is not valid' },
+        { status: 404 }
+      );
+    }
+
+    const existing = recordingSession.participants.find(participant => participant.userId === session.user.id);
+    if (existing) {
+      return NextResponse.json({ id: recordingSession.id, participantId: existing.id });
+    }
+
+    if (recordingSession.status !== 'waiting') {
+      return NextResponse.json(
+        { error: 'This session has already started recording' },
+        { status: 409 }
+      );
+    }
+
+    if (recordingSession.participants.length >= SESSION_SETTINGS.MAX_PARTICIPANTS) {
+      return NextResponse.json(
+        { error: `A session may have at most ${SESSION_SETTINGS.MAX_PARTICIPANTS} participants` },
+        { status: 409 }
+      );
+    }
+
+    const participant = await prisma.sessionParticipant.create({
+      data: {
+        sessionId: recordingSession.id,
+        userId: session.user.id,
+        role: 'guest',
+      },
+    });
+
+    await sendSignal(recordingSession.id, 'joined', {
+      payload: { participantId: participant.id },
+      fromId: participant.id,
+    });
+
+    return NextResponse.json({ id: recordingSession.id, participantId: participant.id }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error joining recording session:', error);
+    return NextResponse.json(
+      { error: 'Failed to join recording session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import {
+  SESSION_SUMMARY_INCLUDE,
+  generateInviteToken,
+  parseSessionFields,
+  toSessionSummary,
+} from '@/lib/recordingSessions';
+
+// GET /api/sessions - List recording sessions the current user hosts or has joined
+export async function GET() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const recordingSessions = await prisma.recordingSession.findMany({
+      where: { participants: { some: { userId: session.user.id } } },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+      include: SESSION_SUMMARY_INCLUDE,
+    });
+
+    return NextResponse.json(recordingSessions.map(item => toSessionSummary(item, session.user.id)));
+
+  } catch (error) {
+    console.error('Error fetching recording sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recording sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sessions - Create a recording session hosted by the current user, with an invite link for guests
+export async function POST(request) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { data, error } = parseSessionFields(body);
+
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    const recordingSession = await prisma.recordingSession.create({
+      data: {
+        title: data.title,
+        inviteToken: generateInviteToken(),
+        hostId: session.user.id,
+        participants: {
+          create: { userId: session.user.id, role: 'host' },
+        },
+      },
+      include: SESSION_SUMMARY_INCLUDE,
+    });
+
+    return NextResponse.json(toSessionSummary(recordingSession, session.user.id), { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating recording session:', error);
+    return NextResponse.json(
+      { error: 'Failed to create recording session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextResponse } from 'next/server';
+import bcrypt from 'bcrypt';
+import prisma from '@/lib/prisma';
+import { getPlaybackAudioUrl } from '@/lib/audio';
+import { buildJsonChapters } from '@/lib/chapters';
+import { MEDIA_SETTINGS } from '@/lib/media';
+import {
+  getFailedPasswordUpdate,
+  getPasswordRetryAfter,
+  getShareLinkStatus,
+  getShareLinkStatusMessage,
+  getSharePlayWhere,
+} from '@/lib/shareLinks';
+import { getSignedFileUrl } from '@/lib/storageDrivers';
+
+const SHARED_PODCAST_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  coverImage: true,
+  duration: true,
+  audioUrl: true,
+  audioMp3Url: true,
+  waveform: true,
+  createdAt: true,
+  user: { select: { id: true, name: true, image: true } },
+  chapters: {
+    orderBy: { startTime: 'asc' },
+    select: { startTime: true, title: true, url: true, image: true },
+  },
+};
+
+// Everything the share page shows, without the stored audio URLs
+const toSharedPodcast = podcast => ({
+  id: podcast.id,
+  title: podcast.title,
+  description: podcast.description,
+  coverImage: podcast.coverImage,
+  duration: podcast.duration,
+  waveform: podcast.waveform,
+  createdAt: podcast.createdAt.toISOString(),
+  user: podcast.user,
+  chapters: buildJsonChapters(podcast.chapters).chapters,
+});
+
+const findShareLink = token => prisma.shareLink.findUnique({
+  where: { token },
+  include: { podcast: { select: SHARED_PODCAST_SELECT } },
+});
+
+// Unknown tokens and links that can no longer be used get the same kind of answer
+const unavailable = link => {
+  if (!link) {
+    return NextResponse.json(
+      { error: 'Share link not found' },
+      { status: 404 }
+    );
+  }
+
+  const message = getShareLinkStatusMessage(getShareLinkStatus(link));
+  return message
+    ? NextResponse.json({ error: message }, { status: 410 })
+    : null;
+};
+
+// GET /api/share/[token] - Describe a shared episode; details are withheld until the password is given
+export async function GET(request, { params }) {
+  const { token } = params;
+
+  try {
+    const link = await findShareLink(token);
+    const unavailableResponse = unavailable(link);
+    if (unavailableResponse) return unavailableResponse;
+
+    const passwordRequired = Boolean(link.passwordHash);
+
+    return NextResponse.json({
+      passwordRequired,
+      podcast: passwordRequired ? null : toSharedPodcast(link.podcast),
+    });
+
+  } catch (error) {
+    console.error('Error fetching share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to load share link' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/share/[token] - Use the link: checks the password, counts a play and returns a signed audio URL
+export async function POST(request, { params }) {
+  const { token } = params;
+
+  try {
+    const link = await findShareLink(token);
+    const unavailableResponse = unavailable(link);
+    if (unavailableResponse) return unavailableResponse;
+
+    if (link.passwordHash) {
+      // Too many wrong passwords lock the link for a while, so short ones can't be guessed
+      const retryAfter = getPasswordRetryAfter(link);
+      if (retryAfter > 0) {
+        return NextResponse.json(
+          { error: 'Too many incorrect passwords, try again later' },
+          { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+        );
+      }
+
+      const { password } = await request.json().catch(() => ({}));
+      const valid = typeof password === 'string' && await bcrypt.compare(password, link.passwordHash);
+
+      if (!valid) {
+        await prisma.shareLink.update({
+          where: { id: link.id },
+          data: getFailedPasswordUpdate(link),
+        });
+        return NextResponse.json(
+          { error: 'Incorrect password' },
+          { status: 401 }
+        );
+      }
+
+      if (link.failedPasswordAttempts > 0) {
+        await prisma.shareLink.update({
+          where: { id: link.id },
+          data: { failedPasswordAttempts: 0 },
+        });
+      }
+    }
+
+    // Count the play only while the limit has not been reached, even with concurrent listeners
+    const { count } = await prisma.shareLink.updateMany({
+      where: getSharePlayWhere(link),
+      data: { plays: { increment: 1 }, lastPlayedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: getShareLinkStatusMessage('exhausted') },
+        { status: 410 }
+      );
+    }
+
+    // Keep the URL valid long enough to pause and seek through the whole episode
+    const expiresIn = Math.max(MEDIA_SETTINGS.SIGNED_URL_EXPIRY, (link.podcast.duration || 0) * 2);
+    const audioUrl = await getSignedFileUrl(getPlaybackAudioUrl(link.podcast), expiresIn);
+
+    return NextResponse.json({
+      podcast: toSharedPodcast(link.podcast),
+      audioUrl,
+    });
+
+  } catch (error) {
+    console.error('Error using share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to load share link' },
+      { status: 500 }
+    );
+  }
+}
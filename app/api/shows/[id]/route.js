@@ -0,0 +1,162 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+
+// GET /api/shows/[id] - Get a show with its episodes
+export async function GET(request, { params }) {
+  const { id } = params;
+
+  try {
+    const show = await prisma.show.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+        episodes: {
+          where: { isPublic: true, status: 'published' },
+          orderBy: [
+            { seasonNumber: 'desc' },
+            { episodeNumber: 'desc' },
+            { createdAt: 'desc' },
+          ],
+          include: {
+            _count: {
+              select: {
+                likes: true,
+                comments: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!show) {
+      return NextResponse.json(
+        { error: 'Show not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(show);
+
+  } catch (error) {
+    console.error('Error fetching show:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch show' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/shows/[id] - Update a show
+export async function PATCH(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const show = await prisma.show.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    if (!show) {
+      return NextResponse.json(
+        { error: 'Show not found' },
+        { status: 404 }
+      );
+    }
+
+    if (show.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You do not have permission to update this show' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { title, description, artwork, category, language, explicit } = body;
+
+    const updateData = {};
+    if (title !== undefined) updateData.title = title;
+    if (description !== undefined) updateData.description = description;
+    if (artwork !== undefined) updateData.artwork = artwork;
+    if (category !== undefined) updateData.category = category;
+    if (language !== undefined) updateData.language = language;
+    if (explicit !== undefined) updateData.explicit = Boolean(explicit);
+
+    const updatedShow = await prisma.show.update({
+      where: { id },
+      data: updateData,
+    });
+
+    return NextResponse.json(updatedShow);
+
+  } catch (error) {
+    console.error('Error updating show:', error);
+    return NextResponse.json(
+      { error: 'Failed to update show' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/shows/[id] - Delete a show (its episodes are kept and become standalone)
+export async function DELETE(request, { params }) {
+  const { id } = params;
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const show = await prisma.show.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    if (!show) {
+      return NextResponse.json(
+        { error: 'Show not found' },
+        { status: 404 }
+      );
+    }
+
+    if (show.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You do not have permission to delete this show' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.show.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ message: 'Show deleted successfully' });
+
+  } catch (error) {
+    console.error('Error deleting show:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete show' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+
+// GET /api/shows - Get shows, optionally filtered by owner
+export async function GET(request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const limit = parseInt(searchParams.get('limit') || '50', 10);
+
+    const where = {};
+    if (userId) {
+      where.userId = userId;
+    }
+
+    const shows = await prisma.show.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+        _count: {
+          select: {
+            episodes: true,
+          },
+        },
+      },
+    });
+
+    const formattedShows = shows.map(show => ({
+      ...show,
+      episodeCount: show._count.episodes,
+      createdAt: show.createdAt.toISOString(),
+      updatedAt: show.updatedAt.toISOString(),
+    }));
+
+    return NextResponse.json(formattedShows);
+  } catch (error) {
+    console.error('Error getting shows:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/shows - Create a new show
+export async function POST(request) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { title, description, artwork, category, language, explicit = false } = body;
+
+    if (!title) {
+      return NextResponse.json({ error: 'Title is required' }, { status: 400 });
+    }
+
+    const show = await prisma.show.create({
+      data: {
+        title,
+        description: description || null,
+        artwork: artwork || null,
+        category: category || null,
+        language: language || 'en',
+        explicit: Boolean(explicit),
+        userId: session.user.id,
+      },
+    });
+
+    return NextResponse.json({
+      ...show,
+      episodeCount: 0,
+      createdAt: show.createdAt.toISOString(),
+      updatedAt: show.updatedAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('Error creating show:', error);
+    return NextResponse.json({ error: 'Failed to create show' }, { status: 500 });
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
-import { getServiceSupabase } from '@/lib/supabaseClient';
+import { getStorageDriver } from '@/lib/storageDrivers';
+import { UPLOAD_FOLDERS, UploadFolder, isOwnStorageKey } from '@/lib/uploads';
+
+const SIGNED_URL_EXPIRY = 60 * 60; // 1 hour
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,65 +16,56 @@ export async function POST(request: NextRequest) {
 
     // Get request body
     const body = await request.json();
-    const { action, path, bucket } = body;
+    const { action, path, folder } = body;
 
     // Validate required parameters
-    if (!action || !path) {
+    if (!action || !path || !folder) {
       return NextResponse.json(
         { error: 'Missing required parameters' },
         { status: 400 }
       );
     }
 
-    // Get admin Supabase client with service role
-    const serviceSupabase = getServiceSupabase();
-    if (!serviceSupabase) {
+    if (!UPLOAD_FOLDERS.includes(folder)) {
+      return NextResponse.json(
+        { error: `folder must be one of: ${UPLOAD_FOLDERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Files are stored under their owner's id
+    if (!isOwnStorageKey(path, session.user.id)) {
       return NextResponse.json(
-        { error: 'Storage service unavailable' },
-        { status: 500 }
+        { error: 'Unauthorized - you do not own this file' },
+        { status: 403 }
       );
     }
 
-    // Determine the bucket to use
-    const bucketName = bucket || 
-      (path.startsWith('podcast-audio') ? 'podcasts' : 'images');
+    const driver = getStorageDriver(folder as UploadFolder);
 
     // Handle different actions
     switch (action) {
       case 'getSignedUrl': {
         // Get a signed URL for a file (for private files)
-        const { data, error } = await serviceSupabase.storage
-          .from(bucketName)
-          .createSignedUrl(path, 60 * 60); // 1 hour expiry
-        
-        if (error) {
-          console.error('Error creating signed URL:', error);
-          return NextResponse.json(
-            { error: `Failed to create signed URL: ${error.message}` },
-            { status: 500 }
-          );
+        const url = await driver.getSignedUrl(path, SIGNED_URL_EXPIRY);
+        return NextResponse.json({ url });
+      }
+
+      case 'head': {
+        // Get a file's size, content type and modification time
+        const object = await driver.head(path);
+        if (!object) {
+          return NextResponse.json({ error: 'File not found' }, { status: 404 });
         }
-        
-        return NextResponse.json({ url: data.signedUrl });
+        return NextResponse.json(object);
       }
-      
+
       case 'delete': {
         // Delete a file
-        const { error } = await serviceSupabase.storage
-          .from(bucketName)
-          .remove([path]);
-        
-        if (error) {
-          console.error('Error deleting file:', error);
-          return NextResponse.json(
-            { error: `Failed to delete file: ${error.message}` },
-            { status: 500 }
-          );
-        }
-        
+        await driver.delete([path]);
         return NextResponse.json({ success: true });
       }
-      
+
       default:
         return NextResponse.json(
           { error: `Unsupported action: ${action}` },
@@ -85,4 +79,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
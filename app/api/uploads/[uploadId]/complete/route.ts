@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { findChecksumMismatch, getUploadClosedReason, getUploadLayout } from '@/lib/uploads';
+import { completeUpload, getUploadWithParts, toUploadSession } from '@/lib/uploadSessions';
+
+// Assembling a large file can take a while
+export const maxDuration = 300;
+
+/**
+ * Complete a multipart upload by assembling its parts into the final file.
+ * The body may list the parts ({ partNumber, checksum }) the client sent, to verify them.
+ * POST /api/uploads/:uploadId/complete
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { uploadId } = params;
+    const upload = await getUploadWithParts(uploadId);
+
+    if (!upload || upload.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    // Completing twice returns the same file
+    if (upload.status === 'completed') {
+      return NextResponse.json(toUploadSession(upload));
+    }
+
+    const closedReason = getUploadClosedReason(upload);
+    if (closedReason) {
+      return NextResponse.json({ error: closedReason }, { status: 409 });
+    }
+
+    const { layout, error, missing } = getUploadLayout(upload, upload.parts);
+    if (!layout) {
+      return NextResponse.json(
+        { error, missing },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const mismatch = findChecksumMismatch(upload.parts, body?.parts);
+    if (mismatch !== null) {
+      return NextResponse.json(
+        { error: `Checksum mismatch for part ${mismatch}`, partNumber: mismatch },
+        { status: 422 }
+      );
+    }
+
+    const completed = await completeUpload(upload, layout);
+
+    return NextResponse.json(toUploadSession(completed));
+  } catch (error) {
+    console.error('Error completing upload:', error);
+    return NextResponse.json(
+      { error: 'Failed to complete upload' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  UPLOAD_SETTINGS,
+  getMaxPartNumber,
+  getPartSizeError,
+  getUploadClosedReason,
+  normalizeChecksum,
+  parsePartNumber,
+} from '@/lib/uploads';
+import { computeChecksum, getUploadWithParts, savePart } from '@/lib/uploadSessions';
+
+/**
+ * Upload one part as the raw request body, with its SHA-256 in the X-Content-SHA256 header
+ * PUT /api/uploads/:uploadId/parts/:partNumber
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { uploadId: string; partNumber: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { uploadId } = params;
+    const upload = await getUploadWithParts(uploadId);
+
+    if (!upload || upload.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    const closedReason = getUploadClosedReason(upload);
+    if (closedReason) {
+      return NextResponse.json({ error: closedReason }, { status: 409 });
+    }
+
+    const maxPartNumber = getMaxPartNumber(upload);
+    const partNumber = parsePartNumber(params.partNumber, maxPartNumber);
+    if (partNumber === null) {
+      return NextResponse.json(
+        { error: `partNumber must be between 1 and ${maxPartNumber}` },
+        { status: 400 }
+      );
+    }
+
+    const checksum = normalizeChecksum(request.headers.get(UPLOAD_SETTINGS.CHECKSUM_HEADER));
+    if (!checksum) {
+      return NextResponse.json(
+        { error: `${UPLOAD_SETTINGS.CHECKSUM_HEADER} header with the part's SHA-256 is required` },
+        { status: 400 }
+      );
+    }
+
+    // Reject oversized bodies before reading them into memory
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > UPLOAD_SETTINGS.MAX_PART_SIZE) {
+      return NextResponse.json({ error: 'Part is too large' }, { status: 413 });
+    }
+
+    const data = Buffer.from(await request.arrayBuffer());
+    const sizeError = getPartSizeError(upload, partNumber, data.length);
+    if (sizeError) {
+      return NextResponse.json(
+        { error: sizeError },
+        { status: 400 }
+      );
+    }
+
+    if (computeChecksum(data) !== checksum) {
+      return NextResponse.json(
+        { error: `Checksum mismatch for part ${partNumber}` },
+        { status: 422 }
+      );
+    }
+
+    const part = await savePart(upload, partNumber, data, checksum);
+
+    return NextResponse.json({
+      partNumber: part.partNumber,
+      size: part.size,
+      checksum: part.checksum,
+    });
+  } catch (error) {
+    console.error('Error uploading part:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload part' },
+      { status: 500 }
+    );
+  }
+}
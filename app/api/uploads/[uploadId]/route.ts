@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { abortUpload, getUploadWithParts, toUploadSession } from '@/lib/uploadSessions';
+
+/**
+ * Get upload status, including the parts received so far
+ * GET /api/uploads/:uploadId
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { uploadId } = params;
+    const upload = await getUploadWithParts(uploadId);
+
+    if (!upload || upload.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toUploadSession(upload));
+  } catch (error) {
+    console.error('Error getting upload status:', error);
+    return NextResponse.json(
+      { error: 'Failed to get upload status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Abort an upload and discard the parts received so far
+ * DELETE /api/uploads/:uploadId
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { uploadId } = params;
+    const upload = await getUploadWithParts(uploadId);
+
+    if (!upload || upload.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    if (upload.status !== 'pending') {
+      return NextResponse.json(
+        { error: `Upload is ${upload.status}` },
+        { status: 409 }
+      );
+    }
+
+    await abortUpload(upload);
+
+    return NextResponse.json({ message: 'Upload aborted' });
+  } catch (error) {
+    console.error('Error aborting upload:', error);
+    return NextResponse.json(
+      { error: 'Failed to abort upload' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { buildPodcastFeed, computeFeedEtag, getFeedUrl, isFeedNotModified, resolveSiteUrl } from '@/lib/feed';
+
+// GET /api/users/[id]/feed.xml - RSS 2.0 feed of a user's public podcasts
+export async function GET(request, { params }) {
+  const { id } = params;
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        image: true,
+        updatedAt: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const where = { userId: id, isPublic: true, status: 'published' };
+
+    // Cheap aggregate first so conditional requests never load the full episode list
+    const aggregate = await prisma.podcast.aggregate({
+      where,
+      _count: { _all: true },
+      _max: { updatedAt: true },
+    });
+
+    const latestEpisodeUpdate = aggregate._max.updatedAt;
+    const lastModified = latestEpisodeUpdate && latestEpisodeUpdate > user.updatedAt
+      ? latestEpisodeUpdate
+      : user.updatedAt;
+    const etag = computeFeedEtag(user.id, aggregate._count._all, lastModified);
+
+    const cacheHeaders = {
+      ETag: etag,
+      'Last-Modified': lastModified.toUTCString(),
+      'Cache-Control': 'public, max-age=300',
+    };
+
+    if (isFeedNotModified(request.headers, etag, lastModified)) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders });
+    }
+
+    const podcasts = await prisma.podcast.findMany({
+      where,
+      orderBy: { publishAt: 'desc' },
+      include: {
+        tags: {
+          select: { name: true },
+        },
+        _count: {
+          select: { chapters: true },
+        },
+      },
+    });
+
+    const siteUrl = resolveSiteUrl(request.url);
+
+    const xml = buildPodcastFeed({
+      owner: user,
+      episodes: podcasts.map(podcast => ({
+        ...podcast,
+        hasChapters: podcast._count.chapters > 0,
+      })),
+      siteUrl,
+      feedUrl: getFeedUrl(siteUrl, user.id),
+      lastModified,
+    });
+
+    return new NextResponse(xml, {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': 'application/rss+xml; charset=utf-8',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating podcast feed:', error);
+    return NextResponse.json({ error: 'Failed to generate feed' }, { status: 500 });
+  }
+}
@@ -1,6 +1,10 @@
 import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
 import prisma from '@/lib/prisma';
+import { authOptions } from '@/lib/auth';
+import { PUBLISHED_PODCASTS_WHERE, withMediaUrls } from '@/lib/media';
 
+// GET /api/users/[id]/podcasts - Get a user's podcasts; private ones only for the user themselves
 export async function GET(request, { params }) {
   try {
     // Ensure we're treating params as resolved
@@ -23,10 +27,14 @@ export async function GET(request, { params }) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
+    // Private, draft and scheduled podcasts are only listed for their owner
+    const session = await getServerSession(authOptions);
+    const isOwner = session?.user?.id === userExists.id;
+
     // Get podcasts for the user
     const podcasts = await prisma.podcast.findMany({
-      where: { userId: userExists.id },
-      orderBy: { createdAt: 'desc' },
+      where: isOwner ? { userId: userExists.id } : { userId: userExists.id, ...PUBLISHED_PODCASTS_WHERE },
+      orderBy: [{ publishAt: 'desc' }, { createdAt: 'desc' }],
       include: {
         user: {
           select: {
@@ -35,12 +43,20 @@ export async function GET(request, { params }) {
             image: true,
           },
         },
+        show: {
+          select: {
+            id: true,
+            title: true,
+            artwork: true,
+          },
+        },
         likes: {
           select: { id: true },
         },
         _count: {
           select: {
             comments: true,
+            listens: { where: { counted: true } },
           },
         },
       },
@@ -48,9 +64,10 @@ export async function GET(request, { params }) {
 
     // Format the response
     const formattedPodcasts = podcasts.map(podcast => ({
-      ...podcast,
+      ...withMediaUrls(podcast),
       likes: podcast.likes.length,
       comments: podcast._count.comments,
+      listens: podcast._count.listens,
       createdAt: podcast.createdAt.toISOString(),
       updatedAt: podcast.updatedAt.toISOString(),
     }));
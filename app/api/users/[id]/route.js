@@ -2,13 +2,17 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import prisma from '@/lib/prisma';
 import { authOptions } from '@/lib/auth';
+import { PUBLISHED_PODCASTS_WHERE } from '@/lib/media';
 
 // GET /api/users/[id] - Get a user profile
 export async function GET(request, { params }) {
   const { id } = params;
   
   try {
-    // Get user data
+    const session = await getServerSession(authOptions);
+    const isOwner = session?.user?.id === id;
+    
+    // Get user data; other viewers only count the episodes they can see
     const user = await prisma.user.findUnique({
       where: { id },
       select: {
@@ -19,7 +23,7 @@ export async function GET(request, { params }) {
         createdAt: true,
         _count: {
           select: {
-            podcasts: true,
+            podcasts: isOwner ? true : { where: PUBLISHED_PODCASTS_WHERE },
             followers: true,
             following: true,
           },
@@ -36,7 +40,6 @@ export async function GET(request, { params }) {
     
     // Check if the current user is following this user
     let isFollowing = false;
-    const session = await getServerSession(authOptions);
     if (session?.user && session.user.id !== id) {
       const follow = await prisma.follow.findUnique({
         where: {
@@ -54,12 +57,14 @@ export async function GET(request, { params }) {
       where: { 
         userId: id,
         isPublic: true,
+        status: 'published',
       },
       select: {
         id: true,
         title: true,
         coverImage: true,
         createdAt: true,
+        publishAt: true,
         _count: {
           select: {
             likes: true,
@@ -67,7 +72,7 @@ export async function GET(request, { params }) {
           },
         },
       },
-      orderBy: { createdAt: 'desc' },
+      orderBy: { publishAt: 'desc' },
       take: 5,
     });
     
@@ -0,0 +1,64 @@
+'use client';
+
+// A single bar in the chart
+export interface AnalyticsChartDatum {
+  label: string;
+  value: number;
+}
+
+interface AnalyticsChartProps {
+  title: string;
+  data: AnalyticsChartDatum[];
+  total?: string | number;
+  height?: number;
+  maxValue?: number; // Fixed top of the scale, e.g. 100 for percentages
+  formatValue?: (value: number) => string;
+}
+
+// Lightweight bar chart for analytics series; bars scale to the largest value unless maxValue is set
+export default function AnalyticsChart({
+  title,
+  data,
+  total,
+  height = 120,
+  maxValue,
+  formatValue = value => value.toLocaleString(),
+}: AnalyticsChartProps) {
+  const scaleMax = maxValue || Math.max(1, ...data.map(datum => datum.value));
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-600 dark:text-gray-300">{title}</h3>
+        {total !== undefined && (
+          <span className="text-lg font-semibold">{typeof total === 'number' ? formatValue(total) : total}</span>
+        )}
+      </div>
+
+      {data.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No data for this period.</p>
+      ) : (
+        <>
+          <div className="flex items-end gap-px" style={{ height }}>
+            {data.map(datum => (
+              <div
+                key={datum.label}
+                className="flex-1 h-full flex items-end"
+                title={`${datum.label}: ${formatValue(datum.value)}`}
+              >
+                <div
+                  className="w-full bg-primary-500 rounded-t-sm"
+                  style={{ height: `${(datum.value / scaleMax) * 100}%`, minHeight: datum.value > 0 ? 2 : 0 }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
+            <span>{data[0].label}</span>
+            <span>{data[data.length - 1].label}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
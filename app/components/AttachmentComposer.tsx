@@ -0,0 +1,237 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { FaMicrophone, FaPodcast, FaStop, FaTimes } from 'react-icons/fa';
+import toast from 'react-hot-toast';
+import { useStreamingRecorder } from '@/app/hooks/useStreamingRecorder';
+import { MESSAGE_SETTINGS, AttachmentInput } from '@/lib/messages';
+import { SearchResults, search } from '@/lib/storage';
+import { formatTimestamp, parseTimestamp } from '@/lib/transcripts';
+
+interface AttachmentComposerProps {
+  disabled?: boolean;
+  onSend: (attachment: AttachmentInput) => Promise<void>;
+}
+
+type PodcastResult = SearchResults['podcasts']['items'][number];
+
+const SEARCH_DELAY_MS = 300;
+
+// Record a voice note, or pick an episode to share whole or as a clip, next to the message input
+export default function AttachmentComposer({ disabled, onSend }: AttachmentComposerProps) {
+  const recorder = useStreamingRecorder();
+  const [isSending, setIsSending] = useState(false);
+  const [isPickingEpisode, setIsPickingEpisode] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<PodcastResult[]>([]);
+  const [podcast, setPodcast] = useState<PodcastResult | null>(null);
+  const [isClip, setIsClip] = useState(false);
+  const [clipStart, setClipStart] = useState('0:00');
+  const [clipEnd, setClipEnd] = useState('0:30');
+
+  const send = async (attachment: AttachmentInput) => {
+    setIsSending(true);
+    try {
+      await onSend(attachment);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send attachment');
+      return false;
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      await recorder.start();
+    } catch (error) {
+      console.error('Error starting voice note:', error);
+      toast.error('Could not access the microphone');
+    }
+  };
+
+  const stopRecording = async () => {
+    const duration = Math.max(1, recorder.elapsed);
+    try {
+      const { url } = await recorder.stop();
+      await send({ type: 'voice', url, duration });
+    } catch (error) {
+      console.error('Error finishing voice note:', error);
+      toast.error('Failed to upload voice note');
+    }
+  };
+
+  // Voice notes stop and send themselves at the length limit
+  useEffect(() => {
+    if (recorder.isRecording && recorder.elapsed >= MESSAGE_SETTINGS.MAX_VOICE_NOTE_SECONDS) {
+      stopRecording();
+    }
+  }, [recorder.isRecording, recorder.elapsed]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      search(query.trim(), { type: 'podcasts', limit: 5 })
+        .then(response => setResults(response.podcasts?.items || []))
+        .catch(error => console.error('Error searching podcasts:', error));
+    }, SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const closeEpisodePicker = () => {
+    setIsPickingEpisode(false);
+    setQuery('');
+    setPodcast(null);
+    setIsClip(false);
+  };
+
+  const shareEpisode = async () => {
+    if (!podcast) return;
+
+    let attachment: AttachmentInput = { type: 'podcast', podcastId: podcast.id };
+    if (isClip) {
+      try {
+        attachment = {
+          type: 'clip',
+          podcastId: podcast.id,
+          startTime: parseTimestamp(clipStart),
+          endTime: parseTimestamp(clipEnd),
+        };
+      } catch {
+        toast.error('Enter the clip times as M:SS');
+        return;
+      }
+    }
+
+    if (await send(attachment)) closeEpisodePicker();
+  };
+
+  if (recorder.isRecording) {
+    return (
+      <div className="flex items-center gap-3 text-sm">
+        <span className="flex items-center text-red-400">
+          <span className="w-2 h-2 mr-2 rounded-full bg-red-500 animate-pulse" />
+          {formatTimestamp(recorder.elapsed)}
+        </span>
+        <button type="button" onClick={stopRecording} aria-label="Send voice note" className="text-primary-400 hover:text-white">
+          <FaStop />
+        </button>
+        <button type="button" onClick={() => recorder.cancel()} aria-label="Discard voice note" className="text-gray-400 hover:text-white">
+          <FaTimes />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex items-center gap-3">
+      <button
+        type="button"
+        onClick={startRecording}
+        disabled={disabled || isSending}
+        aria-label="Record a voice note"
+        className="text-gray-400 hover:text-white disabled:opacity-50"
+      >
+        <FaMicrophone />
+      </button>
+      <button
+        type="button"
+        onClick={() => (isPickingEpisode ? closeEpisodePicker() : setIsPickingEpisode(true))}
+        disabled={disabled || isSending}
+        aria-label="Share an episode"
+        className="text-gray-400 hover:text-white disabled:opacity-50"
+      >
+        <FaPodcast />
+      </button>
+
+      {isPickingEpisode && (
+        <div className="absolute bottom-full left-0 mb-3 w-80 p-3 rounded-lg bg-gray-900 border border-gray-800 text-sm shadow-lg">
+          {podcast ? (
+            <>
+              <div className="flex items-center justify-between mb-3">
+                <span className="font-medium truncate">{podcast.title}</span>
+                <button type="button" onClick={() => setPodcast(null)} aria-label="Pick another episode" className="ml-2 text-gray-400 hover:text-white">
+                  <FaTimes />
+                </button>
+              </div>
+
+              <label className="flex items-center gap-2 mb-2">
+                <input type="checkbox" checked={isClip} onChange={e => setIsClip(e.target.checked)} />
+                Share a clip (up to {MESSAGE_SETTINGS.MAX_CLIP_SECONDS / 60} minutes)
+              </label>
+              {isClip && (
+                <div className="flex items-center gap-2 mb-3">
+                  <input
+                    type="text"
+                    value={clipStart}
+                    onChange={e => setClipStart(e.target.value)}
+                    aria-label="Clip start"
+                    className="w-20 bg-gray-800 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-primary-600"
+                  />
+                  to
+                  <input
+                    type="text"
+                    value={clipEnd}
+                    onChange={e => setClipEnd(e.target.value)}
+                    aria-label="Clip end"
+                    className="w-20 bg-gray-800 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-primary-600"
+                  />
+                </div>
+              )}
+
+              <button
+                type="button"
+                onClick={shareEpisode}
+                disabled={isSending}
+                className="w-full py-2 rounded-lg bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+              >
+                {isClip ? 'Send clip' : 'Send episode'}
+              </button>
+            </>
+          ) : (
+            <>
+              <input
+                type="text"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="Search episodes"
+                autoFocus
+                className="w-full bg-gray-800 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-primary-600"
+              />
+              {results.length > 0 && (
+                <ul className="mt-1 divide-y divide-gray-800">
+                  {results.map(result => (
+                    <li key={result.id}>
+                      <button
+                        type="button"
+                        onClick={() => setPodcast(result)}
+                        className="w-full flex items-center px-2 py-2 hover:bg-gray-800 text-left"
+                      >
+                        <div className="w-8 h-8 relative rounded overflow-hidden mr-2 flex-shrink-0">
+                          <Image
+                            src={result.coverImage || 'https://placehold.co/100/5f33e1/ffffff?text=P'}
+                            alt={result.title}
+                            fill
+                            className="object-cover"
+                          />
+                        </div>
+                        <span className="truncate">{result.title}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
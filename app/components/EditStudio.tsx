@@ -0,0 +1,484 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { FaArrowDown, FaArrowUp, FaCut, FaMusic, FaPlay, FaPlus, FaTrash } from 'react-icons/fa';
+import toast from 'react-hot-toast';
+import {
+  EDL_SETTINGS,
+  EdlClip,
+  EditDecisionList,
+  MusicBed,
+  TakeSummary,
+  cutClip,
+  findSilenceBounds,
+  getClipLength,
+  getEdlTimeline,
+  moveClip,
+} from '@/lib/edl';
+import { EditState, addTake, deleteTake, getEdit, getJobs, getPodcast, renameTake, renderEdit, saveEdit } from '@/lib/storage';
+import { startFileUpload } from '@/lib/fileStorage';
+
+interface EditStudioProps {
+  podcastId: string;
+  takes: TakeSummary[];
+  onTakesChange: (takes: TakeSummary[]) => void;
+  onEditChange?: (state: EditState) => void;
+  onRendered: (audioUrl: string) => void;
+}
+
+// Delay before edits are saved, so dragging a trim point doesn't send a request per step
+const EDIT_SAVE_DELAY_MS = 1000;
+const RENDER_POLL_MS = 3000;
+
+/**
+ * Decode a recording or uploaded file in the browser, e.g. to measure it or find its silences
+ */
+export const decodeAudio = async (source: Blob | string): Promise<AudioBuffer> => {
+  const data = typeof source === 'string'
+    ? await fetch(source).then(response => {
+      if (!response.ok) throw new Error(`Failed to load audio: ${response.status}`);
+      return response.arrayBuffer();
+    })
+    : await source.arrayBuffer();
+
+  const context = new AudioContext();
+  try {
+    return await context.decodeAudioData(data);
+  } finally {
+    context.close();
+  }
+};
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+// Where the studio's edit is on its way to the server
+type EditSaveState = 'saved' | 'saving' | 'error';
+
+// Arranges a draft's takes into its final audio: clips can be reordered, trimmed and cut,
+// and music beds laid under the start and end; the edit is rendered on the server
+export default function EditStudio({ podcastId, takes, onTakesChange, onEditChange, onRendered }: EditStudioProps) {
+  const [edl, setEdl] = useState<EditDecisionList | null>(null);
+  const [editState, setEditState] = useState<EditState | null>(null);
+  const [saveState, setSaveState] = useState<EditSaveState>('saved');
+  const [cuts, setCuts] = useState<Record<number, { start: string; end: string }>>({});
+  const [renderStatus, setRenderStatus] = useState<'idle' | 'rendering' | 'failed'>('idle');
+  const [isUploadingMusic, setIsUploadingMusic] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  const hasChangedRef = useRef(false);
+  const knownTakeIdsRef = useRef<string[] | null>(null);
+  const decodedRef = useRef<Record<string, Promise<AudioBuffer>>>({});
+  const musicInputRef = useRef<HTMLInputElement | null>(null);
+
+  const voiceTakes = takes.filter(take => take.kind === 'voice');
+  const musicTakes = takes.filter(take => take.kind === 'music');
+  const findTake = (takeId: string) => takes.find(take => take.id === takeId);
+
+  const updateEditState = (state: EditState) => {
+    setEditState(state);
+    onEditChange?.(state);
+  };
+
+  useEffect(() => {
+    getEdit(podcastId)
+      .then(state => {
+        setEdl(state.edl);
+        updateEditState(state);
+      })
+      .catch(error => console.error('Error loading edit:', error));
+  }, [podcastId]);
+
+  // New recordings join the end of the edit; takes the creator removed from it stay out
+  useEffect(() => {
+    if (!edl) return;
+
+    if (!knownTakeIdsRef.current) {
+      knownTakeIdsRef.current = takes.map(take => take.id);
+      return;
+    }
+
+    const known = knownTakeIdsRef.current;
+    const added = voiceTakes.filter(take => !known.includes(take.id));
+    knownTakeIdsRef.current = takes.map(take => take.id);
+
+    if (added.length > 0) {
+      changeEdl({
+        ...edl,
+        clips: [...edl.clips, ...added.map(take => ({ takeId: take.id, start: 0, end: take.duration }))],
+      });
+    }
+  }, [takes, edl]);
+
+  // Save the edit once the creator pauses
+  useEffect(() => {
+    if (!edl || !hasChangedRef.current || edl.clips.length === 0) return;
+
+    setSaveState('saving');
+    const timeout = setTimeout(() => {
+      saveEdit(podcastId, edl)
+        .then(state => {
+          updateEditState(state);
+          setSaveState('saved');
+        })
+        .catch(error => {
+          setSaveState('error');
+          toast.error(error instanceof Error ? error.message : 'Failed to save edit');
+        });
+    }, EDIT_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [edl]);
+
+  const changeEdl = (next: EditDecisionList) => {
+    hasChangedRef.current = true;
+    setEdl(next);
+  };
+
+  const updateClip = (index: number, changes: Partial<EdlClip>) => {
+    if (!edl) return;
+    changeEdl({ ...edl, clips: edl.clips.map((clip, i) => (i === index ? { ...clip, ...changes } : clip)) });
+  };
+
+  const updateBed = (position: 'intro' | 'outro', bed: MusicBed | null) => {
+    if (!edl) return;
+    changeEdl({ ...edl, [position]: bed });
+  };
+
+  const getDecodedTake = (take: TakeSummary) => {
+    if (!decodedRef.current[take.id]) {
+      decodedRef.current[take.id] = decodeAudio(take.url).catch(error => {
+        delete decodedRef.current[take.id];
+        throw error;
+      });
+    }
+    return decodedRef.current[take.id];
+  };
+
+  const handleTrimSilence = async (index: number) => {
+    const clip = edl?.clips[index];
+    const take = clip && findTake(clip.takeId);
+    if (!clip || !take) return;
+
+    try {
+      const buffer = await getDecodedTake(take);
+      const offset = Math.floor(clip.start * buffer.sampleRate);
+      const samples = buffer.getChannelData(0).subarray(offset, Math.ceil(clip.end * buffer.sampleRate));
+      const bounds = findSilenceBounds(samples, buffer.sampleRate);
+
+      if (!bounds) {
+        toast.error('This clip is silent');
+        return;
+      }
+
+      updateClip(index, { start: clip.start + bounds.start, end: clip.start + bounds.end });
+    } catch (error) {
+      console.error('Error trimming silence:', error);
+      toast.error('Could not analyze this take');
+    }
+  };
+
+  const handleCut = (index: number) => {
+    if (!edl) return;
+
+    const cut = cuts[index];
+    const start = Number(cut?.start);
+    const end = Number(cut?.end);
+    if (!cut || !cut.start || !cut.end || !(end > start)) {
+      toast.error('Enter the start and end of the region to cut');
+      return;
+    }
+
+    changeEdl({ ...edl, clips: cutClip(edl.clips, index, start, end) });
+    setCuts({});
+  };
+
+  const handleMusicChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.startsWith('audio/')) {
+      toast.error('Please upload an audio file');
+      return;
+    }
+
+    setIsUploadingMusic(true);
+    try {
+      const [url, buffer] = await Promise.all([startFileUpload(file, 'podcast-audio'), decodeAudio(file)]);
+      const take = await addTake(podcastId, {
+        url,
+        name: file.name.replace(/\.[^.]+$/, ''),
+        kind: 'music',
+        duration: buffer.duration,
+      });
+      onTakesChange([...takes, take]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add music');
+    } finally {
+      setIsUploadingMusic(false);
+      if (musicInputRef.current) musicInputRef.current.value = '';
+    }
+  };
+
+  const handleRename = async (take: TakeSummary, name: string) => {
+    if (!name.trim() || name === take.name) return;
+
+    try {
+      const renamed = await renameTake(podcastId, take.id, name);
+      onTakesChange(takes.map(item => (item.id === renamed.id ? renamed : item)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to rename take');
+    }
+  };
+
+  const handleDeleteTake = async (take: TakeSummary) => {
+    try {
+      await deleteTake(podcastId, take.id);
+      onTakesChange(takes.filter(item => item.id !== take.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete take');
+    }
+  };
+
+  const handleRender = async () => {
+    if (saveState !== 'saved') {
+      toast.error('Wait for the edit to save before rendering');
+      return;
+    }
+
+    setRenderStatus('rendering');
+    try {
+      // An edit that was never changed is still the default one and has to be saved first
+      if (!editState?.edlUpdatedAt) {
+        updateEditState(await saveEdit(podcastId, edl as EditDecisionList));
+      }
+
+      const job = await renderEdit(podcastId);
+
+      // Follow the job until the rendered audio is attached to the draft
+      while (true) {
+        await new Promise(resolve => setTimeout(resolve, RENDER_POLL_MS));
+        const jobs = await getJobs({ podcastId, type: 'edit-render' });
+        const current = jobs.find(item => item.id === job.id);
+
+        if (current?.status === 'completed') break;
+        if (!current || current.status === 'failed') {
+          throw new Error(current?.lastError || 'Rendering failed');
+        }
+      }
+
+      const [podcast, state] = await Promise.all([getPodcast(podcastId), getEdit(podcastId)]);
+      updateEditState(state);
+      onRendered(podcast.audioUrl);
+      setRenderStatus('idle');
+      toast.success('Edit rendered');
+    } catch (error) {
+      console.error('Error rendering edit:', error);
+      setRenderStatus('failed');
+      toast.error(error instanceof Error ? error.message : 'Failed to render edit');
+    }
+  };
+
+  if (!edl) {
+    return <div className="text-sm text-gray-400">Loading studio...</div>;
+  }
+
+  const timeline = getEdlTimeline(edl);
+
+  const renderBed = (position: 'intro' | 'outro', label: string) => {
+    const bed = edl[position];
+
+    return (
+      <div className="bg-gray-800 rounded p-3 text-sm space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="font-medium flex items-center"><FaMusic className="mr-2" />{label}</span>
+          <select
+            value={bed?.takeId || ''}
+            onChange={e => {
+              const take = findTake(e.target.value);
+              updateBed(position, take
+                ? { takeId: take.id, start: 0, end: take.duration, volume: bed?.volume ?? 0.5, overlap: 0 }
+                : null);
+            }}
+            className="bg-gray-700 rounded px-2 py-1"
+            aria-label={`${label} music`}
+          >
+            <option value="">None</option>
+            {musicTakes.map(take => <option key={take.id} value={take.id}>{take.name}</option>)}
+          </select>
+        </div>
+        {bed && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <label className="flex flex-col">
+              <span className="text-gray-400">Start (s)</span>
+              <input type="number" min="0" step="0.1" value={bed.start}
+                onChange={e => updateBed(position, { ...bed, start: Number(e.target.value) })}
+                className="bg-gray-700 rounded px-2 py-1" />
+            </label>
+            <label className="flex flex-col">
+              <span className="text-gray-400">End (s)</span>
+              <input type="number" min="0" step="0.1" value={bed.end}
+                onChange={e => updateBed(position, { ...bed, end: Number(e.target.value) })}
+                className="bg-gray-700 rounded px-2 py-1" />
+            </label>
+            <label className="flex flex-col">
+              <span className="text-gray-400">Under speech (s)</span>
+              <input type="number" min="0" step="0.5" value={bed.overlap}
+                onChange={e => updateBed(position, { ...bed, overlap: Number(e.target.value) })}
+                className="bg-gray-700 rounded px-2 py-1" />
+            </label>
+            <label className="flex flex-col">
+              <span className="text-gray-400">Volume {Math.round(bed.volume * 100)}%</span>
+              <input type="range" min="0" max="1" step="0.05" value={bed.volume}
+                onChange={e => updateBed(position, { ...bed, volume: Number(e.target.value) })} />
+            </label>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Studio</h3>
+        <span className="text-sm text-gray-400">
+          {formatTime(timeline.duration)} total
+          {' · '}
+          {saveState === 'saving' ? 'Saving...' : saveState === 'error' ? 'Not saved' : 'Saved'}
+        </span>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-2">Takes</h4>
+        <ul className="divide-y divide-gray-800 text-sm">
+          {takes.map(take => (
+            <li key={take.id} className="py-2 flex items-center gap-3">
+              {take.kind === 'music' && <FaMusic className="text-gray-400" aria-label="Music" />}
+              <input
+                type="text"
+                defaultValue={take.name}
+                onBlur={e => handleRename(take, e.target.value)}
+                maxLength={EDL_SETTINGS.MAX_TAKE_NAME_LENGTH}
+                className="bg-transparent flex-1 min-w-0"
+                aria-label="Take name"
+              />
+              <span className="text-gray-400">{formatTime(take.duration)}</span>
+              <button type="button" onClick={() => setPreviewUrl(take.url)} className="text-primary-500" aria-label="Play take">
+                <FaPlay />
+              </button>
+              {take.kind === 'voice' && (
+                <button
+                  type="button"
+                  onClick={() => changeEdl({ ...edl, clips: [...edl.clips, { takeId: take.id, start: 0, end: take.duration }] })}
+                  className="text-primary-500"
+                  aria-label="Add to edit"
+                >
+                  <FaPlus />
+                </button>
+              )}
+              <button type="button" onClick={() => handleDeleteTake(take)} className="text-red-500" aria-label="Delete take">
+                <FaTrash />
+              </button>
+            </li>
+          ))}
+        </ul>
+        {previewUrl && <audio src={previewUrl} controls autoPlay className="w-full mt-2" />}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-2">Edit</h4>
+        {edl.clips.length === 0 ? (
+          <p className="text-sm text-gray-500">Add a take to the edit to start.</p>
+        ) : (
+          <ol className="space-y-2">
+            {edl.clips.map((clip, index) => (
+              <li key={`${clip.takeId}-${index}`} className="bg-gray-800 rounded p-3 text-sm space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium flex-1">
+                    {index + 1}. {findTake(clip.takeId)?.name || 'Deleted take'}
+                    <span className="text-gray-400 ml-2">{formatTime(getClipLength(clip))}</span>
+                  </span>
+                  <button type="button" onClick={() => changeEdl({ ...edl, clips: moveClip(edl.clips, index, index - 1) })}
+                    disabled={index === 0} className="disabled:opacity-30" aria-label="Move up">
+                    <FaArrowUp />
+                  </button>
+                  <button type="button" onClick={() => changeEdl({ ...edl, clips: moveClip(edl.clips, index, index + 1) })}
+                    disabled={index === edl.clips.length - 1} className="disabled:opacity-30" aria-label="Move down">
+                    <FaArrowDown />
+                  </button>
+                  <button type="button" onClick={() => changeEdl({ ...edl, clips: edl.clips.filter((_, i) => i !== index) })}
+                    className="text-red-500" aria-label="Remove from edit">
+                    <FaTrash />
+                  </button>
+                </div>
+                <div className="flex flex-wrap items-end gap-2">
+                  <label className="flex flex-col">
+                    <span className="text-gray-400">In (s)</span>
+                    <input type="number" min="0" step="0.1" value={clip.start}
+                      onChange={e => updateClip(index, { start: Number(e.target.value) })}
+                      className="bg-gray-700 rounded px-2 py-1 w-24" />
+                  </label>
+                  <label className="flex flex-col">
+                    <span className="text-gray-400">Out (s)</span>
+                    <input type="number" min="0" step="0.1" value={clip.end}
+                      onChange={e => updateClip(index, { end: Number(e.target.value) })}
+                      className="bg-gray-700 rounded px-2 py-1 w-24" />
+                  </label>
+                  <button type="button" onClick={() => handleTrimSilence(index)} className="text-primary-500 hover:underline py-1">
+                    Trim silence
+                  </button>
+                  <span className="flex items-end gap-1 ml-auto">
+                    <input type="number" min="0" step="0.1" placeholder="Cut from" aria-label="Cut from (s)"
+                      value={cuts[index]?.start || ''}
+                      onChange={e => setCuts({ [index]: { start: e.target.value, end: cuts[index]?.end || '' } })}
+                      className="bg-gray-700 rounded px-2 py-1 w-24" />
+                    <input type="number" min="0" step="0.1" placeholder="to" aria-label="Cut to (s)"
+                      value={cuts[index]?.end || ''}
+                      onChange={e => setCuts({ [index]: { start: cuts[index]?.start || '', end: e.target.value } })}
+                      className="bg-gray-700 rounded px-2 py-1 w-24" />
+                    <button type="button" onClick={() => handleCut(index)} className="flex items-center text-primary-500 hover:underline py-1">
+                      <FaCut className="mr-1" />
+                      Cut
+                    </button>
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-300">Music beds</h4>
+          <button
+            type="button"
+            onClick={() => musicInputRef.current?.click()}
+            disabled={isUploadingMusic}
+            className="text-sm text-primary-500 hover:underline disabled:opacity-50"
+          >
+            {isUploadingMusic ? 'Uploading...' : 'Upload music'}
+          </button>
+          <input ref={musicInputRef} type="file" accept="audio/*" onChange={handleMusicChange} className="hidden" />
+        </div>
+        {renderBed('intro', 'Intro')}
+        {renderBed('outro', 'Outro')}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-400">
+          {editState?.needsRender ? 'The edit has changed since it was last rendered' : editState?.edlRenderedAt ? 'Rendered' : ''}
+        </span>
+        <button
+          type="button"
+          onClick={handleRender}
+          disabled={renderStatus === 'rendering' || edl.clips.length === 0}
+          className="bg-primary-600 hover:bg-primary-700 rounded px-4 py-2 text-sm font-medium disabled:opacity-50"
+        >
+          {renderStatus === 'rendering' ? 'Rendering...' : renderStatus === 'failed' ? 'Retry render' : 'Render edit'}
+        </button>
+      </div>
+    </div>
+  );
+}
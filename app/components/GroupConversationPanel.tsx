@@ -0,0 +1,201 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Image from 'next/image';
+import { FaCamera, FaSignOutAlt, FaUserPlus } from 'react-icons/fa';
+import toast from 'react-hot-toast';
+import type { MessageSender } from '@/lib/messages';
+import {
+  ConversationDetails,
+  addGroupMembers,
+  removeGroupMember,
+  setGroupMemberRole,
+  updateGroupConversation,
+} from '@/lib/storage';
+import { startFileUpload } from '@/lib/fileStorage';
+import UserPicker from './UserPicker';
+
+interface GroupConversationPanelProps {
+  conversation: ConversationDetails;
+  currentUserId: string;
+  onChange: (conversation: ConversationDetails) => void;
+  onLeave: () => void;
+}
+
+// Details and members of a group conversation; admins can rename it, change its photo and manage members
+export default function GroupConversationPanel({ conversation, currentUserId, onChange, onLeave }: GroupConversationPanelProps) {
+  const [title, setTitle] = useState(conversation.title || '');
+  const [newMembers, setNewMembers] = useState<MessageSender[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const isAdmin = conversation.participants.some(
+    participant => participant.id === currentUserId && participant.role === 'admin'
+  );
+
+  // Run a change, showing its error and keeping the panel in step with the result
+  const run = async (change: () => Promise<ConversationDetails | void>) => {
+    setIsBusy(true);
+    try {
+      const updated = await change();
+      if (updated) onChange(updated);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update group');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    run(async () => {
+      const url = await startFileUpload(file, 'images');
+      return updateGroupConversation(conversation.id, { image: url });
+    });
+  };
+
+  const handleAddMembers = () =>
+    run(async () => {
+      const updated = await addGroupMembers(conversation.id, newMembers.map(member => member.id));
+      setNewMembers([]);
+      return updated;
+    });
+
+  const handleLeave = () =>
+    run(async () => {
+      await removeGroupMember(conversation.id, currentUserId);
+      onLeave();
+    });
+
+  return (
+    <div className="p-4 border-b border-gray-800 bg-gray-900 text-sm">
+      <div className="flex items-center gap-3 mb-4">
+        <button
+          type="button"
+          onClick={() => imageInputRef.current?.click()}
+          disabled={!isAdmin || isBusy}
+          aria-label="Change group photo"
+          className="relative w-14 h-14 rounded-full overflow-hidden flex-shrink-0 group"
+        >
+          <Image
+            src={conversation.image || 'https://placehold.co/100/5f33e1/ffffff?text=G'}
+            alt={conversation.title || 'Group'}
+            fill
+            className="object-cover"
+          />
+          {isAdmin && (
+            <span className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 flex items-center justify-center">
+              <FaCamera />
+            </span>
+          )}
+        </button>
+        <input type="file" ref={imageInputRef} onChange={handleImageChange} accept="image/*" className="hidden" />
+
+        {isAdmin ? (
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              run(() => updateGroupConversation(conversation.id, { title }));
+            }}
+            className="flex flex-1 gap-2"
+          >
+            <input
+              type="text"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              aria-label="Group name"
+              className="flex-1 bg-gray-800 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-primary-600"
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !title.trim() || title.trim() === conversation.title}
+              className="px-3 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              Rename
+            </button>
+          </form>
+        ) : (
+          <h3 className="text-lg font-semibold">{conversation.title}</h3>
+        )}
+      </div>
+
+      <h4 className="font-semibold mb-2">{conversation.participants.length} members</h4>
+      <ul className="space-y-2 mb-4">
+        {conversation.participants.map(participant => (
+          <li key={participant.id} className="flex items-center justify-between">
+            <span>
+              {participant.name || 'Unknown User'}
+              {participant.id === currentUserId && ' (you)'}
+              {participant.role === 'admin' && (
+                <span className="ml-2 text-xs uppercase tracking-wide text-gray-400">Admin</span>
+              )}
+            </span>
+            {isAdmin && participant.id !== currentUserId && (
+              <span className="flex gap-3 text-xs">
+                <button
+                  type="button"
+                  disabled={isBusy}
+                  onClick={() => run(() => setGroupMemberRole(
+                    conversation.id,
+                    participant.id,
+                    participant.role === 'admin' ? 'member' : 'admin'
+                  ))}
+                  className="text-primary-400 hover:underline disabled:opacity-50"
+                >
+                  {participant.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                </button>
+                <button
+                  type="button"
+                  disabled={isBusy}
+                  onClick={() => run(async () => {
+                    await removeGroupMember(conversation.id, participant.id);
+                    return {
+                      ...conversation,
+                      participants: conversation.participants.filter(item => item.id !== participant.id),
+                    };
+                  })}
+                  className="text-red-400 hover:underline disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isAdmin && (
+        <div className="mb-4">
+          <UserPicker
+            selected={newMembers}
+            onChange={setNewMembers}
+            excludeIds={conversation.participants.map(participant => participant.id)}
+          />
+          {newMembers.length > 0 && (
+            <button
+              type="button"
+              onClick={handleAddMembers}
+              disabled={isBusy}
+              className="mt-2 flex items-center px-3 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              <FaUserPlus className="mr-2" />
+              Add {newMembers.length === 1 ? newMembers[0].name || '1 person' : `${newMembers.length} people`}
+            </button>
+          )}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleLeave}
+        disabled={isBusy}
+        className="flex items-center text-red-400 hover:underline disabled:opacity-50"
+      >
+        <FaSignOutAlt className="mr-2" />
+        Leave group
+      </button>
+    </div>
+  );
+}
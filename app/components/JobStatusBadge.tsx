@@ -0,0 +1,69 @@
+'use client';
+
+import { FaCheckCircle, FaClock, FaExclamationTriangle, FaRedo, FaSpinner } from 'react-icons/fa';
+import type { JobSummary } from '@/lib/jobs';
+
+interface JobStatusBadgeProps {
+  label: string;
+  job: JobSummary;
+  onRetry?: (job: JobSummary) => void;
+  isRetrying?: boolean;
+}
+
+// Compact status line for a background job, with the failure reason and a retry action
+export default function JobStatusBadge({ label, job, onRetry, isRetrying = false }: JobStatusBadgeProps) {
+  const attempts = `attempt ${Math.max(job.attempts, 1)} of ${job.maxAttempts}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-500 dark:text-gray-400">
+      <span className="font-medium">{label}:</span>
+
+      {job.status === 'queued' && (
+        <span className="flex items-center">
+          <FaClock className="mr-1" />
+          {job.attempts > 0 ? `Retrying (${attempts})` : 'Queued'}
+        </span>
+      )}
+
+      {job.status === 'running' && (
+        <span className="flex items-center">
+          <FaSpinner className="mr-1 animate-spin" />
+          In progress ({attempts})
+        </span>
+      )}
+
+      {job.status === 'completed' && (
+        <span className="flex items-center text-green-600 dark:text-green-400">
+          <FaCheckCircle className="mr-1" />
+          Done
+        </span>
+      )}
+
+      {job.status === 'failed' && (
+        <>
+          <span className="flex items-center text-red-600 dark:text-red-400">
+            <FaExclamationTriangle className="mr-1" />
+            Failed after {job.attempts} attempt{job.attempts === 1 ? '' : 's'}
+          </span>
+          {onRetry && (
+            <button
+              type="button"
+              onClick={() => onRetry(job)}
+              disabled={isRetrying}
+              className="flex items-center text-primary-600 hover:underline disabled:opacity-50"
+            >
+              <FaRedo className="mr-1" />
+              Retry
+            </button>
+          )}
+        </>
+      )}
+
+      {job.lastError && job.status !== 'completed' && (
+        <span className="w-full truncate" title={job.lastError}>
+          {job.lastError}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useRef } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { FaMicrophone } from 'react-icons/fa';
+import type { MessageAttachmentSummary } from '@/lib/messages';
+import { formatTimestamp } from '@/lib/transcripts';
+
+interface MessageAttachmentProps {
+  attachment: MessageAttachmentSummary;
+}
+
+// Plays only the clipped part of an episode
+function ClipAudio({ src, startTime, endTime }: { src: string; startTime: number; endTime: number }) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  return (
+    <audio
+      ref={audioRef}
+      controls
+      preload="none"
+      src={`${src}#t=${startTime},${endTime}`}
+      onPlay={() => {
+        const audio = audioRef.current;
+        if (audio && (audio.currentTime < startTime || audio.currentTime >= endTime)) {
+          audio.currentTime = startTime;
+        }
+      }}
+      onTimeUpdate={() => {
+        const audio = audioRef.current;
+        if (audio && audio.currentTime >= endTime) {
+          audio.pause();
+          audio.currentTime = startTime;
+        }
+      }}
+      className="w-full mt-2"
+    />
+  );
+}
+
+// Inline player for a voice note, or a card for a shared episode or clip
+export default function MessageAttachment({ attachment }: MessageAttachmentProps) {
+  if (attachment.type === 'voice') {
+    return (
+      <div className="flex items-center gap-2 min-w-[240px]">
+        <FaMicrophone className="flex-shrink-0" />
+        <audio controls preload="metadata" src={attachment.url || undefined} className="w-full" />
+      </div>
+    );
+  }
+
+  const { podcast } = attachment;
+  if (!podcast) {
+    return <p className="italic text-gray-300">This episode is no longer available</p>;
+  }
+
+  const isClip = attachment.type === 'clip';
+  const href = isClip ? `/podcasts/${podcast.id}?t=${Math.floor(attachment.startTime)}` : `/podcasts/${podcast.id}`;
+
+  return (
+    <div className="min-w-[240px] max-w-sm">
+      <Link href={href} className="flex items-center gap-3 hover:opacity-90">
+        <div className="w-14 h-14 relative rounded-lg overflow-hidden flex-shrink-0">
+          <Image
+            src={podcast.coverImage || 'https://placehold.co/100/5f33e1/ffffff?text=P'}
+            alt={podcast.title}
+            fill
+            className="object-cover"
+          />
+        </div>
+        <div className="min-w-0">
+          <p className="font-semibold truncate">{podcast.title}</p>
+          <p className="text-xs opacity-75 truncate">{podcast.user.name || 'Unknown creator'}</p>
+          <p className="text-xs opacity-75">
+            {isClip
+              ? `Clip ${formatTimestamp(attachment.startTime)}-${formatTimestamp(attachment.endTime)}`
+              : podcast.duration ? formatTimestamp(podcast.duration) : 'Episode'}
+          </p>
+        </div>
+      </Link>
+
+      {isClip ? (
+        <ClipAudio src={podcast.audioUrl} startTime={attachment.startTime} endTime={attachment.endTime} />
+      ) : (
+        <audio controls preload="none" src={podcast.audioUrl} className="w-full mt-2" />
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,20 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useSupabase } from '@/app/providers/SupabaseProvider';
+import { useMessagingEvents } from '@/app/hooks/useMessagingEvents';
 
 export default function MessageNotificationBadge() {
   const [unreadCount, setUnreadCount] = useState(0);
   const { user } = useSupabase();
 
-  useEffect(() => {
-    // Only fetch unread messages if user is authenticated
-    if (user) {
-      // In a real application, you would fetch this from your API
-      // For now, just simulate with a random number
-      const count = Math.floor(Math.random() * 5);
-      setUnreadCount(count);
-    }
-  }, [user]);
+  // The message stream starts with the unread count and pushes every change to it
+  useMessagingEvents({
+    enabled: Boolean(user),
+    onEvent: event => {
+      if (event.type === 'unread') setUnreadCount(event.count);
+    },
+  });
 
   if (!user || unreadCount === 0) {
     return null;
@@ -26,4 +25,4 @@ export default function MessageNotificationBadge() {
       {unreadCount > 9 ? '9+' : unreadCount}
     </span>
   );
-} 
\ No newline at end of file
+}
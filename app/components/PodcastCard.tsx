@@ -4,6 +4,7 @@ import Image from 'next/image'
 import Link from 'next/link'
 import { FaPlay, FaHeart, FaComment, FaShare, FaLock, FaGlobe } from 'react-icons/fa'
 import { formatDistanceToNow } from 'date-fns'
+import { formatEpisodeLabel } from '@/lib/episodes'
 
 interface Podcast {
   id: string
@@ -22,6 +23,13 @@ interface Podcast {
   likes?: number
   comments?: number
   isPublic?: boolean
+  show?: {
+    id: string
+    title: string
+  } | null
+  seasonNumber?: number | null
+  episodeNumber?: number | null
+  episodeType?: string
 }
 
 interface PodcastCardProps {
@@ -36,6 +44,8 @@ export default function PodcastCard({ podcast }: PodcastCardProps) {
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`
   }
 
+  const episodeLabel = formatEpisodeLabel(podcast)
+
   return (
     <div className="bg-gray-800 rounded-lg overflow-hidden hover:shadow-lg transition-shadow">
       <div className="relative h-48 w-full">
@@ -60,6 +70,11 @@ export default function PodcastCard({ podcast }: PodcastCardProps) {
       </div>
       
       <div className="p-4">
+        {(podcast.show || episodeLabel) && (
+          <p className="text-xs uppercase tracking-wide text-indigo-400 mb-1">
+            {[podcast.show?.title, episodeLabel].filter(Boolean).join(' · ')}
+          </p>
+        )}
         <Link href={`/podcasts/${podcast.id}`}>
           <h3 className="text-lg font-semibold mb-1 hover:text-indigo-400 transition-colors">
             {podcast.title}
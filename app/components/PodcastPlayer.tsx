@@ -12,12 +12,22 @@ import {
   FaRedo,
 } from 'react-icons/fa';
 import toast from 'react-hot-toast';
+import { trackListening } from '@/lib/listenTracker';
+import { getCurrentChapterIndex } from '@/lib/chapters';
+import { formatTimestamp } from '@/lib/transcripts';
+import type { Chapter } from '@/lib/storage';
+import type { WaveformData } from '@/lib/waveform';
+import WaveformScrubber from './WaveformScrubber';
 
 interface PodcastPlayerProps {
   title: string;
   artist: string;
   coverImage: string;
   audioUrl: string;
+  podcastId?: string; // When set, plays are reported to the listen tracking API
+  startTime?: number; // Offset in seconds to start playback from, e.g. from a ?t= deep link
+  chapters?: Chapter[]; // Sorted by start time
+  waveform?: WaveformData | null; // Precomputed peaks; replaces the plain progress bar when set
   onEnded?: () => void;
 }
 
@@ -26,6 +36,10 @@ const PodcastPlayer: React.FC<PodcastPlayerProps> = ({
   artist,
   coverImage,
   audioUrl,
+  podcastId,
+  startTime,
+  chapters = [],
+  waveform,
   onEnded,
 }) => {
   const [isPlaying, setIsPlaying] = useState(false);
@@ -36,6 +50,7 @@ const PodcastPlayer: React.FC<PodcastPlayerProps> = ({
   const [playbackRate, setPlaybackRate] = useState(1);
   const [prevVolume, setPrevVolume] = useState(1);
   const [error, setError] = useState<string | null>(null);
+  const [mediaElement, setMediaElement] = useState<HTMLAudioElement | null>(null);
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const progressBarRef = useRef<HTMLDivElement | null>(null);
@@ -85,6 +100,37 @@ const PodcastPlayer: React.FC<PodcastPlayerProps> = ({
     };
   }, [audioUrl]);
 
+  // Seek to the requested start offset once the audio can be positioned
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !startTime) return;
+
+    const seekToStart = () => {
+      audio.currentTime = startTime;
+      setCurrentTime(startTime);
+    };
+
+    if (audio.readyState >= 1) {
+      seekToStart();
+      return;
+    }
+
+    audio.addEventListener('loadedmetadata', seekToStart);
+    return () => audio.removeEventListener('loadedmetadata', seekToStart);
+  }, [audioUrl, startTime]);
+
+  // The waveform scrubber needs the element itself, not the ref, to re-render once it exists
+  useEffect(() => {
+    setMediaElement(audioRef.current);
+  }, []);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !podcastId) return;
+
+    return trackListening(audio, podcastId);
+  }, [podcastId, audioUrl]);
+
   const handleEnd = () => {
     setIsPlaying(false);
     if (onEnded) onEnded();
@@ -162,6 +208,14 @@ const PodcastPlayer: React.FC<PodcastPlayerProps> = ({
     setPlaybackRate(newRate);
   };
 
+  const seekTo = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio || error) return;
+
+    audio.currentTime = seconds;
+    setCurrentTime(seconds);
+  };
+
   const skip = (seconds: number) => {
     const audio = audioRef.current;
     if (!audio || error) return;
@@ -178,37 +232,55 @@ const PodcastPlayer: React.FC<PodcastPlayerProps> = ({
     return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  const currentChapterIndex = getCurrentChapterIndex(chapters, currentTime);
+  const currentChapter = currentChapterIndex >= 0 ? chapters[currentChapterIndex] : null;
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-lg">
       <audio ref={audioRef} preload="metadata" />
       
       <div className="flex flex-col md:flex-row items-center mb-4">
         <div className="relative w-24 h-24 md:mr-4 mb-4 md:mb-0">
+          {/* Chapter art can be on any host, so it skips next/image's host allowlist */}
           <Image
-            src={coverImage}
-            alt={title}
+            src={currentChapter?.img || coverImage}
+            alt={currentChapter?.title || title}
             layout="fill"
             objectFit="cover"
+            unoptimized={Boolean(currentChapter?.img)}
             className="rounded-lg"
           />
         </div>
         <div className="text-center md:text-left">
           <h3 className="text-lg font-semibold mb-1">{title}</h3>
           <p className="text-gray-600 dark:text-gray-400">{artist}</p>
+          {currentChapter && (
+            <p className="text-sm text-primary-600 dark:text-primary-400 mt-1">{currentChapter.title}</p>
+          )}
           {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
         </div>
       </div>
       
-      <div 
-        ref={progressBarRef}
-        className={`h-2 bg-gray-200 dark:bg-gray-700 rounded-full ${error ? 'opacity-50' : 'cursor-pointer'} mb-2`}
-        onClick={error ? undefined : handleProgress}
-      >
+      {waveform && !error ? (
+        <div className="mb-2">
+          <WaveformScrubber
+            waveform={waveform}
+            media={mediaElement}
+            duration={isFinite(duration) && duration > 0 ? duration : undefined}
+          />
+        </div>
+      ) : (
         <div 
-          className="h-2 bg-primary-500 rounded-full" 
-          style={{ width: `${(currentTime / duration) * 100}%` }}
-        />
-      </div>
+          ref={progressBarRef}
+          className={`h-2 bg-gray-200 dark:bg-gray-700 rounded-full ${error ? 'opacity-50' : 'cursor-pointer'} mb-2`}
+          onClick={error ? undefined : handleProgress}
+        >
+          <div 
+            className="h-2 bg-primary-500 rounded-full" 
+            style={{ width: `${(currentTime / duration) * 100}%` }}
+          />
+        </div>
+      )}
       
       <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-4">
         <span>{formatTime(currentTime)}</span>
@@ -269,6 +341,43 @@ const PodcastPlayer: React.FC<PodcastPlayerProps> = ({
           {playbackRate}x
         </button>
       </div>
+
+      {chapters.length > 0 && (
+        <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-3">
+          <h4 className="text-sm font-semibold mb-2">Chapters</h4>
+          <ol className="space-y-1 max-h-60 overflow-y-auto">
+            {chapters.map((chapter, index) => (
+              <li key={`${chapter.startTime}-${index}`}>
+                <button
+                  onClick={() => seekTo(chapter.startTime)}
+                  disabled={!!error}
+                  className={`w-full flex items-center text-left text-sm px-2 py-1 rounded ${
+                    index === currentChapterIndex
+                      ? 'bg-primary-50 dark:bg-gray-700 text-primary-600 dark:text-primary-400 font-medium'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                  aria-current={index === currentChapterIndex ? 'true' : undefined}
+                >
+                  <span className="w-16 flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                    {formatTimestamp(chapter.startTime)}
+                  </span>
+                  <span className="truncate">{chapter.title}</span>
+                </button>
+                {chapter.url && index === currentChapterIndex && (
+                  <a
+                    href={chapter.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block ml-[4.5rem] text-xs text-primary-600 hover:underline truncate"
+                  >
+                    {chapter.url}
+                  </a>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
     </div>
   );
 };
@@ -6,7 +6,9 @@ import Image from 'next/image';
 import { FaPlay, FaPause, FaHeart, FaRegHeart, FaComment, FaShareAlt, FaEllipsisH } from 'react-icons/fa';
 import toast from 'react-hot-toast';
 import { Podcast } from '@/lib/storage';
+import { isWaveformData } from '@/lib/waveform';
 import CommentModal from './CommentModal';
+import WaveformScrubber from './WaveformScrubber';
 
 interface PodcastPostProps {
   podcast: Podcast;
@@ -15,9 +17,10 @@ interface PodcastPostProps {
   onLikeToggle: (podcastId: string) => void;
   isLiked: boolean;
   commentCount?: number;
+  audio?: HTMLAudioElement | null; // The feed's shared audio element while this post is playing
 }
 
-const PodcastPost = ({ podcast, isPlaying, onPlayToggle, onLikeToggle, isLiked, commentCount = 0 }: PodcastPostProps) => {
+const PodcastPost = ({ podcast, isPlaying, onPlayToggle, onLikeToggle, isLiked, commentCount = 0, audio = null }: PodcastPostProps) => {
   const [showMenu, setShowMenu] = useState(false);
   const [showCommentModal, setShowCommentModal] = useState(false);
   const [likeCount, setLikeCount] = useState(podcast.likes || 0);
@@ -174,6 +177,16 @@ const PodcastPost = ({ podcast, isPlaying, onPlayToggle, onLikeToggle, isLiked,
                     {isPlaying ? <FaPause /> : <FaPlay />}
                   </button>
                 </div>
+                {isWaveformData(podcast.waveform) && (
+                  <div className="mt-1">
+                    <WaveformScrubber
+                      waveform={podcast.waveform}
+                      media={audio}
+                      duration={podcast.duration}
+                      height={32}
+                    />
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -4,8 +4,10 @@ import { useState } from 'react'
 import { FaSearch, FaUser, FaPlus } from 'react-icons/fa'
 import Image from 'next/image'
 import Link from 'next/link'
+import { useRouter } from 'next/navigation'
 
 export default function RightSidebar() {
+  const router = useRouter()
   const [searchQuery, setSearchQuery] = useState('')
 
   // Mock trending topics
@@ -44,8 +46,8 @@ export default function RightSidebar() {
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
-    // Handle search logic here
-    console.log('Searching for:', searchQuery)
+    if (!searchQuery.trim()) return
+    router.push(`/search?q=${encodeURIComponent(searchQuery.trim())}`)
   }
 
   return (
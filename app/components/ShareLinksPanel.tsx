@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FaBan, FaCopy, FaLink, FaLock } from 'react-icons/fa';
+import toast from 'react-hot-toast';
+import type { ShareLinkSummary } from '@/lib/shareLinks';
+import { createShareLink, getShareLinks, revokeShareLink } from '@/lib/storage';
+
+interface ShareLinksPanelProps {
+  podcastId: string;
+}
+
+const STATUS_LABELS: Record<ShareLinkSummary['status'], string> = {
+  active: 'Active',
+  revoked: 'Revoked',
+  expired: 'Expired',
+  exhausted: 'Play limit reached',
+};
+
+const EMPTY_FORM = { label: '', expiresInDays: '7', maxPlays: '', password: '' };
+
+// Lets a creator send a private episode to reviewers with links that expire or run out of plays
+export default function ShareLinksPanel({ podcastId }: ShareLinksPanelProps) {
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    getShareLinks(podcastId)
+      .then(setLinks)
+      .catch(error => console.error('Error loading share links:', error));
+  }, [podcastId]);
+
+  const copyLink = async (link: ShareLinkSummary) => {
+    await navigator.clipboard.writeText(`${window.location.origin}${link.path}`);
+    toast.success('Link copied to clipboard');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const link = await createShareLink(podcastId, {
+        label: form.label || undefined,
+        expiresInDays: form.expiresInDays ? Number(form.expiresInDays) : undefined,
+        maxPlays: form.maxPlays ? Number(form.maxPlays) : undefined,
+        password: form.password || undefined,
+      });
+      setLinks(current => [link, ...current]);
+      setForm(EMPTY_FORM);
+      await copyLink(link);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create share link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLinkSummary) => {
+    try {
+      const revoked = await revokeShareLink(podcastId, link.id);
+      setLinks(current => current.map(item => (item.id === revoked.id ? revoked : item)));
+      toast.success('Share link revoked');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke share link');
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4">
+      <h3 className="text-lg font-semibold mb-1 flex items-center">
+        <FaLink className="mr-2" />
+        Share links
+      </h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Anyone with a link can listen to this private episode without signing in.
+      </p>
+
+      <form onSubmit={handleCreate} className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4 text-sm">
+        <input
+          type="text"
+          value={form.label}
+          onChange={e => setForm({ ...form, label: e.target.value })}
+          placeholder="For (e.g. guest name)"
+          className="bg-gray-800 rounded px-3 py-2 col-span-2 md:col-span-1"
+        />
+        <input
+          type="number"
+          min="1"
+          value={form.expiresInDays}
+          onChange={e => setForm({ ...form, expiresInDays: e.target.value })}
+          placeholder="Expires in days"
+          aria-label="Expires in days"
+          className="bg-gray-800 rounded px-3 py-2"
+        />
+        <input
+          type="number"
+          min="1"
+          value={form.maxPlays}
+          onChange={e => setForm({ ...form, maxPlays: e.target.value })}
+          placeholder="Max plays"
+          aria-label="Max plays"
+          className="bg-gray-800 rounded px-3 py-2"
+        />
+        <input
+          type="password"
+          value={form.password}
+          onChange={e => setForm({ ...form, password: e.target.value })}
+          placeholder="Password (optional)"
+          autoComplete="new-password"
+          className="bg-gray-800 rounded px-3 py-2"
+        />
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="bg-primary-600 hover:bg-primary-700 rounded px-3 py-2 font-medium disabled:opacity-50"
+        >
+          {isCreating ? 'Creating...' : 'Create link'}
+        </button>
+      </form>
+
+      {links.length === 0 ? (
+        <p className="text-sm text-gray-500">No share links yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-800">
+          {links.map(link => (
+            <li key={link.id} className="py-2 flex flex-wrap items-center gap-3 text-sm">
+              <span className="font-medium flex items-center">
+                {link.hasPassword && <FaLock className="mr-1 text-gray-400" aria-label="Password protected" />}
+                {link.label || 'Untitled link'}
+              </span>
+              <span className={link.status === 'active' ? 'text-green-500' : 'text-gray-500'}>
+                {STATUS_LABELS[link.status]}
+              </span>
+              <span className="text-gray-400">
+                {link.plays}{link.maxPlays !== null ? ` / ${link.maxPlays}` : ''} plays
+              </span>
+              {link.expiresAt && (
+                <span className="text-gray-400">
+                  Expires {new Date(link.expiresAt).toLocaleDateString()}
+                </span>
+              )}
+              {link.status === 'active' && (
+                <span className="ml-auto flex gap-3">
+                  <button type="button" onClick={() => copyLink(link)} className="flex items-center text-primary-500 hover:underline">
+                    <FaCopy className="mr-1" />
+                    Copy
+                  </button>
+                  <button type="button" onClick={() => handleRevoke(link)} className="flex items-center text-red-500 hover:underline">
+                    <FaBan className="mr-1" />
+                    Revoke
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { FaTimes } from 'react-icons/fa';
+import { search } from '@/lib/storage';
+import type { MessageSender } from '@/lib/messages';
+
+interface UserPickerProps {
+  selected: MessageSender[];
+  onChange: (selected: MessageSender[]) => void;
+  excludeIds?: string[]; // e.g. the current user and existing members
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// Search users by name and collect a list of them, e.g. to add to a group
+export default function UserPicker({ selected, onChange, excludeIds = [] }: UserPickerProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<MessageSender[]>([]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      search(query.trim(), { type: 'users', limit: 5 })
+        .then(response => setResults((response.users?.items || []).map(user => ({
+          id: user.id,
+          name: user.name,
+          image: user.image || null,
+        }))))
+        .catch(error => console.error('Error searching users:', error));
+    }, SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const hiddenIds = [...excludeIds, ...selected.map(user => user.id)];
+  const options = results.filter(user => !hiddenIds.includes(user.id));
+
+  return (
+    <div className="text-sm">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {selected.map(user => (
+            <span key={user.id} className="flex items-center bg-gray-800 rounded-full px-3 py-1">
+              {user.name || 'Unknown User'}
+              <button
+                type="button"
+                onClick={() => onChange(selected.filter(item => item.id !== user.id))}
+                aria-label={`Remove ${user.name || 'user'}`}
+                className="ml-2 text-gray-400 hover:text-white"
+              >
+                <FaTimes />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="Search people by name"
+        className="w-full bg-gray-800 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-primary-600"
+      />
+
+      {options.length > 0 && (
+        <ul className="mt-1 bg-gray-800 rounded-lg divide-y divide-gray-700">
+          {options.map(user => (
+            <li key={user.id}>
+              <button
+                type="button"
+                onClick={() => {
+                  onChange([...selected, user]);
+                  setQuery('');
+                }}
+                className="w-full flex items-center px-3 py-2 hover:bg-gray-700 text-left"
+              >
+                <div className="w-6 h-6 relative rounded-full overflow-hidden mr-2">
+                  <Image
+                    src={user.image || 'https://placehold.co/100/5f33e1/ffffff?text=U'}
+                    alt={user.name || 'User'}
+                    fill
+                    className="object-cover"
+                  />
+                </div>
+                {user.name || 'Unknown User'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
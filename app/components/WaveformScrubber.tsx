@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useMemo, useRef } from 'react';
+import { WaveformData, getWaveformDuration, getWaveformPeaks } from '@/lib/waveform';
+
+interface WaveformScrubberProps {
+  waveform: WaveformData;
+  media?: HTMLMediaElement | null; // Audio element to follow and seek; without it the waveform is display-only
+  duration?: number | null; // Seconds; defaults to the length the peaks cover
+  height?: number;
+  waveColor?: string;
+  progressColor?: string;
+}
+
+// Draws precomputed peaks with wavesurfer.js so long episodes never have to be decoded in the browser
+export default function WaveformScrubber({
+  waveform,
+  media,
+  duration,
+  height = 48,
+  waveColor = '#6b7280',
+  progressColor = '#5f33e1',
+}: WaveformScrubberProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const peaks = useMemo(() => getWaveformPeaks(waveform), [waveform]);
+  const totalDuration = duration || getWaveformDuration(waveform);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let destroyed = false;
+    let destroy: (() => void) | null = null;
+
+    // wavesurfer.js touches the DOM on import, so load it on the client only
+    import('wavesurfer.js').then(({ default: WaveSurfer }) => {
+      if (destroyed) return;
+
+      const wavesurfer = WaveSurfer.create({
+        container,
+        height,
+        waveColor,
+        progressColor,
+        cursorWidth: media ? 1 : 0,
+        barWidth: 2,
+        barGap: 1,
+        barRadius: 1,
+        peaks,
+        duration: totalDuration,
+        media: media || undefined,
+        interact: Boolean(media),
+      });
+
+      destroy = () => wavesurfer.destroy();
+    });
+
+    return () => {
+      destroyed = true;
+      destroy?.();
+    };
+  }, [media, peaks, totalDuration, height, waveColor, progressColor]);
+
+  return <div ref={containerRef} className={media ? 'cursor-pointer' : ''} style={{ height }} />;
+}
@@ -6,10 +6,25 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { FaMicrophone, FaPodcast, FaUserFriends, FaChartLine, FaPlus, FaGlobe, FaLock, FaLink, FaCalendarAlt, FaEdit, FaUsers, FaHeart, FaArrowLeft, FaHeadphones, FaPlay, FaMusic, FaCog, FaTrash, FaPlusCircle, FaCamera, FaTimes, FaSave } from 'react-icons/fa';
 import { toast } from 'react-hot-toast';
-import { getUserPodcasts, updatePodcast, deletePodcast, Podcast } from '@/lib/storage';
+import { getUserPodcasts, getUserShows, addShow, groupPodcastsByShow, updatePodcast, deletePodcast, getCreatorAnalytics, getJobs, retryJob, CreatorAnalytics, Podcast, Show } from '@/lib/storage';
+import { AnalyticsInterval } from '@/lib/analytics';
+import { JobSummary, getLatestJobsByPodcast } from '@/lib/jobs';
 import { useSupabase } from '@/app/providers/SupabaseProvider';
 import { supabase } from '@/lib/supabaseClient';
 import PodcastCard from '@/app/components/PodcastCard';
+import AnalyticsChart from '@/app/components/AnalyticsChart';
+import JobStatusBadge from '@/app/components/JobStatusBadge';
+
+// Date ranges offered on the analytics tab, with the bucket size used for each
+const ANALYTICS_RANGES: { days: number; label: string; interval: AnalyticsInterval }[] = [
+  { days: 7, label: 'Last 7 days', interval: 'day' },
+  { days: 30, label: 'Last 30 days', interval: 'day' },
+  { days: 90, label: 'Last 90 days', interval: 'week' },
+  { days: 365, label: 'Last 12 months', interval: 'month' },
+];
+
+// How often the podcasts tab refreshes while background jobs are queued or running
+const JOB_POLL_INTERVAL_MS = 5000;
 
 // Dashboard stat card
 interface StatCardProps {
@@ -312,6 +327,9 @@ const Dashboard = () => {
   const router = useRouter();
   const { user, session, isLoading: authLoading, refreshSession } = useSupabase();
   const [podcasts, setPodcasts] = useState<Podcast[]>([]);
+  const [shows, setShows] = useState<Show[]>([]);
+  const [newShow, setNewShow] = useState({ title: '', category: '', explicit: false });
+  const [isCreatingShow, setIsCreatingShow] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isEditProfileModalOpen, setIsEditProfileModalOpen] = useState(false);
   const [dataFetched, setDataFetched] = useState(false);
@@ -322,6 +340,12 @@ const Dashboard = () => {
     totalFollowers: 0,
     totalLikes: 0,
   });
+  const [analytics, setAnalytics] = useState<CreatorAnalytics | null>(null);
+  const [analyticsDays, setAnalyticsDays] = useState(30);
+  const [analyticsPodcastId, setAnalyticsPodcastId] = useState('');
+  const [isAnalyticsLoading, setIsAnalyticsLoading] = useState(false);
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null);
   
   const [profile, setProfile] = useState({
     name: user?.user_metadata?.full_name || '',
@@ -355,36 +379,21 @@ const Dashboard = () => {
             setIsLoading(true);
           }
           
-          const userPodcasts = await getUserPodcasts(userId);
+          const [userPodcasts, userShows] = await Promise.all([
+            getUserPodcasts(userId),
+            getUserShows(userId),
+          ]);
           
           // Set state with real metrics
           setPodcasts(userPodcasts);
+          setShows(userShows);
           
-          // Calculate real metrics from podcast data
-          setStats({
+          // Listens, likes and followers come from the analytics API
+          setStats(prev => ({
+            ...prev,
             totalPodcasts: userPodcasts.length,
-            totalListens: userPodcasts.reduce((sum, podcast) => sum + (podcast.listens || 0), 0),
-            totalLikes: userPodcasts.reduce((sum, podcast) => sum + (podcast.likes || 0), 0),
-            totalFollowers: 0, // This will be updated with real data when we fetch followers
-          });
-          
-          // Fetch follower count from API (in a real implementation)
-          const fetchFollowerCount = async () => {
-            try {
-              const response = await fetch(`/api/users/${userId}/followers/count`);
-              if (response.ok) {
-                const data = await response.json();
-                setStats(prev => ({
-                  ...prev,
-                  totalFollowers: data.count
-                }));
-              }
-            } catch (error) {
-              console.error('Failed to fetch follower count:', error);
-            }
-          };
+          }));
           
-          fetchFollowerCount();
           setDataFetched(true);
         } catch (error) {
           console.error('Failed to load podcasts:', error);
@@ -402,6 +411,93 @@ const Dashboard = () => {
     }
   }, [authLoading, user, router, dataFetched, profile.name]);
 
+  // Load analytics series for the selected range and episode
+  useEffect(() => {
+    if (!user) return;
+
+    const range = ANALYTICS_RANGES.find(option => option.days === analyticsDays) || ANALYTICS_RANGES[1];
+    const from = new Date(Date.now() - (range.days - 1) * 24 * 60 * 60 * 1000);
+    let cancelled = false;
+
+    const loadAnalytics = async () => {
+      setIsAnalyticsLoading(true);
+      try {
+        const data = await getCreatorAnalytics({
+          from: from.toISOString().slice(0, 10),
+          interval: range.interval,
+          podcastId: analyticsPodcastId || undefined,
+        });
+        if (cancelled) return;
+
+        setAnalytics(data);
+
+        // Creator-level responses carry all-time totals for the stat cards
+        if (data.lifetime) {
+          setStats({
+            totalPodcasts: data.lifetime.podcasts,
+            totalListens: data.lifetime.plays,
+            totalLikes: data.lifetime.likes,
+            totalFollowers: data.lifetime.followers,
+          });
+        }
+      } catch (error) {
+        console.error('Failed to load analytics:', error);
+        if (!cancelled) toast.error('Failed to load analytics');
+      } finally {
+        if (!cancelled) setIsAnalyticsLoading(false);
+      }
+    };
+
+    loadAnalytics();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, analyticsDays, analyticsPodcastId]);
+
+  const hasActiveJobs = jobs.some(job => job.status === 'queued' || job.status === 'running');
+
+  // Load processing and transcription jobs for the podcasts tab, polling while any are still in flight
+  useEffect(() => {
+    if (!user || activeTab !== 'podcasts') return;
+
+    let cancelled = false;
+
+    const loadJobs = async () => {
+      try {
+        const data = await getJobs();
+        if (!cancelled) setJobs(data);
+      } catch (error) {
+        console.error('Failed to load jobs:', error);
+      }
+    };
+
+    loadJobs();
+    const interval = hasActiveJobs ? setInterval(loadJobs, JOB_POLL_INTERVAL_MS) : null;
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [user, activeTab, hasActiveJobs]);
+
+  const handleRetryJob = async (job: JobSummary) => {
+    setRetryingJobId(job.id);
+    try {
+      const retried = await retryJob(job.id);
+      setJobs(prev => prev.map(existing => (existing.id === retried.id ? retried : existing)));
+      toast.success('Job queued');
+    } catch (error) {
+      console.error('Failed to retry job:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to retry job');
+    } finally {
+      setRetryingJobId(null);
+    }
+  };
+
+  const processingJobs = getLatestJobsByPodcast(jobs, 'audio-processing');
+  const transcriptionJobs = getLatestJobsByPodcast(jobs, 'transcription');
+
   // Handle profile save
   const handleSaveProfile = async (data: EditProfileFormData) => {
     try {
@@ -476,6 +572,47 @@ const Dashboard = () => {
     }
   };
 
+  // Release a draft or scheduled episode right away
+  const publishNow = async (podcastId: string) => {
+    const updatedPodcast = await updatePodcast(podcastId, { status: 'published' });
+
+    if (updatedPodcast) {
+      setPodcasts(current => current.map(p => 
+        p.id === podcastId ? { ...p, ...updatedPodcast } : p
+      ));
+      toast.success('Episode published');
+    } else {
+      toast.error('Failed to publish episode. Please try again.');
+    }
+  };
+
+  // Create a new show that episodes can be published into
+  const handleCreateShow = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newShow.title.trim()) {
+      toast.error('Show title is required');
+      return;
+    }
+
+    setIsCreatingShow(true);
+    try {
+      const show = await addShow({
+        title: newShow.title.trim(),
+        category: newShow.category.trim() || undefined,
+        explicit: newShow.explicit,
+        language: 'en',
+      });
+      setShows(current => [show, ...current]);
+      setNewShow({ title: '', category: '', explicit: false });
+      toast.success('Show created');
+    } catch (error) {
+      console.error('Failed to create show:', error);
+      toast.error('Failed to create show. Please try again.');
+    } finally {
+      setIsCreatingShow(false);
+    }
+  };
+
   // Add function to handle podcast deletion
   const handleDeletePodcast = async (podcastId: string) => {
     if (window.confirm('Are you sure you want to delete this podcast? This action cannot be undone.')) {
@@ -501,6 +638,10 @@ const Dashboard = () => {
     }
   };
 
+  // Drafts are listed on their own tab until they are published or scheduled
+  const drafts = podcasts.filter(p => p.status === 'draft');
+  const releasedPodcasts = podcasts.filter(p => p.status !== 'draft');
+
   if (authLoading || isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -656,6 +797,16 @@ const Dashboard = () => {
           >
             My Podcasts
           </button>
+          <button
+            onClick={() => setActiveTab('drafts')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'drafts'
+                ? 'border-primary-500 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Drafts{drafts.length > 0 ? ` (${drafts.length})` : ''}
+          </button>
           <button
             onClick={() => setActiveTab('analytics')}
             className={`py-4 px-1 border-b-2 font-medium text-sm ${
@@ -674,9 +825,9 @@ const Dashboard = () => {
         {activeTab === 'overview' && (
           <div>
             <h2 className="text-xl font-semibold mb-4">Recent Activity</h2>
-            {podcasts.length > 0 ? (
+            {releasedPodcasts.length > 0 ? (
               <div className="space-y-4">
-                        {podcasts.slice(0, 3).map((podcast) => (
+                        {releasedPodcasts.slice(0, 3).map((podcast) => (
                   <div
                     key={podcast.id}
                     className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 flex flex-col md:flex-row"
@@ -700,7 +851,13 @@ const Dashboard = () => {
                                 )}
                         <span>Listens: {podcast.listens}</span>
                         <span>Likes: {podcast.likes}</span>
-                        <span>Published: {formatDate(podcast.createdAt)}</span>
+                        {podcast.status === 'scheduled' && podcast.publishAt ? (
+                          <span className="flex items-center text-blue-500">
+                            <FaCalendarAlt className="mr-1" /> Scheduled for {new Date(podcast.publishAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                          </span>
+                        ) : (
+                          <span>Published: {formatDate(podcast.publishAt || podcast.createdAt)}</span>
+                        )}
                                 <span className={`flex items-center ${podcast.isPublic ? 'text-green-500' : 'text-amber-500'}`}>
                                   {podcast.isPublic ? (
                                     <>
@@ -726,6 +883,14 @@ const Dashboard = () => {
                                 >
                                   {podcast.isPublic ? 'Make Private' : 'Make Public'}
                                 </button>
+                                {podcast.status && podcast.status !== 'published' && (
+                                  <button
+                                    onClick={() => publishNow(podcast.id)}
+                                    className="text-primary-600 hover:text-primary-800 dark:hover:text-primary-400 font-medium"
+                                  >
+                                    Publish now
+                                  </button>
+                                )}
                                 <button 
                                   onClick={() => handleDeletePodcast(podcast.id)}
                                   className="text-red-600 hover:text-red-800 dark:hover:text-red-400 font-medium"
@@ -767,11 +932,96 @@ const Dashboard = () => {
                     <div className="flex justify-between items-center mb-6">
                       <h2 className="text-xl font-semibold">My Podcasts</h2>
                     </div>
+
+                    {/* Shows */}
+                    <div className="mb-8">
+                      <h3 className="text-lg font-semibold mb-3">Shows</h3>
+                      {shows.length > 0 && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                          {shows.map((show) => (
+                            <div key={show.id} className="flex items-center border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                              <div className="relative w-12 h-12 rounded-md overflow-hidden flex-shrink-0 mr-3">
+                                <Image
+                                  src={show.artwork || `https://placehold.co/100/5f33e1/ffffff?text=${show.title[0]}`}
+                                  alt={show.title}
+                                  fill
+                                  className="object-cover"
+                                />
+                              </div>
+                              <div className="min-w-0">
+                                <p className="font-medium truncate">{show.title}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                  {show.episodeCount || 0} episodes{show.category ? ` · ${show.category}` : ''}{show.explicit ? ' · Explicit' : ''}
+                                </p>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <form onSubmit={handleCreateShow} className="flex flex-wrap items-center gap-2">
+                        <input
+                          type="text"
+                          value={newShow.title}
+                          onChange={(e) => setNewShow({ ...newShow, title: e.target.value })}
+                          placeholder="New show title"
+                          className="flex-1 min-w-[10rem] bg-gray-800 border border-gray-700 rounded-lg p-2 text-white text-sm"
+                        />
+                        <input
+                          type="text"
+                          value={newShow.category}
+                          onChange={(e) => setNewShow({ ...newShow, category: e.target.value })}
+                          placeholder="Category"
+                          className="w-32 bg-gray-800 border border-gray-700 rounded-lg p-2 text-white text-sm"
+                        />
+                        <label className="flex items-center text-sm text-gray-400">
+                          <input
+                            type="checkbox"
+                            checked={newShow.explicit}
+                            onChange={(e) => setNewShow({ ...newShow, explicit: e.target.checked })}
+                            className="mr-1"
+                          />
+                          Explicit
+                        </label>
+                        <button
+                          type="submit"
+                          disabled={isCreatingShow}
+                          className="px-3 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white text-sm flex items-center disabled:opacity-50"
+                        >
+                          <FaPlusCircle className="mr-1" />
+                          Add show
+                        </button>
+                      </form>
+                    </div>
                     
-            {podcasts.length > 0 ? (
-              <div className="space-y-4">
-                {podcasts.map((podcast) => (
-                  <PodcastCard key={podcast.id} podcast={podcast} />
+            {releasedPodcasts.length > 0 ? (
+              <div className="space-y-8">
+                {groupPodcastsByShow(releasedPodcasts).map(({ show, episodes }) => (
+                  <div key={show?.id || 'standalone'}>
+                    <h3 className="text-lg font-semibold mb-3">{show ? show.title : 'Standalone episodes'}</h3>
+                    <div className="space-y-4">
+                      {episodes.map((podcast) => (
+                        <div key={podcast.id}>
+                          <PodcastCard podcast={podcast} />
+                          {processingJobs[podcast.id] && (
+                            <JobStatusBadge
+                              label="Audio processing"
+                              job={processingJobs[podcast.id]}
+                              onRetry={handleRetryJob}
+                              isRetrying={retryingJobId === processingJobs[podcast.id].id}
+                            />
+                          )}
+                          {transcriptionJobs[podcast.id] && (
+                            <JobStatusBadge
+                              label="Transcript"
+                              job={transcriptionJobs[podcast.id]}
+                              onRetry={handleRetryJob}
+                              isRetrying={retryingJobId === transcriptionJobs[podcast.id].id}
+                            />
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
                 ))}
               </div>
             ) : (
@@ -789,18 +1039,149 @@ const Dashboard = () => {
           </div>
         )}
 
-        {activeTab === 'analytics' && (
+        {activeTab === 'drafts' && (
           <div>
-            <h2 className="text-xl font-semibold mb-4">Analytics</h2>
-                    <p className="text-gray-600 dark:text-gray-400">
-                      Detailed analytics about your podcasts will appear here.
-                    </p>
-                    {/* Analytics content would go here in a real app */}
-                    <div className="bg-gray-50 dark:bg-gray-700 p-8 rounded-lg text-center mt-6">
-            <p className="text-gray-500 dark:text-gray-400">
-                        Coming soon: Detailed metrics and insights about your podcast performance.
+            <h2 className="text-xl font-semibold mb-4">Drafts</h2>
+            {drafts.length > 0 ? (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {drafts.map(draft => (
+                  <li key={draft.id} className="py-4 flex flex-wrap items-center gap-4">
+                    <div className="flex-grow">
+                      <h3 className="font-semibold">{draft.title || 'Untitled draft'}</h3>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Last edited {formatDate(draft.updatedAt || draft.createdAt)}
+                        {draft.audioUrl ? '' : ' · No audio yet'}
                       </p>
+                    </div>
+                    <Link
+                      href={`/record?draft=${draft.id}`}
+                      className="text-primary-600 hover:text-primary-800 dark:hover:text-primary-400 font-medium flex items-center"
+                    >
+                      <FaEdit className="mr-1" />
+                      Resume editing
+                    </Link>
+                    {draft.title && draft.audioUrl && (
+                      <button
+                        onClick={() => publishNow(draft.id)}
+                        className="text-primary-600 hover:text-primary-800 dark:hover:text-primary-400 font-medium"
+                      >
+                        Publish now
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDeletePodcast(draft.id)}
+                      className="text-red-600 hover:text-red-800 dark:hover:text-red-400 font-medium"
+                    >
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-center py-10">
+                <FaEdit className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-lg font-medium text-gray-900 dark:text-gray-100">No drafts</h3>
+                <p className="mt-1 text-gray-500 dark:text-gray-400">Episodes you start recording are saved here until you publish them.</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'analytics' && (
+          <div>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h2 className="text-xl font-semibold">Analytics</h2>
+              <div className="flex flex-wrap gap-2">
+                <select
+                  value={analyticsPodcastId}
+                  onChange={(e) => setAnalyticsPodcastId(e.target.value)}
+                  className="bg-gray-700 text-white text-sm rounded-md px-3 py-2"
+                >
+                  <option value="">All episodes</option>
+                  {podcasts.map(podcast => (
+                    <option key={podcast.id} value={podcast.id}>{podcast.title}</option>
+                  ))}
+                </select>
+                <select
+                  value={analyticsDays}
+                  onChange={(e) => setAnalyticsDays(Number(e.target.value))}
+                  className="bg-gray-700 text-white text-sm rounded-md px-3 py-2"
+                >
+                  {ANALYTICS_RANGES.map(option => (
+                    <option key={option.days} value={option.days}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
             </div>
+
+            {isAnalyticsLoading && !analytics ? (
+              <div className="animate-pulse text-primary-600 py-10 text-center">Loading analytics...</div>
+            ) : analytics ? (
+              <div className={`space-y-4 ${isAnalyticsLoading ? 'opacity-60' : ''}`}>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <AnalyticsChart
+                    title="Plays"
+                    total={analytics.totals.plays}
+                    data={analytics.series.map(point => ({ label: point.date, value: point.plays }))}
+                  />
+                  <AnalyticsChart
+                    title="Unique listeners"
+                    total={analytics.totals.uniqueListeners}
+                    data={analytics.series.map(point => ({ label: point.date, value: point.uniqueListeners }))}
+                  />
+                  <AnalyticsChart
+                    title="Likes"
+                    total={analytics.totals.likes}
+                    data={analytics.series.map(point => ({ label: point.date, value: point.likes }))}
+                  />
+                  <AnalyticsChart
+                    title="Comments"
+                    total={analytics.totals.comments}
+                    data={analytics.series.map(point => ({ label: point.date, value: point.comments }))}
+                  />
+                  {!analytics.podcastId && (
+                    <AnalyticsChart
+                      title="Followers"
+                      total={`+${analytics.totals.followers.toLocaleString()}`}
+                      data={analytics.series.map(point => ({ label: point.date, value: point.totalFollowers }))}
+                    />
+                  )}
+                </div>
+
+                {analytics.episodes && analytics.episodes.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-semibold mb-2">Top episodes</h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 dark:text-gray-400">
+                          <th className="py-2 font-medium">Episode</th>
+                          <th className="py-2 font-medium text-right">Plays</th>
+                          <th className="py-2 font-medium text-right">Listeners</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {analytics.episodes.map(episode => (
+                          <tr key={episode.id} className="border-t border-gray-200 dark:border-gray-700">
+                            <td className="py-2">
+                              <button
+                                onClick={() => setAnalyticsPodcastId(episode.id)}
+                                className="text-left hover:text-primary-500"
+                              >
+                                {episode.title}
+                              </button>
+                            </td>
+                            <td className="py-2 text-right">{episode.plays.toLocaleString()}</td>
+                            <td className="py-2 text-right">{episode.uniqueListeners.toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-gray-500 dark:text-gray-400">Analytics are unavailable right now.</p>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,74 @@
+import { useEffect, useRef } from 'react';
+import { MESSAGING_EVENT_TYPES, MessagingEvent } from '@/lib/messages';
+
+interface MessagingSubscriber {
+  onEvent: (event: MessagingEvent) => void;
+  onReconnect: () => void;
+}
+
+// One stream per tab, shared by the header badge and the messages page
+let source: EventSource | null = null;
+let subscribers: MessagingSubscriber[] = [];
+// Sent only when the stream opens, so replayed to subscribers that join later
+let lastUnreadEvent: MessagingEvent | null = null;
+
+const openSource = () => {
+  let hasOpened = false;
+  source = new EventSource('/api/messages/events');
+
+  // Events published while disconnected are not replayed, so reload after a reconnect
+  source.onopen = () => {
+    if (hasOpened) subscribers.forEach(subscriber => subscriber.onReconnect());
+    hasOpened = true;
+  };
+
+  MESSAGING_EVENT_TYPES.forEach(type => {
+    source?.addEventListener(type, event => {
+      const data = JSON.parse((event as MessageEvent).data) as MessagingEvent;
+      if (data.type === 'unread') lastUnreadEvent = data;
+      subscribers.forEach(subscriber => subscriber.onEvent(data));
+    });
+  });
+};
+
+interface UseMessagingEventsOptions {
+  enabled: boolean; // Only signed-in users have a stream
+  onEvent: (event: MessagingEvent) => void;
+  onReconnect?: () => void;
+}
+
+/**
+ * Realtime new messages, read and delivery receipts, typing indicators and unread counts
+ * for the signed-in user
+ */
+export function useMessagingEvents({ enabled, onEvent, onReconnect }: UseMessagingEventsOptions) {
+  // Always call the latest callbacks without resubscribing
+  const onEventRef = useRef(onEvent);
+  const onReconnectRef = useRef(onReconnect);
+  onEventRef.current = onEvent;
+  onReconnectRef.current = onReconnect;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const subscriber: MessagingSubscriber = {
+      onEvent: event => onEventRef.current(event),
+      onReconnect: () => onReconnectRef.current?.(),
+    };
+    subscribers = [...subscribers, subscriber];
+    if (!source) {
+      openSource();
+    } else if (lastUnreadEvent) {
+      subscriber.onEvent(lastUnreadEvent);
+    }
+
+    return () => {
+      subscribers = subscribers.filter(item => item !== subscriber);
+      if (subscribers.length === 0 && source) {
+        source.close();
+        source = null;
+        lastUnreadEvent = null;
+      }
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RecordingSessionState, getRecordingSession } from '@/lib/storage';
+import { SESSION_SETTINGS, SessionSignalEvent, estimateClockOffset } from '@/lib/recordingSessions';
+
+type SignalListener = (signal: SessionSignalEvent) => void;
+
+// Signals that change what the session looks like, after which it is reloaded
+const REFRESH_SIGNALS: SessionSignalEvent['type'][] = ['joined', 'presence', 'start', 'stop', 'track', 'mixdown'];
+
+/**
+ * A recording session kept up to date through its event stream. Every load also measures
+ * how far this device's clock is from the server's, so recordings can be lined up.
+ */
+export function useRecordingSession(sessionId: string) {
+  const [session, setSession] = useState<RecordingSessionState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const clockOffsetRef = useRef(0);
+  const bestRoundTripRef = useRef(Infinity);
+  const listenersRef = useRef<SignalListener[]>([]);
+
+  const refresh = useCallback(async () => {
+    const sentAt = Date.now();
+    const state = await getRecordingSession(sessionId);
+    const receivedAt = Date.now();
+
+    // The quickest round trip gives the most accurate estimate
+    if (receivedAt - sentAt < bestRoundTripRef.current) {
+      bestRoundTripRef.current = receivedAt - sentAt;
+      clockOffsetRef.current = estimateClockOffset(sentAt, receivedAt, state.serverTime);
+    }
+
+    setSession(state);
+    setError(null);
+    return state;
+  }, [sessionId]);
+
+  useEffect(() => {
+    refresh().catch(err => setError(err.message));
+
+    const source = new EventSource(`/api/sessions/${encodeURIComponent(sessionId)}/events`);
+    source.addEventListener('ready', () => setIsConnected(true));
+    source.addEventListener('signal', event => {
+      const signal = JSON.parse((event as MessageEvent).data) as SessionSignalEvent;
+      listenersRef.current.forEach(listener => listener(signal));
+
+      if (REFRESH_SIGNALS.includes(signal.type)) {
+        refresh().catch(err => console.error('Error refreshing recording session:', err));
+      }
+    });
+    // EventSource reconnects by itself, resuming after the last signal it received
+    source.onerror = () => setIsConnected(false);
+
+    // Participants whose browser vanished without closing its stream go offline on their own
+    const interval = setInterval(() => {
+      refresh().catch(err => console.error('Error refreshing recording session:', err));
+    }, SESSION_SETTINGS.PRESENCE_TIMEOUT_MS);
+
+    return () => {
+      source.close();
+      clearInterval(interval);
+    };
+  }, [sessionId, refresh]);
+
+  // Listen to every signal, e.g. to set up the call; returns an unsubscribe function
+  const subscribe = useCallback((listener: SignalListener) => {
+    listenersRef.current = [...listenersRef.current, listener];
+    return () => {
+      listenersRef.current = listenersRef.current.filter(item => item !== listener);
+    };
+  }, []);
+
+  // Milliseconds to add to Date.now() to get the server's time
+  const getClockOffset = useCallback(() => clockOffsetRef.current, []);
+
+  return { session, error, isConnected, refresh, subscribe, getClockOffset };
+}
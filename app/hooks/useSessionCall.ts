@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from 'react';
+import { sendSessionSignal } from '@/lib/storage';
+import type { SessionSignalEvent } from '@/lib/recordingSessions';
+
+// NEXT_PUBLIC_ICE_SERVERS may hold a JSON array of RTCIceServer, e.g. to add a TURN server
+const getIceServers = (): RTCIceServer[] => {
+  try {
+    if (process.env.NEXT_PUBLIC_ICE_SERVERS) return JSON.parse(process.env.NEXT_PUBLIC_ICE_SERVERS);
+  } catch (error) {
+    console.error('Invalid NEXT_PUBLIC_ICE_SERVERS:', error);
+  }
+  return [{ urls: 'stun:stun.l.google.com:19302' }];
+};
+
+interface UseSessionCallOptions {
+  sessionId: string;
+  participantId: string | null;
+  peerIds: string[]; // Other participants who are online
+  subscribe: (listener: (signal: SessionSignalEvent) => void) => () => void;
+}
+
+/**
+ * Live audio between the participants of a recording session so they can hear each other,
+ * as a mesh of WebRTC connections set up through the session's signals. Of each pair, the
+ * participant with the smaller id makes the offer. The call is separate from the local
+ * recordings, which capture each microphone at full quality.
+ */
+export function useSessionCall({ sessionId, participantId, peerIds, subscribe }: UseSessionCallOptions) {
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({});
+  const [isMuted, setIsMuted] = useState(false);
+  const connectionsRef = useRef<Record<string, RTCPeerConnection>>({});
+  const signalQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+      .then(opened => {
+        if (cancelled) {
+          opened.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = opened;
+        setLocalStream(opened);
+      })
+      .catch(error => console.error('Error opening the microphone for the call:', error));
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const closeConnection = (peerId: string) => {
+    connectionsRef.current[peerId]?.close();
+    delete connectionsRef.current[peerId];
+    setRemoteStreams(current => {
+      const { [peerId]: _closed, ...rest } = current;
+      return rest;
+    });
+  };
+
+  const createConnection = (peerId: string, stream: MediaStream) => {
+    const connection = new RTCPeerConnection({ iceServers: getIceServers() });
+    stream.getTracks().forEach(track => connection.addTrack(track, stream));
+
+    connection.onicecandidate = event => {
+      if (!event.candidate) return;
+      sendSessionSignal(sessionId, { type: 'ice-candidate', toId: peerId, payload: event.candidate.toJSON() })
+        .catch(error => console.error('Error sending ICE candidate:', error));
+    };
+    connection.ontrack = event => {
+      setRemoteStreams(current => ({ ...current, [peerId]: event.streams[0] }));
+    };
+    connection.onconnectionstatechange = () => {
+      if (connection.connectionState === 'failed') closeConnection(peerId);
+    };
+
+    connectionsRef.current[peerId] = connection;
+    return connection;
+  };
+
+  // Call peers as they come online and hang up on those who leave
+  const peerKey = peerIds.join(',');
+  useEffect(() => {
+    if (!localStream || !participantId) return;
+
+    Object.keys(connectionsRef.current).forEach(peerId => {
+      if (!peerIds.includes(peerId)) closeConnection(peerId);
+    });
+
+    peerIds.forEach(peerId => {
+      if (connectionsRef.current[peerId] || participantId > peerId) return;
+
+      const connection = createConnection(peerId, localStream);
+      connection.createOffer()
+        .then(offer => connection.setLocalDescription(offer).then(() => offer))
+        .then(offer => sendSessionSignal(sessionId, { type: 'offer', toId: peerId, payload: offer }))
+        .catch(error => console.error('Error calling participant:', error));
+    });
+  }, [localStream, participantId, peerKey]);
+
+  // Answer offers and apply answers and candidates, one signal at a time so candidates
+  // never arrive before the description they belong to
+  useEffect(() => {
+    if (!localStream) return;
+
+    const handleSignal = async (signal: SessionSignalEvent) => {
+      const peerId = signal.fromId;
+      if (!peerId) return;
+
+      if (signal.type === 'offer') {
+        // A new offer replaces the old connection, e.g. after the peer reloaded
+        closeConnection(peerId);
+        const connection = createConnection(peerId, localStream);
+        await connection.setRemoteDescription(signal.payload);
+        const answer = await connection.createAnswer();
+        await connection.setLocalDescription(answer);
+        await sendSessionSignal(sessionId, { type: 'answer', toId: peerId, payload: answer });
+      } else if (signal.type === 'answer') {
+        await connectionsRef.current[peerId]?.setRemoteDescription(signal.payload);
+      } else if (signal.type === 'ice-candidate') {
+        await connectionsRef.current[peerId]?.addIceCandidate(signal.payload);
+      }
+    };
+
+    return subscribe(signal => {
+      signalQueueRef.current = signalQueueRef.current
+        .then(() => handleSignal(signal))
+        .catch(error => console.error(`Error handling ${signal.type} signal:`, error));
+    });
+  }, [localStream, subscribe]);
+
+  // Hang up when leaving the page
+  useEffect(() => () => {
+    Object.keys(connectionsRef.current).forEach(peerId => connectionsRef.current[peerId].close());
+    connectionsRef.current = {};
+  }, []);
+
+  const toggleMute = () => {
+    localStream?.getAudioTracks().forEach(track => {
+      track.enabled = isMuted;
+    });
+    setIsMuted(!isMuted);
+  };
+
+  return { remoteStreams, isMuted, toggleMute, isInCall: Boolean(localStream) };
+}
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { StreamingUpload, startStreamingUpload } from '@/lib/fileStorage';
+
+// How often MediaRecorder hands over data, which is then uploaded as parts fill up
+const TIMESLICE_MS = 1000;
+
+// Container formats in order of preference; Safari only records MP4
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+interface UseStreamingRecorderOptions {
+  onUploadStarted?: (uploadId: string) => void; // Called before recording starts, e.g. to remember the upload for recovery
+}
+
+export interface StreamingRecording {
+  blob: Blob; // Local copy for instant preview
+  url: string; // Uploaded file
+  startedAt: number; // When the recorder started capturing (Date.now()), e.g. to line up tracks
+}
+
+/**
+ * Record from the microphone while uploading the audio through a streaming upload,
+ * so most of a recording is already stored by the time it is stopped
+ */
+export function useStreamingRecorder({ onUploadStarted }: UseStreamingRecorderOptions = {}) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const uploadRef = useRef<StreamingUpload | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+
+  const release = useCallback(() => {
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+    recorderRef.current = null;
+    uploadRef.current = null;
+    chunksRef.current = [];
+    setIsRecording(false);
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { noiseSuppression: true, echoCancellation: true },
+    });
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const contentType = (recorder.mimeType || 'audio/webm').split(';')[0];
+
+    let upload: StreamingUpload;
+    try {
+      upload = await startStreamingUpload(
+        `recording-${Date.now()}.${contentType === 'audio/mp4' ? 'm4a' : 'webm'}`,
+        contentType
+      );
+    } catch (error) {
+      stream.getTracks().forEach(track => track.stop());
+      throw error;
+    }
+
+    onUploadStarted?.(upload.id);
+
+    recorder.onstart = () => {
+      startedAtRef.current = Date.now();
+    };
+    recorder.ondataavailable = event => {
+      chunksRef.current.push(event.data);
+      upload.write(event.data);
+    };
+
+    recorderRef.current = recorder;
+    uploadRef.current = upload;
+    chunksRef.current = [];
+    recorder.start(TIMESLICE_MS);
+    setElapsed(0);
+    setIsRecording(true);
+  }, [onUploadStarted]);
+
+  const stop = useCallback(async (): Promise<StreamingRecording> => {
+    const recorder = recorderRef.current;
+    const upload = uploadRef.current;
+    if (!recorder || !upload) {
+      throw new Error('Not recording');
+    }
+
+    // The final dataavailable event fires before stop
+    await new Promise(resolve => {
+      recorder.onstop = resolve;
+      recorder.stop();
+    });
+
+    const blob = new Blob(chunksRef.current, { type: recorder.mimeType });
+    const startedAt = startedAtRef.current;
+    release();
+
+    return { blob, url: await upload.finish(), startedAt };
+  }, [release]);
+
+  const cancel = useCallback(async () => {
+    const upload = uploadRef.current;
+    recorderRef.current?.stop();
+    release();
+    await upload?.abort();
+  }, [release]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const interval = setInterval(() => setElapsed(seconds => seconds + 1), 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Let go of the microphone when the page is left mid-recording
+  useEffect(() => () => {
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+  }, []);
+
+  return { isRecording, elapsed, start, stop, cancel };
+}
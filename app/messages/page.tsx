@@ -5,30 +5,51 @@ import { useSupabase } from '@/app/providers/SupabaseProvider';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
-import { FaArrowLeft, FaPaperPlane, FaInbox, FaSearch } from 'react-icons/fa';
+import { FaArrowLeft, FaPaperPlane, FaInbox, FaSearch, FaUsers, FaInfoCircle } from 'react-icons/fa';
 import toast from 'react-hot-toast';
 import { formatDistanceToNow } from 'date-fns';
+import { useMessagingEvents } from '@/app/hooks/useMessagingEvents';
+import {
+  MESSAGE_SETTINGS,
+  formatNameList,
+  getMessagePreview,
+  getSeenBy,
+  isDeliveredToAll,
+} from '@/lib/messages';
+import type {
+  AttachmentInput,
+  ConversationParticipantSummary,
+  MessageAttachmentSummary,
+  MessageType,
+  MessageSender,
+  MessagingEvent,
+} from '@/lib/messages';
+import { ConversationDetails, createGroupConversation } from '@/lib/storage';
+import UserPicker from '@/app/components/UserPicker';
+import GroupConversationPanel from '@/app/components/GroupConversationPanel';
+import MessageAttachment from '@/app/components/MessageAttachment';
+import AttachmentComposer from '@/app/components/AttachmentComposer';
 
 // Message types
-interface User {
-  id: string;
-  name: string | null;
-  image: string | null;
-}
+type User = MessageSender;
 
 interface Message {
   id: string;
   content: string;
   createdAt: string;
-  readAt: string | null;
+  type: MessageType;
   sender: User;
   senderId: string;
   conversationId: string;
+  attachment: MessageAttachmentSummary | null;
 }
 
 interface Conversation {
   id: string;
-  participants: User[];
+  isGroup: boolean;
+  title: string | null;
+  image: string | null;
+  participants: ConversationParticipantSummary[];
   messages: Message[];
   lastMessageAt: string;
   unreadCount?: number;
@@ -47,31 +68,70 @@ const MessagesPage = () => {
   const [loading, setLoading] = useState(true);
   const [sendingMessage, setSendingMessage] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [isCreatingGroup, setIsCreatingGroup] = useState(false);
+  const [groupTitle, setGroupTitle] = useState('');
+  const [groupMembers, setGroupMembers] = useState<User[]>([]);
+  const [showGroupDetails, setShowGroupDetails] = useState(false);
+  const [typingUsers, setTypingUsers] = useState<Record<string, string | null>>({}); // User id -> name
+  // Where the next page of conversations, and of older messages, starts; null at the end
+  const [conversationsCursor, setConversationsCursor] = useState<string | null>(null);
+  const [messagesCursor, setMessagesCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const typingTimeoutsRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const lastTypingSentRef = useRef(0);
   
   // Scroll to bottom of messages
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
   
-  // Fetch conversations
+  // Fetch the most recent conversations
   const fetchConversations = async () => {
     try {
       const response = await fetch('/api/messages');
       if (!response.ok) throw new Error('Failed to fetch conversations');
       
       const data = await response.json();
-      setConversations(data);
+      setConversations(data.conversations);
+      setConversationsCursor(data.nextCursor);
+      return data.conversations as Conversation[];
     } catch (error) {
       console.error('Error fetching conversations:', error);
       toast.error('Could not load conversations');
+      return null;
     } finally {
       setLoading(false);
     }
   };
   
-  // Fetch messages for a specific conversation
+  // Fetch the next page of conversations when the list is scrolled to the bottom
+  const loadMoreConversations = async () => {
+    if (!conversationsCursor || loadingMore) return;
+    
+    setLoadingMore(true);
+    try {
+      const response = await fetch(`/api/messages?cursor=${encodeURIComponent(conversationsCursor)}`);
+      if (!response.ok) throw new Error('Failed to fetch conversations');
+      
+      const data = await response.json();
+      // A conversation that became active since the first page is listed already
+      setConversations(prev => [
+        ...prev,
+        ...data.conversations.filter((conv: Conversation) => !prev.some(item => item.id === conv.id)),
+      ]);
+      setConversationsCursor(data.nextCursor);
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+      toast.error('Could not load more conversations');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+  
+  // Fetch the latest messages for a specific conversation
   const fetchMessages = async (convId: string) => {
     try {
       setLoading(true);
@@ -81,6 +141,8 @@ const MessagesPage = () => {
       const data = await response.json();
       setActiveConversation(data.conversation);
       setMessages(data.messages);
+      setMessagesCursor(data.nextCursor);
+      markAsRead(convId);
       
       // Update the unread count for this conversation in the list
       setConversations(prevConversations => 
@@ -98,7 +160,82 @@ const MessagesPage = () => {
     }
   };
   
-  // Send a new message
+  // Fetch older messages when the conversation is scrolled to the top, keeping the
+  // messages in view where they were
+  const loadOlderMessages = async () => {
+    if (!activeConversation || !messagesCursor || loadingMore) return;
+    
+    const convId = activeConversation.id;
+    setLoadingMore(true);
+    try {
+      const response = await fetch(
+        `/api/messages?conversationId=${convId}&cursor=${encodeURIComponent(messagesCursor)}`
+      );
+      if (!response.ok) throw new Error('Failed to fetch messages');
+      
+      const data = await response.json();
+      const container = messagesContainerRef.current;
+      const previousHeight = container?.scrollHeight || 0;
+      
+      setMessages(prev => [...data.messages, ...prev]);
+      setMessagesCursor(data.nextCursor);
+      
+      setTimeout(() => {
+        if (container) container.scrollTop += container.scrollHeight - previousHeight;
+      }, 0);
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+      toast.error('Could not load older messages');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+  
+  // Post a message to the open conversation and show it
+  const postMessage = async (content: string, attachment?: AttachmentInput) => {
+    if (!activeConversation) return;
+    
+    const response = await fetch('/api/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        conversationId: activeConversation.id,
+        content,
+        attachment,
+      }),
+    });
+    
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Failed to send message');
+    }
+    
+    const sentMessage = await response.json();
+    
+    // Add the new message to the conversation
+    setMessages(prev => [...prev, sentMessage]);
+    
+    // Update the conversation in the list
+    setConversations(prevConversations => {
+      return prevConversations.map(conv => {
+        if (conv.id === activeConversation.id) {
+          return {
+            ...conv,
+            lastMessageAt: new Date().toISOString(),
+            messages: [sentMessage],
+          };
+        }
+        return conv;
+      }).sort((a, b) => new Date(b.lastMessageAt).getTime() - new Date(a.lastMessageAt).getTime());
+    });
+    
+    // Scroll to bottom
+    setTimeout(scrollToBottom, 100);
+  };
+  
+  // Send a new text message
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -108,51 +245,196 @@ const MessagesPage = () => {
     setSendingMessage(true);
     
     try {
-      const response = await fetch('/api/messages', {
+      await postMessage(newMessage);
+      
+      // Clear the input; the message itself hides the typing indicator
+      setNewMessage('');
+      lastTypingSentRef.current = 0;
+    } catch (error) {
+      console.error('Error sending message:', error);
+      toast.error('Failed to send message');
+    } finally {
+      setSendingMessage(false);
+    }
+  };
+  
+  // Move the read cursor to the newest message in the open conversation
+  const markAsRead = async (convId: string) => {
+    try {
+      await fetch('/api/messages/read', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          conversationId: activeConversation.id,
-          content: newMessage,
-        }),
+        body: JSON.stringify({ conversationId: convId }),
       });
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+    }
+  };
+  
+  // Tell the others in the open conversation whether the user is typing, at most once per
+  // TYPING_THROTTLE_MS while they keep typing
+  const sendTyping = (isTyping: boolean) => {
+    if (!activeConversation) return;
+    
+    const now = Date.now();
+    if (isTyping && now - lastTypingSentRef.current < MESSAGE_SETTINGS.TYPING_THROTTLE_MS) return;
+    if (!isTyping && lastTypingSentRef.current === 0) return;
+    lastTypingSentRef.current = isTyping ? now : 0;
+    
+    fetch('/api/messages/typing', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ conversationId: activeConversation.id, isTyping }),
+    }).catch(error => console.error('Error sending typing indicator:', error));
+  };
+  
+  // Show or hide someone's typing indicator in the open conversation
+  const setTyping = (userId: string, name: string | null, isTyping: boolean) => {
+    clearTimeout(typingTimeoutsRef.current[userId]);
+    delete typingTimeoutsRef.current[userId];
+    
+    setTypingUsers(prev => {
+      const next = { ...prev };
+      if (isTyping) next[userId] = name;
+      else delete next[userId];
+      return next;
+    });
+    
+    // Indicators that aren't repeated expire, e.g. when the typist closes the tab
+    if (isTyping) {
+      typingTimeoutsRef.current[userId] = setTimeout(
+        () => setTyping(userId, name, false),
+        MESSAGE_SETTINGS.TYPING_TIMEOUT_MS
+      );
+    }
+  };
+  
+  // Update one participant of the open conversation, e.g. their read cursor
+  const updateParticipant = (
+    convId: string,
+    userId: string,
+    update: (participant: ConversationParticipantSummary) => Partial<ConversationParticipantSummary>
+  ) => {
+    setActiveConversation(prev => prev && prev.id === convId
+      ? {
+        ...prev,
+        participants: prev.participants.map(p => p.id === userId ? { ...p, ...update(p) } : p),
+      }
+      : prev
+    );
+  };
+  
+  // ISO timestamps compare as strings; cursors only move forward
+  const latest = (a: string | null, b: string) => (a && a > b ? a : b);
+  
+  // Apply messages, receipts and typing indicators pushed by the server
+  const handleMessagingEvent = (event: MessagingEvent) => {
+    if (event.type === 'message') {
+      const { message } = event;
+      const isActive = activeConversation?.id === message.conversationId;
+      const isOwnMessage = message.senderId === user?.id;
       
-      if (!response.ok) throw new Error('Failed to send message');
+      if (isActive) {
+        if (!isOwnMessage) setTyping(message.senderId, null, false);
+        // Messages sent from this tab are already shown
+        setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+        if (!isOwnMessage) markAsRead(message.conversationId);
+        setTimeout(scrollToBottom, 100);
+      }
       
-      const sentMessage = await response.json();
+      // Membership changes: reload the group, or close it if the current user was removed
+      if (message.type === 'system') {
+        fetchConversations().then(list => {
+          if (!isActive || !list) return;
+          if (list.some(conv => conv.id === message.conversationId)) {
+            fetchMessages(message.conversationId);
+          } else {
+            toast('You are no longer in this group');
+            router.push('/messages');
+          }
+        });
+        return;
+      }
       
-      // Add the new message to the conversation
-      setMessages(prev => [...prev, sentMessage]);
+      // A conversation someone else just started
+      if (!conversations.some(conv => conv.id === message.conversationId)) {
+        fetchConversations();
+        return;
+      }
       
-      // Update the conversation in the list
-      setConversations(prevConversations => {
-        return prevConversations.map(conv => {
-          if (conv.id === activeConversation.id) {
-            return {
+      setConversations(prevConversations => 
+        prevConversations.map(conv => 
+          conv.id === message.conversationId
+            ? {
               ...conv,
-              lastMessageAt: new Date().toISOString(),
-              messages: [sentMessage],
-            };
-          }
-          return conv;
-        }).sort((a, b) => new Date(b.lastMessageAt).getTime() - new Date(a.lastMessageAt).getTime());
+              lastMessageAt: message.createdAt,
+              messages: [message],
+              unreadCount: isActive || isOwnMessage ? conv.unreadCount : (conv.unreadCount || 0) + 1,
+            }
+            : conv
+        ).sort((a, b) => new Date(b.lastMessageAt).getTime() - new Date(a.lastMessageAt).getTime())
+      );
+    } else if (event.type === 'read') {
+      updateParticipant(event.conversationId, event.userId, participant => ({
+        lastReadMessageId: event.lastReadMessageId,
+        lastReadAt: event.lastReadAt,
+        lastDeliveredAt: latest(participant.lastDeliveredAt, event.lastReadAt),
+      }));
+    } else if (event.type === 'delivered') {
+      updateParticipant(event.conversationId, event.userId, participant => ({
+        lastDeliveredAt: latest(participant.lastDeliveredAt, event.deliveredAt),
+      }));
+    } else if (event.type === 'typing' && activeConversation?.id === event.conversationId) {
+      setTyping(event.userId, event.name, event.isTyping);
+    }
+  };
+  
+  useMessagingEvents({
+    enabled: Boolean(user),
+    onEvent: handleMessagingEvent,
+    // Catch up on anything sent while the stream was down
+    onReconnect: () => {
+      fetchConversations();
+      if (activeConversation) fetchMessages(activeConversation.id);
+    },
+  });
+  
+  // Create a group with the people picked in the sidebar
+  const createGroup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    try {
+      const group = await createGroupConversation({
+        title: groupTitle,
+        userIds: groupMembers.map(member => member.id),
       });
       
-      // Clear the input
-      setNewMessage('');
-      
-      // Scroll to bottom
-      setTimeout(scrollToBottom, 100);
+      setConversations(prev => [group as Conversation, ...prev.filter(conv => conv.id !== group.id)]);
+      setIsCreatingGroup(false);
+      setGroupTitle('');
+      setGroupMembers([]);
+      router.push(`/messages?conversation=${group.id}`);
     } catch (error) {
-      console.error('Error sending message:', error);
-      toast.error('Failed to send message');
-    } finally {
-      setSendingMessage(false);
+      toast.error(error instanceof Error ? error.message : 'Failed to create group');
     }
   };
   
+  // Keep the open group and its entry in the list in step with changes made in the details panel
+  const handleGroupChange = (group: ConversationDetails) => {
+    setActiveConversation(prev => prev && { ...prev, ...group });
+    setConversations(prev => prev.map(conv => conv.id === group.id ? { ...conv, ...group } : conv));
+  };
+  
+  const handleLeaveGroup = () => {
+    setConversations(prev => prev.filter(conv => conv.id !== activeConversation?.id));
+    setShowGroupDetails(false);
+    router.push('/messages');
+  };
+  
   // Start a new conversation
   const startConversation = async (recipientId: string) => {
     // You'd implement this with a modal to select users, etc.
@@ -187,9 +469,7 @@ const MessagesPage = () => {
   // Initial load
   useEffect(() => {
     if (user) {
-      // In a real application, you would fetch data from your API
-      setConversations(sampleConversations);
-      setLoading(false);
+      fetchConversations();
     }
   }, [user]);
   
@@ -200,7 +480,15 @@ const MessagesPage = () => {
     } else {
       setActiveConversation(null);
       setMessages([]);
+      setMessagesCursor(null);
     }
+    setShowGroupDetails(false);
+    
+    // Typing indicators belong to the conversation that was open
+    Object.keys(typingTimeoutsRef.current).forEach(id => clearTimeout(typingTimeoutsRef.current[id]));
+    typingTimeoutsRef.current = {};
+    lastTypingSentRef.current = 0;
+    setTypingUsers({});
   }, [conversationId, user]);
   
   // Redirect if not authenticated
@@ -221,16 +509,57 @@ const MessagesPage = () => {
     };
   };
   
+  // Name and picture shown for a conversation: the group's own, or the other participant's
+  const getConversationDisplay = (conversation: Conversation): { name: string; image: string } => {
+    if (conversation.isGroup) {
+      return {
+        name: conversation.title || 'Group',
+        image: conversation.image || 'https://placehold.co/100/5f33e1/ffffff?text=G'
+      };
+    }
+    
+    const otherUser = getOtherParticipant(conversation);
+    return {
+      name: otherUser.name || 'Unknown User',
+      image: otherUser.image || 'https://placehold.co/100/5f33e1/ffffff?text=U'
+    };
+  };
+  
   // Format message timestamp
   const formatMessageTime = (dateString: string) => {
     return formatDistanceToNow(new Date(dateString), { addSuffix: true });
   };
   
+  // Who has read how far, and the current user's newest message for its delivery status
+  const seenBy = activeConversation && user
+    ? getSeenBy(messages, activeConversation.participants, user.id)
+    : {};
+  const lastOwnMessage = messages
+    .filter(message => message.senderId === user?.id && message.type === 'text')
+    .pop();
+  
+  // Receipts shown after a message's time: who has seen it, or whether the newest of the
+  // current user's messages has reached everyone yet
+  const getReceipt = (message: Message): string => {
+    const readers = seenBy[message.id];
+    if (readers) {
+      return activeConversation?.isGroup
+        ? ` · Seen by ${formatNameList(readers.map(reader => reader.name))}`
+        : ' · Seen';
+    }
+    if (message.id === lastOwnMessage?.id && activeConversation) {
+      return isDeliveredToAll(message, activeConversation.participants) ? ' · Delivered' : ' · Sent';
+    }
+    return '';
+  };
+  
+  const typingNames = Object.keys(typingUsers).map(id => typingUsers[id]);
+  
   // Filter conversations based on search term
   const filteredConversations = conversations.filter(conversation => {
-    const otherUser = getOtherParticipant(conversation);
-    return otherUser.name?.toLowerCase().includes(searchTerm.toLowerCase()) || 
-           conversation.messages[0]?.content.toLowerCase().includes(searchTerm.toLowerCase());
+    const { name } = getConversationDisplay(conversation);
+    return name.toLowerCase().includes(searchTerm.toLowerCase()) || 
+           (conversation.messages[0] && getMessagePreview(conversation.messages[0]).toLowerCase().includes(searchTerm.toLowerCase()));
   });
   
   return (
@@ -250,7 +579,35 @@ const MessagesPage = () => {
         {/* Conversations list - Left side */}
         <div className={`w-1/3 border-r border-gray-800 flex flex-col ${activeConversation ? 'hidden md:flex' : 'flex'}`}>
           <div className="p-4 border-b border-gray-800">
-            <h2 className="text-lg font-semibold">Recent Conversations</h2>
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold">Recent Conversations</h2>
+              <button
+                onClick={() => setIsCreatingGroup(!isCreatingGroup)}
+                className="text-sm text-primary-400 hover:underline flex items-center"
+              >
+                <FaUsers className="mr-1" /> New group
+              </button>
+            </div>
+            
+            {isCreatingGroup && (
+              <form onSubmit={createGroup} className="mt-3 space-y-2">
+                <input
+                  type="text"
+                  placeholder="Group name"
+                  value={groupTitle}
+                  onChange={(e) => setGroupTitle(e.target.value)}
+                  className="w-full bg-gray-800 rounded-lg py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary-600"
+                />
+                <UserPicker selected={groupMembers} onChange={setGroupMembers} excludeIds={user ? [user.id] : []} />
+                <button
+                  type="submit"
+                  disabled={!groupTitle.trim() || groupMembers.length === 0}
+                  className="w-full py-2 rounded-lg text-sm bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                >
+                  Create group
+                </button>
+              </form>
+            )}
             
             {/* Search conversations */}
             <div className="mt-2 relative">
@@ -265,7 +622,13 @@ const MessagesPage = () => {
             </div>
           </div>
           
-          <div className="flex-1 overflow-y-auto">
+          <div
+            className="flex-1 overflow-y-auto"
+            onScroll={(e) => {
+              const list = e.currentTarget;
+              if (list.scrollHeight - list.scrollTop - list.clientHeight < 100) loadMoreConversations();
+            }}
+          >
             {loading && conversations.length === 0 ? (
               <div className="flex items-center justify-center h-full">
                 <div className="animate-pulse text-primary-600">Loading conversations...</div>
@@ -288,7 +651,7 @@ const MessagesPage = () => {
             ) : (
               <div className="divide-y divide-gray-800">
                 {filteredConversations.map(conversation => {
-                  const otherUser = getOtherParticipant(conversation);
+                  const display = getConversationDisplay(conversation);
                   const lastMessage = conversation.messages[0];
                   
                   return (
@@ -302,8 +665,8 @@ const MessagesPage = () => {
                       <div className="relative">
                         <div className="w-12 h-12 relative rounded-full overflow-hidden">
                           <Image
-                            src={otherUser.image || 'https://placehold.co/100/5f33e1/ffffff?text=U'}
-                            alt={otherUser.name || 'User'}
+                            src={display.image}
+                            alt={display.name}
                             fill
                             className="object-cover"
                           />
@@ -318,7 +681,7 @@ const MessagesPage = () => {
                       
                       <div className="ml-3 flex-1 min-w-0">
                         <div className="flex justify-between items-baseline">
-                          <h3 className="font-medium truncate">{otherUser.name}</h3>
+                          <h3 className="font-medium truncate">{display.name}</h3>
                           <span className="text-xs text-gray-500 ml-2 whitespace-nowrap">
                             {formatMessageTime(conversation.lastMessageAt)}
                           </span>
@@ -326,19 +689,32 @@ const MessagesPage = () => {
                         
                         {lastMessage && (
                           <p className={`text-sm truncate ${conversation.unreadCount ? 'font-medium text-white' : 'text-gray-400'}`}>
-                            {lastMessage.sender.id === user?.id ? 'You: ' : ''}
-                            {lastMessage.content}
+                            {lastMessage.type === 'text' && lastMessage.sender.id === user?.id ? 'You: ' : ''}
+                            {lastMessage.type === 'text' && lastMessage.sender.id !== user?.id && conversation.isGroup
+                              ? `${lastMessage.sender.name}: `
+                              : ''}
+                            {getMessagePreview(lastMessage)}
                           </p>
                         )}
                       </div>
                     </Link>
                   );
                 })}
+
+                {conversationsCursor && (
+                  <button
+                    onClick={loadMoreConversations}
+                    disabled={loadingMore}
+                    className="w-full p-4 text-sm text-primary-400 hover:underline disabled:opacity-50"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load more conversations'}
+                  </button>
+                )}
               </div>
             )}
           </div>
         </div>
-        
+
         {/* Conversation - Right side */}
         <div className={`w-2/3 flex flex-col ${!activeConversation ? 'hidden md:flex' : 'flex'}`}>
           {activeConversation ? (
@@ -354,25 +730,68 @@ const MessagesPage = () => {
                 
                 <div className="w-10 h-10 relative rounded-full overflow-hidden mr-3">
                   <Image
-                    src={getOtherParticipant(activeConversation).image || 'https://placehold.co/100/5f33e1/ffffff?text=U'}
-                    alt={getOtherParticipant(activeConversation).name || 'User'}
+                    src={getConversationDisplay(activeConversation).image}
+                    alt={getConversationDisplay(activeConversation).name}
                     fill
                     className="object-cover"
                   />
                 </div>
                 
-                <div>
+                <div className="flex-1">
                   <h2 className="font-semibold">
-                    {getOtherParticipant(activeConversation).name}
+                    {getConversationDisplay(activeConversation).name}
                   </h2>
+                  {activeConversation.isGroup && (
+                    <p className="text-xs text-gray-400">{activeConversation.participants.length} members</p>
+                  )}
                 </div>
+                
+                {activeConversation.isGroup && (
+                  <button
+                    onClick={() => setShowGroupDetails(!showGroupDetails)}
+                    aria-label="Group details"
+                    className="text-gray-400 hover:text-white"
+                  >
+                    <FaInfoCircle />
+                  </button>
+                )}
               </div>
               
+              {activeConversation.isGroup && showGroupDetails && user && (
+                <GroupConversationPanel
+                  key={activeConversation.id}
+                  conversation={activeConversation}
+                  currentUserId={user.id}
+                  onChange={handleGroupChange}
+                  onLeave={handleLeaveGroup}
+                />
+              )}
+              
               {/* Messages */}
-              <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-950">
+              <div
+                ref={messagesContainerRef}
+                onScroll={(e) => {
+                  if (e.currentTarget.scrollTop < 100) loadOlderMessages();
+                }}
+                className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-950"
+              >
+                {messagesCursor && (
+                  <p className="text-center text-xs text-gray-500">
+                    {loadingMore ? 'Loading older messages...' : 'Scroll up for older messages'}
+                  </p>
+                )}
+                
                 {messages.map(message => {
                   const isOwnMessage = message.senderId === user?.id;
                   
+                  if (message.type === 'system') {
+                    return (
+                      <p key={message.id} className="text-center text-xs text-gray-500">
+                        {message.content}
+                      </p>
+                    );
+                  }
+                  
                   return (
                     <div 
                       key={message.id}
@@ -390,6 +809,9 @@ const MessagesPage = () => {
                       )}
                       
                       <div className="max-w-[70%]">
+                        {activeConversation.isGroup && !isOwnMessage && (
+                          <p className="text-xs text-gray-400 mb-1">{message.sender.name}</p>
+                        )}
                         <div 
                           className={`rounded-2xl px-4 py-2 ${
                             isOwnMessage 
@@ -397,11 +819,13 @@ const MessagesPage = () => {
                               : 'bg-gray-800 text-white rounded-tl-none'
                           }`}
                         >
-                          <p>{message.content}</p>
+                          {message.attachment && <MessageAttachment attachment={message.attachment} />}
+                          {message.content && <p className={message.attachment ? 'mt-2' : ''}>{message.content}</p>}
                         </div>
                         
                         <div className={`text-xs text-gray-500 mt-1 ${isOwnMessage ? 'text-right' : 'text-left'}`}>
                           {formatMessageTime(message.createdAt)}
+                          {getReceipt(message)}
                         </div>
                       </div>
                     </div>
@@ -418,6 +842,13 @@ const MessagesPage = () => {
                   </div>
                 )}
                 
+                {typingNames.length > 0 && (
+                  <p className="text-xs text-gray-400 italic">
+                    {activeConversation.isGroup ? formatNameList(typingNames) : getConversationDisplay(activeConversation).name}
+                    {typingNames.length === 1 ? ' is typing…' : ' are typing…'}
+                  </p>
+                )}
+                
                 {/* Scroll anchor */}
                 <div ref={messagesEndRef} />
               </div>
@@ -425,10 +856,20 @@ const MessagesPage = () => {
               {/* Message input */}
               <div className="p-4 border-t border-gray-800">
                 <form onSubmit={sendMessage} className="flex items-center">
+                  <div className="mr-3">
+                    <AttachmentComposer
+                      key={activeConversation.id}
+                      disabled={sendingMessage}
+                      onSend={attachment => postMessage('', attachment)}
+                    />
+                  </div>
                   <input
                     type="text"
                     value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
+                    onChange={(e) => {
+                      setNewMessage(e.target.value);
+                      sendTyping(Boolean(e.target.value.trim()));
+                    }}
                     placeholder="Type a message..."
                     className="flex-1 bg-gray-800 rounded-full py-2 px-4 focus:outline-none focus:ring-2 focus:ring-primary-600"
                   />
@@ -10,6 +10,8 @@ import Link from 'next/link';
 import { useToast } from './context/ToastContext';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
+import { trackListening } from '@/lib/listenTracker';
+import { getPlaybackAudioUrl } from '@/lib/audio';
 
 // Generate sample podcast data
 const generateSamplePodcasts = (count: number): Podcast[] => {
@@ -94,6 +96,7 @@ const Home = () => {
   const [likedPodcasts, setLikedPodcasts] = useState<Set<string>>(new Set());
   const [commentCounts, setCommentCounts] = useState<Record<string, number>>({});
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const stopTrackingRef = useRef<(() => void) | null>(null);
   const { showToast } = useToast();
 
   useEffect(() => {
@@ -152,6 +155,14 @@ const Home = () => {
     }
   }, [authLoading, user, showToast]);
 
+  // Stop listen tracking when leaving the feed
+  useEffect(() => {
+    return () => {
+      stopTrackingRef.current?.();
+      audioRef.current?.pause();
+    };
+  }, []);
+
   // Save liked podcasts to localStorage when they change
   useEffect(() => {
     if (user) {
@@ -188,8 +199,10 @@ const Home = () => {
         if (audioRef.current) {
           audioRef.current.pause();
         }
+        stopTrackingRef.current?.();
+        stopTrackingRef.current = null;
         
-        audioRef.current = new Audio(podcast.audioUrl);
+        audioRef.current = new Audio(getPlaybackAudioUrl(podcast));
         
         // Check if audioUrl is valid
         if (!podcast.audioUrl || podcast.audioUrl === 'null' || podcast.audioUrl === '') {
@@ -197,18 +210,12 @@ const Home = () => {
           return;
         }
         
+        // Plays are counted server-side from the player's progress events
+        stopTrackingRef.current = trackListening(audioRef.current, podcast.id);
+        
         audioRef.current.play()
           .then(() => {
             setCurrentlyPlaying(podcastId);
-            
-            // Increment listens count
-            const updatedPodcast = { ...podcast, listens: (podcast.listens || 0) + 1 };
-            updatePodcast(podcast.id, { listens: updatedPodcast.listens });
-            
-            // Update the podcasts state
-            setPodcasts(prev => 
-              prev.map(p => p.id === podcast.id ? updatedPodcast : p)
-            );
           })
           .catch(error => {
             console.error("Error playing audio:", error);
@@ -300,6 +307,7 @@ const Home = () => {
             onLikeToggle={toggleLike}
             isLiked={likedPodcasts.has(podcast.id)}
             commentCount={getCommentCount(podcast.id)}
+            audio={currentlyPlaying === podcast.id ? audioRef.current : null}
           />
         ))
       ) : (
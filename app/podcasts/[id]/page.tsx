@@ -1,30 +1,57 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useState, useEffect } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { useSupabase } from '@/app/providers/SupabaseProvider';
 import Image from 'next/image';
 import Link from 'next/link';
-import { FaPlay, FaPause, FaHeart, FaRegHeart, FaComment, FaShareAlt, FaArrowLeft, FaPaperPlane, FaEdit, FaSave, FaTimes } from 'react-icons/fa';
+import { FaHeart, FaRegHeart, FaComment, FaShareAlt, FaArrowLeft, FaPaperPlane, FaEdit, FaSave, FaTimes, FaPlus, FaTrash } from 'react-icons/fa';
 import toast from 'react-hot-toast';
-import { Podcast, getAllPodcasts, updatePodcast } from '@/lib/storage';
+import { Chapter, Podcast, EpisodeRetention, getAllPodcasts, getChapters, getEpisodeRetention, updateChapters, updatePodcast, uploadTranscript } from '@/lib/storage';
+import { formatTimestamp } from '@/lib/transcripts';
+import { getPlaybackAudioUrl } from '@/lib/audio';
+import { isWaveformData } from '@/lib/waveform';
+import AnalyticsChart from '@/app/components/AnalyticsChart';
+import PodcastPlayer from '@/app/components/PodcastPlayer';
+import ShareLinksPanel from '@/app/components/ShareLinksPanel';
+
+// A chapter row in the edit form; the start time is typed as "M:SS" or "H:MM:SS"
+interface ChapterFormRow {
+  startTime: string;
+  title: string;
+  url: string;
+  image: string;
+}
+
+const toChapterRows = (chapters: Chapter[]): ChapterFormRow[] =>
+  chapters.map(chapter => ({
+    startTime: formatTimestamp(chapter.startTime),
+    title: chapter.title,
+    url: chapter.url || '',
+    image: chapter.img || '',
+  }));
 
 const PodcastDetailPage = () => {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  // Deep links from transcript search results start playback at ?t=<seconds>
+  const startTime = Math.max(0, parseInt(searchParams.get('t') || '0', 10) || 0);
   const { user, isLoading: authLoading } = useSupabase();
   const [podcast, setPodcast] = useState<Podcast | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [isPlaying, setIsPlaying] = useState(false);
   const [isLiked, setIsLiked] = useState(false);
   const [comment, setComment] = useState('');
   const [comments, setComments] = useState<Array<{id: string, user: {name: string, image?: string}, text: string, createdAt: string}>>([]);
   const [isEditing, setIsEditing] = useState(false);
+  const [retention, setRetention] = useState<EpisodeRetention | null>(null);
+  const [isUploadingTranscript, setIsUploadingTranscript] = useState(false);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [chapterRows, setChapterRows] = useState<ChapterFormRow[]>([]);
   const [editForm, setEditForm] = useState({
     title: '',
     description: ''
   });
-  const audioRef = useRef<HTMLAudioElement | null>(null);
 
   useEffect(() => {
     const podcastId = params.id as string;
@@ -92,6 +119,36 @@ const PodcastDetailPage = () => {
     fetchPodcast();
   }, [params.id, router, user]);
 
+  // Load chapters for the player and the edit form
+  useEffect(() => {
+    if (!podcast) return;
+
+    getChapters(podcast.id)
+      .then(data => {
+        setChapters(data);
+        setChapterRows(toChapterRows(data));
+      })
+      .catch(error => {
+        console.error('Failed to load chapters:', error);
+        setChapters([]);
+      });
+  }, [podcast?.id]);
+
+  // Load the retention curve for owners only
+  useEffect(() => {
+    if (!podcast || !user || user.id !== podcast.userId || !podcast.duration) {
+      setRetention(null);
+      return;
+    }
+
+    getEpisodeRetention(podcast.id)
+      .then(setRetention)
+      .catch(error => {
+        console.error('Failed to load retention:', error);
+        setRetention(null);
+      });
+  }, [podcast?.id, podcast?.userId, podcast?.duration, user]);
+
   // Handle input change for edit form
   const handleEditChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -117,6 +174,23 @@ const PodcastDetailPage = () => {
         title: editForm.title,
         description: editForm.description
       });
+
+      // Only replace chapters when they were edited
+      if (JSON.stringify(chapterRows) !== JSON.stringify(toChapterRows(chapters))) {
+        const savedChapters = await updateChapters(
+          podcast.id,
+          chapterRows
+            .filter(row => row.startTime.trim() || row.title.trim())
+            .map(row => ({
+              startTime: row.startTime.trim(),
+              title: row.title,
+              url: row.url.trim() || undefined,
+              image: row.image.trim() || undefined,
+            }))
+        );
+        setChapters(savedChapters);
+        setChapterRows(toChapterRows(savedChapters));
+      }
       
       // Update local state
       setPodcast({
@@ -130,7 +204,7 @@ const PodcastDetailPage = () => {
       toast.success("Podcast updated successfully");
     } catch (error) {
       console.error("Error updating podcast:", error);
-      toast.error("Failed to update podcast");
+      toast.error(error instanceof Error ? error.message : "Failed to update podcast");
     }
   };
 
@@ -143,6 +217,7 @@ const PodcastDetailPage = () => {
         description: podcast.description
       });
     }
+    setChapterRows(toChapterRows(chapters));
     setIsEditing(false);
   };
 
@@ -153,47 +228,25 @@ const PodcastDetailPage = () => {
     return user.id === podcast.userId;
   };
 
-  const togglePlay = () => {
-    if (!podcast) return;
-    
+  const updateChapterRow = (index: number, field: keyof ChapterFormRow, value: string) => {
+    setChapterRows(rows => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  // Upload a transcript so the episode can be searched by what is said in it
+  const handleTranscriptUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!podcast || !file) return;
+
+    setIsUploadingTranscript(true);
     try {
-      if (!audioRef.current) {
-        audioRef.current = new Audio(podcast.audioUrl);
-        
-        // Check if audioUrl is valid
-        if (!podcast.audioUrl || podcast.audioUrl === 'null' || podcast.audioUrl === '') {
-          toast.error("This podcast doesn't have a valid audio file");
-          return;
-        }
-        
-        audioRef.current.addEventListener('ended', () => {
-          setIsPlaying(false);
-        });
-      }
-      
-      if (isPlaying) {
-        audioRef.current.pause();
-        setIsPlaying(false);
-      } else {
-        audioRef.current.play()
-          .then(() => {
-            setIsPlaying(true);
-            
-            // Increment listens count
-            if (podcast) {
-              const updatedPodcast = { ...podcast, listens: (podcast.listens || 0) + 1 };
-              updatePodcast(podcast.id, { listens: updatedPodcast.listens });
-              setPodcast(updatedPodcast);
-            }
-          })
-          .catch(error => {
-            console.error("Error playing audio:", error);
-            toast.error("Failed to play audio. The file might be invalid or inaccessible.");
-          });
-      }
+      const transcript = await uploadTranscript(podcast.id, file);
+      toast.success(`Transcript uploaded (${transcript.segmentCount} segments)`);
     } catch (error) {
-      console.error("Error in togglePlay:", error);
-      toast.error("An error occurred while playing the podcast");
+      console.error('Failed to upload transcript:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upload transcript');
+    } finally {
+      setIsUploadingTranscript(false);
     }
   };
 
@@ -390,6 +443,71 @@ const PodcastDetailPage = () => {
                     placeholder="Podcast description"
                   />
                 </div>
+                <div className="mb-4">
+                  <label className="block text-sm text-gray-400 mb-1">Transcript (WebVTT, SRT or JSON)</label>
+                  <input
+                    type="file"
+                    accept=".vtt,.srt,.json,text/vtt,application/x-subrip,application/json"
+                    onChange={handleTranscriptUpload}
+                    disabled={isUploadingTranscript}
+                    className="w-full text-sm text-gray-400"
+                  />
+                  {isUploadingTranscript && <p className="text-xs text-gray-400 mt-1">Uploading transcript...</p>}
+                </div>
+                <div className="mb-4">
+                  <label className="block text-sm text-gray-400 mb-1">Chapters</label>
+                  {chapterRows.map((row, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2 mb-2">
+                      <input
+                        type="text"
+                        value={row.startTime}
+                        onChange={(e) => updateChapterRow(index, 'startTime', e.target.value)}
+                        className="w-20 bg-gray-800 border border-gray-700 rounded-lg p-2 text-white text-sm"
+                        placeholder="0:00"
+                        aria-label="Chapter start time"
+                      />
+                      <input
+                        type="text"
+                        value={row.title}
+                        onChange={(e) => updateChapterRow(index, 'title', e.target.value)}
+                        className="flex-1 min-w-[8rem] bg-gray-800 border border-gray-700 rounded-lg p-2 text-white text-sm"
+                        placeholder="Chapter title"
+                        aria-label="Chapter title"
+                      />
+                      <input
+                        type="url"
+                        value={row.url}
+                        onChange={(e) => updateChapterRow(index, 'url', e.target.value)}
+                        className="w-40 bg-gray-800 border border-gray-700 rounded-lg p-2 text-white text-sm"
+                        placeholder="Link (optional)"
+                        aria-label="Chapter link"
+                      />
+                      <input
+                        type="url"
+                        value={row.image}
+                        onChange={(e) => updateChapterRow(index, 'image', e.target.value)}
+                        className="w-40 bg-gray-800 border border-gray-700 rounded-lg p-2 text-white text-sm"
+                        placeholder="Image URL (optional)"
+                        aria-label="Chapter image"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setChapterRows(rows => rows.filter((_, i) => i !== index))}
+                        className="p-2 text-gray-400 hover:text-red-500"
+                        aria-label="Remove chapter"
+                      >
+                        <FaTrash />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setChapterRows(rows => [...rows, { startTime: '', title: '', url: '', image: '' }])}
+                    className="text-sm text-primary-500 hover:underline flex items-center"
+                  >
+                    <FaPlus className="mr-1" /> Add chapter
+                  </button>
+                </div>
                 <div className="flex space-x-2">
                   <button 
                     onClick={handleSaveEdit}
@@ -446,23 +564,22 @@ const PodcastDetailPage = () => {
           </div>
         </div>
         
+        {/* Player */}
+        <div className="mt-6">
+          <PodcastPlayer
+            title={podcast.title}
+            artist={podcast.user.name}
+            coverImage={podcast.coverImage || 'https://placehold.co/300'}
+            audioUrl={getPlaybackAudioUrl(podcast)}
+            podcastId={podcast.id}
+            startTime={startTime}
+            chapters={chapters}
+            waveform={isWaveformData(podcast.waveform) ? podcast.waveform : null}
+          />
+        </div>
+        
         {/* Action buttons */}
         <div className="flex space-x-4 mt-6">
-          <button
-            onClick={togglePlay}
-            className="bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-full flex items-center space-x-2 transition-colors"
-          >
-            {isPlaying ? (
-              <>
-                <FaPause className="mr-2" /> Pause
-              </>
-            ) : (
-              <>
-                <FaPlay className="mr-2" /> Play
-              </>
-            )}
-          </button>
-          
           <button
             onClick={toggleLike}
             className={`${isLiked ? 'text-primary-600' : 'text-gray-400'} hover:text-primary-600 px-3 py-2 rounded-full flex items-center transition-colors`}
@@ -482,6 +599,28 @@ const PodcastDetailPage = () => {
           </button>
         </div>
         
+        {/* Listener retention (owner only) */}
+        {isOwner() && retention && (
+          <div className="mt-8">
+            <AnalyticsChart
+              title={`Listener retention · ${retention.starters.toLocaleString()} starts`}
+              data={retention.curve.map(point => ({
+                label: `${point.percent}% (${formatDuration(point.position)})`,
+                value: point.retention,
+              }))}
+              maxValue={100}
+              formatValue={value => `${value}%`}
+            />
+          </div>
+        )}
+        
+        {/* Share links for reviewing private episodes (owner only) */}
+        {isOwner() && !podcast.isPublic && (
+          <div className="mt-8">
+            <ShareLinksPanel podcastId={podcast.id} />
+          </div>
+        )}
+        
         {/* Comments section */}
         <div className="mt-12">
           <h3 className="text-xl font-bold mb-6 flex items-center">
@@ -6,6 +6,8 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { FaUserPlus, FaUserCheck, FaPodcast, FaHeart, FaPlay, FaUsers } from 'react-icons/fa';
 import toast from 'react-hot-toast';
+import { getUserPodcasts, groupPodcastsByShow, Podcast } from '@/lib/storage';
+import { formatEpisodeLabel } from '@/lib/episodes';
 
 // Mock user data
 const mockUserData = {
@@ -18,43 +20,6 @@ const mockUserData = {
   createdAt: '2023-01-15T10:00:00Z',
 };
 
-// Mock podcasts data
-const mockPodcasts = [
-  {
-    id: '1',
-    title: 'The Creative Mind',
-    description: 'Exploring creativity and innovation in various fields.',
-    audioUrl: 'https://example.com/audio1.mp3',
-    coverImage: 'https://via.placeholder.com/300',
-    duration: 1800, // 30 minutes in seconds
-    createdAt: '2023-07-15T10:00:00Z',
-    listens: 1245,
-    likes: 89,
-  },
-  {
-    id: '2',
-    title: 'Tech Today',
-    description: 'The latest news and trends in technology.',
-    audioUrl: 'https://example.com/audio2.mp3',
-    coverImage: 'https://via.placeholder.com/300',
-    duration: 2400, // 40 minutes in seconds
-    createdAt: '2023-07-01T14:30:00Z',
-    listens: 876,
-    likes: 56,
-  },
-  {
-    id: '3',
-    title: 'Mindful Living',
-    description: 'Practices for a more mindful and intentional life.',
-    audioUrl: 'https://example.com/audio3.mp3',
-    coverImage: 'https://via.placeholder.com/300',
-    duration: 1500, // 25 minutes in seconds
-    createdAt: '2023-06-15T16:45:00Z',
-    listens: 987,
-    likes: 78,
-  },
-];
-
 // Define ProfileClient component props
 interface ProfileClientProps {
   userId: string;
@@ -63,7 +28,7 @@ interface ProfileClientProps {
 const ProfileClient = ({ userId }: ProfileClientProps) => {
   const { user } = useSupabase();
   const [profile, setProfile] = useState(null);
-  const [podcasts, setPodcasts] = useState<any[]>([]);
+  const [podcasts, setPodcasts] = useState<Podcast[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isFollowing, setIsFollowing] = useState(false);
   const [currentlyPlaying, setCurrentlyPlaying] = useState<string | null>(null);
@@ -86,14 +51,16 @@ const ProfileClient = ({ userId }: ProfileClientProps) => {
         }
         const data = await response.json();
         setProfile(data);
-        setPodcasts(mockPodcasts);
+        
+        const userPodcasts = await getUserPodcasts(userId);
+        setPodcasts(userPodcasts);
         
         // Calculate stats
-        const totalListens = mockPodcasts.reduce((sum, podcast) => sum + podcast.listens, 0);
-        const totalLikes = mockPodcasts.reduce((sum, podcast) => sum + podcast.likes, 0);
+        const totalListens = userPodcasts.reduce((sum, podcast) => sum + (podcast.listens || 0), 0);
+        const totalLikes = userPodcasts.reduce((sum, podcast) => sum + (podcast.likes || 0), 0);
         
         setStats({
-          totalPodcasts: mockPodcasts.length,
+          totalPodcasts: userPodcasts.length,
           totalListens,
           totalLikes,
         });
@@ -295,43 +262,57 @@ const ProfileClient = ({ userId }: ProfileClientProps) => {
               <h2 className="text-xl font-semibold mb-6">Podcasts by {profile.name}</h2>
               
               {podcasts.length > 0 ? (
-                <div className="space-y-6">
-                  {podcasts.map((podcast) => (
-                    <div
-                      key={podcast.id}
-                      className="flex flex-col md:flex-row border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden"
-                    >
-                      <div className="md:w-1/4">
-                        <div className="relative aspect-square">
-                          <Image
-                            src={podcast.coverImage}
-                            alt={podcast.title}
-                            layout="fill"
-                            objectFit="cover"
-                          />
-                          <button
-                            onClick={() => togglePlay(podcast.id)}
-                            className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-30 hover:bg-opacity-40 transition-opacity"
+                <div className="space-y-10">
+                  {groupPodcastsByShow(podcasts).map(({ show, episodes }) => (
+                    <div key={show?.id || 'standalone'}>
+                      {show && (
+                        <h3 className="text-lg font-semibold mb-4">{show.title}</h3>
+                      )}
+                      <div className="space-y-6">
+                        {episodes.map((podcast) => (
+                          <div
+                            key={podcast.id}
+                            className="flex flex-col md:flex-row border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden"
                           >
-                            <FaPlay className="text-white text-3xl" />
-                          </button>
-                        </div>
-                      </div>
-                      <div className="p-4 md:w-3/4">
-                        <Link href={`/podcasts/${podcast.id}`}>
-                          <h3 className="text-lg font-semibold mb-2 hover:text-primary-600 transition-colors">
-                            {podcast.title}
-                          </h3>
-                        </Link>
-                        <p className="text-gray-600 dark:text-gray-400 mb-4">
-                          {podcast.description}
-                        </p>
-                        <div className="flex flex-wrap gap-4 text-sm text-gray-500 dark:text-gray-400">
-                          <span>Duration: {formatDuration(podcast.duration)}</span>
-                          <span>Listens: {podcast.listens}</span>
-                          <span>Likes: {podcast.likes}</span>
-                          <span>Published: {formatDate(podcast.createdAt)}</span>
-                        </div>
+                            <div className="md:w-1/4">
+                              <div className="relative aspect-square">
+                                <Image
+                                  src={podcast.coverImage || `https://placehold.co/300/5f33e1/ffffff?text=${podcast.title[0]}`}
+                                  alt={podcast.title}
+                                  layout="fill"
+                                  objectFit="cover"
+                                />
+                                <button
+                                  onClick={() => togglePlay(podcast.id)}
+                                  className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-30 hover:bg-opacity-40 transition-opacity"
+                                >
+                                  <FaPlay className="text-white text-3xl" />
+                                </button>
+                              </div>
+                            </div>
+                            <div className="p-4 md:w-3/4">
+                              {formatEpisodeLabel(podcast) && (
+                                <p className="text-xs uppercase tracking-wide text-primary-600 mb-1">
+                                  {formatEpisodeLabel(podcast)}
+                                </p>
+                              )}
+                              <Link href={`/podcasts/${podcast.id}`}>
+                                <h3 className="text-lg font-semibold mb-2 hover:text-primary-600 transition-colors">
+                                  {podcast.title}
+                                </h3>
+                              </Link>
+                              <p className="text-gray-600 dark:text-gray-400 mb-4">
+                                {podcast.description}
+                              </p>
+                              <div className="flex flex-wrap gap-4 text-sm text-gray-500 dark:text-gray-400">
+                                <span>Duration: {formatDuration(podcast.duration || 0)}</span>
+                                <span>Listens: {podcast.listens || 0}</span>
+                                <span>Likes: {podcast.likes || 0}</span>
+                                <span>Published: {formatDate(podcast.createdAt)}</span>
+                              </div>
+                            </div>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   ))}
@@ -1,34 +1,22 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useSupabaseAuth } from '../providers/SupabaseAuthProvider';
 import toast from 'react-hot-toast';
-import { FaMicrophone, FaUpload, FaStop, FaPlay, FaPause, FaTrash, FaSave, FaGlobe, FaLock, FaArrowLeft, FaImage, FaExclamationTriangle } from 'react-icons/fa';
-import { addPodcast } from '@/lib/storage';
-import { uploadAudioFile, getUploadProgress, startFileUpload, isFileUploading, isFileUploaded, getUploadedFileUrl } from '@/lib/fileStorage';
+import { FaMicrophone, FaUpload, FaStop, FaPlay, FaPause, FaTrash, FaSave, FaGlobe, FaLock, FaArrowLeft, FaImage, FaExclamationTriangle, FaCalendarAlt, FaFileAlt, FaUsers } from 'react-icons/fa';
+import { DraftFields, EditState, addTake, createDraft, createRecordingSession, getPodcast, getTakes, saveDraft } from '@/lib/storage';
+import { completeStreamingUpload, startFileUpload } from '@/lib/fileStorage';
+import type { TakeSummary } from '@/lib/edl';
+import { useStreamingRecorder } from '@/app/hooks/useStreamingRecorder';
+import EditStudio, { decodeAudio } from '@/app/components/EditStudio';
 import Link from 'next/link';
 import { MdMic, MdStop, MdPlayArrow, MdPause, MdFileUpload, MdImage } from 'react-icons/md';
 import axios from 'axios';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import dynamic from 'next/dynamic';
 import Image from 'next/image';
-import { supabase, getCurrentUserId } from '@/lib/supabaseClient';
-
-// Import AudioRecorder dynamically with SSR disabled
-const ClientAudioRecorder = dynamic(
-  () => import('react-audio-voice-recorder').then((mod) => {
-    // Create a wrapper component to fix TypeScript issue
-    const AudioRecorderComponent = (props: any) => {
-      const { AudioRecorder } = mod;
-      return <AudioRecorder {...props} />;
-    };
-    return AudioRecorderComponent;
-  }),
-  { ssr: false }
-);
 
 const UploadProgressBar = ({ progress }: { progress: number }) => {
   // Ensure progress is always a valid number
@@ -53,34 +41,52 @@ const UploadProgressBar = ({ progress }: { progress: number }) => {
   );
 };
 
+// Delay before edits to the title, description or privacy are autosaved
+const AUTOSAVE_DELAY_MS = 1000;
+
+// localStorage key of a recording that was still uploading, so it can be recovered after a reload
+const getRecordingKey = (draftId: string) => `recording-upload:${draftId}`;
+
+type SaveState = 'idle' | 'saving' | 'saved' | 'error';
+
 const RecordPage = () => {
   const { user, isLoading } = useSupabaseAuth();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [recordingMode, setRecordingMode] = useState<'record' | 'upload'>('record');
-  const [isRecording, setIsRecording] = useState(false);
-  const [recordingTime, setRecordingTime] = useState(0);
-  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
-  const [audioBase64, setAudioBase64] = useState<string | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null); // Preview source
+  const [savedAudioUrl, setSavedAudioUrl] = useState(''); // Uploaded audio attached to the draft
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [coverImage, setCoverImage] = useState<File | null>(null);
+  const [coverImageUrl, setCoverImageUrl] = useState<string | null>(null);
   const [coverImagePreview, setCoverImagePreview] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     isPublic: true,
+    publishMode: 'now' as 'now' | 'schedule' | 'draft',
+    publishAt: '', // datetime-local value in the creator's time zone
   });
+  const [draftId, setDraftId] = useState<string | null>(searchParams.get('draft'));
+  const [isLoadingDraft, setIsLoadingDraft] = useState(Boolean(searchParams.get('draft')));
+  const [saveState, setSaveState] = useState<SaveState>('idle');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [charCount, setCharCount] = useState(0);
   const MAX_CHARS = 280; // Twitter-like character limit
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'processing' | 'complete' | 'error'>('idle');
-  const [uploadedFileUrl, setUploadedFileUrl] = useState<string>('');
+  const [takes, setTakes] = useState<TakeSummary[]>([]);
+  const [editState, setEditState] = useState<EditState | null>(null);
+  const [isCreatingSession, setIsCreatingSession] = useState(false);
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const coverImageInputRef = useRef<HTMLInputElement | null>(null);
+  const draftIdRef = useRef<string | null>(draftId);
+  const draftPromiseRef = useRef<Promise<string> | null>(null);
+  const hasEditedRef = useRef(false);
+  const audioUploadRef = useRef<Promise<string> | null>(null);
+  const hasLoadedDraftRef = useRef(false);
 
   useEffect(() => {
     if (!isLoading && !user) {
@@ -88,32 +94,186 @@ const RecordPage = () => {
     }
   }, [user, isLoading, router]);
 
-  // Convert blob to base64
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        resolve(base64String);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
+  // Create the draft on the first change; later saves reuse it
+  const ensureDraft = (): Promise<string> => {
+    if (draftIdRef.current) return Promise.resolve(draftIdRef.current);
+
+    if (!draftPromiseRef.current) {
+      draftPromiseRef.current = createDraft({
+        title: formData.title.trim(),
+        description: formData.description.trim(),
+        isPublic: formData.isPublic,
+      }).then(draft => {
+        draftIdRef.current = draft.id;
+        setDraftId(draft.id);
+        // Keep the draft in the URL so a reload picks it back up
+        router.replace(`/record?draft=${draft.id}`);
+        return draft.id;
+      }).catch(error => {
+        draftPromiseRef.current = null;
+        throw error;
+      });
+    }
+
+    return draftPromiseRef.current;
   };
 
-  const handleRecordingComplete = async (blob: Blob) => {
-    setAudioBlob(blob);
-    const url = URL.createObjectURL(blob);
-    setAudioUrl(url);
-    
+  const saveFields = async (fields: DraftFields) => {
+    setSaveState('saving');
+    try {
+      const id = await ensureDraft();
+      await saveDraft(id, fields);
+      setSaveState('saved');
+    } catch (error) {
+      console.error('Error saving draft:', error);
+      setSaveState('error');
+      throw error;
+    }
+  };
+
+  // Attach newly uploaded audio to the draft
+  const attachAudio = async (url: string) => {
+    await saveFields({ audioUrl: url });
+    setSavedAudioUrl(url);
+    return url;
+  };
+
+  // Every recording is kept as a take; the studio arranges them into the episode's audio
+  const addRecordingTake = async (id: string, url: string, duration: number) => {
+    const voiceTakeCount = takes.filter(take => take.kind === 'voice').length;
+    const take = await addTake(id, { url, name: `Take ${voiceTakeCount + 1}`, kind: 'voice', duration });
+    setTakes(current => [...current, take]);
+    return take;
+  };
+
+  const recorder = useStreamingRecorder({
+    onUploadStarted: uploadId => {
+      if (draftIdRef.current) {
+        localStorage.setItem(getRecordingKey(draftIdRef.current), uploadId);
+      }
+    },
+  });
+
+  // Resume the draft in the URL, opened from the dashboard or after a reload
+  useEffect(() => {
+    const id = draftIdRef.current;
+    if (!id || !user || hasLoadedDraftRef.current) return;
+    hasLoadedDraftRef.current = true;
+
+    const loadDraft = async () => {
+      try {
+        const draft = await getPodcast(id);
+
+        if (draft.status !== 'draft') {
+          toast.error('This episode has already been published');
+          router.replace('/dashboard');
+          return;
+        }
+
+        setFormData(prev => ({
+          ...prev,
+          title: draft.title,
+          description: draft.description || '',
+          isPublic: draft.isPublic,
+        }));
+        setCharCount((draft.description || '').length);
+        setCoverImageUrl(draft.coverImage || null);
+        setCoverImagePreview(draft.coverImage || null);
+        setSavedAudioUrl(draft.audioUrl);
+        setAudioUrl(draft.audioUrl || null);
+        setSaveState('saved');
+
+        const draftTakes = await getTakes(id);
+        setTakes(draftTakes);
+
+        // A recording that was cut off by a reload keeps every part that reached the server
+        const recordingUploadId = localStorage.getItem(getRecordingKey(id));
+        if (recordingUploadId) {
+          localStorage.removeItem(getRecordingKey(id));
+          try {
+            const url = await completeStreamingUpload(recordingUploadId);
+            const { duration } = await decodeAudio(url);
+            const voiceTakeCount = draftTakes.filter(take => take.kind === 'voice').length;
+            const take = await addTake(id, { url, name: `Take ${voiceTakeCount + 1}`, kind: 'voice', duration });
+            setTakes([...draftTakes, take]);
+            toast.success('Recovered your interrupted recording');
+          } catch (error) {
+            console.error('Error recovering recording:', error);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading draft:', error);
+        toast.error('Could not load this draft');
+        draftIdRef.current = null;
+        setDraftId(null);
+      } finally {
+        setIsLoadingDraft(false);
+      }
+    };
+
+    loadDraft();
+  }, [user]);
+
+  // Autosave text and privacy edits once the creator pauses
+  useEffect(() => {
+    if (!hasEditedRef.current) return;
+
+    const timeout = setTimeout(() => {
+      saveFields({
+        title: formData.title.trim(),
+        description: formData.description.trim(),
+        isPublic: formData.isPublic,
+      }).catch(() => {});
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [formData.title, formData.description, formData.isPublic]);
+
+  const handleStartRecording = async () => {
+    try {
+      // The draft must exist first so the recording can be recovered after a reload
+      await ensureDraft();
+      await recorder.start();
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not start recording');
+    }
+  };
+
+  const handleStopRecording = async () => {
+    setUploadStatus('processing');
+    const elapsed = recorder.elapsed;
+
+    try {
+      const { blob, url } = await recorder.stop();
+      // Recorded WebM often has no duration in its header, so measure the audio itself
+      const duration = await decodeAudio(blob)
+        .then(buffer => buffer.duration)
+        .catch(() => elapsed);
+      const id = await ensureDraft();
+      await addRecordingTake(id, url, duration);
+      localStorage.removeItem(getRecordingKey(id));
+
+      setUploadStatus('complete');
+      setUploadProgress(100);
+      toast.success('Take saved to your draft');
+    } catch (error) {
+      console.error('Error saving recording:', error);
+      setUploadStatus('error');
+      toast.error('Failed to save the recording');
+    }
+  };
+
+  // Remote guests record in a session, which is mixed into a draft of its own afterwards
+  const handleRecordWithGuests = async () => {
+    setIsCreatingSession(true);
     try {
-      // Convert to base64 for storage
-      const base64 = await blobToBase64(blob);
-      setAudioBase64(base64);
-      toast.success('Recording completed!');
+      const session = await createRecordingSession(formData.title.trim() || 'Untitled session');
+      router.push(`/sessions/${session.id}`);
     } catch (error) {
-      console.error('Error converting blob to base64:', error);
-      toast.error('Error processing the recording');
+      console.error('Error creating recording session:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create recording session');
+      setIsCreatingSession(false);
     }
   };
 
@@ -128,70 +288,22 @@ const RecordPage = () => {
     }
 
     setSelectedFile(file);
-    const url = URL.createObjectURL(file);
-    setAudioUrl(url);
-    
-    // Start uploading the file immediately in the background
-    toast.success('Starting file upload in the background...');
+    setAudioUrl(URL.createObjectURL(file));
+
+    // Upload right away and attach the file to the draft when it's done
     setUploadStatus('uploading');
     setUploadProgress(1); // Show initial progress
-    
+
+    const upload = startFileUpload(file, 'podcast-audio', setUploadProgress).then(attachAudio);
+    audioUploadRef.current = upload;
+
     try {
-      // Start the background upload process
-      const fileId = `${file.name}_${file.size}_${file.lastModified}`;
-      
-      // Only start the upload if it's not already uploading or uploaded
-      if (!isFileUploading(fileId) && !isFileUploaded(fileId)) {
-        startFileUpload(file, 'podcast-audio', (progress) => {
-          console.log(`Background upload progress: ${progress}%`);
-          // Update UI to show progress
-          setUploadProgress(progress);
-        }).then((cloudinaryUrl) => {
-          console.log('Background upload complete:', cloudinaryUrl);
-          toast.success('File upload completed in the background!');
-          // Store the URL for later use when publishing
-          setUploadedFileUrl(cloudinaryUrl);
-          setUploadStatus('complete');
-          setUploadProgress(100);
-        }).catch((error) => {
-          console.error('Background upload failed:', error);
-          toast.error(`Background upload failed: ${error.message}`);
-          setUploadStatus('error');
-        });
-      } else if (isFileUploaded(fileId)) {
-        // If already uploaded, get the URL
-        const url = getUploadedFileUrl(fileId);
-        if (url) {
-          console.log('File already uploaded, using cached URL:', url);
-          toast.success('Using already uploaded file!');
-          setUploadedFileUrl(url);
-          setUploadStatus('complete');
-          setUploadProgress(100);
-        }
-      } else {
-        // If already uploading, just track the progress
-        console.log('File already uploading, tracking progress');
-        toast.success('File is already uploading, tracking progress...');
-        
-        // Start a progress tracking interval
-        const progressInterval = setInterval(() => {
-          const progress = getUploadProgress(fileId);
-          setUploadProgress(progress);
-          console.log(`Tracking upload progress: ${progress}%`);
-          
-          if (progress >= 100) {
-            clearInterval(progressInterval);
-            setUploadStatus('complete');
-          }
-        }, 500);
-      }
-      
-      // Convert to base64 for storage (only for preview purposes)
-      const base64 = await blobToBase64(file);
-      setAudioBase64(base64);
+      await upload;
+      setUploadStatus('complete');
+      setUploadProgress(100);
+      toast.success('Audio saved to your draft');
     } catch (error) {
-      console.error('Error handling file change:', error);
-      toast.error('Error processing the file');
+      console.error('Background upload failed:', error);
       setUploadStatus('error');
     }
   };
@@ -200,30 +312,35 @@ const RecordPage = () => {
   const handleCoverImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    
+
     // Check if the file is an image
     if (!file.type.startsWith('image/')) {
       toast.error('Please upload an image file');
       return;
     }
-    
-    setCoverImage(file);
-    
-    // Create a preview
-    const url = URL.createObjectURL(file);
-    setCoverImagePreview(url);
-    
-    toast.success('Cover image uploaded!');
+
+    setCoverImagePreview(URL.createObjectURL(file));
+
+    try {
+      const url = await startFileUpload(file, 'images');
+      await saveFields({ coverImage: url });
+      setCoverImageUrl(url);
+      toast.success('Cover image uploaded!');
+    } catch (error) {
+      console.error('Error uploading cover image:', error);
+      toast.error('Failed to upload cover image');
+    }
   };
-  
+
   // Remove cover image
   const handleRemoveCoverImage = () => {
-    if (coverImagePreview) {
+    if (coverImagePreview?.startsWith('blob:')) {
       URL.revokeObjectURL(coverImagePreview);
     }
-    setCoverImage(null);
+    setCoverImageUrl(null);
     setCoverImagePreview(null);
-    
+    saveFields({ coverImage: null }).catch(() => {});
+
     // Reset the file input
     if (coverImageInputRef.current) {
       coverImageInputRef.current.value = '';
@@ -231,18 +348,23 @@ const RecordPage = () => {
   };
 
   const handleDiscardAudio = () => {
-    if (audioUrl) {
+    if (audioUrl?.startsWith('blob:')) {
       URL.revokeObjectURL(audioUrl);
     }
-    setAudioBlob(null);
     setAudioUrl(null);
-    setAudioBase64(null);
     setSelectedFile(null);
     setIsPlaying(false);
+    setUploadStatus('idle');
+    audioUploadRef.current = null;
     if (audioRef.current) {
       audioRef.current.pause();
       audioRef.current.currentTime = 0;
     }
+
+    if (savedAudioUrl) {
+      setSavedAudioUrl('');
+      saveFields({ audioUrl: '' }).catch(() => {});
+    }
   };
 
   const togglePlay = () => {
@@ -258,6 +380,7 @@ const RecordPage = () => {
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target as HTMLInputElement & { type: string };
+    hasEditedRef.current = true;
     
     // Handle checkbox inputs specially (for boolean values)
     if (type === 'checkbox') {
@@ -274,9 +397,13 @@ const RecordPage = () => {
     }
   };
 
+  const setPrivacy = (isPublic: boolean) => {
+    hasEditedRef.current = true;
+    setFormData(prev => ({ ...prev, isPublic }));
+  };
+
   /**
-   * Publish the podcast with comprehensive error handling
-   * and proper upload tracking
+   * Save the draft's final details and publish, schedule or keep it as a draft
    */
   const handlePublish = async () => {
     if (isSubmitting) {
@@ -284,269 +411,79 @@ const RecordPage = () => {
       return;
     }
 
+    if (!user) {
+      toast.error('You must be logged in to publish a podcast.');
+      return;
+    }
+
+    if (formData.publishMode !== 'draft' && !formData.title.trim()) {
+      toast.error('Please add a title for your podcast');
+      return;
+    }
+
+    if (formData.publishMode === 'schedule' && !(new Date(formData.publishAt) > new Date())) {
+      toast.error('Please pick a release time in the future');
+      return;
+    }
+
+    const publishToastId = toast.loading('Saving your episode...');
+    setIsSubmitting(true);
+
     try {
-      setIsSubmitting(true);
-      setUploadStatus('processing');
-      
-      // First check NextAuth session
-      if (!user) {
-        toast.error('You must be logged in to publish a podcast.');
-        setUploadStatus('idle');
-        setIsSubmitting(false);
-        return;
-      }
-      
-      // Get the Supabase user ID (critical for storage policies)
-      const supabaseUserId = await getCurrentUserId();
-      
-      // If no Supabase user is found, we need to use the NextAuth ID but show a warning
-      const userId = supabaseUserId || user.id;
-      
-      // Log diagnostic information
-      console.log('==== AUTH DIAGNOSTICS ====');
-      console.log('NextAuth User ID:', user.id);
-      console.log('Supabase User ID:', supabaseUserId);
-      console.log('Using User ID:', userId);
-      
-      // Check current Supabase auth status
-      const { data: authData } = await supabase.auth.getSession();
-      console.log('Supabase session:', authData.session ? 'Active' : 'None');
-      if (authData.session) {
-        console.log('Supabase session user:', authData.session.user.id);
+      // Audio that is still uploading has to land before the episode can go out
+      let episodeAudioUrl = savedAudioUrl;
+      if (audioUploadRef.current) {
+        toast.loading('Waiting for audio upload to complete...', { id: publishToastId });
+        episodeAudioUrl = await audioUploadRef.current;
       }
-      console.log('========================');
-      
-      // If we don't have a Supabase session, show a clear error
-      if (!authData.session) {
-        toast.error('Not authenticated with Supabase. Please try logging out and back in.');
-        setUploadStatus('error');
-        setIsSubmitting(false);
-        return;
-      }
-      
-      // Validate form data
-      if (!formData.title.trim()) {
-        toast.error('Please add a title for your podcast');
-        setUploadStatus('idle');
+
+      if (formData.publishMode !== 'draft' && takes.length > 0 && (!episodeAudioUrl || editState?.needsRender)) {
+        toast.error('Render your latest edit in the studio before publishing', { id: publishToastId });
         return;
       }
-      
-      if (!selectedFile && !audioBlob) {
-        toast.error('Please record or upload an audio file');
-        setUploadStatus('idle');
+
+      if (formData.publishMode !== 'draft' && !episodeAudioUrl) {
+        toast.error('Please record or upload an audio file', { id: publishToastId });
         return;
       }
-      
-      // Create tracking object for full upload process
-      let publishTracker = {
-        audioUploadComplete: false,
-        audioUrl: '',
-        coverImageComplete: coverImage ? false : true, // True if no cover image selected
-        coverImageUrl: '',
-        metadataComplete: false,
-        podcast: null,
-        error: null
-      };
-      
-      // Show toast notification for long process
-      const publishToastId = toast.loading('Publishing your podcast...');
-
-      // Upload cover image if selected
-      let coverImageUploadPromise: Promise<string> = Promise.resolve('');
-      if (coverImage) {
-        console.log('Starting cover image upload...');
-        toast.loading('Uploading cover image...', { id: publishToastId });
-        
-        try {
-          coverImageUploadPromise = startFileUpload(
-            coverImage, 
-            'images',
-            (progress) => {
-              console.log(`Cover image upload progress: ${progress}%`);
-            },
-            userId // Pass userId for RLS policy compliance
-          ).then(url => {
-            console.log('Cover image upload complete:', url);
-            publishTracker.coverImageComplete = true;
-            publishTracker.coverImageUrl = url;
-            return url;
-          });
-        } catch (error) {
-          console.error('Error starting cover image upload:', error);
-          toast.error('Failed to upload cover image', { id: publishToastId });
-          publishTracker.error = 'Cover image upload failed';
-          throw new Error('Cover image upload failed: ' + error.message);
-        }
-      }
-      
-      // Upload audio file
-      let audioFileUrl = '';
-      const audioFile = selectedFile || new File([audioBlob!], `recording-${Date.now()}.webm`, { 
-        type: 'audio/webm' 
+
+      setUploadStatus('processing');
+      const id = await ensureDraft();
+      const episode = await saveDraft(id, {
+        title: formData.title.trim(),
+        description: formData.description.trim(),
+        isPublic: formData.isPublic,
+        coverImage: coverImageUrl,
+        ...(formData.publishMode === 'draft' ? {} : {
+          status: formData.publishMode === 'schedule' ? 'scheduled' as const : 'published' as const,
+          publishAt: formData.publishMode === 'schedule' ? new Date(formData.publishAt).toISOString() : null,
+        }),
       });
-      
-      const fileId = `${audioFile.name}_${audioFile.size}_${audioFile.lastModified}`;
-      
-      try {
-        // Check if the file is already uploaded in the background
-        if (isFileUploaded(fileId)) {
-          const cachedUrl = getUploadedFileUrl(fileId);
-          if (cachedUrl) {
-            console.log('Using cached audio file URL:', cachedUrl);
-            audioFileUrl = cachedUrl;
-            publishTracker.audioUploadComplete = true;
-            publishTracker.audioUrl = cachedUrl;
-            toast.loading('Using already uploaded audio...', { id: publishToastId });
-          } else {
-            // This should rarely happen - cached but no URL
-            throw new Error('Cached file URL not found');
-          }
-        } else if (isFileUploading(fileId)) {
-          // If file is currently uploading, wait for it to complete
-          console.log('File is currently uploading, waiting for completion...');
-          toast.loading('Waiting for audio upload to complete...', { id: publishToastId });
-          
-          // Wait for completion with timeout
-          const startTime = Date.now();
-          const MAX_WAIT_TIME = 5 * 60 * 1000; // 5 minutes
-          
-          while (isFileUploading(fileId)) {
-            // Check for timeout
-            if (Date.now() - startTime > MAX_WAIT_TIME) {
-              throw new Error('Upload wait timeout exceeded');
-            }
-            
-            // Wait and update progress
-            await new Promise(resolve => setTimeout(resolve, 500));
-            const progress = getUploadProgress(fileId);
-            setUploadProgress(progress);
-            
-            // Update toast with progress
-            toast.loading(`Audio upload: ${progress}%...`, { id: publishToastId });
-          }
-          
-          // Once complete, get the URL
-          const cachedUrl = getUploadedFileUrl(fileId);
-          if (cachedUrl) {
-            audioFileUrl = cachedUrl;
-            publishTracker.audioUploadComplete = true;
-            publishTracker.audioUrl = cachedUrl;
-            toast.loading('Audio upload complete!', { id: publishToastId });
-          } else {
-            // Something went wrong with the upload
-            throw new Error('Upload completed but no URL available');
-          }
-        } else {
-          // Start a new upload if not already uploading or uploaded
-          console.log('Starting audio file upload for publish...');
-          toast.loading('Uploading audio file...', { id: publishToastId });
-          
-          audioFileUrl = await uploadAudioFile(
-            audioFile,
-            'podcast-audio',
-            `podcast_${Date.now()}_${audioFile.name}`,
-            (progress) => {
-              setUploadProgress(progress);
-              console.log(`Audio upload progress: ${progress}%`);
-              toast.loading(`Audio upload: ${progress}%...`, { id: publishToastId });
-            },
-            userId // Pass userId for RLS policy compliance
-          );
-          
-          publishTracker.audioUploadComplete = true;
-          publishTracker.audioUrl = audioFileUrl;
-        }
-      } catch (error) {
-        console.error('Error uploading audio file:', error);
-        toast.error(`Audio upload failed: ${error.message}`, { id: publishToastId });
-        publishTracker.error = 'Audio upload failed';
-        throw error;
-      }
-      
-      // Wait for cover image upload if applicable
-      let coverImageUrl = '';
-      if (coverImage) {
-        try {
-          toast.loading('Finalizing cover image...', { id: publishToastId });
-          coverImageUrl = await coverImageUploadPromise;
-        } catch (error) {
-          console.error('Error with cover image upload:', error);
-          toast.error('Cover image upload failed, continuing with default', { id: publishToastId });
-          // We'll continue without the cover image rather than failing the whole process
-        }
-      }
-      
-      // All uploads are complete, create podcast in database
-      console.log('All uploads complete. Publishing podcast...');
-      toast.loading('Saving podcast to database...', { id: publishToastId });
-      
-      try {
-        const podcastData = {
-          userId: userId,
-          title: formData.title.trim(),
-          description: formData.description.trim() || '',
-          audioUrl: audioFileUrl,
-          coverImage: coverImageUrl || '',
-          isPublic: formData.isPublic,
-          user: {
-            id: userId,
-            name: user?.name || '',
-            image: user?.image || '',
-          },
-        };
-        
-        const newPodcast = await addPodcast(podcastData);
-        
-        publishTracker.metadataComplete = true;
-        publishTracker.podcast = newPodcast;
-        
-        console.log('Podcast published successfully:', newPodcast);
-        toast.success('Podcast published successfully!', { id: publishToastId });
-        
-        // Reset form after successful submission
-        setUploadStatus('complete');
-        
-        // Redirect to dashboard after short delay
-        setTimeout(() => {
-          router.push('/dashboard');
-        }, 1500);
-      } catch (error) {
-        console.error('Error saving podcast to database:', error);
-        toast.error(`Failed to save podcast: ${error.message}`, { id: publishToastId });
-        
-        // Special error handling for database errors
-        if (audioFileUrl) {
-          toast.error('Note: Your audio file was uploaded successfully and can be reused');
-        }
-        
-        publishTracker.error = 'Database save failed';
-        throw error;
-      }
+
+      toast.success(
+        episode.status === 'draft' ? 'Draft saved'
+          : episode.status === 'scheduled' ? 'Episode scheduled'
+          : 'Podcast published successfully!',
+        { id: publishToastId }
+      );
+      setUploadStatus('complete');
+
+      // Redirect to dashboard after short delay
+      setTimeout(() => {
+        router.push('/dashboard');
+      }, 1500);
     } catch (error) {
       console.error('Error in publish process:', error);
       setUploadStatus('error');
-      
-      // Provide detailed error message based on what stage failed
-      let errorMessage = 'Publication failed. Please try again.';
-      
-      if (error.message?.includes('upload')) {
-        errorMessage = `File upload error: ${error.message}`;
-      } else if (error.message?.includes('network') || error.message?.includes('internet')) {
-        errorMessage = 'Network error. Please check your internet connection and try again.';
-      } else if (error.message?.includes('timeout')) {
-        errorMessage = 'The operation timed out. Please try again with a better connection.';
-      } else if (error.message?.includes('database') || error.message?.includes('save')) {
-        errorMessage = 'Failed to save podcast details. Your files were uploaded successfully.';
-      } else if (error.message?.includes('security policy') || error.message?.includes('violates row-level')) {
-        errorMessage = 'Security policy violation. Please try logging out and back in again.';
-      }
-      
-      toast.error(errorMessage);
+      toast.error(error instanceof Error ? error.message : 'Publication failed. Please try again.', { id: publishToastId });
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const formatElapsed = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -564,7 +501,14 @@ const RecordPage = () => {
           </Link>
         </div>
         
-        <h1 className="text-3xl font-bold mb-6">Create New Podcast</h1>
+        <div className="mb-6 flex items-baseline justify-between">
+          <h1 className="text-3xl font-bold">{draftId ? 'Edit Draft' : 'Create New Podcast'}</h1>
+          <span className={`text-sm ${saveState === 'error' ? 'text-red-500' : 'text-gray-500'}`}>
+            {saveState === 'saving' && 'Saving draft...'}
+            {saveState === 'saved' && 'Draft saved'}
+            {saveState === 'error' && "Couldn't save draft"}
+          </span>
+        </div>
         
         {/* Upload status indicator */}
         {uploadStatus !== 'idle' && (
@@ -656,7 +600,6 @@ const RecordPage = () => {
                   onChange={handleInputChange}
                   placeholder="Podcast title"
                   className="w-full py-3 px-4 bg-transparent text-white placeholder-gray-500 focus:outline-none text-xl"
-                  required
                 />
               </div>
 
@@ -709,10 +652,10 @@ const RecordPage = () => {
                         onClick={() => coverImageInputRef.current?.click()}
                         className="bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-lg mr-2"
                       >
-                        {coverImage ? 'Change Image' : 'Upload Image'}
+                        {coverImagePreview ? 'Change Image' : 'Upload Image'}
                       </button>
                       
-                      {coverImage && (
+                      {coverImagePreview && (
                         <button
                           type="button"
                           onClick={handleRemoveCoverImage}
@@ -738,7 +681,7 @@ const RecordPage = () => {
                       type="radio"
                       name="isPublic"
                       checked={formData.isPublic}
-                      onChange={() => setFormData(prev => ({ ...prev, isPublic: true }))}
+                      onChange={() => setPrivacy(true)}
                       className="hidden"
                     />
                     <FaGlobe className={formData.isPublic ? 'text-primary-500' : 'text-gray-400'} />
@@ -753,7 +696,7 @@ const RecordPage = () => {
                       type="radio"
                       name="isPublic"
                       checked={!formData.isPublic}
-                      onChange={() => setFormData(prev => ({ ...prev, isPublic: false }))}
+                      onChange={() => setPrivacy(false)}
                       className="hidden"
                     />
                     <FaLock className={!formData.isPublic ? 'text-primary-500' : 'text-gray-400'} />
@@ -765,23 +708,78 @@ const RecordPage = () => {
                 </div>
               </div>
 
+              {/* Release settings */}
+              <div className="mb-6">
+                <label className="block text-white mb-2 font-medium">Release</label>
+                <div className="flex flex-wrap gap-4">
+                  {([
+                    { mode: 'now', icon: FaGlobe, title: 'Publish now', hint: 'Release right away' },
+                    { mode: 'schedule', icon: FaCalendarAlt, title: 'Schedule', hint: 'Release at a set time' },
+                    { mode: 'draft', icon: FaFileAlt, title: 'Save draft', hint: 'Keep working on it' },
+                  ] as const).map(({ mode, icon: Icon, title, hint }) => (
+                    <label
+                      key={mode}
+                      className={`flex items-center space-x-2 p-3 rounded-lg cursor-pointer ${formData.publishMode === mode ? 'bg-gray-700 border-2 border-primary-600' : 'bg-gray-800 border-2 border-transparent'}`}
+                    >
+                      <input
+                        type="radio"
+                        name="publishMode"
+                        checked={formData.publishMode === mode}
+                        onChange={() => setFormData(prev => ({ ...prev, publishMode: mode }))}
+                        className="hidden"
+                      />
+                      <Icon className={formData.publishMode === mode ? 'text-primary-500' : 'text-gray-400'} />
+                      <div>
+                        <p className="font-medium">{title}</p>
+                        <p className="text-gray-400 text-sm">{hint}</p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+                {formData.publishMode === 'schedule' && (
+                  <input
+                    type="datetime-local"
+                    value={formData.publishAt}
+                    onChange={e => setFormData(prev => ({ ...prev, publishAt: e.target.value }))}
+                    aria-label="Release time"
+                    className="mt-3 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white"
+                  />
+                )}
+              </div>
+
               {/* Audio capture section */}
               <div className="mb-6 bg-gray-800 rounded-lg p-4">
                 {recordingMode === 'record' ? (
                   <div className="flex flex-col items-center p-4">
-                    <div className="mb-4">
-                      <ClientAudioRecorder
-                        onRecordingComplete={handleRecordingComplete}
-                        audioTrackConstraints={{
-                          noiseSuppression: true,
-                          echoCancellation: true,
-                        }}
-                        showVisualizer={true}
-                      />
-                    </div>
+                    <button
+                      type="button"
+                      onClick={recorder.isRecording ? handleStopRecording : handleStartRecording}
+                      disabled={isLoadingDraft || uploadStatus === 'processing'}
+                      aria-label={recorder.isRecording ? 'Stop recording' : 'Start recording'}
+                      className={`mb-4 p-6 rounded-full text-white text-2xl disabled:opacity-50 ${
+                        recorder.isRecording ? 'bg-red-600 hover:bg-red-700 animate-pulse' : 'bg-primary-600 hover:bg-primary-700'
+                      }`}
+                    >
+                      {recorder.isRecording ? <FaStop /> : <FaMicrophone />}
+                    </button>
                     <p className="text-sm text-gray-400">
-                      Click the microphone to start recording
+                      {recorder.isRecording
+                        ? `Recording ${formatElapsed(recorder.elapsed)} · saving as you go`
+                        : takes.length > 0
+                          ? 'Click the microphone to record another take'
+                          : 'Click the microphone to start recording'}
                     </p>
+                    {!recorder.isRecording && (
+                      <button
+                        type="button"
+                        onClick={handleRecordWithGuests}
+                        disabled={isCreatingSession}
+                        className="mt-4 text-sm text-primary-400 hover:underline flex items-center disabled:opacity-50"
+                      >
+                        <FaUsers className="mr-2" />
+                        Record with remote guests
+                      </button>
+                    )}
                   </div>
                 ) : (
                   <div className="flex flex-col items-center p-4">
@@ -836,13 +834,30 @@ const RecordPage = () => {
                 )}
               </div>
 
+              {/* Takes are arranged and rendered into the episode's audio */}
+              {draftId && takes.length > 0 && (
+                <div className="mb-6">
+                  <EditStudio
+                    podcastId={draftId}
+                    takes={takes}
+                    onTakesChange={setTakes}
+                    onEditChange={setEditState}
+                    onRendered={url => {
+                      setSavedAudioUrl(url);
+                      setAudioUrl(url);
+                      setIsPlaying(false);
+                    }}
+                  />
+                </div>
+              )}
+
               {/* Submit button */}
               <div className="mt-8">
                 <button
                   type="submit"
-                  disabled={isSubmitting || (!audioBlob && !selectedFile) || !formData.title}
+                  disabled={isSubmitting || isLoadingDraft || recorder.isRecording}
                   className={`w-full rounded-lg py-3 px-4 font-medium flex items-center justify-center space-x-2 ${
-                    isSubmitting || (!audioBlob && !selectedFile) || !formData.title
+                    isSubmitting || isLoadingDraft || recorder.isRecording
                       ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
                       : 'bg-primary-600 text-white hover:bg-primary-700'
                   }`}
@@ -860,7 +875,11 @@ const RecordPage = () => {
                   ) : (
                     <>
                       <FaSave className="mr-2" />
-                      <span>Publish Podcast</span>
+                      <span>
+                        {formData.publishMode === 'draft' ? 'Save Draft'
+                          : formData.publishMode === 'schedule' ? 'Schedule Episode'
+                          : 'Publish Podcast'}
+                      </span>
                     </>
                   )}
                 </button>
@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Image from 'next/image';
+import { FaLock, FaPlay } from 'react-icons/fa';
+import { SharedPodcast, getSharedEpisode, playSharedEpisode } from '@/lib/storage';
+import { isWaveformData } from '@/lib/waveform';
+import LoadingSpinner from '@/app/components/LoadingSpinner';
+import PodcastPlayer from '@/app/components/PodcastPlayer';
+
+// Review page for a private episode shared with a link; works without signing in
+const SharedEpisodePage = () => {
+  const params = useParams();
+  const token = params.token as string;
+  const [podcast, setPodcast] = useState<SharedPodcast | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    getSharedEpisode(token)
+      .then(result => {
+        setPodcast(result.podcast);
+        setPasswordRequired(result.passwordRequired);
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  // Each start counts as one play of the link
+  const handleStart = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const result = await playSharedEpisode(token, passwordRequired ? password : undefined);
+      setPodcast(result.podcast);
+      setAudioUrl(result.audioUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load episode');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner fullPage text="Loading episode..." />;
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-10">
+      {podcast ? (
+        <div className="flex flex-col md:flex-row gap-6 mb-6">
+          <div className="w-40 h-40 relative rounded-lg overflow-hidden flex-shrink-0">
+            <Image
+              src={podcast.coverImage || 'https://placehold.co/300'}
+              alt={podcast.title}
+              fill
+              className="object-cover"
+            />
+          </div>
+          <div>
+            <p className="text-xs uppercase tracking-wide text-gray-400 mb-1">Shared privately by {podcast.user.name}</p>
+            <h1 className="text-2xl font-bold mb-2">{podcast.title}</h1>
+            {podcast.description && <p className="text-gray-400 text-sm">{podcast.description}</p>}
+          </div>
+        </div>
+      ) : (
+        !error && (
+          <h1 className="text-2xl font-bold mb-6 flex items-center">
+            <FaLock className="mr-2" />
+            Password protected episode
+          </h1>
+        )
+      )}
+
+      {error && <p className="text-red-500 mb-4">{error}</p>}
+
+      {podcast && audioUrl ? (
+        <PodcastPlayer
+          title={podcast.title}
+          artist={podcast.user.name}
+          coverImage={podcast.coverImage || 'https://placehold.co/300'}
+          audioUrl={audioUrl}
+          chapters={podcast.chapters}
+          waveform={isWaveformData(podcast.waveform) ? podcast.waveform : null}
+        />
+      ) : passwordRequired ? (
+        <form onSubmit={handleStart} className="flex gap-2 max-w-md">
+          <input
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            placeholder="Password"
+            autoFocus
+            className="flex-1 bg-gray-800 rounded px-3 py-2"
+          />
+          <button
+            type="submit"
+            disabled={isStarting || !password}
+            className="bg-primary-600 hover:bg-primary-700 rounded px-4 py-2 font-medium disabled:opacity-50"
+          >
+            {isStarting ? 'Checking...' : 'Listen'}
+          </button>
+        </form>
+      ) : podcast && (
+        <button
+          type="button"
+          onClick={() => handleStart()}
+          disabled={isStarting}
+          className="bg-primary-600 hover:bg-primary-700 rounded-full px-6 py-3 font-medium flex items-center disabled:opacity-50"
+        >
+          <FaPlay className="mr-2" />
+          {isStarting ? 'Loading...' : 'Listen'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SharedEpisodePage;
@@ -5,81 +5,13 @@ import { useSearchParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { FaSearch, FaPodcast, FaUser, FaHashtag, FaPlay } from 'react-icons/fa';
+import { search, SearchResults } from '@/lib/storage';
+import { SearchType } from '@/lib/search';
+import { formatTimestamp } from '@/lib/transcripts';
 
-// Mock search results
-const mockPodcasts = [
-  {
-    id: '1',
-    title: 'The Creative Mind',
-    description: 'Exploring creativity and innovation in various fields.',
-    coverImage: 'https://via.placeholder.com/300',
-    user: {
-      id: 'user1',
-      name: 'Alex Johnson',
-      image: 'https://via.placeholder.com/40',
-    },
-    listens: 1245,
-  },
-  {
-    id: '2',
-    title: 'Tech Today',
-    description: 'The latest news and trends in technology.',
-    coverImage: 'https://via.placeholder.com/300',
-    user: {
-      id: 'user2',
-      name: 'Jamie Smith',
-      image: 'https://via.placeholder.com/40',
-    },
-    listens: 876,
-  },
-  {
-    id: '3',
-    title: 'Mindful Living',
-    description: 'Practices for a more mindful and intentional life.',
-    coverImage: 'https://via.placeholder.com/300',
-    user: {
-      id: 'user4',
-      name: 'Taylor Green',
-      image: 'https://via.placeholder.com/40',
-    },
-    listens: 987,
-  },
-];
+type SearchFacets = Required<Omit<SearchResults, 'query'>>;
 
-const mockUsers = [
-  {
-    id: 'user1',
-    name: 'Alex Johnson',
-    image: 'https://via.placeholder.com/100',
-    bio: 'Podcast creator and audio storyteller.',
-    followers: 257,
-    podcastCount: 12,
-  },
-  {
-    id: 'user2',
-    name: 'Jamie Smith',
-    image: 'https://via.placeholder.com/100',
-    bio: 'Tech enthusiast and podcaster.',
-    followers: 189,
-    podcastCount: 8,
-  },
-  {
-    id: 'user3',
-    name: 'Morgan Lee',
-    image: 'https://via.placeholder.com/100',
-    bio: 'History buff and storyteller.',
-    followers: 321,
-    podcastCount: 15,
-  },
-];
-
-const mockTags = [
-  { id: 'tag1', name: 'Technology', podcastCount: 235 },
-  { id: 'tag2', name: 'Business', podcastCount: 189 },
-  { id: 'tag3', name: 'Health', podcastCount: 156 },
-  { id: 'tag4', name: 'Education', podcastCount: 142 },
-  { id: 'tag5', name: 'Entertainment', podcastCount: 213 },
-];
+const emptyFacet = { items: [], total: 0, page: 1, limit: 10, hasMore: false };
 
 const SearchPage = () => {
   const searchParams = useSearchParams();
@@ -89,16 +21,18 @@ const SearchPage = () => {
   const [query, setQuery] = useState(initialQuery);
   const [activeTab, setActiveTab] = useState<'podcasts' | 'users' | 'tags'>('podcasts');
   const [isSearching, setIsSearching] = useState(false);
-  const [results, setResults] = useState({
-    podcasts: [] as any[],
-    users: [] as any[],
-    tags: [] as any[],
+  const [results, setResults] = useState<SearchFacets>({
+    podcasts: emptyFacet,
+    users: emptyFacet,
+    tags: emptyFacet,
   });
   const [hasSearched, setHasSearched] = useState(false);
+  const [loadingMore, setLoadingMore] = useState<SearchType | null>(null);
 
   // Perform search when query parameter changes
   useEffect(() => {
     if (initialQuery) {
+      setQuery(initialQuery);
       performSearch(initialQuery);
     }
   }, [initialQuery]);
@@ -110,58 +44,78 @@ const SearchPage = () => {
     setHasSearched(true);
     
     try {
-      // In a real app, you would call your API with the search query
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Filter mock data based on search query
-      const filteredPodcasts = mockPodcasts.filter(podcast => 
-        podcast.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        podcast.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        podcast.user.name.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-      
-      const filteredUsers = mockUsers.filter(user => 
-        user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        user.bio.toLowerCase().includes(searchQuery.toLowerCase())
-      );
+      const data = await search(searchQuery);
+      const facets = {
+        podcasts: data.podcasts || emptyFacet,
+        users: data.users || emptyFacet,
+        tags: data.tags || emptyFacet,
+      };
       
-      const filteredTags = mockTags.filter(tag => 
-        tag.name.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-      
-      setResults({
-        podcasts: filteredPodcasts,
-        users: filteredUsers,
-        tags: filteredTags,
-      });
+      setResults(facets);
       
       // Update active tab to the one with results (prioritize podcasts)
-      if (filteredPodcasts.length > 0) {
+      if (facets.podcasts.total > 0) {
         setActiveTab('podcasts');
-      } else if (filteredUsers.length > 0) {
+      } else if (facets.users.total > 0) {
         setActiveTab('users');
-      } else if (filteredTags.length > 0) {
+      } else if (facets.tags.total > 0) {
         setActiveTab('tags');
       }
     } catch (error) {
       console.error('Search error:', error);
+      setResults({ podcasts: emptyFacet, users: emptyFacet, tags: emptyFacet });
     } finally {
       setIsSearching(false);
     }
   };
 
+  // Fetch the next page of a single facet and append it
+  const loadMore = async (type: SearchType) => {
+    const facet = results[type];
+    setLoadingMore(type);
+    
+    try {
+      const data = await search(initialQuery, { type, page: facet.page + 1, limit: facet.limit });
+      const next = data[type];
+      if (next) {
+        setResults(prev => ({
+          ...prev,
+          [type]: { ...next, items: [...prev[type].items, ...next.items] },
+        }));
+      }
+    } catch (error) {
+      console.error('Search error:', error);
+    } finally {
+      setLoadingMore(null);
+    }
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!query.trim()) return;
     
-    // Update URL with search query
-    router.push(`/search?q=${encodeURIComponent(query)}`);
-    performSearch(query);
+    // Update URL with search query; the effect above runs the search
+    if (query.trim() === initialQuery) {
+      performSearch(query);
+    } else {
+      router.push(`/search?q=${encodeURIComponent(query.trim())}`);
+    }
   };
 
-  const totalResults = results.podcasts.length + results.users.length + results.tags.length;
+  const totalResults = results.podcasts.total + results.users.total + results.tags.total;
+
+  const renderLoadMore = (type: SearchType) => results[type].hasMore && (
+    <div className="p-4 text-center">
+      <button
+        onClick={() => loadMore(type)}
+        className="text-primary-600 hover:text-primary-800 dark:hover:text-primary-400 font-medium"
+        disabled={loadingMore === type}
+      >
+        {loadingMore === type ? 'Loading...' : 'Load more'}
+      </button>
+    </div>
+  );
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -222,10 +176,10 @@ const SearchPage = () => {
                       ? 'border-primary-500 text-primary-600'
                       : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
                   }`}
-                  disabled={results.podcasts.length === 0}
+                  disabled={results.podcasts.total === 0}
                 >
                   <FaPodcast className="mr-2" />
-                  Podcasts ({results.podcasts.length})
+                  Podcasts ({results.podcasts.total})
                 </button>
                 <button
                   onClick={() => setActiveTab('users')}
@@ -234,10 +188,10 @@ const SearchPage = () => {
                       ? 'border-primary-500 text-primary-600'
                       : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
                   }`}
-                  disabled={results.users.length === 0}
+                  disabled={results.users.total === 0}
                 >
                   <FaUser className="mr-2" />
-                  Users ({results.users.length})
+                  Users ({results.users.total})
                 </button>
                 <button
                   onClick={() => setActiveTab('tags')}
@@ -246,10 +200,10 @@ const SearchPage = () => {
                       ? 'border-primary-500 text-primary-600'
                       : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
                   }`}
-                  disabled={results.tags.length === 0}
+                  disabled={results.tags.total === 0}
                 >
                   <FaHashtag className="mr-2" />
-                  Topics ({results.tags.length})
+                  Topics ({results.tags.total})
                 </button>
               </nav>
             </div>
@@ -258,16 +212,18 @@ const SearchPage = () => {
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
               {activeTab === 'podcasts' && (
                 <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {results.podcasts.map((podcast) => (
+                  {results.podcasts.items.map((podcast) => (
                     <Link
                       key={podcast.id}
-                      href={`/podcasts/${podcast.id}`}
+                      href={podcast.moment
+                        ? `/podcasts/${podcast.id}?t=${Math.floor(podcast.moment.startTime)}`
+                        : `/podcasts/${podcast.id}`}
                       className="block hover:bg-gray-50 dark:hover:bg-gray-900 transition-colors"
                     >
                       <div className="p-4 flex">
                         <div className="flex-shrink-0 w-16 h-16 mr-4 relative">
                           <Image
-                            src={podcast.coverImage}
+                            src={podcast.coverImage || 'https://placehold.co/300'}
                             alt={podcast.title}
                             layout="fill"
                             objectFit="cover"
@@ -280,23 +236,32 @@ const SearchPage = () => {
                         <div>
                           <h3 className="text-lg font-semibold mb-1">{podcast.title}</h3>
                           <p className="text-gray-600 dark:text-gray-400 text-sm mb-1">
-                            by {podcast.user.name} • {podcast.listens} listens
+                            by {podcast.user.name} • {podcast.listens || 0} listens
                           </p>
                           <p className="text-gray-500 dark:text-gray-500 text-sm">
-                            {podcast.description.length > 100
+                            {podcast.description && podcast.description.length > 100
                               ? `${podcast.description.substring(0, 100)}...`
                               : podcast.description}
                           </p>
+                          {podcast.moment && (
+                            <p className="text-sm mt-1 text-gray-600 dark:text-gray-300">
+                              <span className="text-primary-600 font-medium mr-2">
+                                {formatTimestamp(podcast.moment.startTime)}
+                              </span>
+                              &ldquo;{podcast.moment.text}&rdquo;
+                            </p>
+                          )}
                         </div>
                       </div>
                     </Link>
                   ))}
+                  {renderLoadMore('podcasts')}
                 </div>
               )}
               
               {activeTab === 'users' && (
                 <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {results.users.map((user) => (
+                  {results.users.items.map((user) => (
                     <Link
                       key={user.id}
                       href={`/profile/${user.id}`}
@@ -306,7 +271,7 @@ const SearchPage = () => {
                         <div className="flex-shrink-0 mr-4">
                           <div className="relative h-12 w-12 rounded-full overflow-hidden">
                             <Image
-                              src={user.image}
+                              src={user.image || 'https://placehold.co/100'}
                               alt={user.name}
                               layout="fill"
                               objectFit="cover"
@@ -318,19 +283,17 @@ const SearchPage = () => {
                           <p className="text-gray-600 dark:text-gray-400 text-sm">
                             {user.followers} followers • {user.podcastCount} podcasts
                           </p>
-                          <p className="text-gray-500 dark:text-gray-500 text-sm">
-                            {user.bio}
-                          </p>
                         </div>
                       </div>
                     </Link>
                   ))}
+                  {renderLoadMore('users')}
                 </div>
               )}
               
               {activeTab === 'tags' && (
                 <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {results.tags.map((tag) => (
+                  {results.tags.items.map((tag) => (
                     <Link
                       key={tag.id}
                       href={`/explore?tag=${encodeURIComponent(tag.name)}`}
@@ -349,6 +312,7 @@ const SearchPage = () => {
                       </div>
                     </Link>
                   ))}
+                  {renderLoadMore('tags')}
                 </div>
               )}
             </div>
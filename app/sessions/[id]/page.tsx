@@ -0,0 +1,299 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Image from 'next/image';
+import toast from 'react-hot-toast';
+import { FaCircle, FaCopy, FaMicrophone, FaMicrophoneSlash, FaStop, FaCheck, FaLayerGroup } from 'react-icons/fa';
+import { useSupabaseAuth } from '../../providers/SupabaseAuthProvider';
+import { useRecordingSession } from '@/app/hooks/useRecordingSession';
+import { useSessionCall } from '@/app/hooks/useSessionCall';
+import { useStreamingRecorder } from '@/app/hooks/useStreamingRecorder';
+import { decodeAudio } from '@/app/components/EditStudio';
+import { mixdownRecordingSession, setSessionRecording, submitSessionTrack } from '@/lib/storage';
+import { getTrackOffset } from '@/lib/recordingSessions';
+import LoadingSpinner from '@/app/components/LoadingSpinner';
+
+// Plays one participant's side of the call
+const RemoteAudio = ({ stream }: { stream: MediaStream }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.srcObject = stream;
+  }, [stream]);
+
+  return <audio ref={audioRef} autoPlay />;
+};
+
+const formatElapsed = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// A remote recording session: participants talk over a live call while each browser
+// records its own microphone, and the host mixes the tracks into a draft afterwards
+const RecordingSessionPage = () => {
+  const params = useParams();
+  const sessionId = params.id as string;
+  const router = useRouter();
+  const { user, isLoading } = useSupabaseAuth();
+  const { session, error, isConnected, subscribe, getClockOffset } = useRecordingSession(sessionId);
+  const recorder = useStreamingRecorder();
+  const [trackStatus, setTrackStatus] = useState<'idle' | 'waiting' | 'recording' | 'uploading' | 'uploaded' | 'error'>('idle');
+  const [isUpdating, setIsUpdating] = useState(false);
+  const startTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push(`/login?redirect=${encodeURIComponent(`/sessions/${sessionId}`)}`);
+    }
+  }, [user, isLoading, router, sessionId]);
+
+  const peerIds = session
+    ? session.participants
+      .filter(participant => participant.isOnline && participant.id !== session.participantId)
+      .map(participant => participant.id)
+    : [];
+
+  const { remoteStreams, isMuted, toggleMute, isInCall } = useSessionCall({
+    sessionId,
+    participantId: session?.participantId ?? null,
+    peerIds,
+    subscribe,
+  });
+
+  // Everyone starts recording at the session's startAt, measured on the server's clock
+  const status = session?.status;
+  const startAt = session?.startAt;
+  useEffect(() => {
+    if (status !== 'recording' || !startAt || trackStatus !== 'idle') return;
+
+    const delay = new Date(startAt).getTime() - (Date.now() + getClockOffset());
+    setTrackStatus('waiting');
+    startTimerRef.current = setTimeout(() => {
+      recorder.start()
+        .then(() => setTrackStatus('recording'))
+        .catch(err => {
+          console.error('Error starting session recording:', err);
+          setTrackStatus('error');
+          toast.error('Could not start recording. Check your microphone permissions.');
+        });
+    }, Math.max(0, delay));
+  }, [status, startAt, trackStatus]);
+
+  useEffect(() => () => {
+    if (startTimerRef.current) clearTimeout(startTimerRef.current);
+  }, []);
+
+  // When the host stops, upload this participant's track with how late it started
+  useEffect(() => {
+    if (status !== 'stopped' || trackStatus !== 'recording' || !startAt) return;
+
+    const elapsed = recorder.elapsed;
+    setTrackStatus('uploading');
+
+    (async () => {
+      try {
+        const { blob, url, startedAt } = await recorder.stop();
+        const duration = await decodeAudio(blob)
+          .then(buffer => buffer.duration)
+          .catch(() => elapsed);
+        await submitSessionTrack(sessionId, {
+          url,
+          offset: getTrackOffset(startedAt, getClockOffset(), startAt),
+          duration,
+        });
+        setTrackStatus('uploaded');
+      } catch (err) {
+        console.error('Error uploading session track:', err);
+        setTrackStatus('error');
+        toast.error('Failed to upload your recording');
+      }
+    })();
+  }, [status, trackStatus, startAt]);
+
+  const isHost = Boolean(session?.participants.some(
+    participant => participant.id === session.participantId && participant.role === 'host'
+  ));
+
+  const handleCopyInvite = async () => {
+    if (!session?.invitePath) return;
+    await navigator.clipboard.writeText(`${window.location.origin}${session.invitePath}`);
+    toast.success('Invite link copied');
+  };
+
+  const handleRecording = async (action: 'start' | 'stop') => {
+    setIsUpdating(true);
+    try {
+      await setSessionRecording(sessionId, action);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : `Failed to ${action} recording`);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleMixdown = async () => {
+    setIsUpdating(true);
+    try {
+      const { podcastId } = await mixdownRecordingSession(sessionId);
+      toast.success('Mixing the tracks into your draft');
+      router.push(`/record?draft=${podcastId}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to mix recording session');
+      setIsUpdating(false);
+    }
+  };
+
+  if (isLoading || (!session && !error)) {
+    return <LoadingSpinner fullPage text="Joining session..." />;
+  }
+
+  if (!session) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-10">
+        <div className="bg-red-900/30 border border-red-700 text-red-200 rounded-lg p-4">{error}</div>
+      </div>
+    );
+  }
+
+  const tracksUploaded = session.participants.filter(participant => participant.hasTrack).length;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-10">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">{session.title}</h1>
+          <p className="text-sm text-gray-400 flex items-center mt-1">
+            <FaCircle className={`mr-2 text-xs ${isConnected ? 'text-green-500' : 'text-gray-500'}`} />
+            {isConnected ? 'Connected' : 'Reconnecting...'}
+          </p>
+        </div>
+        {session.status === 'recording' && (
+          <span className="flex items-center text-red-400 font-medium">
+            <FaCircle className="mr-2 animate-pulse" />
+            Recording {formatElapsed(recorder.elapsed)}
+          </span>
+        )}
+      </div>
+
+      <div className="bg-gray-900 rounded-lg p-4 mb-6">
+        <h2 className="text-lg font-semibold mb-3">Participants</h2>
+        <ul className="space-y-3">
+          {session.participants.map(participant => (
+            <li key={participant.id} className="flex items-center justify-between">
+              <div className="flex items-center">
+                <div className="w-8 h-8 relative rounded-full overflow-hidden mr-3">
+                  <Image
+                    src={participant.user.image || 'https://placehold.co/64'}
+                    alt={participant.user.name || 'Participant'}
+                    fill
+                    className="object-cover"
+                  />
+                </div>
+                <span>
+                  {participant.user.name || 'Guest'}
+                  {participant.id === session.participantId && ' (you)'}
+                </span>
+                {participant.role === 'host' && (
+                  <span className="ml-2 text-xs uppercase tracking-wide text-gray-400">Host</span>
+                )}
+              </div>
+              <div className="flex items-center text-sm text-gray-400 gap-3">
+                {participant.hasTrack && (
+                  <span className="flex items-center text-green-400">
+                    <FaCheck className="mr-1" />
+                    Track uploaded
+                  </span>
+                )}
+                <span className="flex items-center">
+                  <FaCircle className={`mr-1 text-xs ${participant.isOnline ? 'text-green-500' : 'text-gray-600'}`} />
+                  {participant.isOnline ? 'Online' : 'Offline'}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+        {Object.keys(remoteStreams).map(peerId => (
+          <RemoteAudio key={peerId} stream={remoteStreams[peerId]} />
+        ))}
+      </div>
+
+      <div className="bg-gray-900 rounded-lg p-4 mb-6 flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={toggleMute}
+          disabled={!isInCall}
+          className="flex items-center px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 disabled:opacity-50"
+        >
+          {isMuted ? <FaMicrophoneSlash className="mr-2" /> : <FaMicrophone className="mr-2" />}
+          {isMuted ? 'Unmute call' : 'Mute call'}
+        </button>
+
+        {isHost && session.status === 'waiting' && (
+          <>
+            <button
+              type="button"
+              onClick={handleCopyInvite}
+              className="flex items-center px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-700"
+            >
+              <FaCopy className="mr-2" />
+              Copy invite link
+            </button>
+            <button
+              type="button"
+              onClick={() => handleRecording('start')}
+              disabled={isUpdating}
+              className="flex items-center px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 disabled:opacity-50"
+            >
+              <FaCircle className="mr-2" />
+              Start recording
+            </button>
+          </>
+        )}
+
+        {isHost && session.status === 'recording' && (
+          <button
+            type="button"
+            onClick={() => handleRecording('stop')}
+            disabled={isUpdating}
+            className="flex items-center px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 disabled:opacity-50"
+          >
+            <FaStop className="mr-2" />
+            Stop recording
+          </button>
+        )}
+
+        {isHost && session.status === 'stopped' && (
+          <button
+            type="button"
+            onClick={handleMixdown}
+            disabled={isUpdating || tracksUploaded === 0}
+            className="flex items-center px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+          >
+            <FaLayerGroup className="mr-2" />
+            Mix into draft ({tracksUploaded}/{session.participants.length} tracks)
+          </button>
+        )}
+
+        {isHost && session.podcastId && (
+          <Link href={`/record?draft=${session.podcastId}`} className="text-primary-400 hover:underline">
+            Open draft
+          </Link>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-400">
+        {trackStatus === 'idle' && session.status === 'waiting' && (isHost
+          ? 'Invite your guests, then start recording when everyone is here. Each of you is recorded in full quality on your own device.'
+          : 'Waiting for the host to start recording. Keep this page open.')}
+        {trackStatus === 'waiting' && 'Recording starts in a moment...'}
+        {trackStatus === 'recording' && 'Your microphone is being recorded and uploaded as you go.'}
+        {trackStatus === 'uploading' && 'Uploading your recording...'}
+        {trackStatus === 'uploaded' && 'Your recording is uploaded. Thanks!'}
+        {trackStatus === 'error' && 'Something went wrong with your recording.'}
+      </p>
+    </div>
+  );
+};
+
+export default RecordingSessionPage;
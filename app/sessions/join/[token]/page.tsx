@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { FaMicrophone } from 'react-icons/fa';
+import { useSupabaseAuth } from '../../../providers/SupabaseAuthProvider';
+import { getSessionInvite, joinRecordingSession } from '@/lib/storage';
+import LoadingSpinner from '@/app/components/LoadingSpinner';
+
+type SessionInvite = Awaited<ReturnType<typeof getSessionInvite>>;
+
+// Landing page for a recording session invite link
+const JoinSessionPage = () => {
+  const params = useParams();
+  const token = params.token as string;
+  const router = useRouter();
+  const { user, isLoading } = useSupabaseAuth();
+  const [invite, setInvite] = useState<SessionInvite | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    getSessionInvite(token)
+      .then(result => {
+        // Participants go straight back to the session
+        if (result.isParticipant) {
+          router.replace(`/sessions/${result.id}`);
+          return;
+        }
+        setInvite(result);
+      })
+      .catch(err => setError(err.message));
+  }, [token, router, user]);
+
+  const handleJoin = async () => {
+    setIsJoining(true);
+    setError(null);
+
+    try {
+      const { id } = await joinRecordingSession(token);
+      router.push(`/sessions/${id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join recording session');
+      setIsJoining(false);
+    }
+  };
+
+  if (isLoading || (!invite && !error)) {
+    return <LoadingSpinner fullPage text="Loading invite..." />;
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16 text-center">
+      {invite && (
+        <>
+          <FaMicrophone className="mx-auto text-4xl text-primary-500 mb-4" />
+          <p className="text-sm text-gray-400 mb-1">{invite.host.name || 'Someone'} invited you to record</p>
+          <h1 className="text-2xl font-bold mb-6">{invite.title}</h1>
+        </>
+      )}
+
+      {error && (
+        <div className="bg-red-900/30 border border-red-700 text-red-200 rounded-lg p-4 mb-6">{error}</div>
+      )}
+
+      {invite && invite.status !== 'waiting' && (
+        <p className="text-gray-400">This session has already started recording.</p>
+      )}
+
+      {invite && invite.status === 'waiting' && (user ? (
+        <button
+          type="button"
+          onClick={handleJoin}
+          disabled={isJoining}
+          className="px-6 py-3 rounded-lg bg-primary-600 hover:bg-primary-700 disabled:opacity-50 font-medium"
+        >
+          {isJoining ? 'Joining...' : 'Join session'}
+        </button>
+      ) : (
+        <Link
+          href={`/login?redirect=${encodeURIComponent(`/sessions/join/${token}`)}`}
+          className="inline-block px-6 py-3 rounded-lg bg-primary-600 hover:bg-primary-700 font-medium"
+        >
+          Sign in to join
+        </Link>
+      ))}
+    </div>
+  );
+};
+
+export default JoinSessionPage;
@@ -0,0 +1,63 @@
+import { buildAnalyticsSeries, buildRetentionCurve, parseAnalyticsRange, sumAnalyticsSeries, truncateDate } from './analytics';
+
+describe('analytics', () => {
+  it('defaults to the last 30 days bucketed by day', () => {
+    const { range, error } = parseAnalyticsRange(new URLSearchParams(), new Date('2025-03-20T15:30:00Z'));
+
+    expect(error).toBeUndefined();
+    expect(range?.interval).toBe('day');
+    expect(range?.to.toISOString()).toBe('2025-03-21T00:00:00.000Z');
+    expect(range?.from.toISOString()).toBe('2025-02-19T00:00:00.000Z');
+  });
+
+  it('rejects invalid ranges and intervals', () => {
+    expect(parseAnalyticsRange(new URLSearchParams('interval=hour')).error).toMatch('interval must be one of');
+    expect(parseAnalyticsRange(new URLSearchParams('from=2025-03-10&to=2025-03-01')).error).toMatch('on or before');
+    expect(parseAnalyticsRange(new URLSearchParams('from=2020-01-01&to=2025-01-01')).error).toMatch('at most');
+    expect(parseAnalyticsRange(new URLSearchParams('from=nope')).error).toMatch('valid date');
+  });
+
+  it('truncates weeks to Monday and months to the first', () => {
+    const sunday = new Date('2025-03-16T12:00:00Z');
+
+    expect(truncateDate(sunday, 'week').toISOString()).toBe('2025-03-10T00:00:00.000Z');
+    expect(truncateDate(sunday, 'month').toISOString()).toBe('2025-03-01T00:00:00.000Z');
+  });
+
+  it('zero-fills missing buckets and keeps a running follower total', () => {
+    const { range } = parseAnalyticsRange(new URLSearchParams('from=2025-03-01&to=2025-03-03'));
+
+    const series = buildAnalyticsSeries(range!, {
+      plays: [{ bucket: new Date('2025-03-01T00:00:00Z'), count: 4 }],
+      likes: [{ bucket: '2025-03-03T00:00:00.000Z', count: 2 }],
+      followers: [
+        { bucket: new Date('2025-03-02T00:00:00Z'), count: 3 },
+        { bucket: new Date('2025-03-03T00:00:00Z'), count: 1 },
+      ],
+    }, 10);
+
+    expect(series.map(point => point.date)).toEqual(['2025-03-01', '2025-03-02', '2025-03-03']);
+    expect(series.map(point => point.plays)).toEqual([4, 0, 0]);
+    expect(series.map(point => point.likes)).toEqual([0, 0, 2]);
+    expect(series.map(point => point.totalFollowers)).toEqual([10, 13, 14]);
+    expect(sumAnalyticsSeries(series, 3)).toEqual({
+      plays: 4,
+      uniqueListeners: 3,
+      likes: 2,
+      comments: 0,
+      followers: 4,
+    });
+  });
+
+  it('builds a retention curve as a share of starters per segment', () => {
+    const curve = buildRetentionCurve(200, 8, [8, 6, 3, 0]);
+
+    expect(curve).toEqual([
+      { percent: 0, position: 0, listeners: 8, retention: 100 },
+      { percent: 25, position: 50, listeners: 6, retention: 75 },
+      { percent: 50, position: 100, listeners: 3, retention: 37.5 },
+      { percent: 75, position: 150, listeners: 0, retention: 0 },
+    ]);
+    expect(buildRetentionCurve(200, 0, [0, 0])[0].retention).toBe(0);
+  });
+});
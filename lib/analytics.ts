@@ -0,0 +1,202 @@
+/**
+ * Creator analytics helpers
+ * Parses the requested date range and turns the sparse per-bucket counts returned by
+ * the database into continuous, zero-filled time series for charting.
+ * Buckets are computed in UTC to match Postgres date_trunc on the stored timestamps.
+ */
+
+export const ANALYTICS_INTERVALS = ['day', 'week', 'month'] as const;
+
+export type AnalyticsInterval = typeof ANALYTICS_INTERVALS[number];
+
+export const ANALYTICS_METRICS = ['plays', 'uniqueListeners', 'likes', 'comments', 'followers'] as const;
+
+export type AnalyticsMetric = typeof ANALYTICS_METRICS[number];
+
+export const ANALYTICS_SETTINGS = {
+  DEFAULT_RANGE_DAYS: 30,
+  MAX_RANGE_DAYS: 366,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date; // Exclusive
+  interval: AnalyticsInterval;
+}
+
+export interface AnalyticsPoint {
+  date: string; // YYYY-MM-DD of the bucket start
+  plays: number;
+  uniqueListeners: number;
+  likes: number;
+  comments: number;
+  followers: number; // New followers in the bucket
+  totalFollowers: number; // Running follower total at the end of the bucket
+}
+
+export interface AnalyticsBucketCount {
+  bucket: Date | string;
+  count: number;
+}
+
+const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Truncate a date to the start of its bucket (weeks start on Monday, like Postgres)
+ */
+export const truncateDate = (date: Date, interval: AnalyticsInterval): Date => {
+  const day = startOfUtcDay(date);
+
+  if (interval === 'week') {
+    const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+    return new Date(day.getTime() - daysSinceMonday * DAY_MS);
+  }
+
+  if (interval === 'month') {
+    return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  }
+
+  return day;
+};
+
+const nextBucket = (date: Date, interval: AnalyticsInterval): Date => {
+  if (interval === 'month') {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+  }
+
+  return new Date(date.getTime() + (interval === 'week' ? 7 : 1) * DAY_MS);
+};
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Parse `from`, `to` (YYYY-MM-DD, inclusive) and `interval` query parameters.
+ * Defaults to the last DEFAULT_RANGE_DAYS days, bucketed by day.
+ */
+export const parseAnalyticsRange = (
+  searchParams: URLSearchParams,
+  now: Date = new Date()
+): { range?: AnalyticsRange; error?: string } => {
+  const interval = (searchParams.get('interval') || 'day') as AnalyticsInterval;
+  if (!ANALYTICS_INTERVALS.includes(interval)) {
+    return { error: `interval must be one of: ${ANALYTICS_INTERVALS.join(', ')}` };
+  }
+
+  const toParam = searchParams.get('to');
+  const fromParam = searchParams.get('from');
+
+  const lastDay = toParam ? new Date(toParam) : now;
+  if (isNaN(lastDay.getTime())) {
+    return { error: 'to must be a valid date' };
+  }
+  const to = new Date(startOfUtcDay(lastDay).getTime() + DAY_MS);
+
+  const from = fromParam
+    ? startOfUtcDay(new Date(fromParam))
+    : new Date(to.getTime() - ANALYTICS_SETTINGS.DEFAULT_RANGE_DAYS * DAY_MS);
+  if (isNaN(from.getTime())) {
+    return { error: 'from must be a valid date' };
+  }
+
+  if (from >= to) {
+    return { error: 'from must be on or before to' };
+  }
+
+  if (to.getTime() - from.getTime() > ANALYTICS_SETTINGS.MAX_RANGE_DAYS * DAY_MS) {
+    return { error: `Date range may span at most ${ANALYTICS_SETTINGS.MAX_RANGE_DAYS} days` };
+  }
+
+  return { range: { from, to, interval } };
+};
+
+/**
+ * Build a zero-filled series covering every bucket in the range.
+ * `followerBaseline` is the follower count before the range starts.
+ */
+export const buildAnalyticsSeries = (
+  range: AnalyticsRange,
+  counts: Partial<Record<AnalyticsMetric, AnalyticsBucketCount[]>>,
+  followerBaseline = 0
+): AnalyticsPoint[] => {
+  const points: AnalyticsPoint[] = [];
+  const indexByKey: Record<string, number> = {};
+
+  for (
+    let bucket = truncateDate(range.from, range.interval);
+    bucket < range.to;
+    bucket = nextBucket(bucket, range.interval)
+  ) {
+    indexByKey[toDateKey(bucket)] = points.length;
+    points.push({
+      date: toDateKey(bucket),
+      plays: 0,
+      uniqueListeners: 0,
+      likes: 0,
+      comments: 0,
+      followers: 0,
+      totalFollowers: 0,
+    });
+  }
+
+  ANALYTICS_METRICS.forEach(metric => {
+    (counts[metric] || []).forEach(row => {
+      const key = toDateKey(truncateDate(new Date(row.bucket), range.interval));
+      const index = indexByKey[key];
+      if (index !== undefined) {
+        points[index][metric] += Number(row.count);
+      }
+    });
+  });
+
+  let runningFollowers = followerBaseline;
+  points.forEach(point => {
+    runningFollowers += point.followers;
+    point.totalFollowers = runningFollowers;
+  });
+
+  return points;
+};
+
+/**
+ * Sum a series into range totals. Unique listeners are not additive across buckets,
+ * so callers pass the distinct count for the whole range separately.
+ */
+export const sumAnalyticsSeries = (
+  series: AnalyticsPoint[],
+  uniqueListeners: number
+): Record<AnalyticsMetric, number> => ({
+  plays: series.reduce((sum, point) => sum + point.plays, 0),
+  uniqueListeners,
+  likes: series.reduce((sum, point) => sum + point.likes, 0),
+  comments: series.reduce((sum, point) => sum + point.comments, 0),
+  followers: series.reduce((sum, point) => sum + point.followers, 0),
+});
+
+export interface RetentionPoint {
+  percent: number; // Start of the segment, as a percentage of the duration
+  position: number; // Start of the segment, in seconds
+  listeners: number;
+  retention: number; // Percentage of starters who listened to this segment
+}
+
+/**
+ * Turn per-segment listener counts into a retention curve over the episode.
+ * `segmentCounts[i]` is the number of sessions that listened to segment i.
+ */
+export const buildRetentionCurve = (
+  duration: number,
+  starters: number,
+  segmentCounts: number[]
+): RetentionPoint[] => {
+  const segments = segmentCounts.length;
+
+  return segmentCounts.map((listeners, index) => ({
+    percent: Math.round((index / segments) * 100),
+    position: Math.floor((index / segments) * duration),
+    listeners,
+    retention: starters > 0 ? Math.round((listeners / starters) * 1000) / 10 : 0,
+  }));
+};
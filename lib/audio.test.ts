@@ -0,0 +1,77 @@
+import {
+  buildLoudnormFilter,
+  buildTranscodeArgs,
+  getPlaybackAudioUrl,
+  parseLoudnessOutput,
+  parseProbeOutput,
+} from './audio';
+
+describe('audio', () => {
+  const measured = { integrated: -23.4, truePeak: -4.1, range: 6.2, threshold: -33.9, offset: 0.3 };
+
+  it('reads duration, bitrate and codec from ffprobe output', () => {
+    expect(parseProbeOutput({
+      streams: [
+        { codec_type: 'video', codec_name: 'mjpeg' },
+        { codec_type: 'audio', codec_name: 'mp3', duration: '1834.52', bit_rate: '192000', sample_rate: '44100', channels: 2 },
+      ],
+      format: { duration: '1834.60', bit_rate: '193000' },
+    })).toEqual({ duration: 1835, bitrate: 192, codec: 'mp3', sampleRate: 44100, channels: 2 });
+  });
+
+  it('falls back to container values for browser recordings', () => {
+    const probe = parseProbeOutput({
+      streams: [{ codec_type: 'audio', codec_name: 'opus', sample_rate: '48000', channels: 1 }],
+      format: { duration: '62.4', bit_rate: '64512' },
+    });
+
+    expect(probe.duration).toBe(62);
+    expect(probe.bitrate).toBe(65);
+    expect(probe.codec).toBe('opus');
+  });
+
+  it('rejects files without audio', () => {
+    expect(() => parseProbeOutput({ streams: [{ codec_type: 'video' }] })).toThrow('File has no audio stream');
+  });
+
+  it('parses loudnorm measurements from ffmpeg stderr', () => {
+    const stderr = [
+      'size=N/A time=00:30:34.52 bitrate=N/A speed= 512x',
+      '[Parsed_loudnorm_0 @ 0x5581] ',
+      '{',
+      '\t"input_i" : "-23.40",',
+      '\t"input_tp" : "-4.10",',
+      '\t"input_lra" : "6.20",',
+      '\t"input_thresh" : "-33.90",',
+      '\t"output_i" : "-16.02",',
+      '\t"target_offset" : "0.30"',
+      '}',
+    ].join('\n');
+
+    expect(parseLoudnessOutput(stderr)).toEqual(measured);
+  });
+
+  it('rejects silent input', () => {
+    const stderr = '{ "input_i" : "-inf", "input_tp" : "-inf", "input_lra" : "0.00", "input_thresh" : "-70.00", "target_offset" : "inf" }';
+    expect(() => parseLoudnessOutput(stderr)).toThrow('Audio is silent or too short to normalize');
+    expect(() => parseLoudnessOutput('no stats')).toThrow('ffmpeg did not report loudness measurements');
+  });
+
+  it('normalizes once and writes every rendition', () => {
+    expect(buildLoudnormFilter(measured)).toBe(
+      'loudnorm=I=-16:TP=-1.5:LRA=11:measured_I=-23.4:measured_TP=-4.1:measured_LRA=6.2:measured_thresh=-33.9:offset=0.3:linear=true'
+    );
+
+    const args = buildTranscodeArgs('/tmp/source', measured, { mp3: '/tmp/out.mp3', aac: '/tmp/out.m4a' });
+
+    expect(args[args.indexOf('-filter_complex') + 1]).toMatch(/,asplit=2\[mp3\]\[aac\]$/);
+    expect(args.filter(arg => arg === '-map')).toHaveLength(2);
+    expect(args).toContain('libmp3lame');
+    expect(args[args.length - 1]).toBe('/tmp/out.m4a');
+  });
+
+  it('plays the MP3 rendition once processed', () => {
+    expect(getPlaybackAudioUrl({ audioUrl: 'https://cdn/raw.webm' })).toBe('https://cdn/raw.webm');
+    expect(getPlaybackAudioUrl({ audioUrl: 'https://cdn/raw.webm', audioMp3Url: 'https://cdn/ep.mp3' })).toBe('https://cdn/ep.mp3');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Audio processing helpers
+ * Builds ffmpeg/ffprobe arguments and parses their output for the server-side processing
+ * stage (lib/audioProcessing.ts): probe the uploaded file, measure its loudness, then
+ * normalize it to -16 LUFS (two-pass loudnorm) while transcoding to MP3 and AAC.
+ */
+
+export const AUDIO_SETTINGS = {
+  TARGET_LOUDNESS: -16, // Integrated LUFS, the common target for stereo podcasts
+  TRUE_PEAK: -1.5, // dBTP
+  LOUDNESS_RANGE: 11, // LU
+  SAMPLE_RATE: 44100,
+};
+
+export const AUDIO_RENDITIONS = {
+  mp3: { extension: 'mp3', contentType: 'audio/mpeg', args: ['-c:a', 'libmp3lame', '-b:a', '128k'] },
+  aac: { extension: 'm4a', contentType: 'audio/mp4', args: ['-c:a', 'aac', '-b:a', '96k', '-movflags', '+faststart'] },
+} as const;
+
+export type AudioRendition = keyof typeof AUDIO_RENDITIONS;
+
+export interface AudioProbe {
+  duration: number | null; // Seconds
+  bitrate: number | null; // kbps
+  codec: string | null;
+  sampleRate: number | null;
+  channels: number | null;
+}
+
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS
+  truePeak: number; // dBTP
+  range: number; // LU
+  threshold: number; // LUFS
+  offset: number; // LU
+}
+
+const toNumber = (value: unknown): number | null => {
+  const number = parseFloat(String(value));
+  return isFinite(number) ? number : null;
+};
+
+/**
+ * Arguments for `ffprobe` to describe a file as JSON
+ */
+export const buildProbeArgs = (inputPath: string): string[] =>
+  ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', inputPath];
+
+/**
+ * Read duration, bitrate and codec from `ffprobe -show_format -show_streams` JSON
+ */
+export const parseProbeOutput = (output: any): AudioProbe => {
+  const stream = (output?.streams || []).find((candidate: any) => candidate.codec_type === 'audio');
+  if (!stream) {
+    throw new Error('File has no audio stream');
+  }
+
+  // Browser recordings (webm) often only carry a duration and bitrate on the container
+  const duration = toNumber(stream.duration) ?? toNumber(output.format?.duration);
+  const bitrate = toNumber(stream.bit_rate) ?? toNumber(output.format?.bit_rate);
+
+  return {
+    duration: duration !== null ? Math.round(duration) : null,
+    bitrate: bitrate !== null ? Math.round(bitrate / 1000) : null,
+    codec: stream.codec_name || null,
+    sampleRate: toNumber(stream.sample_rate),
+    channels: toNumber(stream.channels),
+  };
+};
+
+const loudnormTargets = () =>
+  `I=${AUDIO_SETTINGS.TARGET_LOUDNESS}:TP=${AUDIO_SETTINGS.TRUE_PEAK}:LRA=${AUDIO_SETTINGS.LOUDNESS_RANGE}`;
+
+/**
+ * Arguments for the first loudnorm pass, which only measures the input
+ */
+export const buildLoudnessAnalysisArgs = (inputPath: string): string[] =>
+  ['-nostdin', '-hide_banner', '-i', inputPath, '-af', `loudnorm=${loudnormTargets()}:print_format=json`, '-f', 'null', '-'];
+
+/**
+ * Pull the measurement JSON that loudnorm prints at the end of ffmpeg's stderr
+ */
+export const parseLoudnessOutput = (stderr: string): LoudnessMeasurement => {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('ffmpeg did not report loudness measurements');
+  }
+
+  let stats;
+  try {
+    stats = JSON.parse(stderr.slice(start, end + 1));
+  } catch {
+    throw new Error('ffmpeg reported unreadable loudness measurements');
+  }
+
+  const measurement = {
+    integrated: toNumber(stats.input_i),
+    truePeak: toNumber(stats.input_tp),
+    range: toNumber(stats.input_lra),
+    threshold: toNumber(stats.input_thresh),
+    offset: toNumber(stats.target_offset),
+  };
+
+  // Silent input measures as -inf, which can't be normalized
+  if (Object.values(measurement).some(value => value === null)) {
+    throw new Error('Audio is silent or too short to normalize');
+  }
+
+  return measurement as LoudnessMeasurement;
+};
+
+/**
+ * Second-pass loudnorm filter using the first pass's measurements for linear normalization
+ */
+export const buildLoudnormFilter = (measured: LoudnessMeasurement): string =>
+  [
+    `loudnorm=${loudnormTargets()}`,
+    `measured_I=${measured.integrated}`,
+    `measured_TP=${measured.truePeak}`,
+    `measured_LRA=${measured.range}`,
+    `measured_thresh=${measured.threshold}`,
+    `offset=${measured.offset}`,
+    'linear=true',
+  ].join(':');
+
+/**
+ * Arguments for a single ffmpeg run that normalizes once and writes every rendition
+ */
+export const buildTranscodeArgs = (
+  inputPath: string,
+  measured: LoudnessMeasurement,
+  outputs: Record<AudioRendition, string>
+): string[] => {
+  const renditions = Object.keys(outputs) as AudioRendition[];
+  const labels = renditions.map(rendition => `[${rendition}]`).join('');
+
+  const args = [
+    '-nostdin', '-hide_banner', '-y', '-i', inputPath,
+    '-filter_complex', `[0:a]${buildLoudnormFilter(measured)},asplit=${renditions.length}${labels}`,
+  ];
+
+  renditions.forEach(rendition => {
+    args.push(
+      '-map', `[${rendition}]`,
+      '-map_metadata', '-1',
+      // loudnorm resamples to 192kHz internally, so set the output rate explicitly
+      '-ar', String(AUDIO_SETTINGS.SAMPLE_RATE),
+      ...AUDIO_RENDITIONS[rendition].args,
+      outputs[rendition]
+    );
+  });
+
+  return args;
+};
+
+/**
+ * URL players and feeds should use: the MP3 rendition once processed, else the original upload
+ */
+export const getPlaybackAudioUrl = (podcast: { audioUrl: string; audioMp3Url?: string | null }): string =>
+  podcast.audioMp3Url || podcast.audioUrl;
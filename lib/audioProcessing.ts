@@ -0,0 +1,171 @@
+/**
+ * Server-side audio processing
+ * Job handler that downloads an episode's uploaded audio, probes its real duration,
+ * bitrate and codec with ffprobe, normalizes loudness and transcodes it to MP3 and AAC
+ * with ffmpeg, computes waveform peaks from the normalized audio, uploads the renditions
+ * with the configured storage driver and updates the Podcast row.
+ *
+ * Configuration:
+ * - AUDIO_PROCESSING_ENABLED: "true" to process new episodes
+ * - FFMPEG_PATH / FFPROBE_PATH: binaries (default "ffmpeg" / "ffprobe")
+ */
+
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import prisma from './prismadb';
+import { downloadFile, getStorageDriver } from './storageDrivers';
+import {
+  AUDIO_RENDITIONS,
+  AudioRendition,
+  buildLoudnessAnalysisArgs,
+  buildProbeArgs,
+  buildTranscodeArgs,
+  parseLoudnessOutput,
+  parseProbeOutput,
+} from './audio';
+import { WAVEFORM_SETTINGS, WaveformData, createWaveformBuilder, getSamplesPerPixel } from './waveform';
+
+const execFileAsync = promisify(execFile);
+
+const FFMPEG_TIMEOUT_MS = 60 * 60 * 1000; // 1 hour
+const MAX_OUTPUT_BUFFER = 64 * 1024 * 1024;
+
+export const isAudioProcessingEnabled = (): boolean => process.env.AUDIO_PROCESSING_ENABLED === 'true';
+
+const getFfmpegPath = () => process.env.FFMPEG_PATH || 'ffmpeg';
+const getFfprobePath = () => process.env.FFPROBE_PATH || 'ffprobe';
+
+const probeFile = async (filePath: string) => {
+  const { stdout } = await execFileAsync(getFfprobePath(), buildProbeArgs(filePath), {
+    maxBuffer: MAX_OUTPUT_BUFFER,
+  });
+  return parseProbeOutput(JSON.parse(stdout));
+};
+
+// Upload a rendition next to the creator's other files and return its public URL
+const uploadRendition = async (
+  userId: string,
+  podcastId: string,
+  rendition: AudioRendition,
+  filePath: string
+): Promise<string> => {
+  const driver = getStorageDriver('podcast-audio');
+  const { extension, contentType } = AUDIO_RENDITIONS[rendition];
+  const storagePath = `${userId}/processed/${podcastId}-${Date.now()}.${extension}`;
+
+  await driver.put(storagePath, await readFile(filePath), { contentType, cacheControl: '31536000' });
+  return driver.getPublicUrl(storagePath);
+};
+
+// Stream the file through ffmpeg as low-rate mono PCM so long episodes never sit in memory
+const generateWaveform = (filePath: string, duration: number): Promise<WaveformData> =>
+  new Promise((resolve, reject) => {
+    const builder = createWaveformBuilder(getSamplesPerPixel(duration));
+    const ffmpeg = spawn(getFfmpegPath(), [
+      '-nostdin', '-v', 'error', '-i', filePath,
+      '-ac', '1', '-ar', String(WAVEFORM_SETTINGS.SAMPLE_RATE), '-f', 's16le', '-',
+    ]);
+    const timeout = setTimeout(() => ffmpeg.kill('SIGKILL'), FFMPEG_TIMEOUT_MS);
+    let stderr = '';
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => builder.addChunk(chunk));
+    ffmpeg.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    ffmpeg.on('error', error => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+    ffmpeg.on('close', code => {
+      clearTimeout(timeout);
+      if (code === 0) {
+        resolve(builder.finish());
+      } else {
+        reject(new Error(`ffmpeg failed to decode audio for the waveform (exit code ${code}): ${stderr.trim()}`));
+      }
+    });
+  });
+
+/**
+ * Job handler: process the job's podcast audio and store the results on the podcast
+ */
+export const runAudioProcessingJob = async (job: { podcastId: string | null }) => {
+  if (!job.podcastId) {
+    throw new Error('Audio processing job has no podcast');
+  }
+
+  const podcast = await prisma.podcast.findUnique({
+    where: { id: job.podcastId },
+    select: { id: true, userId: true, audioUrl: true },
+  });
+
+  if (!podcast) {
+    throw new Error('Podcast no longer exists');
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'audio-'));
+
+  try {
+    const sourcePath = path.join(workDir, 'source');
+    await downloadFile(podcast.audioUrl, sourcePath);
+
+    const probe = await probeFile(sourcePath);
+
+    // loudnorm writes its measurements to stderr
+    const { stderr: analysis } = await execFileAsync(getFfmpegPath(), buildLoudnessAnalysisArgs(sourcePath), {
+      timeout: FFMPEG_TIMEOUT_MS,
+      maxBuffer: MAX_OUTPUT_BUFFER,
+    });
+    const loudness = parseLoudnessOutput(analysis);
+
+    const outputs = {
+      mp3: path.join(workDir, `output.${AUDIO_RENDITIONS.mp3.extension}`),
+      aac: path.join(workDir, `output.${AUDIO_RENDITIONS.aac.extension}`),
+    };
+    await execFileAsync(getFfmpegPath(), buildTranscodeArgs(sourcePath, loudness, outputs), {
+      timeout: FFMPEG_TIMEOUT_MS,
+      maxBuffer: MAX_OUTPUT_BUFFER,
+    });
+
+    // Browser recordings may not declare a duration until they have been re-encoded
+    const duration = probe.duration ?? (await probeFile(outputs.mp3)).duration;
+    if (!duration) {
+      throw new Error('Could not determine the audio duration');
+    }
+
+    const waveform = await generateWaveform(outputs.mp3, duration);
+
+    const audioMp3Url = await uploadRendition(podcast.userId, podcast.id, 'mp3', outputs.mp3);
+    const audioAacUrl = await uploadRendition(podcast.userId, podcast.id, 'aac', outputs.aac);
+
+    await prisma.podcast.update({
+      where: { id: podcast.id },
+      data: {
+        duration,
+        bitrate: probe.bitrate,
+        codec: probe.codec,
+        loudness: loudness.integrated,
+        audioMp3Url,
+        audioAacUrl,
+        processedAt: new Date(),
+        waveform: waveform as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return {
+      duration,
+      bitrate: probe.bitrate,
+      codec: probe.codec,
+      loudness: loudness.integrated,
+      audioMp3Url,
+      audioAacUrl,
+      waveformPoints: waveform.length,
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
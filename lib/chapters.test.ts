@@ -0,0 +1,51 @@
+import { buildJsonChapters, getCurrentChapterIndex, parseChapters } from './chapters';
+
+describe('chapters', () => {
+  it('parses seconds and timestamps and sorts by start time', () => {
+    const { chapters, error } = parseChapters([
+      { startTime: '1:30', title: ' Interview ', url: 'https://example.com/guest' },
+      { startTime: 0, title: 'Intro', img: 'https://cdn.example.com/intro.jpg' },
+    ]);
+
+    expect(error).toBeUndefined();
+    expect(chapters).toEqual([
+      { startTime: 0, title: 'Intro', url: null, image: 'https://cdn.example.com/intro.jpg' },
+      { startTime: 90, title: 'Interview', url: 'https://example.com/guest', image: null },
+    ]);
+  });
+
+  it('rejects invalid chapters', () => {
+    expect(parseChapters('nope').error).toBe('chapters must be an array');
+    expect(parseChapters([{ startTime: 'soon', title: 'Intro' }]).error).toBe('Chapter 1 has an invalid start time');
+    expect(parseChapters([{ startTime: 0, title: '  ' }]).error).toBe('Chapter 1 needs a title');
+    expect(parseChapters([{ startTime: 0, title: 'Intro', url: 'javascript:alert(1)' }]).error).toBe('Chapter 1 has an invalid URL');
+    expect(parseChapters([{ startTime: 600, title: 'Outro' }], 300).error).toBe('Chapter 1 starts after the end of the episode');
+    expect(parseChapters([
+      { startTime: 10, title: 'A' },
+      { startTime: 10, title: 'B' },
+    ]).error).toBe('Two chapters cannot start at the same time');
+  });
+
+  it('renders Podcasting 2.0 JSON chapters', () => {
+    expect(buildJsonChapters([
+      { startTime: 0, title: 'Intro', url: null, image: 'https://cdn.example.com/intro.jpg' },
+      { startTime: 90, title: 'Interview', url: 'https://example.com/guest' },
+    ], 'Episode 1')).toEqual({
+      version: '1.2.0',
+      title: 'Episode 1',
+      chapters: [
+        { startTime: 0, title: 'Intro', img: 'https://cdn.example.com/intro.jpg' },
+        { startTime: 90, title: 'Interview', url: 'https://example.com/guest' },
+      ],
+    });
+  });
+
+  it('finds the chapter playing at a given time', () => {
+    const chapters = [{ startTime: 5 }, { startTime: 60 }, { startTime: 120 }];
+
+    expect(getCurrentChapterIndex(chapters, 0)).toBe(-1);
+    expect(getCurrentChapterIndex(chapters, 5)).toBe(0);
+    expect(getCurrentChapterIndex(chapters, 119.9)).toBe(1);
+    expect(getCurrentChapterIndex(chapters, 3600)).toBe(2);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Episode chapters
+ * Validates chapter markers edited on the episode page and renders them in the
+ * Podcasting 2.0 JSON chapters format referenced from the feed by <podcast:chapters>.
+ * See https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonChapters.md
+ */
+
+import { parseTimestamp } from './transcripts';
+
+export const CHAPTERS_MIME_TYPE = 'application/json+chapters';
+
+export const CHAPTER_SETTINGS = {
+  MAX_CHAPTERS: 500,
+  MAX_TITLE_LENGTH: 200,
+  MAX_URL_LENGTH: 2000,
+};
+
+export interface ChapterInput {
+  startTime: number; // Seconds
+  title: string;
+  url?: string | null;
+  image?: string | null;
+}
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Optional links must be absolute http(s) URLs so podcast apps can open them
+const parseOptionalUrl = (value: unknown, field: string, index: number): { value: string | null; error?: string } => {
+  const url = typeof value === 'string' ? value.trim() : '';
+  if (!url) return { value: null };
+
+  if (url.length > CHAPTER_SETTINGS.MAX_URL_LENGTH || !isHttpUrl(url)) {
+    return { value: null, error: `Chapter ${index + 1} has an invalid ${field}` };
+  }
+
+  return { value: url };
+};
+
+/**
+ * Validate a list of chapters; start times may be seconds or "H:MM:SS" timestamps.
+ * Accepts `img` as well as `image` so Podcasting 2.0 JSON can be pasted in directly.
+ */
+export const parseChapters = (
+  input: unknown,
+  duration?: number | null
+): { chapters?: ChapterInput[]; error?: string } => {
+  if (!Array.isArray(input)) {
+    return { error: 'chapters must be an array' };
+  }
+
+  if (input.length > CHAPTER_SETTINGS.MAX_CHAPTERS) {
+    return { error: `Episodes may have at most ${CHAPTER_SETTINGS.MAX_CHAPTERS} chapters` };
+  }
+
+  const chapters: ChapterInput[] = [];
+
+  for (let index = 0; index < input.length; index++) {
+    const raw = input[index] || {};
+
+    let startTime: number;
+    try {
+      startTime = typeof raw.startTime === 'string' ? parseTimestamp(raw.startTime) : Number(raw.startTime);
+    } catch {
+      startTime = NaN;
+    }
+
+    if (isNaN(startTime) || startTime < 0) {
+      return { error: `Chapter ${index + 1} has an invalid start time` };
+    }
+    if (duration && startTime >= duration) {
+      return { error: `Chapter ${index + 1} starts after the end of the episode` };
+    }
+
+    const title = typeof raw.title === 'string' ? raw.title.replace(/\s+/g, ' ').trim() : '';
+    if (!title) {
+      return { error: `Chapter ${index + 1} needs a title` };
+    }
+    if (title.length > CHAPTER_SETTINGS.MAX_TITLE_LENGTH) {
+      return { error: `Chapter titles may be at most ${CHAPTER_SETTINGS.MAX_TITLE_LENGTH} characters` };
+    }
+
+    const url = parseOptionalUrl(raw.url, 'URL', index);
+    if (url.error) return { error: url.error };
+
+    const image = parseOptionalUrl(raw.image ?? raw.img, 'image URL', index);
+    if (image.error) return { error: image.error };
+
+    chapters.push({ startTime, title, url: url.value, image: image.value });
+  }
+
+  chapters.sort((a, b) => a.startTime - b.startTime);
+
+  for (let index = 1; index < chapters.length; index++) {
+    if (chapters[index].startTime === chapters[index - 1].startTime) {
+      return { error: 'Two chapters cannot start at the same time' };
+    }
+  }
+
+  return { chapters };
+};
+
+/**
+ * Render chapters as a Podcasting 2.0 JSON chapters document
+ */
+export const buildJsonChapters = (chapters: ChapterInput[], title?: string) => ({
+  version: '1.2.0',
+  ...(title ? { title } : {}),
+  chapters: chapters.map(chapter => ({
+    startTime: chapter.startTime,
+    title: chapter.title,
+    ...(chapter.url ? { url: chapter.url } : {}),
+    ...(chapter.image ? { img: chapter.image } : {}),
+  })),
+});
+
+/**
+ * Index of the chapter playing at `time` (chapters sorted by start time), or -1 before the first
+ */
+export const getCurrentChapterIndex = (chapters: { startTime: number }[], time: number): number => {
+  let current = -1;
+
+  for (let index = 0; index < chapters.length; index++) {
+    if (chapters[index].startTime > time) break;
+    current = index;
+  }
+
+  return current;
+};
@@ -0,0 +1,152 @@
+/**
+ * Conversations
+ * Loading conversations for a member, and the membership changes of group conversations.
+ * Every change is recorded in the conversation as a system message, which is pushed to
+ * the members (including anyone just removed) so their pages reload the group.
+ * Also checks the attachments of messages being sent.
+ */
+
+import prisma from './prismadb';
+import { canAccessPodcast } from './media';
+import {
+  AttachmentInput,
+  CONVERSATION_PARTICIPANTS_INCLUDE,
+  MESSAGE_INCLUDE,
+  pickNextAdmin,
+  toMessageSummary,
+  toParticipantSummaries,
+} from './messages';
+import { publishNewMessage } from './messageEvents';
+
+/**
+ * A conversation with its members, or null when the user is not one of them
+ */
+export const findConversationForUser = (conversationId: string, userId: string) =>
+  prisma.conversation.findFirst({
+    where: { id: conversationId, participants: { some: { userId } } },
+    include: CONVERSATION_PARTICIPANTS_INCLUDE,
+  });
+
+/**
+ * A conversation as returned by the API, with its members' names and roles
+ */
+export const getConversationSummary = async (conversationId: string, userId: string) => {
+  const conversation = await findConversationForUser(conversationId, userId);
+  return conversation && { ...conversation, participants: toParticipantSummaries(conversation.participants) };
+};
+
+/**
+ * Record a change to a conversation as a system message from the member who made it,
+ * and push it to `notifyUserIds`
+ */
+export const addSystemMessage = async (
+  conversationId: string,
+  actorId: string,
+  content: string,
+  notifyUserIds: string[]
+) => {
+  const [message] = await prisma.$transaction([
+    prisma.message.create({
+      data: { content, type: 'system', senderId: actorId, conversationId },
+      include: MESSAGE_INCLUDE,
+    }),
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: { lastMessageAt: new Date() },
+    }),
+  ]);
+
+  await publishNewMessage(toMessageSummary(message), notifyUserIds);
+  return message;
+};
+
+/**
+ * Take a member out of a group. The group is deleted when its last member goes, and the
+ * longest-standing member becomes an admin when the last admin goes.
+ * Returns whether the group still exists and who was promoted, if anyone.
+ */
+export const removeParticipant = async (
+  conversationId: string,
+  userId: string
+): Promise<{ deleted: boolean; promotedUserId: string | null }> =>
+  prisma.$transaction(async tx => {
+    await tx.conversationParticipant.delete({
+      where: { conversationId_userId: { conversationId, userId } },
+    });
+
+    const remaining = await tx.conversationParticipant.findMany({
+      where: { conversationId },
+      select: { userId: true, role: true, joinedAt: true },
+    });
+
+    if (remaining.length === 0) {
+      await tx.conversation.delete({ where: { id: conversationId } });
+      return { deleted: true, promotedUserId: null };
+    }
+
+    const promotedUserId = pickNextAdmin(remaining);
+    if (promotedUserId) {
+      await tx.conversationParticipant.update({
+        where: { conversationId_userId: { conversationId, userId: promotedUserId } },
+        data: { role: 'admin' },
+      });
+    }
+
+    return { deleted: false, promotedUserId };
+  });
+
+// The fields a message attachment is created with
+interface AttachmentData {
+  type: string;
+  url?: string;
+  duration?: number;
+  startTime?: number;
+  endTime?: number;
+  podcastId?: string;
+}
+
+/**
+ * Check that an attachment may be sent: a voice note must be the sender's own completed
+ * upload, and an episode public and published so that every member can listen to it, with
+ * clips inside its duration. Returns the fields to create the attachment with.
+ */
+export const resolveAttachment = async (
+  attachment: AttachmentInput,
+  userId: string
+): Promise<{ data?: AttachmentData; error?: string; status?: number }> => {
+  if (attachment.type === 'voice') {
+    const upload = await prisma.upload.findFirst({
+      where: { url: attachment.url, userId, folder: 'podcast-audio', status: 'completed' },
+      select: { id: true },
+    });
+
+    return upload
+      ? { data: { type: 'voice', url: attachment.url, duration: attachment.duration } }
+      : { error: 'Upload not found', status: 404 };
+  }
+
+  const podcast = await prisma.podcast.findUnique({
+    where: { id: attachment.podcastId },
+    select: { id: true, userId: true, isPublic: true, status: true, duration: true },
+  });
+
+  if (!podcast) {
+    return { error: 'Podcast not found', status: 404 };
+  }
+
+  if (!canAccessPodcast(podcast)) {
+    return { error: 'Only public, published episodes can be shared', status: 403 };
+  }
+
+  if (attachment.type === 'podcast') {
+    return { data: { type: 'podcast', podcastId: podcast.id } };
+  }
+
+  if (podcast.duration && attachment.endTime > podcast.duration) {
+    return { error: 'The clip ends after the episode does', status: 400 };
+  }
+
+  return {
+    data: { type: 'clip', podcastId: podcast.id, startTime: attachment.startTime, endTime: attachment.endTime },
+  };
+};
@@ -0,0 +1,111 @@
+/**
+ * Server-side edit rendering
+ * Job handler that renders a draft's edit decision list (lib/edl.ts) from its original
+ * takes with ffmpeg and makes the result the episode's audio. The takes are left as they
+ * are, so the edit can be changed and rendered again.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import prisma from './prismadb';
+import { downloadFile, getStorageDriver } from './storageDrivers';
+import { EDL_SETTINGS, EditDecisionList, buildRenderArgs, getEdlTimeline } from './edl';
+
+const execFileAsync = promisify(execFile);
+
+const FFMPEG_TIMEOUT_MS = 60 * 60 * 1000; // 1 hour
+const MAX_OUTPUT_BUFFER = 64 * 1024 * 1024;
+
+export interface EditRenderPayload {
+  edl: EditDecisionList;
+  edlUpdatedAt: string; // Which saved version of the edit is being rendered
+}
+
+/**
+ * Job handler: render the edit in the job's payload and store it as the podcast's audio
+ */
+export const runEditRenderJob = async (job: { podcastId: string | null; payload: Prisma.JsonValue }) => {
+  if (!job.podcastId) {
+    throw new Error('Edit render job has no podcast');
+  }
+
+  const { edl, edlUpdatedAt } = job.payload as unknown as EditRenderPayload;
+
+  const podcast = await prisma.podcast.findUnique({
+    where: { id: job.podcastId },
+    select: { id: true, userId: true, status: true, edlRenderedAt: true, takes: { select: { id: true, url: true } } },
+  });
+
+  if (!podcast) {
+    throw new Error('Podcast no longer exists');
+  }
+
+  if (podcast.status !== 'draft') {
+    throw new Error('Only drafts can be rendered');
+  }
+
+  // A later version of the edit has already been rendered
+  if (podcast.edlRenderedAt && podcast.edlRenderedAt >= new Date(edlUpdatedAt)) {
+    return { skipped: true };
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'edit-'));
+
+  try {
+    const clips = [...edl.clips, ...(edl.intro ? [edl.intro] : []), ...(edl.outro ? [edl.outro] : [])];
+    const inputs: Record<string, string> = {};
+
+    for (let i = 0; i < clips.length; i++) {
+      const { takeId } = clips[i];
+      if (inputs[takeId]) continue;
+
+      const take = podcast.takes.find(candidate => candidate.id === takeId);
+      if (!take) {
+        throw new Error(`Take ${takeId} has been deleted`);
+      }
+
+      inputs[takeId] = path.join(workDir, `take-${Object.keys(inputs).length}`);
+      await downloadFile(take.url, inputs[takeId]);
+    }
+
+    const outputPath = path.join(workDir, `edit.${EDL_SETTINGS.OUTPUT_EXTENSION}`);
+    await execFileAsync(process.env.FFMPEG_PATH || 'ffmpeg', buildRenderArgs(edl, inputs, outputPath), {
+      timeout: FFMPEG_TIMEOUT_MS,
+      maxBuffer: MAX_OUTPUT_BUFFER,
+    });
+
+    const driver = getStorageDriver('podcast-audio');
+    const storagePath = `${podcast.userId}/edits/${podcast.id}-${Date.now()}.${EDL_SETTINGS.OUTPUT_EXTENSION}`;
+    await driver.put(storagePath, await readFile(outputPath), {
+      contentType: EDL_SETTINGS.OUTPUT_CONTENT_TYPE,
+      cacheControl: '31536000',
+    });
+    const audioUrl = driver.getPublicUrl(storagePath);
+    const duration = Math.round(getEdlTimeline(edl).duration);
+
+    // Results of processing the previous audio no longer apply
+    await prisma.podcast.update({
+      where: { id: podcast.id },
+      data: {
+        audioUrl,
+        duration,
+        audioMp3Url: null,
+        audioAacUrl: null,
+        bitrate: null,
+        codec: null,
+        loudness: null,
+        processedAt: null,
+        waveform: Prisma.DbNull,
+        edlRenderedAt: new Date(edlUpdatedAt),
+      },
+    });
+
+    return { audioUrl, duration, clips: edl.clips.length };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
@@ -0,0 +1,102 @@
+import {
+  EditDecisionList,
+  buildRenderArgs,
+  cutClip,
+  findSilenceBounds,
+  getDefaultEdl,
+  getEdlTimeline,
+  moveClip,
+  needsRender,
+  parseEdl,
+  parseTakeFields,
+} from './edl';
+
+const takes = [
+  { id: 'a', kind: 'voice' as const, duration: 30 },
+  { id: 'b', kind: 'voice' as const, duration: 20 },
+  { id: 'm', kind: 'music' as const, duration: 15 },
+];
+
+const edl: EditDecisionList = {
+  clips: [{ takeId: 'a', start: 1, end: 11 }, { takeId: 'b', start: 0, end: 10 }],
+  intro: { takeId: 'm', start: 0, end: 8, volume: 0.5, overlap: 3 },
+  outro: { takeId: 'm', start: 0, end: 6, volume: 0.5, overlap: 2 },
+};
+
+describe('edl', () => {
+  it('starts from every voice take in full', () => {
+    expect(getDefaultEdl(takes)).toEqual({
+      clips: [{ takeId: 'a', start: 0, end: 30 }, { takeId: 'b', start: 0, end: 20 }],
+      intro: null,
+      outro: null,
+    });
+  });
+
+  it('parses takes and renames', () => {
+    expect(parseTakeFields({ name: ' Intro ', duration: 12.3456 })).toEqual({
+      data: { name: 'Intro', kind: 'voice', duration: 12.346 },
+    });
+    expect(parseTakeFields({ name: 'Bed', kind: 'sfx', duration: 1 }).error).toBe('Kind must be one of: voice, music');
+    expect(parseTakeFields({ name: 'Bed' }).error).toBe('Duration must be a number of seconds');
+    expect(parseTakeFields({ name: 'Renamed' }, true)).toEqual({ data: { name: 'Renamed' } });
+  });
+
+  it('validates edits against the takes', () => {
+    expect(parseEdl(edl, takes)).toEqual({ data: edl });
+    expect(parseEdl({ clips: [] }, takes).error).toBe('The edit needs at least one clip');
+    expect(parseEdl({ clips: [{ takeId: 'm', start: 0, end: 5 }] }, takes).error)
+      .toBe('Clip 1 must reference a voice take of this episode');
+    expect(parseEdl({ clips: [{ takeId: 'a', start: 0, end: 31 }] }, takes).error)
+      .toBe('Clip 1 must lie within its take (0-30s)');
+    expect(parseEdl({ ...edl, intro: { ...edl.intro, volume: 2 } }, takes).error)
+      .toBe('Intro volume must be between 0 and 1');
+    expect(parseEdl({ clips: [{ takeId: 'a', start: 0, end: 2 }], intro: edl.intro }, takes).error)
+      .toBe('Music beds may not overlap more speech than the edit has');
+  });
+
+  it('lays out the speech and beds on the timeline', () => {
+    expect(getEdlTimeline(edl)).toEqual({ speechStart: 5, outroStart: 23, duration: 29 });
+    expect(getEdlTimeline({ ...edl, intro: null, outro: null })).toEqual({ speechStart: 0, outroStart: null, duration: 20 });
+  });
+
+  it('moves and cuts clips', () => {
+    expect(moveClip(edl.clips, 1, 0)).toEqual([edl.clips[1], edl.clips[0]]);
+    expect(moveClip(edl.clips, 0, -1)).toBe(edl.clips);
+
+    expect(cutClip(edl.clips, 0, 4, 6)).toEqual([
+      { takeId: 'a', start: 1, end: 4 },
+      { takeId: 'a', start: 6, end: 11 },
+      edl.clips[1],
+    ]);
+    // Cutting the head leaves only the tail
+    expect(cutClip(edl.clips, 0, 0, 5)).toEqual([{ takeId: 'a', start: 5, end: 11 }, edl.clips[1]]);
+  });
+
+  it('finds the silence around speech', () => {
+    const samples = new Float32Array(1000);
+    samples.fill(0.5, 300, 600);
+
+    expect(findSilenceBounds(samples, 100, 0.02, 0.5)).toEqual({ start: 2.5, end: 6.5 });
+    expect(findSilenceBounds(new Float32Array(100), 100)).toBeNull();
+  });
+
+  it('knows when the edit has changed since it was rendered', () => {
+    expect(needsRender({ edlUpdatedAt: null, edlRenderedAt: null })).toBe(false);
+    expect(needsRender({ edlUpdatedAt: '2025-04-11T10:00:00Z', edlRenderedAt: null })).toBe(true);
+    expect(needsRender({ edlUpdatedAt: '2025-04-11T10:00:00Z', edlRenderedAt: '2025-04-11T10:00:00Z' })).toBe(false);
+  });
+
+  it('builds ffmpeg arguments that render the edit', () => {
+    const args = buildRenderArgs(edl, { a: '/tmp/a', b: '/tmp/b', m: '/tmp/m' }, '/tmp/out.mp3');
+    const filter = args[args.indexOf('-filter_complex') + 1];
+
+    expect(args.filter(arg => arg.startsWith('/tmp/') && arg !== '/tmp/out.mp3')).toEqual(['/tmp/a', '/tmp/b', '/tmp/m']);
+    expect(filter).toContain('[0:a]atrim=start=1.000:end=11.000');
+    expect(filter).toContain('concat=n=2:v=0:a=1[speech]');
+    expect(filter).toContain('[speech]adelay=5000|5000[speechd]');
+    expect(filter).toContain('adelay=23000|23000[outro]');
+    expect(filter).toContain('[intro][speechd][outro]amix=inputs=3:duration=longest:normalize=0[out]');
+    expect(args.slice(-1)).toEqual(['/tmp/out.mp3']);
+    expect(() => buildRenderArgs(edl, { a: '/tmp/a' }, '/tmp/out.mp3')).toThrow('No input file for take b');
+  });
+});
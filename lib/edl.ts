@@ -0,0 +1,340 @@
+/**
+ * Edit decision lists
+ * A draft episode's edit is a non-destructive list of clips (in/out points within recorded
+ * takes, in playback order) plus optional intro and outro music beds. Takes are never
+ * modified; the edit is rendered to the episode's audio with ffmpeg by the edit-render
+ * job (lib/editRendering.ts). Shared by the edit API and the studio on the record page.
+ */
+
+export const TAKE_KINDS = ['voice', 'music'] as const;
+
+export type TakeKind = typeof TAKE_KINDS[number];
+
+export const EDL_SETTINGS = {
+  MAX_TAKES: 50,
+  MAX_TAKE_NAME_LENGTH: 100,
+  TAKE_URL_EXPIRY: 60 * 60, // Seconds take URLs handed to the studio stay valid
+  MAX_CLIPS: 200,
+  MIN_CLIP_LENGTH: 0.1, // Seconds
+  BED_FADE: 2, // Seconds music beds fade in and out over
+  SILENCE_THRESHOLD: 0.02, // Peak amplitude (0-1) below which audio counts as silence
+  SILENCE_PADDING: 0.25, // Seconds of silence kept around speech when trimming
+  SAMPLE_RATE: 44100,
+  OUTPUT_ARGS: ['-c:a', 'libmp3lame', '-b:a', '192k'],
+  OUTPUT_EXTENSION: 'mp3',
+  OUTPUT_CONTENT_TYPE: 'audio/mpeg',
+};
+
+export interface EdlClip {
+  takeId: string;
+  start: number; // Seconds into the take
+  end: number;
+}
+
+export interface MusicBed extends EdlClip {
+  volume: number; // 0-1
+  overlap: number; // Seconds the bed plays under the speech
+}
+
+export interface EditDecisionList {
+  clips: EdlClip[];
+  intro: MusicBed | null;
+  outro: MusicBed | null;
+}
+
+export interface TakeSummary {
+  id: string;
+  name: string;
+  kind: TakeKind;
+  url: string;
+  duration: number; // Seconds
+  createdAt: string;
+}
+
+type TakeInfo = Pick<TakeSummary, 'id' | 'kind' | 'duration'>;
+
+export const toTakeSummary = (
+  take: { id: string; name: string; kind: string; url: string; duration: number; createdAt: Date },
+  url: string = take.url
+): TakeSummary => ({
+  id: take.id,
+  name: take.name,
+  kind: take.kind as TakeKind,
+  url,
+  duration: take.duration,
+  createdAt: take.createdAt.toISOString(),
+});
+
+const round = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Validate the fields of a new take, or only the ones sent when `partial` (renaming)
+ */
+export const parseTakeFields = (
+  body: any,
+  partial = false
+): { data?: { name?: string; kind?: TakeKind; duration?: number }; error?: string } => {
+  const data: { name?: string; kind?: TakeKind; duration?: number } = {};
+
+  if (body?.name !== undefined || !partial) {
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > EDL_SETTINGS.MAX_TAKE_NAME_LENGTH) {
+      return { error: `Take name must be 1-${EDL_SETTINGS.MAX_TAKE_NAME_LENGTH} characters` };
+    }
+    data.name = name;
+  }
+
+  if (partial) return { data };
+
+  const kind = body?.kind === undefined ? 'voice' : body.kind;
+  if (!(TAKE_KINDS as readonly string[]).includes(kind)) {
+    return { error: `Kind must be one of: ${TAKE_KINDS.join(', ')}` };
+  }
+  data.kind = kind;
+
+  const duration = Number(body?.duration);
+  if (!isFinite(duration) || duration < EDL_SETTINGS.MIN_CLIP_LENGTH) {
+    return { error: 'Duration must be a number of seconds' };
+  }
+  data.duration = round(duration);
+
+  return { data };
+};
+
+/**
+ * Whether the saved edit has changed since it was last rendered
+ */
+export const needsRender = (podcast: { edlUpdatedAt: Date | string | null; edlRenderedAt: Date | string | null }): boolean =>
+  Boolean(podcast.edlUpdatedAt) &&
+  (!podcast.edlRenderedAt || new Date(podcast.edlRenderedAt).getTime() < new Date(podcast.edlUpdatedAt as Date | string).getTime());
+
+export const getClipLength = (clip: EdlClip): number => clip.end - clip.start;
+
+/**
+ * The edit a new draft starts from: every voice take in full, in the order recorded
+ */
+export const getDefaultEdl = (takes: TakeInfo[]): EditDecisionList => ({
+  clips: takes
+    .filter(take => take.kind === 'voice')
+    .map(take => ({ takeId: take.id, start: 0, end: round(take.duration) })),
+  intro: null,
+  outro: null,
+});
+
+const parseClip = (value: any, takes: TakeInfo[], kind: TakeKind, label: string): { clip?: EdlClip; error?: string } => {
+  const take = takes.find(candidate => candidate.id === value?.takeId);
+  if (!take || take.kind !== kind) {
+    return { error: `${label} must reference a ${kind} take of this episode` };
+  }
+
+  const start = Number(value.start);
+  const end = Number(value.end);
+  if (!isFinite(start) || !isFinite(end) || start < 0 || end > take.duration + 0.001) {
+    return { error: `${label} must lie within its take (0-${round(take.duration)}s)` };
+  }
+  if (end - start < EDL_SETTINGS.MIN_CLIP_LENGTH) {
+    return { error: `${label} must be at least ${EDL_SETTINGS.MIN_CLIP_LENGTH}s long` };
+  }
+
+  return { clip: { takeId: take.id, start: round(start), end: round(Math.min(end, take.duration)) } };
+};
+
+const parseBed = (value: any, takes: TakeInfo[], label: string): { bed?: MusicBed | null; error?: string } => {
+  if (value === null || value === undefined) return { bed: null };
+
+  const { clip, error } = parseClip(value, takes, 'music', label);
+  if (!clip) return { error };
+
+  const volume = value.volume === undefined ? 1 : Number(value.volume);
+  if (!isFinite(volume) || volume < 0 || volume > 1) {
+    return { error: `${label} volume must be between 0 and 1` };
+  }
+
+  const overlap = value.overlap === undefined ? 0 : Number(value.overlap);
+  if (!isFinite(overlap) || overlap < 0 || overlap > getClipLength(clip)) {
+    return { error: `${label} overlap must be between 0 and the length of the bed` };
+  }
+
+  return { bed: { ...clip, volume, overlap: round(overlap) } };
+};
+
+/**
+ * Validate an edit against the episode's takes
+ */
+export const parseEdl = (body: any, takes: TakeInfo[]): { data?: EditDecisionList; error?: string } => {
+  if (!Array.isArray(body?.clips) || body.clips.length === 0) {
+    return { error: 'The edit needs at least one clip' };
+  }
+  if (body.clips.length > EDL_SETTINGS.MAX_CLIPS) {
+    return { error: `The edit may have at most ${EDL_SETTINGS.MAX_CLIPS} clips` };
+  }
+
+  const clips: EdlClip[] = [];
+  for (let i = 0; i < body.clips.length; i++) {
+    const { clip, error } = parseClip(body.clips[i], takes, 'voice', `Clip ${i + 1}`);
+    if (!clip) return { error };
+    clips.push(clip);
+  }
+
+  const intro = parseBed(body.intro, takes, 'Intro');
+  if (intro.error) return { error: intro.error };
+
+  const outro = parseBed(body.outro, takes, 'Outro');
+  if (outro.error) return { error: outro.error };
+
+  const speechLength = getSpeechLength(clips);
+  if ((intro.bed?.overlap || 0) + (outro.bed?.overlap || 0) > speechLength) {
+    return { error: 'Music beds may not overlap more speech than the edit has' };
+  }
+
+  return { data: { clips, intro: intro.bed || null, outro: outro.bed || null } };
+};
+
+export const getSpeechLength = (clips: EdlClip[]): number =>
+  round(clips.reduce((total, clip) => total + getClipLength(clip), 0));
+
+/**
+ * Where the speech and outro start on the rendered timeline, and its total length
+ */
+export const getEdlTimeline = (edl: EditDecisionList): { speechStart: number; outroStart: number | null; duration: number } => {
+  const speechStart = edl.intro ? round(getClipLength(edl.intro) - edl.intro.overlap) : 0;
+  const speechEnd = round(speechStart + getSpeechLength(edl.clips));
+  const outroStart = edl.outro ? round(speechEnd - edl.outro.overlap) : null;
+  const duration = edl.outro && outroStart !== null
+    ? Math.max(speechEnd, round(outroStart + getClipLength(edl.outro)))
+    : speechEnd;
+
+  return { speechStart, outroStart, duration };
+};
+
+/**
+ * Move a clip to a new position
+ */
+export const moveClip = (clips: EdlClip[], from: number, to: number): EdlClip[] => {
+  if (to < 0 || to >= clips.length || from === to) return clips;
+
+  const next = clips.slice();
+  const [clip] = next.splice(from, 1);
+  next.splice(to, 0, clip);
+  return next;
+};
+
+/**
+ * Cut the region [cutStart, cutEnd] (seconds into the take) out of a clip, leaving the
+ * parts before and after it as separate clips; parts too short to keep are dropped
+ */
+export const cutClip = (clips: EdlClip[], index: number, cutStart: number, cutEnd: number): EdlClip[] => {
+  const clip = clips[index];
+  if (!clip || cutEnd <= cutStart) return clips;
+
+  const pieces = [
+    { takeId: clip.takeId, start: clip.start, end: Math.min(clip.end, cutStart) },
+    { takeId: clip.takeId, start: Math.max(clip.start, cutEnd), end: clip.end },
+  ].filter(piece => getClipLength(piece) >= EDL_SETTINGS.MIN_CLIP_LENGTH);
+
+  return [...clips.slice(0, index), ...pieces, ...clips.slice(index + 1)];
+};
+
+/**
+ * In and out points that skip the silence at the head and tail of a take's samples
+ */
+export const findSilenceBounds = (
+  samples: ArrayLike<number>,
+  sampleRate: number,
+  threshold: number = EDL_SETTINGS.SILENCE_THRESHOLD,
+  padding: number = EDL_SETTINGS.SILENCE_PADDING
+): { start: number; end: number } | null => {
+  let first = -1;
+  let last = -1;
+
+  for (let i = 0; i < samples.length; i++) {
+    if (Math.abs(samples[i]) >= threshold) {
+      if (first === -1) first = i;
+      last = i;
+    }
+  }
+
+  // Nothing but silence
+  if (first === -1) return null;
+
+  const duration = samples.length / sampleRate;
+  return {
+    start: round(Math.max(0, first / sampleRate - padding)),
+    end: round(Math.min(duration, (last + 1) / sampleRate + padding)),
+  };
+};
+
+const formatSeconds = (seconds: number): string => seconds.toFixed(3);
+
+/**
+ * ffmpeg arguments that render an edit from local copies of its takes
+ * (`inputs` maps take ids to file paths) into one MP3
+ */
+export const buildRenderArgs = (
+  edl: EditDecisionList,
+  inputs: Record<string, string>,
+  outputPath: string
+): string[] => {
+  const takeIds: string[] = [];
+  const inputIndex = (takeId: string): number => {
+    if (!inputs[takeId]) {
+      throw new Error(`No input file for take ${takeId}`);
+    }
+    if (!takeIds.includes(takeId)) takeIds.push(takeId);
+    return takeIds.indexOf(takeId);
+  };
+
+  // Every segment is trimmed and brought to one format so they can be concatenated and mixed
+  const segment = (clip: EdlClip, extra = ''): string =>
+    `[${inputIndex(clip.takeId)}:a]atrim=start=${formatSeconds(clip.start)}:end=${formatSeconds(clip.end)},` +
+    `asetpts=PTS-STARTPTS,aformat=sample_rates=${EDL_SETTINGS.SAMPLE_RATE}:channel_layouts=stereo${extra}`;
+
+  const bedFades = (bed: MusicBed, fadeIn: boolean): string => {
+    const length = getClipLength(bed);
+    const fade = Math.min(EDL_SETTINGS.BED_FADE, length / 2);
+    return `,volume=${bed.volume}` +
+      (fadeIn ? `,afade=t=in:st=0:d=${formatSeconds(fade)}` : '') +
+      `,afade=t=out:st=${formatSeconds(length - fade)}:d=${formatSeconds(fade)}`;
+  };
+
+  const filters = edl.clips.map((clip, i) => `${segment(clip)}[c${i}]`);
+  filters.push(`${edl.clips.map((_, i) => `[c${i}]`).join('')}concat=n=${edl.clips.length}:v=0:a=1[speech]`);
+
+  const { speechStart, outroStart } = getEdlTimeline(edl);
+  const layers: string[] = [];
+
+  if (edl.intro) {
+    filters.push(`${segment(edl.intro, bedFades(edl.intro, false))}[intro]`);
+    layers.push('[intro]');
+  }
+
+  if (speechStart > 0) {
+    const delay = Math.round(speechStart * 1000);
+    filters.push(`[speech]adelay=${delay}|${delay}[speechd]`);
+    layers.push('[speechd]');
+  } else {
+    layers.push('[speech]');
+  }
+
+  if (edl.outro && outroStart !== null) {
+    const delay = Math.round(outroStart * 1000);
+    filters.push(`${segment(edl.outro, bedFades(edl.outro, true))},adelay=${delay}|${delay}[outro]`);
+    layers.push('[outro]');
+  }
+
+  const output = layers.length > 1 ? '[out]' : layers[0];
+  if (layers.length > 1) {
+    filters.push(`${layers.join('')}amix=inputs=${layers.length}:duration=longest:normalize=0[out]`);
+  }
+
+  return [
+    '-nostdin', '-hide_banner', '-y',
+    ...takeIds.flatMap(takeId => ['-i', inputs[takeId]]),
+    '-filter_complex', filters.join(';'),
+    '-map', output,
+    '-map_metadata', '-1',
+    '-ar', String(EDL_SETTINGS.SAMPLE_RATE),
+    ...EDL_SETTINGS.OUTPUT_ARGS,
+    outputPath,
+  ];
+};
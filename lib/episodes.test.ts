@@ -0,0 +1,39 @@
+import { formatEpisodeLabel, parseEpisodeFields, parsePublishFields } from './episodes';
+
+const now = new Date('2025-04-07T09:00:00Z');
+
+describe('episodes', () => {
+  it('parses show placement fields', () => {
+    expect(parseEpisodeFields({})).toEqual({ data: {} });
+    expect(parseEpisodeFields({ seasonNumber: 0 }).error).toBeDefined();
+  });
+
+  it('defaults to no publish change when neither field is sent', () => {
+    expect(parsePublishFields({}, now)).toEqual({ data: null });
+    expect(parsePublishFields({ publishAt: '' }, now)).toEqual({ data: null });
+  });
+
+  it('parses drafts, immediate releases and schedules', () => {
+    expect(parsePublishFields({ status: 'draft', publishAt: '2025-05-01T00:00:00Z' }, now)).toEqual({
+      data: { status: 'draft', publishAt: null },
+    });
+    expect(parsePublishFields({ status: 'published' }, now)).toEqual({
+      data: { status: 'published', publishAt: now },
+    });
+    expect(parsePublishFields({ status: 'scheduled', publishAt: '2025-04-08T09:00:00Z' }, now)).toEqual({
+      data: { status: 'scheduled', publishAt: new Date('2025-04-08T09:00:00Z') },
+    });
+    expect(parsePublishFields({ publishAt: '2025-04-08T09:00:00Z' }, now).data?.status).toBe('scheduled');
+  });
+
+  it('rejects invalid publish fields', () => {
+    expect(parsePublishFields({ status: 'live' }, now).error).toBe('Status must be one of: draft, scheduled, published');
+    expect(parsePublishFields({ status: 'scheduled' }, now).error).toBe('Scheduled episodes need a valid publishAt date');
+    expect(parsePublishFields({ publishAt: 'tomorrow' }, now).error).toBe('Scheduled episodes need a valid publishAt date');
+    expect(parsePublishFields({ status: 'scheduled', publishAt: now.toISOString() }, now).error).toBe('publishAt must be in the future');
+  });
+
+  it('formats an episode label', () => {
+    expect(formatEpisodeLabel({ seasonNumber: 2, episodeNumber: 7, episodeType: 'bonus' })).toBe('S2 E7 · Bonus');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Episode metadata helpers
+ * Shared validation for the show/episode fields accepted by the podcast API routes
+ */
+
+export const EPISODE_TYPES = ['full', 'trailer', 'bonus'] as const;
+
+export type EpisodeType = typeof EPISODE_TYPES[number];
+
+export const PUBLISH_STATUSES = ['draft', 'scheduled', 'published'] as const;
+
+export type PublishStatus = typeof PUBLISH_STATUSES[number];
+
+export interface PublishFields {
+  status: PublishStatus;
+  publishAt: Date | null;
+}
+
+export interface EpisodeFields {
+  showId?: string | null;
+  seasonNumber?: number | null;
+  episodeNumber?: number | null;
+  episodeType?: EpisodeType;
+}
+
+/**
+ * Parse an optional positive integer; null clears the value, undefined leaves it untouched
+ */
+const parseOptionalNumber = (value: unknown, field: string): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${field} must be a positive whole number`);
+  }
+  return parsed;
+};
+
+/**
+ * Pick and validate the episode fields from a request body.
+ * Only keys present in the body are returned so the result can be spread into
+ * both create and partial update payloads.
+ */
+export const parseEpisodeFields = (body: Record<string, any>): { data: EpisodeFields; error?: string } => {
+  const data: EpisodeFields = {};
+
+  try {
+    if (body.showId !== undefined) {
+      data.showId = body.showId ? String(body.showId) : null;
+    }
+
+    const seasonNumber = parseOptionalNumber(body.seasonNumber, 'Season number');
+    if (seasonNumber !== undefined) data.seasonNumber = seasonNumber;
+
+    const episodeNumber = parseOptionalNumber(body.episodeNumber, 'Episode number');
+    if (episodeNumber !== undefined) data.episodeNumber = episodeNumber;
+
+    if (body.episodeType !== undefined) {
+      if (!EPISODE_TYPES.includes(body.episodeType)) {
+        throw new Error(`Episode type must be one of: ${EPISODE_TYPES.join(', ')}`);
+      }
+      data.episodeType = body.episodeType;
+    }
+  } catch (error) {
+    return { data: {}, error: error.message };
+  }
+
+  return { data };
+};
+
+/**
+ * Pick and validate `status` and `publishAt` from a request body.
+ * Publishing now stamps the current time; scheduling needs a future `publishAt`, which on
+ * its own also means "schedule". Returns null data when neither field is present.
+ */
+export const parsePublishFields = (
+  body: Record<string, any>,
+  now: Date = new Date()
+): { data: PublishFields | null; error?: string } => {
+  const { status, publishAt } = body;
+
+  if (status === undefined && (publishAt === undefined || publishAt === null || publishAt === '')) {
+    return { data: null };
+  }
+
+  if (status !== undefined && !PUBLISH_STATUSES.includes(status)) {
+    return { data: null, error: `Status must be one of: ${PUBLISH_STATUSES.join(', ')}` };
+  }
+
+  if (status === 'draft') {
+    return { data: { status, publishAt: null } };
+  }
+
+  if (status === 'published') {
+    return { data: { status, publishAt: now } };
+  }
+
+  const date = new Date(publishAt);
+  if (!publishAt || isNaN(date.getTime())) {
+    return { data: null, error: 'Scheduled episodes need a valid publishAt date' };
+  }
+  if (date <= now) {
+    return { data: null, error: 'publishAt must be in the future' };
+  }
+
+  return { data: { status: 'scheduled', publishAt: date } };
+};
+
+/**
+ * Short label such as "S2 E7 · Bonus" for displaying an episode's position in its show
+ */
+export const formatEpisodeLabel = (episode: {
+  seasonNumber?: number | null;
+  episodeNumber?: number | null;
+  episodeType?: string | null;
+}): string => {
+  const parts: string[] = [];
+  const position = [
+    episode.seasonNumber ? `S${episode.seasonNumber}` : '',
+    episode.episodeNumber ? `E${episode.episodeNumber}` : '',
+  ].filter(Boolean).join(' ');
+
+  if (position) parts.push(position);
+  if (episode.episodeType && episode.episodeType !== 'full') {
+    parts.push(episode.episodeType.charAt(0).toUpperCase() + episode.episodeType.slice(1));
+  }
+
+  return parts.join(' · ');
+};
@@ -0,0 +1,97 @@
+import {
+  buildPodcastFeed,
+  computeFeedEtag,
+  escapeXml,
+  formatItunesDuration,
+  guessAudioMimeType,
+  isFeedNotModified,
+} from './feed';
+
+describe('feed', () => {
+  const lastModified = new Date('2025-03-01T10:00:00Z');
+
+  const episode = {
+    id: 'ep1',
+    title: 'Tips & Tricks <Live>',
+    description: 'A "quoted" description',
+    audioUrl: 'https://cdn.example.com/audio/ep1.m4a?token=abc',
+    coverImage: 'https://cdn.example.com/images/ep1.jpg',
+    duration: 3725,
+    seasonNumber: 2,
+    episodeNumber: 7,
+    episodeType: 'bonus',
+    createdAt: new Date('2025-02-28T08:00:00Z'),
+    updatedAt: lastModified,
+    tags: [{ name: 'Technology' }, { name: 'News' }],
+  };
+
+  it('escapes XML special characters', () => {
+    expect(escapeXml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;');
+  });
+
+  it('formats durations as HH:MM:SS', () => {
+    expect(formatItunesDuration(3725)).toBe('01:02:05');
+    expect(formatItunesDuration(59)).toBe('00:00:59');
+  });
+
+  it('guesses the enclosure type from the file extension', () => {
+    expect(guessAudioMimeType(episode.audioUrl)).toBe('audio/mp4');
+    expect(guessAudioMimeType('https://cdn.example.com/a.mp3')).toBe('audio/mpeg');
+    expect(guessAudioMimeType('https://cdn.example.com/a.webm')).toBe('audio/webm');
+  });
+
+  it('renders an RSS document with itunes and podcast tags', () => {
+    const xml = buildPodcastFeed({
+      owner: { id: 'user1', name: 'Alex', email: 'alex@example.com' },
+      episodes: [episode],
+      siteUrl: 'https://pods.example.com',
+      feedUrl: 'https://pods.example.com/api/users/user1/feed.xml',
+      lastModified,
+    });
+
+    expect(xml).toContain('<rss version="2.0"');
+    expect(xml).toContain('<title>Tips &amp; Tricks &lt;Live&gt;</title>');
+    expect(xml).toContain('<enclosure url="https://cdn.example.com/audio/ep1.m4a?token=abc" length="0" type="audio/mp4" />');
+    expect(xml).toContain('<itunes:duration>01:02:05</itunes:duration>');
+    expect(xml).toContain('<itunes:image href="https://cdn.example.com/images/ep1.jpg" />');
+    expect(xml).toContain('<itunes:season>2</itunes:season>');
+    expect(xml).toContain('<itunes:episode>7</itunes:episode>');
+    expect(xml).toContain('<itunes:episodeType>bonus</itunes:episodeType>');
+    expect(xml).toContain('<itunes:category text="Technology" />');
+    expect(xml).toContain('<category>News</category>');
+    expect(xml).toMatch(/<podcast:guid>[0-9a-f-]{36}<\/podcast:guid>/);
+  });
+
+  it('links episodes with chapters to their JSON chapters', () => {
+    const feed = (hasChapters: boolean) => buildPodcastFeed({
+      owner: { id: 'user1', name: 'Alex' },
+      episodes: [{ ...episode, hasChapters }],
+      siteUrl: 'https://pods.example.com',
+      feedUrl: 'https://pods.example.com/api/users/user1/feed.xml',
+      lastModified,
+    });
+
+    expect(feed(true)).toContain(
+      '<podcast:chapters url="https://pods.example.com/api/podcasts/ep1/chapters" type="application/json+chapters" />'
+    );
+    expect(feed(false)).not.toContain('<podcast:chapters');
+  });
+
+  it('matches conditional requests by ETag and Last-Modified', () => {
+    const etag = computeFeedEtag('user1', 1, lastModified);
+
+    expect(isFeedNotModified(new Headers({ 'If-None-Match': etag }), etag, lastModified)).toBe(true);
+    expect(isFeedNotModified(new Headers({ 'If-None-Match': 'W/"stale"' }), etag, lastModified)).toBe(false);
+    expect(isFeedNotModified(
+      new Headers({ 'If-Modified-Since': lastModified.toUTCString() }),
+      etag,
+      lastModified
+    )).toBe(true);
+    expect(isFeedNotModified(
+      new Headers({ 'If-Modified-Since': new Date('2025-01-01T00:00:00Z').toUTCString() }),
+      etag,
+      lastModified
+    )).toBe(false);
+    expect(isFeedNotModified(new Headers(), etag, lastModified)).toBe(false);
+  });
+});
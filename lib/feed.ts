@@ -0,0 +1,248 @@
+/**
+ * RSS 2.0 feed rendering
+ * Builds iTunes / Podcasting 2.0 compatible feeds for a creator's public episodes
+ */
+
+import { createHash } from 'crypto';
+import { v5 as uuidv5 } from 'uuid';
+import { CHAPTERS_MIME_TYPE } from './chapters';
+import { getPlaybackAudioUrl } from './audio';
+
+// Namespace UUID defined by the Podcasting 2.0 spec for <podcast:guid>
+const PODCAST_GUID_NAMESPACE = 'ead4c236-bf58-58c6-a2c6-a6b28d128cb6';
+
+export interface FeedEpisode {
+  id: string;
+  title: string;
+  description?: string | null;
+  audioUrl: string;
+  audioMp3Url?: string | null;
+  coverImage?: string | null;
+  duration?: number | null;
+  seasonNumber?: number | null;
+  episodeNumber?: number | null;
+  episodeType?: string | null;
+  createdAt: Date;
+  publishAt?: Date | null;
+  updatedAt: Date;
+  tags?: { name: string }[];
+  hasChapters?: boolean;
+}
+
+export interface FeedOwner {
+  id: string;
+  name?: string | null;
+  email?: string | null;
+  image?: string | null;
+}
+
+export interface FeedOptions {
+  owner: FeedOwner;
+  episodes: FeedEpisode[];
+  siteUrl: string;
+  feedUrl: string;
+  lastModified: Date;
+}
+
+/**
+ * Resolve the public base URL of the app, preferring the configured one over the request origin
+ */
+export const resolveSiteUrl = (requestUrl: string): string =>
+  (process.env.NEXT_PUBLIC_APP_URL || new URL(requestUrl).origin).replace(/\/+$/, '');
+
+/**
+ * Public URL of a creator's RSS feed
+ */
+export const getFeedUrl = (siteUrl: string, userId: string): string =>
+  `${siteUrl}/api/users/${encodeURIComponent(userId)}/feed.xml`;
+
+/**
+ * Escape a string for use in XML text and attribute values
+ */
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Format a duration in seconds as HH:MM:SS for <itunes:duration>
+ */
+export const formatItunesDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return [hours, minutes, secs].map(n => n.toString().padStart(2, '0')).join(':');
+};
+
+/**
+ * Guess the enclosure MIME type from the audio URL's file extension
+ */
+export const guessAudioMimeType = (url: string): string => {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'm4a':
+    case 'aac':
+      return 'audio/mp4';
+    case 'ogg':
+    case 'oga':
+      return 'audio/ogg';
+    case 'wav':
+      return 'audio/wav';
+    case 'webm':
+      return 'audio/webm';
+    default:
+      return 'audio/mpeg';
+  }
+};
+
+/**
+ * Build a weak ETag from the values that change whenever the feed content does
+ */
+export const computeFeedEtag = (ownerId: string, episodeCount: number, lastModified: Date): string => {
+  const hash = createHash('sha1')
+    .update(`${ownerId}:${episodeCount}:${lastModified.getTime()}`)
+    .digest('hex');
+  return `W/"${hash}"`;
+};
+
+/**
+ * Check conditional request headers against the current feed state.
+ * If-None-Match takes precedence over If-Modified-Since (RFC 7232 §6).
+ */
+export const isFeedNotModified = (
+  headers: Headers,
+  etag: string,
+  lastModified: Date
+): boolean => {
+  const ifNoneMatch = headers.get('if-none-match');
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(',').map(tag => tag.trim()).some(tag => tag === etag || tag === '*');
+  }
+
+  const ifModifiedSince = headers.get('if-modified-since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision, so compare at that resolution
+    return !isNaN(since) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+  }
+
+  return false;
+};
+
+const renderEpisode = (episode: FeedEpisode, siteUrl: string, fallbackImage?: string | null): string => {
+  const link = `${siteUrl}/podcasts/${episode.id}`;
+  const image = episode.coverImage || fallbackImage;
+  const description = episode.description || '';
+  const audioUrl = getPlaybackAudioUrl(episode);
+
+  const lines = [
+    '    <item>',
+    `      <title>${escapeXml(episode.title)}</title>`,
+    `      <link>${escapeXml(link)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(episode.id)}</guid>`,
+    `      <pubDate>${(episode.publishAt || episode.createdAt).toUTCString()}</pubDate>`,
+    `      <description>${escapeXml(description)}</description>`,
+    `      <itunes:summary>${escapeXml(description)}</itunes:summary>`,
+    `      <enclosure url="${escapeXml(audioUrl)}" length="0" type="${guessAudioMimeType(audioUrl)}" />`,
+  ];
+
+  if (episode.duration) {
+    lines.push(`      <itunes:duration>${formatItunesDuration(episode.duration)}</itunes:duration>`);
+  }
+
+  if (image) {
+    lines.push(`      <itunes:image href="${escapeXml(image)}" />`);
+  }
+
+  if (episode.seasonNumber) {
+    lines.push(`      <itunes:season>${episode.seasonNumber}</itunes:season>`);
+  }
+
+  if (episode.episodeNumber) {
+    lines.push(`      <itunes:episode>${episode.episodeNumber}</itunes:episode>`);
+  }
+
+  if (episode.hasChapters) {
+    const chaptersUrl = `${siteUrl}/api/podcasts/${encodeURIComponent(episode.id)}/chapters`;
+    lines.push(`      <podcast:chapters url="${escapeXml(chaptersUrl)}" type="${CHAPTERS_MIME_TYPE}" />`);
+  }
+
+  lines.push(`      <itunes:episodeType>${escapeXml(episode.episodeType || 'full')}</itunes:episodeType>`);
+  lines.push('      <itunes:explicit>false</itunes:explicit>');
+
+  (episode.tags || []).forEach(tag => {
+    lines.push(`      <category>${escapeXml(tag.name)}</category>`);
+  });
+
+  lines.push('    </item>');
+  return lines.join('\n');
+};
+
+/**
+ * Render a creator's episodes as an RSS 2.0 document with itunes: and podcast: tags
+ */
+export const buildPodcastFeed = ({ owner, episodes, siteUrl, feedUrl, lastModified }: FeedOptions): string => {
+  const ownerName = owner.name || 'Unknown creator';
+  const title = `${ownerName}'s Podcasts`;
+  const channelLink = `${siteUrl}/profile/${owner.id}`;
+  const image = owner.image || episodes.find(episode => episode.coverImage)?.coverImage;
+  const feedGuid = uuidv5(feedUrl.replace(/^[a-z]+:\/\//i, '').replace(/\/+$/, ''), PODCAST_GUID_NAMESPACE);
+
+  // Collect distinct tag names across all episodes for channel-level categories
+  const categories: string[] = [];
+  episodes.forEach(episode => {
+    (episode.tags || []).forEach(tag => {
+      if (!categories.includes(tag.name)) categories.push(tag.name);
+    });
+  });
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0"',
+    '  xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"',
+    '  xmlns:podcast="https://podcastindex.org/namespace/1.0"',
+    '  xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <link>${escapeXml(channelLink)}</link>`,
+    `    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml" />`,
+    `    <description>${escapeXml(`Episodes published by ${ownerName}`)}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${lastModified.toUTCString()}</lastBuildDate>`,
+    `    <itunes:author>${escapeXml(ownerName)}</itunes:author>`,
+    '    <itunes:owner>',
+    `      <itunes:name>${escapeXml(ownerName)}</itunes:name>`,
+  ];
+
+  if (owner.email) {
+    lines.push(`      <itunes:email>${escapeXml(owner.email)}</itunes:email>`);
+  }
+
+  lines.push('    </itunes:owner>');
+  lines.push('    <itunes:explicit>false</itunes:explicit>');
+  lines.push('    <itunes:type>episodic</itunes:type>');
+
+  if (image) {
+    lines.push(`    <itunes:image href="${escapeXml(image)}" />`);
+  }
+
+  categories.forEach(category => {
+    lines.push(`    <itunes:category text="${escapeXml(category)}" />`);
+  });
+
+  lines.push(`    <podcast:guid>${feedGuid}</podcast:guid>`);
+  lines.push('    <podcast:locked>no</podcast:locked>');
+
+  episodes.forEach(episode => {
+    lines.push(renderEpisode(episode, siteUrl, image));
+  });
+
+  lines.push('  </channel>');
+  lines.push('</rss>');
+
+  return lines.join('\n');
+};
@@ -1,17 +1,23 @@
 /**
  * Advanced File Storage Utilities
- * Enterprise-grade implementation for handling file uploads to Supabase Storage
+ * Enterprise-grade implementation for handling file uploads through /api/uploads
  * Features:
  * - Background uploads with progress tracking
  * - Resilient error handling and retry logic
- * - Large file support via chunked uploads
+ * - Large file support via resumable multipart uploads (/api/uploads)
  * - Offline detection and recovery
  * - Upload cache to prevent duplicates
  */
 
 import toast from 'react-hot-toast';
-import { supabase, handleStorageError } from './supabaseClient';
-import { v4 as uuidv4 } from 'uuid';
+import { handleStorageError } from './supabaseClient';
+import {
+  UPLOAD_SETTINGS as UPLOAD_RULES,
+  UploadFolder,
+  UploadSession,
+  getPartCount,
+  getResumeKey,
+} from './uploads';
 
 // Enhanced upload cache with additional metadata
 interface UploadCache {
@@ -30,7 +36,6 @@ interface UploadCache {
 const UPLOAD_SETTINGS = {
   MAX_RETRIES: 3,
   RETRY_DELAY: 2000, // ms
-  CHUNK_SIZE: 5 * 1024 * 1024, // 5MB chunks for large files
   LARGE_FILE_THRESHOLD: 50 * 1024 * 1024, // 50MB
   PROGRESS_INTERVAL: 300, // ms between progress updates
   CONNECTION_CHECK_URL: 'https://www.google.com/favicon.ico', // URL to check connectivity
@@ -193,96 +198,228 @@ const determineUploadMethod = (file: File): 'direct' | 'chunked' => {
   return 'chunked';
 };
 
+// Send a request to the resumable upload API, throwing its error message on failure
+const uploadsRequest = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Upload request failed with status ${response.status}`);
+  }
+
+  return response.json();
+};
+
+const sha256Hex = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// PUT one part, retrying transient failures
+const uploadPart = async (uploadId: string, partNumber: number, data: ArrayBuffer, checksum: string) => {
+  let attempts = 0;
+  while (true) {
+    try {
+      await uploadsRequest(`/api/uploads/${uploadId}/parts/${partNumber}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          [UPLOAD_RULES.CHECKSUM_HEADER]: checksum,
+        },
+        body: data,
+      });
+      return;
+    } catch (error) {
+      attempts++;
+      console.error(`Error uploading part ${partNumber} of upload ${uploadId} (attempt ${attempts}):`, error);
+
+      if (attempts >= UPLOAD_SETTINGS.MAX_RETRIES) {
+        throw new Error(`Failed to upload part ${partNumber} after ${attempts} attempts`);
+      }
+
+      // Wait before retrying
+      await new Promise(resolve => setTimeout(resolve, UPLOAD_SETTINGS.RETRY_DELAY));
+    }
+  }
+};
+
+// Reuse the session saved for this file before a reload, if it can still accept parts
+const resumeUploadSession = async (resumeKey: string): Promise<UploadSession | null> => {
+  const uploadId = localStorage.getItem(resumeKey);
+  if (!uploadId) return null;
+
+  try {
+    const session = await uploadsRequest<UploadSession>(`/api/uploads/${uploadId}`);
+    if (session.status === 'pending' && new Date(session.expiresAt).getTime() > Date.now()) {
+      return session;
+    }
+  } catch (error) {
+    console.warn('Could not resume upload, starting over:', error);
+  }
+
+  localStorage.removeItem(resumeKey);
+  return null;
+};
+
 /**
- * Manual implementation of chunked upload for large files
+ * Resumable multipart upload through /api/uploads (see lib/uploads.ts); small files fit in one part.
+ * The session id is kept in localStorage, so after a reload only the missing parts are sent.
  */
 const uploadLargeFile = async (
-  bucketName: string,
-  filePath: string,
   file: File,
+  folder: UploadFolder,
   onProgress?: (progress: number) => void
 ): Promise<string> => {
-  // Calculate total chunks
-  const chunkSize = UPLOAD_SETTINGS.CHUNK_SIZE;
-  const chunksCount = Math.ceil(file.size / chunkSize);
-  
-  // Create an array to track uploaded chunks
-  const chunks = Array(chunksCount).fill(null).map((_, index) => ({
-    uploaded: false,
-    index,
-  }));
-  
-  // Start uploading chunks
-  for (let i = 0; i < chunksCount; i++) {
-    const start = i * chunkSize;
-    const end = Math.min(file.size, start + chunkSize);
-    const chunk = file.slice(start, end);
-    
-    // Calculate chunk progress percentage
-    const chunkProgress = Math.floor((i / chunksCount) * 90) + 5;
-    onProgress?.(chunkProgress);
-    
-    // Add content type for the first chunk
-    const options = i === 0 
-      ? { contentType: file.type, upsert: true }
-      : { upsert: true };
-    
-    // Upload chunk with retries
-    let attempts = 0;
-    while (attempts < UPLOAD_SETTINGS.MAX_RETRIES) {
+  const resumeKey = getResumeKey(file, folder);
+
+  let session = await resumeUploadSession(resumeKey);
+  if (!session) {
+    session = await uploadsRequest<UploadSession>('/api/uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fileName: file.name,
+        contentType: file.type || 'application/octet-stream',
+        folder,
+        size: file.size,
+      }),
+    });
+    localStorage.setItem(resumeKey, session.id);
+  }
+
+  const { id, partSize } = session;
+  const partCount = getPartCount(file.size, partSize);
+  const checksums: { partNumber: number; checksum: string }[] = [];
+
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    const start = (partNumber - 1) * partSize;
+    const data = await file.slice(start, Math.min(file.size, start + partSize)).arrayBuffer();
+    const checksum = await sha256Hex(data);
+    checksums.push({ partNumber, checksum });
+
+    // Skip parts the server already has from an earlier attempt
+    const received = session.parts.find(part => part.partNumber === partNumber);
+    if (received?.checksum !== checksum) {
+      await uploadPart(id, partNumber, data, checksum);
+    }
+
+    onProgress?.(Math.floor((partNumber / partCount) * 90) + 5);
+  }
+
+  const completed = await uploadsRequest<UploadSession>(`/api/uploads/${id}/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ parts: checksums }),
+  });
+  localStorage.removeItem(resumeKey);
+
+  if (!completed.url) {
+    throw new Error('Upload completed without a file URL');
+  }
+
+  return completed.url;
+};
+
+export interface StreamingUpload {
+  id: string;
+  write: (chunk: Blob) => void; // Queue recorded data; full parts are uploaded in the background
+  finish: () => Promise<string>; // Upload what is left and assemble the file, returning its URL
+  abort: () => Promise<void>;
+}
+
+/**
+ * Upload a file while it is still being produced, such as a MediaRecorder recording.
+ * Data is sent as soon as a part fills up, so a reload or crash loses at most one part;
+ * completeStreamingUpload can assemble whatever arrived.
+ */
+export const startStreamingUpload = async (
+  fileName: string,
+  contentType: string,
+  folder: UploadFolder = 'podcast-audio'
+): Promise<StreamingUpload> => {
+  const session = await uploadsRequest<UploadSession>('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      fileName,
+      contentType,
+      folder,
+      streaming: true,
+      partSize: UPLOAD_RULES.MIN_PART_SIZE,
+    }),
+  });
+
+  const { id, partSize } = session;
+  let buffered: Blob[] = [];
+  let bufferedSize = 0;
+  let nextPartNumber = 1;
+  let queue: Promise<void> = Promise.resolve();
+  let failure: Error | null = null;
+
+  // Parts are uploaded one after another, in order
+  const sendPart = (data: Blob) => {
+    const partNumber = nextPartNumber++;
+    queue = queue.then(async () => {
+      if (failure) return;
       try {
-        // For first chunk, create new file; for others, append
-        if (i === 0) {
-          const { error } = await supabase.storage
-            .from(bucketName)
-            .upload(filePath, chunk, options);
-            
-          if (error) throw error;
-        } else {
-          // Use append API endpoint directly since it's not exposed in the SDK
-          const res = await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/upload/append`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY}`,
-              'x-upsert': 'true'
-            },
-            body: JSON.stringify({
-              bucketId: bucketName,
-              objectName: filePath,
-              offset: start,
-              data: await chunk.arrayBuffer()
-            })
-          });
-          
-          if (!res.ok) {
-            const error = await res.json();
-            throw new Error(error.message || 'Failed to append chunk');
-          }
-        }
-        
-        // Mark chunk as uploaded
-        chunks[i].uploaded = true;
-        break; // Successfully uploaded this chunk
+        const buffer = await data.arrayBuffer();
+        await uploadPart(id, partNumber, buffer, await sha256Hex(buffer));
       } catch (error) {
-        attempts++;
-        console.error(`Error uploading chunk ${i+1}/${chunksCount} (attempt ${attempts}):`, error);
-        
-        if (attempts >= UPLOAD_SETTINGS.MAX_RETRIES) {
-          throw new Error(`Failed to upload chunk ${i+1} after ${attempts} attempts`);
-        }
-        
-        // Wait before retrying
-        await new Promise(resolve => setTimeout(resolve, UPLOAD_SETTINGS.RETRY_DELAY));
+        failure = error instanceof Error ? error : new Error(String(error));
       }
-    }
+    });
+  };
+
+  return {
+    id,
+    write: (chunk: Blob) => {
+      if (chunk.size === 0) return;
+      buffered.push(chunk);
+      bufferedSize += chunk.size;
+
+      while (bufferedSize >= partSize) {
+        const pending = new Blob(buffered, { type: contentType });
+        sendPart(pending.slice(0, partSize));
+        buffered = [pending.slice(partSize)];
+        bufferedSize -= partSize;
+      }
+    },
+    finish: async () => {
+      if (bufferedSize > 0) {
+        sendPart(new Blob(buffered, { type: contentType }));
+        buffered = [];
+        bufferedSize = 0;
+      }
+
+      await queue;
+      if (failure) throw failure;
+
+      return completeStreamingUpload(id);
+    },
+    abort: async () => {
+      failure = new Error('Upload aborted');
+      await queue;
+      await uploadsRequest(`/api/uploads/${id}`, { method: 'DELETE' });
+    },
+  };
+};
+
+/**
+ * Assemble the parts a streaming upload has received so far, e.g. after the page was reloaded
+ * mid-recording, and return the file URL
+ */
+export const completeStreamingUpload = async (uploadId: string): Promise<string> => {
+  const completed = await uploadsRequest<UploadSession>(`/api/uploads/${uploadId}/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({}),
+  });
+
+  if (!completed.url) {
+    throw new Error('Upload completed without a file URL');
   }
-  
-  // Get the public URL
-  const { data: { publicUrl } } = supabase.storage
-    .from(bucketName)
-    .getPublicUrl(filePath);
-    
-  return publicUrl;
+
+  return completed.url;
 };
 
 /**
@@ -378,141 +515,29 @@ export const startFileUpload = async (
     // Start with 1% to indicate we're starting
     updateProgress(1);
     
-    // Generate a unique filename to avoid collisions
-    const fileExt = file.name.split('.').pop() || 'bin';
-    const uniqueFilename = `${uuidv4()}.${fileExt}`;
-    
     // Add diagnostic logging
     console.log('==== UPLOAD DIAGNOSTICS ====');
-    console.log('User ID:', userId);
     console.log('Folder:', folder);
     console.log('File details:', {
       name: file.name,
       size: file.size,
       type: file.type
     });
-    
-    // Get current user's ID from Supabase if not provided
-    if (!userId) {
-      try {
-        const { data } = await supabase.auth.getSession();
-        userId = data.session?.user?.id || 'anonymous';
-        console.log('Retrieved user ID from Supabase session:', userId);
-      } catch (error) {
-        console.error('Error getting Supabase session:', error);
-        userId = 'anonymous';
-      }
-    }
-    
-    // Ensure we have a valid userId for the path
-    const safeUserId = userId || 'anonymous';
-    
-    // Include userId as first segment in path to comply with row-level security policies
-    const filePath = `${safeUserId}/${uniqueFilename}`;
-    
-    console.log('Generated file path:', filePath);
     console.log('==========================');
     
-    // Determine the correct bucket based on the folder
-    const bucketName = folder === 'podcast-audio' 
-      ? process.env.NEXT_PUBLIC_SUPABASE_PODCASTS_BUCKET || 'podcasts'
-      : process.env.NEXT_PUBLIC_SUPABASE_IMAGES_BUCKET || 'images';
-    
     // Update status to uploading
     const cacheEntry = uploadCache.get(fileId)!;
     cacheEntry.status = 'uploading';
     uploadCache.set(fileId, cacheEntry);
     
-    let publicUrl: string;
-    
-    // Upload based on method
-    if (uploadMethod === 'chunked') {
-      console.log(`Starting chunked upload for ${file.name} (${Math.round(file.size / 1024 / 1024)}MB)`);
-      
-      // Set initial progress
-      updateProgress(2);
-      
-      // We'll use a more realistic progress simulation for large files
-      let progressInterval: NodeJS.Timeout | null = null;
-      
-      // For large files, we'll simulate progress until the upload completes
-      const progressSimulator = () => {
-        const estimatedTimeInSeconds = Math.max(10, Math.min(300, file.size / 100000)); // Estimate between 10s and 5min
-        const interval = 500; // Update every 500ms
-        const totalUpdates = (estimatedTimeInSeconds * 1000) / interval;
-        let updateCount = 0;
-        
-        return setInterval(() => {
-          updateCount++;
-          const simProgress = Math.min(90, (updateCount / totalUpdates) * 95);
-          updateProgress(Math.floor(simProgress));
-          
-          if (simProgress >= 90) {
-            if (progressInterval) clearInterval(progressInterval);
-          }
-        }, interval);
-      };
-      
-      // Start progress simulation
-      progressInterval = progressSimulator();
-      
-      try {
-        // Use our large file upload implementation
-        publicUrl = await uploadLargeFile(bucketName, filePath, file, updateProgress);
-      } finally {
-        // Clear the progress interval
-        if (progressInterval) clearInterval(progressInterval);
-      }
-    } else {
-      // For small files, use direct upload
-      console.log(`Starting direct upload for ${file.name} (${Math.round(file.size / 1024 / 1024)}MB)`);
-      updateProgress(5);
-      
-      // Simulate progress for better UX
-      let progressInterval: NodeJS.Timeout | null = null;
-      let currentProgress = 5;
-      
-      progressInterval = setInterval(() => {
-        currentProgress += Math.random() * 5; // Faster for small files
-        if (currentProgress < 90) {
-          updateProgress(Math.min(Math.round(currentProgress), 90));
-        } else {
-          if (progressInterval) clearInterval(progressInterval);
-        }
-      }, 300);
-      
-      try {
-        // Direct upload to Supabase
-        const { data, error } = await supabase.storage
-          .from(bucketName)
-          .upload(filePath, file, {
-            cacheControl: '3600',
-            upsert: false,
-            contentType: file.type
-          });
-          
-        if (error) {
-          console.error('Supabase upload error:', error);
-          
-          // Handle specific permission errors
-          if (error.message?.includes('new row violates row-level security policy')) {
-            throw new Error('Storage permission error. Please ensure you are properly authenticated.');
-          }
-          
-          throw error;
-        }
-        
-        // Get the public URL
-        const { data: { publicUrl: url } } = supabase.storage
-          .from(bucketName)
-          .getPublicUrl(data.path);
-          
-        publicUrl = url;
-      } finally {
-        // Clear the progress interval
-        if (progressInterval) clearInterval(progressInterval);
-      }
-    }
+    // Files go through /api/uploads, which stores them under the signed-in user's
+    // folder with whichever storage driver the server is configured to use
+    updateProgress(2);
+    const publicUrl = await uploadLargeFile(
+      file,
+      folder === 'podcast-audio' ? 'podcast-audio' : 'images',
+      updateProgress
+    );
     
     console.log('Upload completed, public URL:', publicUrl);
     
@@ -0,0 +1,181 @@
+/**
+ * Background job queue
+ * Jobs are rows in the Job table. Workers claim due jobs with FOR UPDATE SKIP LOCKED so
+ * several processes can drain the queue at once, run the handler for the job's type and
+ * record the outcome; failures are retried with backoff (see lib/jobs.ts).
+ *
+ * Jobs are processed right after they are enqueued (via Next.js `after`) and by the
+ * /api/jobs/run endpoint, which a cron can call to pick up retries.
+ */
+
+import { Job, Prisma } from '@prisma/client';
+import prisma from './prismadb';
+import { JOB_SETTINGS, JobType, getFailedJobUpdate } from './jobs';
+import { isTranscriptionEnabled, runTranscriptionJob } from './transcription';
+import { isAudioProcessingEnabled, runAudioProcessingJob } from './audioProcessing';
+import { runEditRenderJob } from './editRendering';
+import { runSessionMixdownJob } from './sessionMixdown';
+
+type JobHandler = (job: Job) => Promise<unknown>;
+
+// The new audio is already stored by then, so failing to queue its jobs is logged rather
+// than failing the job, which would render it again
+const enqueueJobsForNewAudio = (podcastId: string) =>
+  enqueueEpisodeJobs(podcastId).catch(error => {
+    console.error('Error queueing background jobs:', error);
+  });
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  transcription: job => runTranscriptionJob(job),
+  'audio-processing': job => runAudioProcessingJob(job),
+  // The rendered edit and the mixdown are new audio, so they are processed and transcribed like an upload
+  'edit-render': async job => {
+    const result = await runEditRenderJob(job);
+    // A skipped render left the audio as it was
+    if (!('skipped' in result)) {
+      await enqueueJobsForNewAudio(job.podcastId as string);
+    }
+    return result;
+  },
+  'session-mixdown': async job => {
+    const result = await runSessionMixdownJob(job);
+    await enqueueJobsForNewAudio(job.podcastId as string);
+    return result;
+  },
+};
+
+/**
+ * Queue a job to run as soon as a worker picks it up
+ */
+export const enqueueJob = async (
+  type: JobType,
+  options: { podcastId?: string; payload?: Prisma.InputJsonValue; maxAttempts?: number } = {}
+): Promise<Job> =>
+  prisma.job.create({
+    data: {
+      type,
+      podcastId: options.podcastId,
+      payload: options.payload,
+      maxAttempts: options.maxAttempts || JOB_SETTINGS.MAX_ATTEMPTS,
+    },
+  });
+
+/**
+ * Queue the configured processing and transcription jobs for an episode's new audio
+ */
+export const enqueueEpisodeJobs = async (podcastId: string): Promise<Job[]> => {
+  const types: JobType[] = [
+    ...(isAudioProcessingEnabled() ? ['audio-processing' as const] : []),
+    ...(isTranscriptionEnabled() ? ['transcription' as const] : []),
+  ];
+
+  const jobs: Job[] = [];
+  for (let i = 0; i < types.length; i++) {
+    jobs.push(await enqueueJob(types[i], { podcastId }));
+  }
+  return jobs;
+};
+
+/**
+ * Put a job back in the queue with a fresh set of attempts
+ */
+export const retryJob = async (jobId: string): Promise<Job> =>
+  prisma.job.update({
+    where: { id: jobId },
+    data: {
+      status: 'queued',
+      attempts: 0,
+      runAt: new Date(),
+      lockedAt: null,
+    },
+  });
+
+// Claim up to `limit` due jobs, including running jobs whose worker appears to have died
+const claimDueJobs = async (limit: number): Promise<Job[]> => {
+  const staleBefore = new Date(Date.now() - JOB_SETTINGS.LOCK_TIMEOUT_MS);
+
+  // Crashed jobs that have no attempts left are failed rather than reclaimed
+  await prisma.job.updateMany({
+    where: {
+      status: 'running',
+      lockedAt: { lt: staleBefore },
+      attempts: { gte: prisma.job.fields.maxAttempts },
+    },
+    data: {
+      status: 'failed',
+      lockedAt: null,
+      lastError: 'Job timed out',
+    },
+  });
+
+  return prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'running', "lockedAt" = NOW(), "attempts" = "attempts" + 1, "updatedAt" = NOW()
+    WHERE "id" IN (
+      SELECT "id" FROM "Job"
+      WHERE ("status" = 'queued' AND "runAt" <= NOW())
+         OR ("status" = 'running' AND "lockedAt" < ${staleBefore})
+      ORDER BY "runAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *`;
+};
+
+// Run a claimed job and record its outcome
+const runJob = async (job: Job): Promise<'completed' | 'queued' | 'failed'> => {
+  const handler = JOB_HANDLERS[job.type as JobType];
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type "${job.type}"`);
+    }
+
+    const result = await handler(job);
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: 'completed',
+        result: (result ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+        lastError: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      },
+    });
+
+    return 'completed';
+  } catch (error) {
+    console.error(`Job ${job.id} (${job.type}) failed:`, error);
+
+    const update = getFailedJobUpdate(job, error);
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { ...update, lockedAt: null },
+    });
+
+    return update.status as 'queued' | 'failed';
+  }
+};
+
+/**
+ * Claim and run due jobs until the queue is empty or `maxJobs` have run
+ */
+export const processDueJobs = async (maxJobs = 20) => {
+  const summary = { processed: 0, completed: 0, retrying: 0, failed: 0 };
+
+  while (summary.processed < maxJobs) {
+    const jobs = await claimDueJobs(Math.min(JOB_SETTINGS.BATCH_SIZE, maxJobs - summary.processed));
+    if (jobs.length === 0) break;
+
+    for (let i = 0; i < jobs.length; i++) {
+      const outcome = await runJob(jobs[i]);
+      summary.processed++;
+      if (outcome === 'completed') summary.completed++;
+      else if (outcome === 'queued') summary.retrying++;
+      else summary.failed++;
+    }
+  }
+
+  return summary;
+};
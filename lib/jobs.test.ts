@@ -0,0 +1,69 @@
+import { JOB_SETTINGS, JobSummary, getFailedJobUpdate, getLatestJobsByPodcast, getRetryDelay } from './jobs';
+
+const job = (overrides: Partial<JobSummary>): JobSummary => ({
+  id: 'job',
+  type: 'transcription',
+  status: 'completed',
+  attempts: 1,
+  maxAttempts: 3,
+  lastError: null,
+  runAt: '2025-03-26T10:00:00.000Z',
+  createdAt: '2025-03-26T10:00:00.000Z',
+  completedAt: null,
+  podcastId: 'podcast-1',
+  ...overrides,
+});
+
+describe('getRetryDelay', () => {
+  it('doubles the delay after each failed attempt', () => {
+    expect(getRetryDelay(1)).toBe(JOB_SETTINGS.RETRY_BASE_DELAY_MS);
+    expect(getRetryDelay(2)).toBe(JOB_SETTINGS.RETRY_BASE_DELAY_MS * 2);
+    expect(getRetryDelay(3)).toBe(JOB_SETTINGS.RETRY_BASE_DELAY_MS * 4);
+  });
+
+  it('caps the delay', () => {
+    expect(getRetryDelay(20)).toBe(JOB_SETTINGS.RETRY_MAX_DELAY_MS);
+  });
+});
+
+describe('getFailedJobUpdate', () => {
+  const now = new Date('2025-03-26T10:00:00.000Z');
+
+  it('requeues the job with backoff while attempts remain', () => {
+    const update = getFailedJobUpdate({ attempts: 1, maxAttempts: 3 }, new Error('ffmpeg exited with code 1'), now);
+
+    expect(update.status).toBe('queued');
+    expect(update.runAt.getTime()).toBe(now.getTime() + JOB_SETTINGS.RETRY_BASE_DELAY_MS);
+    expect(update.lastError).toBe('ffmpeg exited with code 1');
+  });
+
+  it('fails the job once attempts are used up', () => {
+    const update = getFailedJobUpdate({ attempts: 3, maxAttempts: 3 }, new Error('Model not found'), now);
+
+    expect(update.status).toBe('failed');
+    expect(update.lastError).toBe('Model not found');
+  });
+
+  it('truncates long errors and handles non-Error values', () => {
+    const long = getFailedJobUpdate({ attempts: 1, maxAttempts: 3 }, new Error('x'.repeat(5000)), now);
+    expect(long.lastError).toHaveLength(JOB_SETTINGS.MAX_ERROR_LENGTH);
+
+    expect(getFailedJobUpdate({ attempts: 1, maxAttempts: 3 }, 'timeout', now).lastError).toBe('timeout');
+    expect(getFailedJobUpdate({ attempts: 1, maxAttempts: 3 }, new Error(''), now).lastError).toBe('Unknown error');
+  });
+});
+
+describe('getLatestJobsByPodcast', () => {
+  it('keeps the most recent job of the type for each podcast', () => {
+    const older = job({ id: 'older', status: 'failed', createdAt: '2025-03-26T10:00:00.000Z' });
+    const newer = job({ id: 'newer', status: 'queued', createdAt: '2025-03-26T11:00:00.000Z' });
+    const other = job({ id: 'other', podcastId: 'podcast-2' });
+    const unowned = job({ id: 'unowned', podcastId: null });
+
+    const latest = getLatestJobsByPodcast([newer, older, other, unowned], 'transcription');
+
+    expect(Object.keys(latest).sort()).toEqual(['podcast-1', 'podcast-2']);
+    expect(latest['podcast-1'].id).toBe('newer');
+    expect(latest['podcast-2'].id).toBe('other');
+  });
+});
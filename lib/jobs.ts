@@ -0,0 +1,85 @@
+/**
+ * Background job rules
+ * Shared by the job queue (lib/jobQueue.ts), the jobs API and the dashboard.
+ * Failed attempts are retried with exponential backoff until maxAttempts is reached,
+ * after which the job stays failed with its last error until it is retried by hand.
+ */
+
+export const JOB_TYPES = ['transcription', 'audio-processing', 'edit-render', 'session-mixdown'] as const;
+
+export type JobType = typeof JOB_TYPES[number];
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export const JOB_SETTINGS = {
+  MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 60 * 1000, // 1 minute, doubled on every failed attempt
+  RETRY_MAX_DELAY_MS: 60 * 60 * 1000, // 1 hour
+  LOCK_TIMEOUT_MS: 30 * 60 * 1000, // Running jobs not finished after this are treated as crashed
+  BATCH_SIZE: 5,
+  MAX_ERROR_LENGTH: 1000,
+};
+
+export interface JobSummary {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAt: string;
+  createdAt: string;
+  completedAt: string | null;
+  podcastId: string | null;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(
+    JOB_SETTINGS.RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)),
+    JOB_SETTINGS.RETRY_MAX_DELAY_MS
+  );
+
+/**
+ * State a job moves to after an attempt throws
+ */
+export const getFailedJobUpdate = (
+  job: { attempts: number; maxAttempts: number },
+  error: unknown,
+  now: Date = new Date()
+): { status: JobStatus; runAt: Date; lastError: string } => {
+  const message = error instanceof Error ? error.message : String(error);
+  const lastError = message.slice(0, JOB_SETTINGS.MAX_ERROR_LENGTH) || 'Unknown error';
+
+  if (job.attempts >= job.maxAttempts) {
+    return { status: 'failed', runAt: now, lastError };
+  }
+
+  return {
+    status: 'queued',
+    runAt: new Date(now.getTime() + getRetryDelay(job.attempts)),
+    lastError,
+  };
+};
+
+/**
+ * Most recent job of the given type per podcast
+ */
+export const getLatestJobsByPodcast = (jobs: JobSummary[], type: JobType): Record<string, JobSummary> => {
+  const latest: Record<string, JobSummary> = {};
+
+  jobs.forEach(job => {
+    if (job.type !== type || !job.podcastId) return;
+
+    const current = latest[job.podcastId];
+    if (!current || new Date(job.createdAt) > new Date(current.createdAt)) {
+      latest[job.podcastId] = job;
+    }
+  });
+
+  return latest;
+};
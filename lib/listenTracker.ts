@@ -0,0 +1,88 @@
+/**
+ * Client-side listen tracking
+ * Reports start, periodic progress and completion of an <audio> element to the
+ * listen ingestion endpoint so plays are counted server-side.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { LISTEN_SETTINGS, ListenEvent } from './listens';
+
+/**
+ * Attach listen tracking to an audio element for the given podcast.
+ * Returns a function that detaches all listeners and stops the heartbeat.
+ */
+export const trackListening = (audio: HTMLAudioElement, podcastId: string): (() => void) => {
+  const sessionId = uuidv4();
+  const endpoint = `/api/podcasts/${encodeURIComponent(podcastId)}/listens`;
+  let started = false;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  const send = (event: ListenEvent, useBeacon = false) => {
+    const body = JSON.stringify({
+      event,
+      sessionId,
+      position: Math.floor(audio.currentTime || 0),
+    });
+
+    // Beacons survive page unloads where a normal fetch would be cancelled
+    if (useBeacon && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+      navigator.sendBeacon(endpoint, body);
+      return;
+    }
+
+    fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true,
+    }).catch(error => {
+      console.warn('Failed to report listen event:', error);
+    });
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+  };
+
+  const handlePlay = () => {
+    if (!started) {
+      started = true;
+      send('start');
+    }
+
+    stopHeartbeat();
+    heartbeat = setInterval(() => {
+      if (!audio.paused) send('progress');
+    }, LISTEN_SETTINGS.HEARTBEAT_INTERVAL_SECONDS * 1000);
+  };
+
+  const handlePause = () => {
+    stopHeartbeat();
+    if (started && !audio.ended) send('progress');
+  };
+
+  const handleEnded = () => {
+    stopHeartbeat();
+    if (started) send('complete');
+  };
+
+  const handlePageHide = () => {
+    if (started && !audio.paused) send('progress', true);
+  };
+
+  audio.addEventListener('play', handlePlay);
+  audio.addEventListener('pause', handlePause);
+  audio.addEventListener('ended', handleEnded);
+  window.addEventListener('pagehide', handlePageHide);
+
+  return () => {
+    stopHeartbeat();
+    audio.removeEventListener('play', handlePlay);
+    audio.removeEventListener('pause', handlePause);
+    audio.removeEventListener('ended', handleEnded);
+    window.removeEventListener('pagehide', handlePageHide);
+  };
+};
@@ -0,0 +1,60 @@
+import { INITIAL_LISTEN_PROGRESS, LISTEN_SETTINGS, applyListenEvent, markListenedSegments, qualifiesAsPlay } from './listens';
+
+describe('listens', () => {
+  it('accumulates listened time from regular heartbeats', () => {
+    let progress = applyListenEvent(INITIAL_LISTEN_PROGRESS, 'start', 0);
+    [15, 30, 45, 60].forEach(position => {
+      progress = applyListenEvent(progress, 'progress', position);
+    });
+
+    expect(progress.listenedSeconds).toBe(60);
+    expect(progress.maxPosition).toBe(60);
+    expect(qualifiesAsPlay(progress)).toBe(true);
+  });
+
+  it('ignores seeks forward and replays', () => {
+    let progress = applyListenEvent(INITIAL_LISTEN_PROGRESS, 'start', 0);
+    progress = applyListenEvent(progress, 'progress', 10);
+    progress = applyListenEvent(progress, 'progress', 10 + LISTEN_SETTINGS.MAX_HEARTBEAT_GAP_SECONDS + 100);
+    progress = applyListenEvent(progress, 'progress', 5);
+
+    expect(progress.listenedSeconds).toBe(10);
+    expect(progress.lastPosition).toBe(5);
+    expect(qualifiesAsPlay(progress)).toBe(false);
+  });
+
+  it('counts a completed session only when it listened to most of a short episode', () => {
+    let progress = applyListenEvent(INITIAL_LISTEN_PROGRESS, 'start', 0, 20);
+    progress = applyListenEvent(progress, 'progress', 15, 20);
+    progress = applyListenEvent(progress, 'complete', 20, 20);
+
+    expect(progress.completed).toBe(true);
+    expect(qualifiesAsPlay(progress, 20)).toBe(true);
+    expect(qualifiesAsPlay(progress, null)).toBe(false);
+
+    // Seeking to the end of a long episode isn't a play
+    let skipped = applyListenEvent(INITIAL_LISTEN_PROGRESS, 'start', 0, 1800);
+    skipped = applyListenEvent(skipped, 'progress', 10, 1800);
+    skipped = applyListenEvent(skipped, 'complete', 1800, 1800);
+
+    expect(skipped.completed).toBe(true);
+    expect(qualifiesAsPlay(skipped, 1800)).toBe(false);
+  });
+
+  it('marks the 5% segments covered by listened spans', () => {
+    expect(markListenedSegments(0, 0, 10, 200)).toBe(0b1);
+    expect(markListenedSegments(0b1, 25, 45, 200)).toBe(0b11101);
+    expect(markListenedSegments(0, 190, 250, 200)).toBe(1 << 19);
+    expect(markListenedSegments(0, 0, 10, null)).toBe(0);
+  });
+
+  it('records coverage only for listened time, not seeks', () => {
+    let progress = applyListenEvent(INITIAL_LISTEN_PROGRESS, 'start', 0, 300);
+    progress = applyListenEvent(progress, 'progress', 15, 300);
+    progress = applyListenEvent(progress, 'progress', 200, 300);
+    progress = applyListenEvent(progress, 'progress', 215, 300);
+
+    // 0-15s is segment 0, 200-215s spans segments 13 and 14 (15s each)
+    expect(progress.coverage).toBe((1 << 0) | (1 << 13) | (1 << 14));
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Listen tracking rules
+ * Shared by the listen ingestion route and the client-side player tracker.
+ * A playback session counts as a play once it has covered QUALIFYING_SECONDS of
+ * audio (or reached the end of a shorter episode after listening to most of it), and
+ * only one play is counted per listener per
+ * episode inside DEDUPE_WINDOW_MS, following the IAB podcast measurement guidelines.
+ */
+
+export const LISTEN_SETTINGS = {
+  QUALIFYING_SECONDS: 60,
+  // Share of a shorter episode that a completed session must have listened to to count
+  COMPLETED_SHARE: 0.9,
+  DEDUPE_WINDOW_MS: 24 * 60 * 60 * 1000, // 24 hours
+  HEARTBEAT_INTERVAL_SECONDS: 15,
+  // Largest forward jump between heartbeats still treated as listening (allows 2x playback); bigger jumps are seeks
+  MAX_HEARTBEAT_GAP_SECONDS: 35,
+  // Episodes are split into this many equal segments for retention curves (5% each)
+  RETENTION_SEGMENTS: 20,
+};
+
+export const LISTEN_EVENTS = ['start', 'progress', 'complete'] as const;
+
+export type ListenEvent = typeof LISTEN_EVENTS[number];
+
+export interface ListenProgress {
+  listenedSeconds: number;
+  lastPosition: number;
+  maxPosition: number;
+  completed: boolean;
+  coverage: number; // Bitmask of listened retention segments
+}
+
+export const INITIAL_LISTEN_PROGRESS: ListenProgress = {
+  listenedSeconds: 0,
+  lastPosition: 0,
+  maxPosition: 0,
+  completed: false,
+  coverage: 0,
+};
+
+/**
+ * Mark the retention segments overlapped by a listened span [from, to) of an
+ * episode lasting `duration` seconds
+ */
+export const markListenedSegments = (
+  coverage: number,
+  from: number,
+  to: number,
+  duration?: number | null
+): number => {
+  if (!duration || duration <= 0 || to <= from || from >= duration) return coverage;
+
+  const segments = LISTEN_SETTINGS.RETENTION_SEGMENTS;
+  const first = Math.max(0, Math.floor((from / duration) * segments));
+  const last = Math.min(segments - 1, Math.ceil((to / duration) * segments) - 1);
+
+  let marked = coverage;
+  for (let segment = first; segment <= last; segment++) {
+    marked |= 1 << segment;
+  }
+  return marked;
+};
+
+/**
+ * Fold a player event into the session's progress.
+ * Only forward movement within the heartbeat allowance adds to the listened time,
+ * so seeking ahead or replaying never inflates it. When the episode duration is
+ * known, the same spans are recorded in the retention coverage.
+ */
+export const applyListenEvent = (
+  progress: ListenProgress,
+  event: ListenEvent,
+  position: number,
+  duration?: number | null
+): ListenProgress => {
+  const safePosition = Math.max(0, Math.floor(position || 0));
+
+  if (event === 'start') {
+    return {
+      listenedSeconds: progress.listenedSeconds,
+      lastPosition: safePosition,
+      maxPosition: Math.max(progress.maxPosition, safePosition),
+      completed: progress.completed,
+      coverage: progress.coverage,
+    };
+  }
+
+  const delta = safePosition - progress.lastPosition;
+  const listened = delta > 0 && delta <= LISTEN_SETTINGS.MAX_HEARTBEAT_GAP_SECONDS ? delta : 0;
+
+  return {
+    listenedSeconds: progress.listenedSeconds + listened,
+    lastPosition: safePosition,
+    maxPosition: Math.max(progress.maxPosition, safePosition),
+    completed: progress.completed || event === 'complete',
+    coverage: listened > 0
+      ? markListenedSegments(progress.coverage, progress.lastPosition, safePosition, duration)
+      : progress.coverage,
+  };
+};
+
+/**
+ * Whether a session has done enough to count as a play. Reaching the end only counts
+ * when the listened time covers the episode, so seeking to the end doesn't.
+ */
+export const qualifiesAsPlay = (progress: ListenProgress, duration?: number | null): boolean =>
+  progress.listenedSeconds >= LISTEN_SETTINGS.QUALIFYING_SECONDS ||
+  (progress.completed && Boolean(duration) && progress.listenedSeconds >= duration * LISTEN_SETTINGS.COMPLETED_SHARE);
@@ -0,0 +1,63 @@
+import { canAccessPodcast, getRenditionUrl, getVisiblePodcastsWhere, parseMediaRendition, withMediaUrls } from './media';
+
+const privatePodcast = {
+  id: 'pod 1',
+  userId: 'owner',
+  isPublic: false,
+  status: 'published',
+  audioUrl: 'https://cdn.example.com/podcasts/owner/a.webm',
+  audioMp3Url: 'https://cdn.example.com/podcasts/owner/processed/a.mp3',
+  audioAacUrl: null,
+};
+
+describe('media', () => {
+  it('only lets owners access private podcasts', () => {
+    expect(canAccessPodcast(privatePodcast, 'owner')).toBe(true);
+    expect(canAccessPodcast(privatePodcast, 'someone-else')).toBe(false);
+    expect(canAccessPodcast(privatePodcast, null)).toBe(false);
+    expect(canAccessPodcast({ ...privatePodcast, isPublic: true }, null)).toBe(true);
+  });
+
+  it('hides unreleased podcasts from everyone but the owner', () => {
+    const scheduled = { ...privatePodcast, isPublic: true, status: 'scheduled' };
+
+    expect(canAccessPodcast(scheduled, null)).toBe(false);
+    expect(canAccessPodcast(scheduled, 'owner')).toBe(true);
+  });
+
+  it('lists private and unreleased podcasts only for their owner', () => {
+    expect(getVisiblePodcastsWhere(null)).toEqual({ isPublic: true, status: 'published' });
+    expect(getVisiblePodcastsWhere('owner')).toEqual({
+      OR: [{ isPublic: true, status: 'published' }, { userId: 'owner' }],
+    });
+  });
+
+  it('hides the storage URLs of private podcasts', () => {
+    expect(withMediaUrls(privatePodcast)).toEqual({
+      ...privatePodcast,
+      audioUrl: '/api/media/pod%201',
+      audioMp3Url: '/api/media/pod%201?rendition=mp3',
+      audioAacUrl: null,
+    });
+
+    const publicPodcast = { ...privatePodcast, isPublic: true };
+    expect(withMediaUrls(publicPodcast)).toBe(publicPodcast);
+
+    const scheduledPodcast = { ...publicPodcast, status: 'scheduled' };
+    expect(withMediaUrls(scheduledPodcast).audioUrl).toBe('/api/media/pod%201');
+
+    // Drafts may not have audio yet
+    expect(withMediaUrls({ ...privatePodcast, audioUrl: '' }).audioUrl).toBe('');
+  });
+
+  it('resolves renditions', () => {
+    expect(parseMediaRendition(null)).toBe('original');
+    expect(parseMediaRendition('aac')).toBe('aac');
+    expect(parseMediaRendition('flac')).toBeNull();
+
+    expect(getRenditionUrl(privatePodcast, 'original')).toBe(privatePodcast.audioUrl);
+    expect(getRenditionUrl(privatePodcast, 'mp3')).toBe(privatePodcast.audioMp3Url);
+    expect(getRenditionUrl(privatePodcast, 'aac')).toBeNull();
+    expect(getRenditionUrl({ ...privatePodcast, audioUrl: '' }, 'original')).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Episode media access
+ * Private and unreleased episodes never expose their storage URLs: API responses point
+ * their audio at /api/media/[podcastId], which checks that the viewer may listen and then
+ * redirects to a short-lived signed URL from the storage driver.
+ */
+
+export const MEDIA_RENDITIONS = ['original', 'mp3', 'aac'] as const;
+
+export type MediaRendition = typeof MEDIA_RENDITIONS[number];
+
+export const MEDIA_SETTINGS = {
+  SIGNED_URL_EXPIRY: 15 * 60, // Seconds; long enough to start playback, short enough not to be worth sharing
+};
+
+interface PodcastAccess {
+  userId: string;
+  isPublic: boolean;
+  status: string;
+}
+
+interface PodcastMedia extends PodcastAccess {
+  id: string;
+  audioUrl: string;
+  audioMp3Url?: string | null;
+  audioAacUrl?: string | null;
+}
+
+// Podcasts everyone may see: public and already released
+export const PUBLISHED_PODCASTS_WHERE = { isPublic: true, status: 'published' };
+
+/**
+ * Whether a viewer (null when signed out) may see and listen to a podcast.
+ * Private, draft and scheduled episodes are only visible to their owner.
+ */
+export const canAccessPodcast = (podcast: PodcastAccess, viewerId?: string | null): boolean =>
+  (podcast.isPublic && podcast.status === 'published') || (Boolean(viewerId) && podcast.userId === viewerId);
+
+/**
+ * Prisma filter for the podcasts a viewer may see in listings
+ */
+export const getVisiblePodcastsWhere = (viewerId?: string | null) =>
+  viewerId ? { OR: [PUBLISHED_PODCASTS_WHERE, { userId: viewerId }] } : PUBLISHED_PODCASTS_WHERE;
+
+export const getMediaUrl = (podcastId: string, rendition: MediaRendition = 'original'): string =>
+  rendition === 'original'
+    ? `/api/media/${encodeURIComponent(podcastId)}`
+    : `/api/media/${encodeURIComponent(podcastId)}?rendition=${rendition}`;
+
+/**
+ * Replace the storage URLs of a podcast that isn't released to everyone (private, draft or
+ * scheduled) with authorized media URLs before returning it
+ */
+export const withMediaUrls = <T extends PodcastMedia>(podcast: T): T => {
+  if (canAccessPodcast(podcast, null)) return podcast;
+
+  return {
+    ...podcast,
+    audioUrl: podcast.audioUrl ? getMediaUrl(podcast.id) : podcast.audioUrl,
+    audioMp3Url: podcast.audioMp3Url ? getMediaUrl(podcast.id, 'mp3') : podcast.audioMp3Url,
+    audioAacUrl: podcast.audioAacUrl ? getMediaUrl(podcast.id, 'aac') : podcast.audioAacUrl,
+  };
+};
+
+export const parseMediaRendition = (value: string | null): MediaRendition | null => {
+  const rendition = value || 'original';
+  return (MEDIA_RENDITIONS as readonly string[]).includes(rendition) ? rendition as MediaRendition : null;
+};
+
+/**
+ * Stored URL of a rendition, or null when it has not been generated
+ */
+export const getRenditionUrl = (podcast: PodcastMedia, rendition: MediaRendition): string | null => {
+  switch (rendition) {
+    case 'mp3':
+      return podcast.audioMp3Url || null;
+    case 'aac':
+      return podcast.audioAacUrl || null;
+    default:
+      return podcast.audioUrl || null;
+  }
+};
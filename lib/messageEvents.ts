@@ -0,0 +1,260 @@
+/**
+ * Message events
+ * Moves participants' read and delivery cursors, and publishes new messages (by id), read
+ * and delivery receipts, typing indicators and unread counts to the participants of a
+ * conversation through pub/sub. Publishing is best effort: a failure is logged and never
+ * fails the request that sent or read the messages.
+ */
+
+import prisma from './prismadb';
+import { getPubSub } from './pubsub';
+import {
+  MESSAGE_INCLUDE,
+  MessageSummary,
+  MessagingEvent,
+  PublishedMessagingEvent,
+  getUserChannel,
+  toMessageSummary,
+} from './messages';
+
+/**
+ * Messages sent to a user in any of their conversations after their read cursor, or
+ * after they joined if they haven't read anything; system messages (membership changes)
+ * don't count
+ */
+export const getUnreadCount = async (userId: string): Promise<number> => {
+  const [{ count }] = await prisma.$queryRaw<{ count: number }[]>`
+    SELECT COUNT(*)::int AS count
+    FROM "Message" m
+    JOIN "ConversationParticipant" cp
+      ON cp."conversationId" = m."conversationId" AND cp."userId" = ${userId}
+    WHERE m."senderId" <> ${userId}
+      AND m."type" = 'text'
+      AND m."createdAt" > COALESCE(cp."lastReadAt", cp."joinedAt")
+  `;
+
+  return count;
+};
+
+/**
+ * Unread messages in each of the given conversations that has any, in one query
+ */
+export const getUnreadCounts = async (userId: string, conversationIds: string[]): Promise<Record<string, number>> => {
+  if (conversationIds.length === 0) return {};
+
+  const rows = await prisma.$queryRaw<{ conversationId: string; count: number }[]>`
+    SELECT m."conversationId", COUNT(*)::int AS count
+    FROM "Message" m
+    JOIN "ConversationParticipant" cp
+      ON cp."conversationId" = m."conversationId" AND cp."userId" = ${userId}
+    WHERE m."conversationId" = ANY(${conversationIds})
+      AND m."senderId" <> ${userId}
+      AND m."type" = 'text'
+      AND m."createdAt" > COALESCE(cp."lastReadAt", cp."joinedAt")
+    GROUP BY m."conversationId"
+  `;
+
+  const counts: Record<string, number> = {};
+  rows.forEach(row => {
+    counts[row.conversationId] = row.count;
+  });
+  return counts;
+};
+
+const publishToUser = (userId: string, event: PublishedMessagingEvent) =>
+  getPubSub().publish(getUserChannel(userId), event);
+
+const publishToOthers = (participantIds: string[], userId: string, event: PublishedMessagingEvent) =>
+  Promise.all(
+    participantIds
+      .filter(participantId => participantId !== userId)
+      .map(participantId => publishToUser(participantId, event))
+  );
+
+/**
+ * Turn an event received from pub/sub into the one sent to the browser, loading a new
+ * message from its id. Null when the message has been deleted since.
+ */
+export const loadMessagingEvent = async (event: PublishedMessagingEvent): Promise<MessagingEvent | null> => {
+  if (event.type !== 'message') return event;
+
+  const message = await prisma.message.findUnique({
+    where: { id: event.messageId },
+    include: MESSAGE_INCLUDE
+  });
+  return message ? { type: 'message', message: toMessageSummary(message) } : null;
+};
+
+const publishUnreadCount = async (userId: string) =>
+  publishToUser(userId, { type: 'unread', count: await getUnreadCount(userId) });
+
+const getParticipantIds = async (conversationId: string): Promise<string[]> => {
+  const participants = await prisma.conversationParticipant.findMany({
+    where: { conversationId },
+    select: { userId: true }
+  });
+  return participants.map(participant => participant.userId);
+};
+
+/**
+ * Move a participant's read cursor to a message, and their delivery cursor with it.
+ * Cursors only move forward, so a stale tab can't un-read anything. Returns whether the
+ * read cursor moved.
+ */
+const advanceReadCursor = async (
+  conversationId: string,
+  userId: string,
+  message: { id: string; createdAt: Date }
+): Promise<boolean> => {
+  const [read] = await prisma.$transaction([
+    prisma.conversationParticipant.updateMany({
+      where: {
+        conversationId,
+        userId,
+        OR: [{ lastReadAt: null }, { lastReadAt: { lt: message.createdAt } }]
+      },
+      data: { lastReadMessageId: message.id, lastReadAt: message.createdAt }
+    }),
+    prisma.conversationParticipant.updateMany({
+      where: {
+        conversationId,
+        userId,
+        OR: [{ lastDeliveredAt: null }, { lastDeliveredAt: { lt: message.createdAt } }]
+      },
+      data: { lastDeliveredAt: message.createdAt }
+    })
+  ]);
+
+  return read.count > 0;
+};
+
+/**
+ * Push a new message to everyone in its conversation, and the recipients' unread counts.
+ * The sender has read their own message, so their cursor moves to it quietly.
+ */
+export const publishNewMessage = async (message: MessageSummary, participantIds: string[]): Promise<void> => {
+  try {
+    await advanceReadCursor(message.conversationId, message.senderId, {
+      id: message.id,
+      createdAt: new Date(message.createdAt),
+    });
+    await Promise.all(participantIds.map(userId => publishToUser(userId, { type: 'message', messageId: message.id })));
+    await Promise.all(
+      participantIds
+        .filter(userId => userId !== message.senderId)
+        .map(publishUnreadCount)
+    );
+  } catch (error) {
+    console.error('Error publishing message events:', error);
+  }
+};
+
+/**
+ * Mark a conversation read up to a message (its latest by default), then tell the other
+ * participants (read receipts) and the reader's other tabs (unread count). Returns the
+ * message the cursor points at, or null if there is no such message in the conversation.
+ */
+export const markConversationRead = async (
+  conversationId: string,
+  userId: string,
+  participantIds: string[],
+  messageId?: string
+): Promise<{ id: string; createdAt: Date } | null> => {
+  const message = await prisma.message.findFirst({
+    where: messageId ? { id: messageId, conversationId } : { conversationId },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, createdAt: true }
+  });
+
+  if (!message) return null;
+
+  if (await advanceReadCursor(conversationId, userId, message)) {
+    try {
+      await publishToOthers(participantIds, userId, {
+        type: 'read',
+        conversationId,
+        userId,
+        lastReadMessageId: message.id,
+        lastReadAt: message.createdAt.toISOString(),
+      });
+      await publishUnreadCount(userId);
+    } catch (error) {
+      console.error('Error publishing read receipts:', error);
+    }
+  }
+
+  return message;
+};
+
+/**
+ * Record that a conversation's messages up to `deliveredAt` reached one of the user's
+ * devices, and tell the other participants (delivery receipts)
+ */
+export const markDelivered = async (conversationId: string, userId: string, deliveredAt: Date): Promise<void> => {
+  const { count } = await prisma.conversationParticipant.updateMany({
+    where: {
+      conversationId,
+      userId,
+      OR: [{ lastDeliveredAt: null }, { lastDeliveredAt: { lt: deliveredAt } }]
+    },
+    data: { lastDeliveredAt: deliveredAt }
+  });
+
+  if (count === 0) return;
+
+  try {
+    await publishToOthers(await getParticipantIds(conversationId), userId, {
+      type: 'delivered',
+      conversationId,
+      userId,
+      deliveredAt: deliveredAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('Error publishing delivery receipts:', error);
+  }
+};
+
+/**
+ * Mark everything in a user's conversations delivered, when they come online
+ */
+export const markAllDelivered = async (userId: string): Promise<void> => {
+  const updated = await prisma.$queryRaw<{ conversationId: string; lastDeliveredAt: Date }[]>`
+    UPDATE "ConversationParticipant" cp
+    SET "lastDeliveredAt" = c."lastMessageAt"
+    FROM "Conversation" c
+    WHERE c."id" = cp."conversationId"
+      AND cp."userId" = ${userId}
+      AND (cp."lastDeliveredAt" IS NULL OR cp."lastDeliveredAt" < c."lastMessageAt")
+    RETURNING cp."conversationId", cp."lastDeliveredAt"
+  `;
+
+  try {
+    await Promise.all(updated.map(async row =>
+      publishToOthers(await getParticipantIds(row.conversationId), userId, {
+        type: 'delivered',
+        conversationId: row.conversationId,
+        userId,
+        deliveredAt: row.lastDeliveredAt.toISOString(),
+      })
+    ));
+  } catch (error) {
+    console.error('Error publishing delivery receipts:', error);
+  }
+};
+
+/**
+ * Show or hide a typing indicator for the other participants; nothing is stored
+ */
+export const publishTyping = (
+  conversationId: string,
+  user: { id: string; name: string | null },
+  isTyping: boolean,
+  participantIds: string[]
+) =>
+  publishToOthers(participantIds, user.id, {
+    type: 'typing',
+    conversationId,
+    userId: user.id,
+    name: user.name,
+    isTyping,
+  });
@@ -0,0 +1,247 @@
+import {
+  MESSAGE_SETTINGS,
+  decodePageCursor,
+  encodePageCursor,
+  formatNameList,
+  getMessagePreview,
+  getNewMemberData,
+  getSeenBy,
+  getUserChannel,
+  isDeliveredToAll,
+  parseAttachment,
+  parseGroupFields,
+  parseMemberIds,
+  parseMessageContent,
+  parsePageParams,
+  pickNextAdmin,
+  toMessageSummary,
+  toParticipantSummaries,
+} from './messages';
+
+describe('messages', () => {
+  it('validates message content', () => {
+    expect(parseMessageContent('  Hi there ')).toEqual({ data: 'Hi there' });
+    expect(parseMessageContent('   ').error).toBeDefined();
+    expect(parseMessageContent(42).error).toBeDefined();
+    expect(parseMessageContent('x'.repeat(MESSAGE_SETTINGS.MAX_CONTENT_LENGTH + 1)).error).toBeDefined();
+    expect(parseMessageContent(undefined, true)).toEqual({ data: '' });
+  });
+
+  it('serializes messages for events', () => {
+    const sender = { id: 'u1', name: 'Ada', image: null };
+
+    expect(toMessageSummary({
+      id: 'm1',
+      content: 'Hello',
+      createdAt: new Date('2025-04-13T10:00:00Z'),
+      type: 'text',
+      senderId: 'u1',
+      conversationId: 'c1',
+      sender,
+    })).toEqual({
+      id: 'm1',
+      content: 'Hello',
+      createdAt: '2025-04-13T10:00:00.000Z',
+      type: 'text',
+      senderId: 'u1',
+      conversationId: 'c1',
+      sender,
+      attachment: null,
+    });
+    expect(getUserChannel('u1')).toBe('user:u1');
+  });
+
+  it('validates group details', () => {
+    expect(parseGroupFields({ title: ' Producers ', image: 'https://example.com/a.png' }, false))
+      .toEqual({ data: { title: 'Producers', image: 'https://example.com/a.png' } });
+    expect(parseGroupFields({}, false).error).toBeDefined();
+    expect(parseGroupFields({ title: 'Producers', image: 'javascript:alert(1)' }, false).error).toBeDefined();
+
+    expect(parseGroupFields({ image: null }, true)).toEqual({ data: { image: null } });
+    expect(parseGroupFields({}, true).error).toBeDefined();
+  });
+
+  it('validates member ids', () => {
+    expect(parseMemberIds(['a', 'b', 'a'])).toEqual({ data: ['a', 'b'] });
+    expect(parseMemberIds([]).error).toBeDefined();
+    expect(parseMemberIds(['a', 3]).error).toBeDefined();
+    expect(parseMemberIds(Array.from({ length: MESSAGE_SETTINGS.MAX_GROUP_MEMBERS + 1 }, (_, i) => `u${i}`)).error)
+      .toBeDefined();
+  });
+
+  it('lists members with their roles and names for system messages', () => {
+    expect(toParticipantSummaries([{
+      role: 'admin',
+      lastReadMessageId: 'm1',
+      lastReadAt: new Date('2025-04-13T10:00:00Z'),
+      lastDeliveredAt: null,
+      user: { id: 'u1', name: 'Ada', image: null },
+    }])).toEqual([{
+      id: 'u1',
+      name: 'Ada',
+      image: null,
+      role: 'admin',
+      lastReadMessageId: 'm1',
+      lastReadAt: '2025-04-13T10:00:00.000Z',
+      lastDeliveredAt: null,
+    }]);
+
+    expect(formatNameList(['Ada'])).toBe('Ada');
+    expect(formatNameList(['Ada', null])).toBe('Ada and Someone');
+    expect(formatNameList(['Ada', 'Bo', 'Cy'])).toBe('Ada, Bo and Cy');
+  });
+
+  it('promotes the longest-standing member when no admin is left', () => {
+    const joined = (day: number) => new Date(`2025-04-0${day}T00:00:00Z`);
+
+    expect(pickNextAdmin([
+      { userId: 'b', role: 'member', joinedAt: joined(3) },
+      { userId: 'c', role: 'member', joinedAt: joined(2) },
+    ])).toBe('c');
+    expect(pickNextAdmin([
+      { userId: 'b', role: 'admin', joinedAt: joined(3) },
+      { userId: 'c', role: 'member', joinedAt: joined(2) },
+    ])).toBeNull();
+    expect(pickNextAdmin([])).toBeNull();
+  });
+
+  it('works out who has seen and received messages', () => {
+    const member = (id: string, lastReadAt: string | null, lastDeliveredAt: string | null) => ({
+      id,
+      name: id,
+      image: null,
+      role: 'member' as const,
+      lastReadMessageId: null,
+      lastReadAt,
+      lastDeliveredAt,
+    });
+    const messages = [
+      { id: 'm1', createdAt: '2025-04-13T10:00:00.000Z', senderId: 'ada' },
+      { id: 'm2', createdAt: '2025-04-13T10:01:00.000Z', senderId: 'bo' },
+      { id: 'm3', createdAt: '2025-04-13T10:02:00.000Z', senderId: 'ada' },
+    ];
+    const participants = [
+      member('ada', '2025-04-13T10:02:00.000Z', '2025-04-13T10:02:00.000Z'),
+      member('bo', '2025-04-13T10:02:00.000Z', '2025-04-13T10:02:00.000Z'),
+      member('cy', '2025-04-13T10:01:00.000Z', '2025-04-13T10:02:00.000Z'),
+      member('di', null, '2025-04-13T10:01:00.000Z'),
+    ];
+
+    const seenBy = getSeenBy(messages, participants, 'ada');
+    expect(Object.keys(seenBy).sort()).toEqual(['m2', 'm3']);
+    expect(seenBy.m3.map(participant => participant.id)).toEqual(['bo']);
+    expect(seenBy.m2.map(participant => participant.id)).toEqual(['cy']);
+
+    // Bo's own message doesn't count as the newest one Bo has seen
+    expect(getSeenBy(messages.slice(0, 2), participants, 'ada').m1.map(participant => participant.id))
+      .toEqual(['bo']);
+
+    expect(isDeliveredToAll(messages[1], participants)).toBe(true);
+    expect(isDeliveredToAll(messages[2], participants)).toBe(false);
+  });
+
+  it('starts new members with the history before they joined read', () => {
+    const joinedAt = new Date('2025-04-13T10:01:30.000Z');
+    const data = getNewMemberData('c1', 'eve', joinedAt);
+    expect(data).toEqual({
+      conversationId: 'c1',
+      userId: 'eve',
+      role: 'member',
+      joinedAt,
+      lastReadAt: joinedAt,
+      lastDeliveredAt: joinedAt,
+    });
+
+    const [eve] = toParticipantSummaries([{ ...data, lastReadMessageId: null, user: { id: 'eve', name: 'Eve', image: null } }]);
+    const before = { id: 'm1', createdAt: '2025-04-13T10:01:00.000Z', senderId: 'ada' };
+    const after = { id: 'm2', createdAt: '2025-04-13T10:02:00.000Z', senderId: 'ada' };
+
+    expect(isDeliveredToAll(before, [eve])).toBe(true);
+    expect(isDeliveredToAll(after, [eve])).toBe(false);
+    expect(getSeenBy([before, after], [eve], 'ada').m1.map(participant => participant.id)).toEqual(['eve']);
+  });
+
+  it('pages with cursors', () => {
+    const at = new Date('2025-04-13T10:00:00Z');
+    const cursor = encodePageCursor(at, 'cm1');
+
+    expect(decodePageCursor(cursor)).toEqual({ at, id: 'cm1' });
+    expect(decodePageCursor('cm1')).toBeNull();
+    expect(decodePageCursor('yesterday_cm1')).toBeNull();
+
+    expect(parsePageParams(new URLSearchParams(`cursor=${encodeURIComponent(cursor)}&limit=10`), 50))
+      .toEqual({ data: { cursor: { at, id: 'cm1' }, limit: 10 } });
+    expect(parsePageParams(new URLSearchParams('limit=1000'), 50))
+      .toEqual({ data: { cursor: null, limit: MESSAGE_SETTINGS.MAX_PAGE_SIZE } });
+    expect(parsePageParams(new URLSearchParams('limit=abc'), 50).data.limit).toBe(50);
+    expect(parsePageParams(new URLSearchParams('cursor=nope'), 50).error).toBeDefined();
+  });
+
+  it('validates attachments', () => {
+    expect(parseAttachment({ type: 'voice', url: 'https://cdn.example.com/a.webm', duration: 12.34 }))
+      .toEqual({ data: { type: 'voice', url: 'https://cdn.example.com/a.webm', duration: 12.3 } });
+    expect(parseAttachment({ type: 'voice', url: 'https://cdn.example.com/a.webm', duration: 0 }).error).toBeDefined();
+    expect(parseAttachment({ type: 'voice', duration: 5 }).error).toBeDefined();
+
+    expect(parseAttachment({ type: 'podcast', podcastId: 'p1' })).toEqual({ data: { type: 'podcast', podcastId: 'p1' } });
+    expect(parseAttachment({ type: 'podcast' }).error).toBeDefined();
+    expect(parseAttachment({ type: 'video', podcastId: 'p1' }).error).toBeDefined();
+
+    expect(parseAttachment({ type: 'clip', podcastId: 'p1', startTime: 65, endTime: 130 }))
+      .toEqual({ data: { type: 'clip', podcastId: 'p1', startTime: 65, endTime: 130 } });
+    expect(parseAttachment({ type: 'clip', podcastId: 'p1', startTime: 130, endTime: 65 }).error).toBeDefined();
+    expect(parseAttachment({
+      type: 'clip',
+      podcastId: 'p1',
+      startTime: 0,
+      endTime: MESSAGE_SETTINGS.MAX_CLIP_SECONDS + 1,
+    }).error).toBeDefined();
+  });
+
+  it('summarizes attachments', () => {
+    const podcast = {
+      id: 'p1',
+      title: 'Episode 1',
+      coverImage: null,
+      duration: 600,
+      audioUrl: 'https://cdn.example.com/p1.webm',
+      audioMp3Url: 'https://cdn.example.com/p1.mp3',
+      isPublic: true,
+      status: 'published',
+      userId: 'u2',
+      user: { id: 'u2', name: 'Bo' },
+    };
+    const message = {
+      id: 'm1',
+      content: '',
+      createdAt: new Date('2025-04-13T10:00:00Z'),
+      type: 'text',
+      senderId: 'u1',
+      conversationId: 'c1',
+      sender: { id: 'u1', name: 'Ada', image: null },
+      attachment: { type: 'clip', url: null, duration: null, startTime: 65, endTime: 130, podcast },
+    };
+
+    const summary = toMessageSummary(message);
+    expect(summary.attachment.podcast).toEqual({
+      id: 'p1',
+      title: 'Episode 1',
+      coverImage: null,
+      duration: 600,
+      audioUrl: 'https://cdn.example.com/p1.mp3',
+      user: { id: 'u2', name: 'Bo' },
+    });
+    expect(getMessagePreview(summary)).toBe('Clip of Episode 1 (1:05-2:10)');
+
+    // Episodes that have since been made private aren't shown
+    const hidden = toMessageSummary({ ...message, attachment: { ...message.attachment, podcast: { ...podcast, isPublic: false } } });
+    expect(hidden.attachment.podcast).toBeNull();
+    expect(getMessagePreview(hidden)).toBe('Clip of an episode');
+
+    expect(getMessagePreview({
+      content: '',
+      attachment: { type: 'voice', url: 'https://cdn.example.com/a.webm', duration: 42, startTime: null, endTime: null, podcast: null },
+    })).toBe('Voice message (0:42)');
+    expect(getMessagePreview({ content: 'Listen to this', attachment: summary.attachment })).toBe('Listen to this');
+  });
+});
@@ -0,0 +1,473 @@
+/**
+ * Direct messages
+ * Shapes and validation shared by the messages API, its realtime event stream and the
+ * messages page. Each user has one pub/sub channel that carries every event for them.
+ * Conversations are either 1:1 or groups with a title, an avatar and admins who manage
+ * them; membership changes are recorded in the conversation as system messages.
+ * Each member has a read cursor (the newest message they've read) and a delivery cursor
+ * (when messages last reached one of their devices); typing indicators are never stored.
+ * Message history and the conversation list are paged newest first with opaque cursors.
+ * A message may carry one attachment: a voice note, an episode card or a clip of an episode.
+ */
+
+import { canAccessPodcast } from './media';
+import { getPlaybackAudioUrl } from './audio';
+import { formatTimestamp } from './transcripts';
+
+export const MESSAGE_SETTINGS = {
+  MAX_CONTENT_LENGTH: 2000, // Characters
+  MAX_TITLE_LENGTH: 100,
+  MAX_IMAGE_URL_LENGTH: 2048,
+  MAX_GROUP_MEMBERS: 50,
+  MESSAGE_PAGE_SIZE: 50,
+  CONVERSATION_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+  MAX_VOICE_NOTE_SECONDS: 5 * 60,
+  MAX_CLIP_SECONDS: 5 * 60,
+  TYPING_THROTTLE_MS: 3000, // A typing member repeats the indicator this often
+  TYPING_TIMEOUT_MS: 6000, // An indicator that isn't repeated disappears after this
+};
+
+export const MESSAGE_TYPES = ['text', 'system'] as const;
+
+export type MessageType = typeof MESSAGE_TYPES[number];
+
+export const ATTACHMENT_TYPES = ['voice', 'podcast', 'clip'] as const;
+
+export type AttachmentType = typeof ATTACHMENT_TYPES[number];
+
+export const CONVERSATION_ROLES = ['admin', 'member'] as const;
+
+export type ConversationRole = typeof CONVERSATION_ROLES[number];
+
+export interface MessageSender {
+  id: string;
+  name: string | null;
+  image: string | null;
+}
+
+// An episode shared in a message, as shown on its card
+export interface AttachedPodcast {
+  id: string;
+  title: string;
+  coverImage: string | null;
+  duration: number | null;
+  audioUrl: string;
+  user: { id: string; name: string | null };
+}
+
+export interface MessageAttachmentSummary {
+  type: AttachmentType;
+  url: string | null; // Voice notes
+  duration: number | null; // Voice notes
+  startTime: number | null; // Clips
+  endTime: number | null; // Clips
+  podcast: AttachedPodcast | null; // Episode cards and clips; null once the episode is deleted or no longer public
+}
+
+export interface MessageSummary {
+  id: string;
+  content: string;
+  createdAt: string;
+  type: MessageType;
+  senderId: string;
+  conversationId: string;
+  sender: MessageSender;
+  attachment: MessageAttachmentSummary | null;
+}
+
+// A conversation member as listed with the conversation, with their cursors
+export interface ConversationParticipantSummary extends MessageSender {
+  role: ConversationRole;
+  lastReadMessageId: string | null;
+  lastReadAt: string | null;
+  lastDeliveredAt: string | null;
+}
+
+// Events pushed to a user's event stream; the SSE event name is the type
+export type MessagingEvent =
+  | { type: 'message'; message: MessageSummary } // Sent or received, so other tabs stay in step
+  | { type: 'read'; conversationId: string; userId: string; lastReadMessageId: string; lastReadAt: string }
+  | { type: 'delivered'; conversationId: string; userId: string; deliveredAt: string }
+  | { type: 'typing'; conversationId: string; userId: string; name: string | null; isTyping: boolean }
+  | { type: 'unread'; count: number };
+
+// What travels over pub/sub: a new message goes by id, since with its sender and attachment
+// it could outgrow the Postgres NOTIFY payload limit, and event streams load it (see
+// lib/messageEvents.ts)
+export type PublishedMessagingEvent =
+  | Exclude<MessagingEvent, { type: 'message' }>
+  | { type: 'message'; messageId: string };
+
+export const MESSAGING_EVENT_TYPES: MessagingEvent['type'][] = ['message', 'read', 'delivered', 'typing', 'unread'];
+
+// Prisma include for the sender and attachment shown with each message
+export const MESSAGE_INCLUDE = {
+  sender: { select: { id: true, name: true, image: true } },
+  attachment: {
+    include: {
+      podcast: {
+        select: {
+          id: true,
+          title: true,
+          coverImage: true,
+          duration: true,
+          audioUrl: true,
+          audioMp3Url: true,
+          isPublic: true,
+          status: true,
+          userId: true,
+          user: { select: { id: true, name: true } },
+        },
+      },
+    },
+  },
+};
+
+// Prisma include for the members listed with a conversation, oldest first
+export const CONVERSATION_PARTICIPANTS_INCLUDE = {
+  participants: {
+    orderBy: { joinedAt: 'asc' as const },
+    include: { user: { select: { id: true, name: true, image: true } } },
+  },
+};
+
+interface AttachmentRecord {
+  type: string;
+  url: string | null;
+  duration: number | null;
+  startTime: number | null;
+  endTime: number | null;
+  podcast: {
+    id: string;
+    title: string;
+    coverImage: string | null;
+    duration: number | null;
+    audioUrl: string;
+    audioMp3Url: string | null;
+    isPublic: boolean;
+    status: string;
+    userId: string;
+    user: { id: string; name: string | null };
+  } | null;
+}
+
+interface MessageRecord {
+  id: string;
+  content: string;
+  createdAt: Date;
+  type: string;
+  senderId: string;
+  conversationId: string;
+  sender: MessageSender;
+  attachment?: AttachmentRecord | null;
+}
+
+// Episodes stay playable in a conversation only while everyone may listen to them
+const toAttachedPodcast = (podcast: AttachmentRecord['podcast']): AttachedPodcast | null =>
+  podcast && canAccessPodcast(podcast)
+    ? {
+      id: podcast.id,
+      title: podcast.title,
+      coverImage: podcast.coverImage,
+      duration: podcast.duration,
+      audioUrl: getPlaybackAudioUrl(podcast),
+      user: podcast.user,
+    }
+    : null;
+
+export const toMessageSummary = (message: MessageRecord): MessageSummary => ({
+  id: message.id,
+  content: message.content,
+  createdAt: message.createdAt.toISOString(),
+  type: message.type as MessageType,
+  senderId: message.senderId,
+  conversationId: message.conversationId,
+  sender: message.sender,
+  attachment: message.attachment
+    ? {
+      type: message.attachment.type as AttachmentType,
+      url: message.attachment.url,
+      duration: message.attachment.duration,
+      startTime: message.attachment.startTime,
+      endTime: message.attachment.endTime,
+      podcast: toAttachedPodcast(message.attachment.podcast),
+    }
+    : null,
+});
+
+export const getUserChannel = (userId: string): string => `user:${userId}`;
+
+/**
+ * Validate the content of a message being sent; it may be left out when the message has
+ * an attachment
+ */
+export const parseMessageContent = (content: unknown, hasAttachment = false): { data?: string; error?: string } => {
+  const text = typeof content === 'string' ? content.trim() : '';
+  if (!text) {
+    return hasAttachment ? { data: '' } : { error: 'Message content is required' };
+  }
+
+  if (text.length > MESSAGE_SETTINGS.MAX_CONTENT_LENGTH) {
+    return { error: `Messages may be at most ${MESSAGE_SETTINGS.MAX_CONTENT_LENGTH} characters` };
+  }
+
+  return { data: text };
+};
+
+export type AttachmentInput =
+  | { type: 'voice'; url: string; duration: number }
+  | { type: 'podcast'; podcastId: string }
+  | { type: 'clip'; podcastId: string; startTime: number; endTime: number };
+
+/**
+ * Validate the attachment of a message being sent. Whether the voice note is the sender's
+ * own upload and the episode may be shared is checked against the database.
+ */
+export const parseAttachment = (attachment: any): { data?: AttachmentInput; error?: string } => {
+  if (!ATTACHMENT_TYPES.includes(attachment?.type)) {
+    return { error: `attachment.type must be one of: ${ATTACHMENT_TYPES.join(', ')}` };
+  }
+
+  if (attachment.type === 'voice') {
+    if (typeof attachment.url !== 'string' || !attachment.url) {
+      return { error: 'A voice note needs the url of the uploaded recording' };
+    }
+
+    const duration = Number(attachment.duration);
+    if (!isFinite(duration) || duration <= 0 || duration > MESSAGE_SETTINGS.MAX_VOICE_NOTE_SECONDS) {
+      return { error: `Voice notes may be at most ${MESSAGE_SETTINGS.MAX_VOICE_NOTE_SECONDS / 60} minutes long` };
+    }
+
+    return { data: { type: 'voice', url: attachment.url, duration: Math.round(duration * 10) / 10 } };
+  }
+
+  if (typeof attachment.podcastId !== 'string' || !attachment.podcastId) {
+    return { error: 'attachment.podcastId is required' };
+  }
+
+  if (attachment.type === 'podcast') {
+    return { data: { type: 'podcast', podcastId: attachment.podcastId } };
+  }
+
+  const startTime = Number(attachment.startTime);
+  const endTime = Number(attachment.endTime);
+  if (!isFinite(startTime) || !isFinite(endTime) || startTime < 0 || endTime <= startTime) {
+    return { error: 'A clip needs a startTime before its endTime, in seconds' };
+  }
+
+  if (endTime - startTime > MESSAGE_SETTINGS.MAX_CLIP_SECONDS) {
+    return { error: `Clips may be at most ${MESSAGE_SETTINGS.MAX_CLIP_SECONDS / 60} minutes long` };
+  }
+
+  return { data: { type: 'clip', podcastId: attachment.podcastId, startTime, endTime } };
+};
+
+/**
+ * One line describing a message for the conversation list, e.g. "Voice message (0:42)"
+ */
+export const getMessagePreview = (message: { content: string; attachment?: MessageAttachmentSummary | null }): string => {
+  const { attachment } = message;
+  if (!attachment || message.content) return message.content;
+
+  switch (attachment.type) {
+    case 'voice':
+      return `Voice message (${formatTimestamp(attachment.duration)})`;
+    case 'clip':
+      return attachment.podcast
+        ? `Clip of ${attachment.podcast.title} (${formatTimestamp(attachment.startTime)}-${formatTimestamp(attachment.endTime)})`
+        : 'Clip of an episode';
+    default:
+      return attachment.podcast ? `Shared ${attachment.podcast.title}` : 'Shared an episode';
+  }
+};
+
+interface ParticipantRecord {
+  role: string;
+  lastReadMessageId: string | null;
+  lastReadAt: Date | null;
+  lastDeliveredAt: Date | null;
+  user: MessageSender;
+}
+
+export const toParticipantSummaries = (participants: ParticipantRecord[]): ConversationParticipantSummary[] =>
+  participants.map(participant => ({
+    ...participant.user,
+    role: participant.role as ConversationRole,
+    lastReadMessageId: participant.lastReadMessageId,
+    lastReadAt: participant.lastReadAt ? participant.lastReadAt.toISOString() : null,
+    lastDeliveredAt: participant.lastDeliveredAt ? participant.lastDeliveredAt.toISOString() : null,
+  }));
+
+/**
+ * Who has seen what: each member other than `viewerId` is listed under the newest of
+ * `messages` from someone else that they have read, for "Seen by" lists. Keyed by message id.
+ */
+export const getSeenBy = (
+  messages: { id: string; createdAt: string; senderId: string }[],
+  participants: ConversationParticipantSummary[],
+  viewerId: string
+): Record<string, ConversationParticipantSummary[]> => {
+  const seenBy: Record<string, ConversationParticipantSummary[]> = {};
+
+  participants.forEach(participant => {
+    if (participant.id === viewerId || !participant.lastReadAt) return;
+    const readUpTo = new Date(participant.lastReadAt).getTime();
+
+    // Skipping their own messages, which they have read by writing them
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].senderId !== participant.id && new Date(messages[i].createdAt).getTime() <= readUpTo) {
+        seenBy[messages[i].id] = [...(seenBy[messages[i].id] || []), participant];
+        return;
+      }
+    }
+  });
+
+  return seenBy;
+};
+
+/**
+ * Whether a message has reached every other member of its conversation
+ */
+export const isDeliveredToAll = (
+  message: { createdAt: string; senderId: string },
+  participants: ConversationParticipantSummary[]
+): boolean => {
+  const sentAt = new Date(message.createdAt).getTime();
+  return participants
+    .filter(participant => participant.id !== message.senderId)
+    .every(participant => participant.lastDeliveredAt && new Date(participant.lastDeliveredAt).getTime() >= sentAt);
+};
+
+/**
+ * Validate a group's title and avatar (`image`, a URL or null). With `partial`, fields
+ * that are left out are left unchanged.
+ */
+export const parseGroupFields = (
+  body: any,
+  partial: boolean
+): { data?: { title?: string; image?: string | null }; error?: string } => {
+  const data: { title?: string; image?: string | null } = {};
+
+  if (body?.title !== undefined || !partial) {
+    const title = typeof body?.title === 'string' ? body.title.trim() : '';
+    if (!title || title.length > MESSAGE_SETTINGS.MAX_TITLE_LENGTH) {
+      return { error: `Title must be 1-${MESSAGE_SETTINGS.MAX_TITLE_LENGTH} characters` };
+    }
+    data.title = title;
+  }
+
+  if (body?.image !== undefined && body.image !== null && body.image !== '') {
+    if (
+      typeof body.image !== 'string' ||
+      body.image.length > MESSAGE_SETTINGS.MAX_IMAGE_URL_LENGTH ||
+      !/^https?:\/\//.test(body.image)
+    ) {
+      return { error: 'image must be an http(s) URL' };
+    }
+    data.image = body.image;
+  } else if (body?.image !== undefined) {
+    data.image = null;
+  }
+
+  if (partial && Object.keys(data).length === 0) {
+    return { error: 'Nothing to update' };
+  }
+
+  return { data };
+};
+
+/**
+ * Validate a list of user ids to add to a group, dropping duplicates
+ */
+export const parseMemberIds = (userIds: unknown): { data?: string[]; error?: string } => {
+  if (!Array.isArray(userIds) || userIds.length === 0 || userIds.some(id => typeof id !== 'string' || !id)) {
+    return { error: 'userIds must be a non-empty list of user ids' };
+  }
+
+  const unique = userIds.filter((id, index) => userIds.indexOf(id) === index) as string[];
+  if (unique.length > MESSAGE_SETTINGS.MAX_GROUP_MEMBERS) {
+    return { error: `A group may have at most ${MESSAGE_SETTINGS.MAX_GROUP_MEMBERS} members` };
+  }
+
+  return { data: unique };
+};
+
+/**
+ * "Ada", "Ada and Bo" or "Ada, Bo and Cy"
+ */
+export const formatNameList = (names: (string | null)[]): string => {
+  const labels = names.map(name => name || 'Someone');
+  return labels.length <= 1
+    ? labels.join('')
+    : `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+};
+
+/**
+ * The member to promote when the last admin leaves a group: whoever joined first
+ */
+export const pickNextAdmin = (
+  participants: { userId: string; role: string; joinedAt: Date }[]
+): string | null => {
+  if (participants.length === 0 || participants.some(participant => participant.role === 'admin')) {
+    return null;
+  }
+
+  return participants
+    .slice()
+    .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime())[0].userId;
+};
+
+/**
+ * Row for a member added to an existing group. Their read and delivery cursors start at
+ * their join time, so the history from before they joined isn't unread for them.
+ */
+export const getNewMemberData = (conversationId: string, userId: string, joinedAt: Date = new Date()) => ({
+  conversationId,
+  userId,
+  role: 'member',
+  joinedAt,
+  lastReadAt: joinedAt,
+  lastDeliveredAt: joinedAt,
+});
+
+// Where a page of messages or conversations ended: the last item's timestamp and id,
+// which break ties between items with the same timestamp
+export interface PageCursor {
+  at: Date;
+  id: string;
+}
+
+export const encodePageCursor = (at: Date, id: string): string => `${at.toISOString()}_${id}`;
+
+export const decodePageCursor = (cursor: string): PageCursor | null => {
+  const separator = cursor.indexOf('_');
+  if (separator === -1) return null;
+
+  const at = new Date(cursor.slice(0, separator));
+  const id = cursor.slice(separator + 1);
+  return isNaN(at.getTime()) || !id ? null : { at, id };
+};
+
+/**
+ * Parse the `cursor` (from the previous page's `nextCursor`) and `limit` parameters of a
+ * paged list
+ */
+export const parsePageParams = (
+  searchParams: URLSearchParams,
+  defaultLimit: number
+): { data?: { cursor: PageCursor | null; limit: number }; error?: string } => {
+  const rawCursor = searchParams.get('cursor');
+  const cursor = rawCursor ? decodePageCursor(rawCursor) : null;
+  if (rawCursor && !cursor) {
+    return { error: 'Invalid cursor' };
+  }
+
+  const limit = parseInt(searchParams.get('limit') || String(defaultLimit), 10);
+  return {
+    data: {
+      cursor,
+      limit: isNaN(limit) || limit < 1 ? defaultLimit : Math.min(limit, MESSAGE_SETTINGS.MAX_PAGE_SIZE),
+    },
+  };
+};
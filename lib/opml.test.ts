@@ -0,0 +1,56 @@
+import { buildOpml, extractUserIdFromUrl, parseOpml } from './opml';
+
+describe('opml', () => {
+  it('round-trips outlines through build and parse', () => {
+    const outlines = [
+      {
+        text: 'Alex & Friends',
+        xmlUrl: 'https://pods.example.com/api/users/user1/feed.xml',
+        htmlUrl: 'https://pods.example.com/profile/user1',
+      },
+    ];
+
+    const xml = buildOpml('My subscriptions', outlines, new Date('2025-03-01T00:00:00Z'));
+
+    expect(xml).toContain('<opml version="2.0">');
+    expect(xml).toContain('text="Alex &amp; Friends"');
+    expect(parseOpml(xml)).toEqual(outlines);
+  });
+
+  it('parses nested outlines from other podcast apps and skips folders', () => {
+    const xml = `<?xml version="1.0"?>
+      <opml version="1.1">
+        <body>
+          <outline text="feeds">
+            <outline type="rss" text='Daily News' xmlUrl="https://feeds.example.org/news?a=1&amp;b=2"/>
+            <outline type="rss" title="Only Title" xmlUrl="https://feeds.example.org/other" />
+          </outline>
+        </body>
+      </opml>`;
+
+    expect(parseOpml(xml)).toEqual([
+      { text: 'Daily News', xmlUrl: 'https://feeds.example.org/news?a=1&b=2', htmlUrl: undefined },
+      { text: 'Only Title', xmlUrl: 'https://feeds.example.org/other', htmlUrl: undefined },
+    ]);
+  });
+
+  it('decodes numeric character references outside the basic plane', () => {
+    const xml = `<opml version="2.0"><body>
+      <outline text="Pods &#x1F399;&#127911; &#xD800;&#x110000;" xmlUrl="https://feeds.example.org/emoji"/>
+    </body></opml>`;
+
+    expect(parseOpml(xml)[0].text).toBe('Pods \u{1F399}\u{1F3A7} &#xD800;&#x110000;');
+  });
+
+  it('rejects documents that are not OPML', () => {
+    expect(() => parseOpml('<rss></rss>')).toThrow('Not an OPML document');
+  });
+
+  it('extracts user ids from feed and profile URLs', () => {
+    expect(extractUserIdFromUrl('https://pods.example.com/api/users/abc123/feed.xml')).toBe('abc123');
+    expect(extractUserIdFromUrl('https://pods.example.com/profile/abc123?tab=about')).toBe('abc123');
+    expect(extractUserIdFromUrl('https://feeds.example.org/other')).toBeNull();
+    expect(extractUserIdFromUrl(undefined)).toBeNull();
+    expect(extractUserIdFromUrl('https://pods.example.com/profile/%E0')).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * OPML 2.0 import/export
+ * Serializes followed creators as podcast subscriptions and parses subscription
+ * lists exported from other podcast apps
+ */
+
+import { escapeXml } from './feed';
+
+export interface OpmlOutline {
+  text: string;
+  xmlUrl?: string;
+  htmlUrl?: string;
+}
+
+export type OpmlImportStatus = 'matched' | 'already_followed' | 'unmatched';
+
+export interface OpmlImportResult extends OpmlOutline {
+  status: OpmlImportStatus;
+  userId?: string;
+  reason?: string;
+}
+
+/**
+ * Render a list of subscriptions as an OPML 2.0 document
+ */
+export const buildOpml = (title: string, outlines: OpmlOutline[], dateCreated: Date = new Date()): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${dateCreated.toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+  ];
+
+  outlines.forEach(outline => {
+    const attributes = [
+      `type="rss"`,
+      `text="${escapeXml(outline.text)}"`,
+      `title="${escapeXml(outline.text)}"`,
+    ];
+    if (outline.xmlUrl) attributes.push(`xmlUrl="${escapeXml(outline.xmlUrl)}"`);
+    if (outline.htmlUrl) attributes.push(`htmlUrl="${escapeXml(outline.htmlUrl)}"`);
+    lines.push(`    <outline ${attributes.join(' ')} />`);
+  });
+
+  lines.push('  </body>');
+  lines.push('</opml>');
+
+  return lines.join('\n');
+};
+
+// Numeric references to invalid code points (surrogates, beyond U+10FFFF) are left as they are
+const decodeCharacterReference = (reference: string, codePoint: number): string =>
+  codePoint <= 0x10ffff && !(codePoint >= 0xd800 && codePoint <= 0xdfff)
+    ? String.fromCodePoint(codePoint)
+    : reference;
+
+const decodeXmlEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (reference, hex) => decodeCharacterReference(reference, parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (reference, dec) => decodeCharacterReference(reference, parseInt(dec, 10)))
+    .replace(/&amp;/g, '&');
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attributePattern.exec(source)) !== null) {
+    const value = match[3] !== undefined ? match[3] : match[4];
+    attributes[match[1]] = decodeXmlEntities(value);
+  }
+
+  return attributes;
+};
+
+/**
+ * Extract feed outlines from an OPML document.
+ * Grouping outlines (folders without an xmlUrl or htmlUrl) are skipped, their children are kept.
+ */
+export const parseOpml = (xml: string): OpmlOutline[] => {
+  if (!/<opml[\s>]/i.test(xml)) {
+    throw new Error('Not an OPML document');
+  }
+
+  const outlines: OpmlOutline[] = [];
+  const outlinePattern = /<outline\b([^>]*?)\/?>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = outlinePattern.exec(xml)) !== null) {
+    const attributes = parseAttributes(match[1]);
+    const xmlUrl = attributes.xmlUrl || attributes.xmlurl;
+    const htmlUrl = attributes.htmlUrl || attributes.htmlurl;
+
+    if (!xmlUrl && !htmlUrl) continue;
+
+    outlines.push({
+      text: attributes.text || attributes.title || xmlUrl || htmlUrl,
+      xmlUrl,
+      htmlUrl,
+    });
+  }
+
+  return outlines;
+};
+
+/**
+ * Find the user id referenced by one of this app's feed or profile URLs; malformed
+ * escapes reference nobody
+ */
+export const extractUserIdFromUrl = (url?: string): string | null => {
+  if (!url) return null;
+
+  const match = url.match(/\/api\/users\/([^/?#]+)\/feed\.xml/) || url.match(/\/profile\/([^/?#]+)/);
+  if (!match) return null;
+
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+};
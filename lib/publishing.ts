@@ -0,0 +1,75 @@
+/**
+ * Episode publishing
+ * Episodes are released immediately, saved as drafts or scheduled for a `publishAt` time.
+ * The /api/jobs/run cron releases scheduled episodes once their time has come; every
+ * release of a public episode notifies the creator's followers.
+ */
+
+import prisma from './prismadb';
+
+interface ReleasedEpisode {
+  id: string;
+  title: string;
+  userId: string;
+  isPublic: boolean;
+}
+
+/**
+ * Send a new_podcast notification to each of the creator's followers
+ */
+export const notifyFollowersOfEpisode = async (podcast: ReleasedEpisode): Promise<number> => {
+  // Private episodes are released silently
+  if (!podcast.isPublic) return 0;
+
+  const [creator, follows] = await Promise.all([
+    prisma.user.findUnique({ where: { id: podcast.userId }, select: { name: true } }),
+    prisma.follow.findMany({ where: { followingId: podcast.userId }, select: { followerId: true } }),
+  ]);
+
+  if (follows.length === 0) return 0;
+
+  const { count } = await prisma.notification.createMany({
+    data: follows.map(follow => ({
+      type: 'new_podcast',
+      content: `${creator?.name || 'Someone you follow'} published a new episode: "${podcast.title}"`,
+      userId: follow.followerId,
+      senderId: podcast.userId,
+    })),
+  });
+
+  return count;
+};
+
+/**
+ * Release scheduled episodes whose time has come and notify followers
+ */
+export const publishDueEpisodes = async (limit = 50): Promise<number> => {
+  const now = new Date();
+  const due = await prisma.podcast.findMany({
+    where: { status: 'scheduled', publishAt: { lte: now } },
+    orderBy: { publishAt: 'asc' },
+    take: limit,
+    select: { id: true, title: true, userId: true, isPublic: true },
+  });
+
+  let published = 0;
+
+  for (let i = 0; i < due.length; i++) {
+    try {
+      // Skip episodes another worker released or the creator rescheduled in the meantime
+      const { count } = await prisma.podcast.updateMany({
+        where: { id: due[i].id, status: 'scheduled', publishAt: { lte: now } },
+        data: { status: 'published' },
+      });
+
+      if (count === 1) {
+        published++;
+        await notifyFollowersOfEpisode(due[i]);
+      }
+    } catch (error) {
+      console.error(`Failed to publish podcast ${due[i].id}:`, error);
+    }
+  }
+
+  return published;
+};
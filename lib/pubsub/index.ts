@@ -0,0 +1,47 @@
+/**
+ * Pub/sub
+ * PUBSUB_DRIVER selects how realtime events reach the event streams that are open:
+ * "memory" (default) within one server process, or "postgres" across every instance
+ * with LISTEN/NOTIFY on PUBSUB_DATABASE_URL (falling back to DIRECT_URL, then DATABASE_URL).
+ */
+
+import { createMemoryPubSub } from './memory';
+import { createPostgresPubSub } from './postgres';
+import { PubSub } from './types';
+
+export type { PubSub, PubSubListener } from './types';
+
+export const PUBSUB_DRIVERS = ['memory', 'postgres'] as const;
+
+declare global {
+  var pubsub: PubSub | undefined;
+}
+
+const createPubSub = (): PubSub => {
+  const driver = process.env.PUBSUB_DRIVER || 'memory';
+
+  switch (driver) {
+    case 'memory':
+      return createMemoryPubSub();
+    case 'postgres': {
+      const connectionString = process.env.PUBSUB_DATABASE_URL || process.env.DIRECT_URL || process.env.DATABASE_URL;
+      if (!connectionString) {
+        throw new Error('PUBSUB_DRIVER "postgres" needs PUBSUB_DATABASE_URL, DIRECT_URL or DATABASE_URL');
+      }
+      return createPostgresPubSub(connectionString);
+    }
+    default:
+      throw new Error(`Unknown PUBSUB_DRIVER "${driver}" (expected one of: ${PUBSUB_DRIVERS.join(', ')})`);
+  }
+};
+
+/**
+ * The process-wide pub/sub; kept on globalThis so every route module shares the same
+ * subscribers and connection, including across hot reloads in development
+ */
+export const getPubSub = (): PubSub => {
+  if (!globalThis.pubsub) {
+    globalThis.pubsub = createPubSub();
+  }
+  return globalThis.pubsub;
+};
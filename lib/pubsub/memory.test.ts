@@ -0,0 +1,47 @@
+import { createMemoryPubSub } from './memory';
+
+describe('memory pub/sub', () => {
+  it('delivers messages to the subscribers of a channel as JSON', async () => {
+    const pubsub = createMemoryPubSub();
+    const received: unknown[] = [];
+    const other: unknown[] = [];
+
+    await pubsub.subscribe('user:a', message => received.push(message));
+    await pubsub.subscribe('user:b', message => other.push(message));
+
+    await pubsub.publish('user:a', { type: 'unread', at: new Date('2025-04-13T10:00:00Z') });
+
+    expect(received).toEqual([{ type: 'unread', at: '2025-04-13T10:00:00.000Z' }]);
+    expect(other).toEqual([]);
+  });
+
+  it('stops delivering after unsubscribing', async () => {
+    const pubsub = createMemoryPubSub();
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const unsubscribe = await pubsub.subscribe('user:a', first);
+    await pubsub.subscribe('user:a', second);
+    await unsubscribe();
+
+    await pubsub.publish('user:a', { count: 1 });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith({ count: 1 });
+  });
+
+  it('keeps delivering when a listener throws', async () => {
+    const pubsub = createMemoryPubSub();
+    const listener = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await pubsub.subscribe('user:a', () => {
+      throw new Error('broken');
+    });
+    await pubsub.subscribe('user:a', listener);
+    await pubsub.publish('user:a', 'hello');
+
+    expect(listener).toHaveBeenCalledWith('hello');
+    jest.restoreAllMocks();
+  });
+});
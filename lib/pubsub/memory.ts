@@ -0,0 +1,47 @@
+/**
+ * In-memory pub/sub
+ * Delivers messages to subscribers in the same process, so it only suits a single server
+ * and tests. Messages go through JSON like they do with the Postgres driver, so both
+ * deliver the same values (e.g. dates as ISO strings).
+ */
+
+import { PubSub, PubSubListener } from './types';
+
+export const createMemoryPubSub = (): PubSub => {
+  let listeners: Record<string, PubSubListener[]> = {};
+
+  return {
+    name: 'memory',
+
+    async publish(channel, message) {
+      const payload = JSON.stringify(message);
+      // Copy so listeners that unsubscribe while being called don't skip others
+      const current = (listeners[channel] || []).slice();
+
+      current.forEach(listener => {
+        try {
+          listener(JSON.parse(payload));
+        } catch (error) {
+          console.error(`Error delivering pub/sub message on ${channel}:`, error);
+        }
+      });
+    },
+
+    async subscribe(channel, listener) {
+      listeners[channel] = [...(listeners[channel] || []), listener];
+
+      return async () => {
+        const remaining = (listeners[channel] || []).filter(item => item !== listener);
+        if (remaining.length > 0) {
+          listeners[channel] = remaining;
+        } else {
+          delete listeners[channel];
+        }
+      };
+    },
+
+    async close() {
+      listeners = {};
+    },
+  };
+};
@@ -0,0 +1,121 @@
+/**
+ * Postgres pub/sub
+ * Shares messages between server instances with LISTEN/NOTIFY. Each process keeps one
+ * connection that listens on a single Postgres channel; the app's channel travels in the
+ * payload, so subscribing doesn't need a round trip. Connect directly rather than through
+ * a transaction-mode pooler such as pgbouncer, which doesn't support LISTEN.
+ * Messages published while the connection is being re-established are lost, so
+ * subscribers should reload what they show when their event stream reconnects.
+ */
+
+import { Client } from 'pg';
+import { PubSub, PubSubListener } from './types';
+
+const NOTIFY_CHANNEL = 'app_pubsub';
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+export const MAX_NOTIFY_PAYLOAD_BYTES = 7999;
+
+const RECONNECT_DELAY_MS = 1000;
+
+export const createPostgresPubSub = (connectionString: string): PubSub => {
+  let listeners: Record<string, PubSubListener[]> = {};
+  let connection: Promise<Client> | null = null;
+  let isClosed = false;
+
+  const deliver = (channel: string, message: unknown) => {
+    (listeners[channel] || []).slice().forEach(listener => {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error(`Error delivering pub/sub message on ${channel}:`, error);
+      }
+    });
+  };
+
+  const connect = (): Promise<Client> => {
+    if (connection) return connection;
+
+    const client = new Client({ connectionString });
+
+    client.on('notification', notification => {
+      if (notification.channel !== NOTIFY_CHANNEL || !notification.payload) return;
+
+      try {
+        const { channel, message } = JSON.parse(notification.payload);
+        deliver(channel, message);
+      } catch (error) {
+        console.error('Invalid pub/sub notification:', error);
+      }
+    });
+
+    client.on('error', error => {
+      console.error('Pub/sub connection error:', error);
+      connection = null;
+      client.end().catch(() => undefined);
+
+      // Keep listening for the subscribers that are still there
+      if (!isClosed && Object.keys(listeners).length > 0) {
+        setTimeout(() => {
+          connect().catch(reconnectError => console.error('Error reconnecting pub/sub:', reconnectError));
+        }, RECONNECT_DELAY_MS);
+      }
+    });
+
+    const connecting = client.connect()
+      .then(() => client.query(`LISTEN ${NOTIFY_CHANNEL}`))
+      .then(() => client);
+
+    connection = connecting.catch(error => {
+      connection = null;
+      client.end().catch(() => undefined);
+      throw error;
+    });
+
+    return connection;
+  };
+
+  return {
+    name: 'postgres',
+
+    async publish(channel, message) {
+      const payload = JSON.stringify({ channel, message });
+      if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD_BYTES) {
+        throw new Error(`Pub/sub message on ${channel} is larger than ${MAX_NOTIFY_PAYLOAD_BYTES} bytes`);
+      }
+
+      const client = await connect();
+      await client.query('SELECT pg_notify($1, $2)', [NOTIFY_CHANNEL, payload]);
+    },
+
+    async subscribe(channel, listener) {
+      listeners[channel] = [...(listeners[channel] || []), listener];
+
+      try {
+        await connect();
+      } catch (error) {
+        listeners[channel] = (listeners[channel] || []).filter(item => item !== listener);
+        throw error;
+      }
+
+      return async () => {
+        const remaining = (listeners[channel] || []).filter(item => item !== listener);
+        if (remaining.length > 0) {
+          listeners[channel] = remaining;
+        } else {
+          delete listeners[channel];
+        }
+      };
+    },
+
+    async close() {
+      isClosed = true;
+      listeners = {};
+      const current = connection;
+      connection = null;
+      if (current) {
+        await current.then(client => client.end()).catch(() => undefined);
+      }
+    },
+  };
+};
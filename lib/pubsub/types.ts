@@ -0,0 +1,13 @@
+export type PubSubListener = (message: unknown) => void;
+
+/**
+ * Fan-out of messages to whoever is subscribed to a channel, e.g. the event streams of
+ * one user. Messages must be JSON-serializable and are delivered as parsed JSON.
+ */
+export interface PubSub {
+  name: string;
+  publish(channel: string, message: unknown): Promise<void>;
+  // Resolves once listening; the returned function stops it
+  subscribe(channel: string, listener: PubSubListener): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
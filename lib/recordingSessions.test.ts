@@ -0,0 +1,109 @@
+import {
+  SESSION_SETTINGS,
+  buildMixdownArgs,
+  estimateClockOffset,
+  getTrackDelays,
+  getTrackOffset,
+  parseRelaySignal,
+  parseSessionFields,
+  parseTrackFields,
+  toSessionSummary,
+} from './recordingSessions';
+
+const now = new Date('2025-04-13T10:00:00Z');
+
+const session = {
+  id: 'session-1',
+  title: 'Interview',
+  inviteToken: 'abc123',
+  status: 'stopped',
+  startAt: new Date('2025-04-13T09:30:00Z'),
+  stoppedAt: new Date('2025-04-13T09:55:00Z'),
+  createdAt: new Date('2025-04-13T09:00:00Z'),
+  hostId: 'host',
+  podcastId: null,
+  participants: [
+    {
+      id: 'p1',
+      role: 'host',
+      lastSeenAt: new Date(now.getTime() - 1000),
+      trackUrl: 'https://example.com/host.webm',
+      trackDuration: 1500,
+      user: { id: 'host', name: 'Host', image: null },
+    },
+    {
+      id: 'p2',
+      role: 'guest',
+      lastSeenAt: new Date(now.getTime() - SESSION_SETTINGS.PRESENCE_TIMEOUT_MS),
+      trackUrl: null,
+      trackDuration: null,
+      user: { id: 'guest', name: 'Guest', image: null },
+    },
+  ],
+};
+
+describe('recordingSessions', () => {
+  it('summarizes presence and tracks, showing the invite only to the host', () => {
+    const summary = toSessionSummary(session, 'host', now);
+    expect(summary.invitePath).toBe('/sessions/join/abc123');
+    expect(summary.startAt).toBe('2025-04-13T09:30:00.000Z');
+    expect(summary.participants.map(p => [p.id, p.isOnline, p.hasTrack])).toEqual([
+      ['p1', true, true],
+      ['p2', false, false],
+    ]);
+
+    expect(toSessionSummary(session, 'guest', now).invitePath).toBeNull();
+  });
+
+  it('validates titles, relayed signals and tracks', () => {
+    expect(parseSessionFields({ title: '  Interview ' })).toEqual({ data: { title: 'Interview' } });
+    expect(parseSessionFields({ title: '' }).error).toBeDefined();
+
+    expect(parseRelaySignal({ type: 'offer', toId: 'p2', payload: { sdp: 'v=0' } }).data).toEqual({
+      type: 'offer',
+      toId: 'p2',
+      payload: { sdp: 'v=0' },
+    });
+    expect(parseRelaySignal({ type: 'start', toId: 'p2', payload: {} }).error).toBeDefined();
+    expect(parseRelaySignal({ type: 'answer', payload: {} }).error).toBeDefined();
+    expect(parseRelaySignal({
+      type: 'ice-candidate',
+      toId: 'p2',
+      payload: 'x'.repeat(SESSION_SETTINGS.MAX_SIGNAL_SIZE),
+    }).error).toBeDefined();
+
+    expect(parseTrackFields({ url: 'https://example.com/a.webm', offset: '0.1234', duration: 60 }).data)
+      .toEqual({ url: 'https://example.com/a.webm', offset: 0.123, duration: 60 });
+    expect(parseTrackFields({ url: 'https://example.com/a.webm', offset: 120, duration: 60 }).error).toBeDefined();
+    expect(parseTrackFields({ url: 'https://example.com/a.webm', offset: 0, duration: 0 }).error).toBeDefined();
+  });
+
+  it('works out how far a track started after the shared start time', () => {
+    // The server answered at 10_500 by its clock, halfway through a 10_000-10_200 round trip
+    const clockOffset = estimateClockOffset(10_000, 10_200, 10_500);
+    expect(clockOffset).toBe(400);
+
+    const startAt = new Date(20_000).toISOString();
+    expect(getTrackOffset(19_850, clockOffset, startAt)).toBe(0.25);
+    expect(getTrackOffset(19_500, clockOffset, startAt)).toBe(-0.1);
+  });
+
+  it('delays tracks relative to the earliest one', () => {
+    expect(getTrackDelays([0.25, -0.1, 0.4])).toEqual([0.35, 0, 0.5]);
+  });
+
+  it('builds an ffmpeg mixdown that lines the tracks up', () => {
+    const args = buildMixdownArgs([
+      { path: '/tmp/host.webm', offset: 0.1 },
+      { path: '/tmp/guest.webm', offset: 0.35 },
+    ], '/tmp/out.mp3');
+
+    expect(args).toEqual(expect.arrayContaining(['-i', '/tmp/host.webm', '/tmp/out.mp3']));
+    expect(args[args.indexOf('-filter_complex') + 1]).toBe(
+      '[0:a]aformat=sample_rates=48000:channel_layouts=stereo[t0];' +
+      '[1:a]aformat=sample_rates=48000:channel_layouts=stereo,adelay=250|250[t1];' +
+      '[t0][t1]amix=inputs=2:duration=longest:normalize=0[out]'
+    );
+    expect(() => buildMixdownArgs([], '/tmp/out.mp3')).toThrow();
+  });
+});
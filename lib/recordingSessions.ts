@@ -0,0 +1,246 @@
+/**
+ * Remote recording sessions
+ * A host invites guests with a link; every participant's browser records their own
+ * microphone and uploads it progressively through /api/uploads, so each track is local
+ * quality rather than what came through the call. The server relays signals between
+ * participants (presence, start/stop and WebRTC call setup, see lib/sessionSignals.ts),
+ * records when the recording started and mixes the aligned tracks into a draft episode
+ * with the session-mixdown job (lib/sessionMixdown.ts).
+ */
+
+export const SESSION_STATUSES = ['waiting', 'recording', 'stopped'] as const;
+
+export type SessionStatus = typeof SESSION_STATUSES[number];
+
+export const SESSION_ROLES = ['host', 'guest'] as const;
+
+export type SessionRole = typeof SESSION_ROLES[number];
+
+// Signals participants send each other to set up the call; the server sends the rest
+export const RELAY_SIGNAL_TYPES = ['offer', 'answer', 'ice-candidate'] as const;
+
+export type RelaySignalType = typeof RELAY_SIGNAL_TYPES[number];
+
+export type ServerSignalType = 'joined' | 'presence' | 'start' | 'stop' | 'track' | 'mixdown';
+
+export const SESSION_SETTINGS = {
+  TOKEN_BYTES: 18, // 24 URL-safe characters
+  MAX_TITLE_LENGTH: 100,
+  MAX_PARTICIPANTS: 8,
+  START_LEAD_MS: 3000, // Countdown before recording starts, so every participant receives the start in time
+  PRESENCE_TIMEOUT_MS: 15 * 1000, // Participants not seen for this long are shown as offline
+  MAX_SIGNAL_SIZE: 16 * 1024, // Bytes of JSON; SDP offers are a few kilobytes
+  SIGNAL_RETENTION_MS: 24 * 60 * 60 * 1000,
+  MAX_TRACK_OFFSET: 60, // Seconds a track may start before or after the session's startAt
+  SAMPLE_RATE: 48000,
+  OUTPUT_ARGS: ['-c:a', 'libmp3lame', '-b:a', '192k'],
+  OUTPUT_EXTENSION: 'mp3',
+  OUTPUT_CONTENT_TYPE: 'audio/mpeg',
+};
+
+export interface SessionParticipantSummary {
+  id: string;
+  role: SessionRole;
+  user: { id: string; name: string | null; image: string | null };
+  isOnline: boolean;
+  hasTrack: boolean;
+  trackDuration: number | null;
+}
+
+export interface RecordingSessionSummary {
+  id: string;
+  title: string;
+  status: SessionStatus;
+  startAt: string | null;
+  stoppedAt: string | null;
+  createdAt: string;
+  hostId: string;
+  podcastId: string | null;
+  invitePath: string | null; // Only shown to the host
+  participants: SessionParticipantSummary[];
+}
+
+// A signal as delivered to a participant's event stream
+export interface SessionSignalEvent {
+  id: number;
+  type: RelaySignalType | ServerSignalType;
+  payload: any;
+  fromId: string | null;
+  createdAt: string;
+}
+
+export interface SessionTrack {
+  path: string; // Local copy of the recording
+  offset: number; // Seconds after the session's startAt
+}
+
+interface ParticipantRecord {
+  id: string;
+  role: string;
+  lastSeenAt: Date;
+  trackUrl: string | null;
+  trackDuration: number | null;
+  user: { id: string; name: string | null; image: string | null };
+}
+
+interface SessionRecord {
+  id: string;
+  title: string;
+  inviteToken: string;
+  status: string;
+  startAt: Date | null;
+  stoppedAt: Date | null;
+  createdAt: Date;
+  hostId: string;
+  podcastId: string | null;
+  participants: ParticipantRecord[];
+}
+
+// Prisma include that loads what toSessionSummary needs
+export const SESSION_SUMMARY_INCLUDE = {
+  participants: {
+    orderBy: { joinedAt: 'asc' as const },
+    include: { user: { select: { id: true, name: true, image: true } } },
+  },
+};
+
+// Uses the global Web Crypto API so this module can also be imported by the session pages
+export const generateInviteToken = (): string =>
+  Buffer.from(crypto.getRandomValues(new Uint8Array(SESSION_SETTINGS.TOKEN_BYTES))).toString('base64url');
+
+export const getInvitePath = (token: string): string => `/sessions/join/${encodeURIComponent(token)}`;
+
+export const isParticipantOnline = (participant: { lastSeenAt: Date }, now: Date = new Date()): boolean =>
+  now.getTime() - participant.lastSeenAt.getTime() < SESSION_SETTINGS.PRESENCE_TIMEOUT_MS;
+
+export const toSessionSummary = (
+  session: SessionRecord,
+  viewerId: string,
+  now: Date = new Date()
+): RecordingSessionSummary => ({
+  id: session.id,
+  title: session.title,
+  status: session.status as SessionStatus,
+  startAt: session.startAt ? session.startAt.toISOString() : null,
+  stoppedAt: session.stoppedAt ? session.stoppedAt.toISOString() : null,
+  createdAt: session.createdAt.toISOString(),
+  hostId: session.hostId,
+  podcastId: session.podcastId,
+  invitePath: session.hostId === viewerId ? getInvitePath(session.inviteToken) : null,
+  participants: session.participants.map(participant => ({
+    id: participant.id,
+    role: participant.role as SessionRole,
+    user: participant.user,
+    isOnline: isParticipantOnline(participant, now),
+    hasTrack: Boolean(participant.trackUrl),
+    trackDuration: participant.trackDuration,
+  })),
+});
+
+/**
+ * Validate the body of POST /api/sessions
+ */
+export const parseSessionFields = (body: any): { data?: { title: string }; error?: string } => {
+  const title = typeof body?.title === 'string' ? body.title.trim() : '';
+  if (!title || title.length > SESSION_SETTINGS.MAX_TITLE_LENGTH) {
+    return { error: `Title must be 1-${SESSION_SETTINGS.MAX_TITLE_LENGTH} characters` };
+  }
+
+  return { data: { title } };
+};
+
+/**
+ * Validate a signal one participant sends another through POST /api/sessions/[id]/signals
+ */
+export const parseRelaySignal = (
+  body: any
+): { data?: { type: RelaySignalType; toId: string; payload: any }; error?: string } => {
+  if (!(RELAY_SIGNAL_TYPES as readonly string[]).includes(body?.type)) {
+    return { error: `type must be one of: ${RELAY_SIGNAL_TYPES.join(', ')}` };
+  }
+
+  if (typeof body.toId !== 'string' || !body.toId) {
+    return { error: 'toId must be the id of a participant' };
+  }
+
+  if (body.payload === undefined || JSON.stringify(body.payload).length > SESSION_SETTINGS.MAX_SIGNAL_SIZE) {
+    return { error: `payload is required and may be at most ${SESSION_SETTINGS.MAX_SIGNAL_SIZE} bytes` };
+  }
+
+  return { data: { type: body.type, toId: body.toId, payload: body.payload } };
+};
+
+/**
+ * Validate the track a participant submits after the recording stops
+ */
+export const parseTrackFields = (
+  body: any
+): { data?: { url: string; offset: number; duration: number }; error?: string } => {
+  if (typeof body?.url !== 'string' || !body.url) {
+    return { error: 'url must be the uploaded recording' };
+  }
+
+  const offset = Number(body.offset);
+  if (!isFinite(offset) || Math.abs(offset) > SESSION_SETTINGS.MAX_TRACK_OFFSET) {
+    return { error: `offset must be within ${SESSION_SETTINGS.MAX_TRACK_OFFSET} seconds of the start` };
+  }
+
+  const duration = Number(body.duration);
+  if (!isFinite(duration) || duration <= 0) {
+    return { error: 'duration must be a number of seconds' };
+  }
+
+  return { data: { url: body.url, offset: Math.round(offset * 1000) / 1000, duration } };
+};
+
+/**
+ * Difference between the server's clock and this device's (ms to add to Date.now()),
+ * from a request sent at `sentAt` and answered at `receivedAt` with the server's time.
+ * Assumes the request and response took equally long.
+ */
+export const estimateClockOffset = (sentAt: number, receivedAt: number, serverTime: number): number =>
+  Math.round(serverTime - (sentAt + receivedAt) / 2);
+
+/**
+ * Seconds a participant's recording started after the session's startAt,
+ * given when it started by the participant's clock and that clock's offset
+ */
+export const getTrackOffset = (recordingStartedAt: number, clockOffset: number, startAt: string): number =>
+  Math.round(recordingStartedAt + clockOffset - new Date(startAt).getTime()) / 1000;
+
+/**
+ * Delay (seconds) each track needs so that all of them line up, with the earliest at zero
+ */
+export const getTrackDelays = (offsets: number[]): number[] => {
+  const earliest = Math.min(...offsets);
+  return offsets.map(offset => Math.round((offset - earliest) * 1000) / 1000);
+};
+
+/**
+ * ffmpeg arguments that mix the participants' tracks, aligned by their offsets, into one MP3
+ */
+export const buildMixdownArgs = (tracks: SessionTrack[], outputPath: string): string[] => {
+  if (tracks.length === 0) {
+    throw new Error('A mixdown needs at least one track');
+  }
+
+  const delays = getTrackDelays(tracks.map(track => track.offset));
+  const filters = tracks.map((_, i) => {
+    const delay = Math.round(delays[i] * 1000);
+    return `[${i}:a]aformat=sample_rates=${SESSION_SETTINGS.SAMPLE_RATE}:channel_layouts=stereo` +
+      (delay > 0 ? `,adelay=${delay}|${delay}` : '') +
+      `[t${i}]`;
+  });
+  filters.push(`${tracks.map((_, i) => `[t${i}]`).join('')}amix=inputs=${tracks.length}:duration=longest:normalize=0[out]`);
+
+  return [
+    '-nostdin', '-hide_banner', '-y',
+    ...tracks.flatMap(track => ['-i', track.path]),
+    '-filter_complex', filters.join(';'),
+    '-map', '[out]',
+    '-map_metadata', '-1',
+    '-ar', String(SESSION_SETTINGS.SAMPLE_RATE),
+    ...SESSION_SETTINGS.OUTPUT_ARGS,
+    outputPath,
+  ];
+};
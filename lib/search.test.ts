@@ -0,0 +1,37 @@
+import { buildSearchFacet, normalizeSearchQuery, parseSearchRequest, SEARCH_SETTINGS } from './search';
+
+describe('search', () => {
+  it('normalizes whitespace in queries', () => {
+    expect(normalizeSearchQuery('  true   crime \n weekly ')).toBe('true crime weekly');
+    expect(normalizeSearchQuery(null)).toBe('');
+  });
+
+  it('searches every facet by default', () => {
+    const { request } = parseSearchRequest(new URLSearchParams('q=history'));
+
+    expect(request).toEqual({
+      query: 'history',
+      types: ['podcasts', 'users', 'tags'],
+      page: 1,
+      limit: SEARCH_SETTINGS.DEFAULT_LIMIT,
+    });
+  });
+
+  it('pages through a single facet and clamps the limit', () => {
+    const { request } = parseSearchRequest(new URLSearchParams('q=history&type=users&page=3&limit=500'));
+
+    expect(request?.types).toEqual(['users']);
+    expect(request?.page).toBe(3);
+    expect(request?.limit).toBe(SEARCH_SETTINGS.MAX_LIMIT);
+  });
+
+  it('rejects empty queries and unknown facets', () => {
+    expect(parseSearchRequest(new URLSearchParams('q=%20%20')).error).toBe('A search query is required');
+    expect(parseSearchRequest(new URLSearchParams('q=a&type=episodes')).error).toMatch('type must be one of');
+  });
+
+  it('reports whether more results remain', () => {
+    expect(buildSearchFacet([1, 2], 5, 2, 2).hasMore).toBe(true);
+    expect(buildSearchFacet([1], 5, 3, 2).hasMore).toBe(false);
+  });
+});
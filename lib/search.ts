@@ -0,0 +1,86 @@
+/**
+ * Search request helpers
+ * Validates /api/search query parameters and shapes each facet's paginated results.
+ * Matching itself happens in PostgreSQL: full-text search over the podcast search
+ * document plus pg_trgm similarity (the `%` operator, default threshold 0.3) so small
+ * typos still find results.
+ */
+
+export const SEARCH_TYPES = ['podcasts', 'users', 'tags'] as const;
+
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export const SEARCH_SETTINGS = {
+  DEFAULT_LIMIT: 10,
+  MAX_LIMIT: 50,
+  MAX_QUERY_LENGTH: 200,
+};
+
+export interface SearchRequest {
+  query: string;
+  types: SearchType[];
+  page: number;
+  limit: number;
+}
+
+export interface SearchFacet<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/**
+ * Collapse whitespace and trim the raw query
+ */
+export const normalizeSearchQuery = (query: string | null): string =>
+  (query || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Parse `q`, `type` (a facet or "all"), `page` (1-based) and `limit` parameters
+ */
+export const parseSearchRequest = (
+  searchParams: URLSearchParams
+): { request?: SearchRequest; error?: string } => {
+  const query = normalizeSearchQuery(searchParams.get('q'));
+  if (!query) {
+    return { error: 'A search query is required' };
+  }
+  if (query.length > SEARCH_SETTINGS.MAX_QUERY_LENGTH) {
+    return { error: `Search queries may be at most ${SEARCH_SETTINGS.MAX_QUERY_LENGTH} characters` };
+  }
+
+  const type = searchParams.get('type') || 'all';
+  if (type !== 'all' && !SEARCH_TYPES.includes(type as SearchType)) {
+    return { error: `type must be one of: all, ${SEARCH_TYPES.join(', ')}` };
+  }
+
+  const page = parseInt(searchParams.get('page') || '1', 10);
+  const limit = parseInt(searchParams.get('limit') || String(SEARCH_SETTINGS.DEFAULT_LIMIT), 10);
+
+  return {
+    request: {
+      query,
+      types: type === 'all' ? [...SEARCH_TYPES] : [type as SearchType],
+      page: isNaN(page) || page < 1 ? 1 : page,
+      limit: isNaN(limit) || limit < 1 ? SEARCH_SETTINGS.DEFAULT_LIMIT : Math.min(limit, SEARCH_SETTINGS.MAX_LIMIT),
+    },
+  };
+};
+
+/**
+ * Wrap one page of a facet's results with its pagination metadata
+ */
+export const buildSearchFacet = <T>(
+  items: T[],
+  total: number,
+  page: number,
+  limit: number
+): SearchFacet<T> => ({
+  items,
+  total,
+  page,
+  limit,
+  hasMore: page * limit < total,
+});
@@ -0,0 +1,121 @@
+/**
+ * Server-Sent Events
+ * Streams events from a route handler to an EventSource in the browser. Events are
+ * either found by polling the database, so they reach every listener whichever server
+ * instance wrote them, or pushed through pub/sub (see ./pubsub). Polled events carry an
+ * id, which EventSource sends back as Last-Event-ID when it reconnects, so nothing is
+ * missed when a stream is closed after MAX_STREAM_MS (serverless platforms end long
+ * requests) or the connection drops.
+ */
+
+export const SSE_SETTINGS = {
+  POLL_INTERVAL_MS: 1000,
+  KEEPALIVE_INTERVAL_MS: 15 * 1000, // Comment lines that stop proxies closing an idle stream
+  MAX_STREAM_MS: 4 * 60 * 1000,
+  RECONNECT_DELAY_MS: 1000,
+};
+
+export interface ServerSentEvent {
+  id?: string | number;
+  event?: string;
+  data: unknown; // Sent as JSON
+}
+
+export const formatServerSentEvent = ({ id, event, data }: ServerSentEvent): string => {
+  const lines: string[] = [];
+  if (id !== undefined) lines.push(`id: ${id}`);
+  if (event) lines.push(`event: ${event}`);
+  JSON.stringify(data).split('\n').forEach(line => lines.push(`data: ${line}`));
+  return `${lines.join('\n')}\n\n`;
+};
+
+/**
+ * Id of the last event the client received before reconnecting, if any
+ */
+export const getLastEventId = (request: Request): string | null =>
+  request.headers.get('last-event-id') || new URL(request.url).searchParams.get('lastEventId');
+
+interface EventStreamOptions {
+  signal: AbortSignal; // The request's signal; the stream stops when the client goes away
+  poll?: () => Promise<ServerSentEvent[]>; // Events that happened since the last poll
+  // Start pushing events as they happen; resolves to a function that stops it
+  subscribe?: (push: (event: ServerSentEvent) => void) => Promise<() => Promise<void>>;
+  onOpen?: () => Promise<ServerSentEvent[]>;
+  onClose?: (clientLeft: boolean) => Promise<void>; // clientLeft is false when the stream ran out of time
+}
+
+/**
+ * Response that streams the events returned by `poll` or pushed to `subscribe` until the
+ * client disconnects
+ */
+export const createEventStream = ({ signal, poll, subscribe, onOpen, onClose }: EventStreamOptions): Response => {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const startedAt = Date.now();
+      let lastWriteAt = startedAt;
+
+      let unsubscribe: (() => Promise<void>) | null = null;
+      // Pushed events wait until the initial events have been sent
+      let pending: ServerSentEvent[] | null = [];
+      let isClosed = false;
+
+      send(`retry: ${SSE_SETTINGS.RECONNECT_DELAY_MS}\n\n`);
+
+      try {
+        if (subscribe) {
+          unsubscribe = await subscribe(event => {
+            if (isClosed) return;
+            if (pending) {
+              pending.push(event);
+              return;
+            }
+            send(formatServerSentEvent(event));
+            lastWriteAt = Date.now();
+          });
+        }
+
+        const initial = onOpen ? await onOpen() : [];
+        initial.concat(pending).forEach(event => send(formatServerSentEvent(event)));
+        pending = null;
+
+        while (!signal.aborted && Date.now() - startedAt < SSE_SETTINGS.MAX_STREAM_MS) {
+          await new Promise(resolve => setTimeout(resolve, SSE_SETTINGS.POLL_INTERVAL_MS));
+          if (signal.aborted) break;
+
+          const events = poll ? await poll() : [];
+          events.forEach(event => send(formatServerSentEvent(event)));
+
+          if (events.length > 0) {
+            lastWriteAt = Date.now();
+          } else if (Date.now() - lastWriteAt >= SSE_SETTINGS.KEEPALIVE_INTERVAL_MS) {
+            send(': keepalive\n\n');
+            lastWriteAt = Date.now();
+          }
+        }
+      } catch (error) {
+        console.error('Error streaming events:', error);
+      } finally {
+        isClosed = true;
+        await unsubscribe?.().catch(error => console.error('Error unsubscribing event stream:', error));
+        await onClose?.(signal.aborted).catch(error => console.error('Error closing event stream:', error));
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Stop nginx buffering the stream
+    },
+  });
+};
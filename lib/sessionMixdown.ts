@@ -0,0 +1,109 @@
+/**
+ * Recording session mixdown
+ * Job handler that mixes the participants' tracks of a stopped recording session, lined
+ * up by when each of them started recording, and attaches the mix to the session's draft
+ * as its audio and as a take, so it can be trimmed and given music beds in the studio.
+ * The separate tracks stay available on the session.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Job, Prisma } from '@prisma/client';
+import prisma from './prismadb';
+import { downloadFile, getStorageDriver } from './storageDrivers';
+import { SESSION_SETTINGS, buildMixdownArgs, getTrackDelays } from './recordingSessions';
+import { sendSignal } from './sessionSignals';
+
+const execFileAsync = promisify(execFile);
+
+const FFMPEG_TIMEOUT_MS = 60 * 60 * 1000; // 1 hour
+const MAX_OUTPUT_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Job handler: mix the session in the job's payload into its draft
+ */
+export const runSessionMixdownJob = async (job: Job) => {
+  const { sessionId } = job.payload as { sessionId: string };
+
+  const session = await prisma.recordingSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      participants: {
+        where: { trackUrl: { not: null } },
+        orderBy: { joinedAt: 'asc' },
+      },
+    },
+  });
+
+  if (!session || !session.podcastId) {
+    throw new Error('Recording session no longer has a draft');
+  }
+
+  const tracks = session.participants.filter(participant => participant.trackUrl && participant.trackOffset !== null);
+  if (tracks.length === 0) {
+    throw new Error('No participant has uploaded a track');
+  }
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'mixdown-'));
+
+  try {
+    const inputs = [];
+    for (let i = 0; i < tracks.length; i++) {
+      const filePath = path.join(workDir, `track-${i}`);
+      await downloadFile(tracks[i].trackUrl as string, filePath);
+      inputs.push({ path: filePath, offset: tracks[i].trackOffset as number });
+    }
+
+    const outputPath = path.join(workDir, `mixdown.${SESSION_SETTINGS.OUTPUT_EXTENSION}`);
+    await execFileAsync(process.env.FFMPEG_PATH || 'ffmpeg', buildMixdownArgs(inputs, outputPath), {
+      timeout: FFMPEG_TIMEOUT_MS,
+      maxBuffer: MAX_OUTPUT_BUFFER,
+    });
+
+    const driver = getStorageDriver('podcast-audio');
+    const storagePath = `${session.hostId}/sessions/${session.id}-${Date.now()}.${SESSION_SETTINGS.OUTPUT_EXTENSION}`;
+    await driver.put(storagePath, await readFile(outputPath), {
+      contentType: SESSION_SETTINGS.OUTPUT_CONTENT_TYPE,
+      cacheControl: '31536000',
+    });
+    const audioUrl = driver.getPublicUrl(storagePath);
+
+    const delays = getTrackDelays(inputs.map(input => input.offset));
+    const duration = Math.max(...tracks.map((track, i) => delays[i] + (track.trackDuration || 0)));
+
+    await prisma.$transaction([
+      prisma.take.create({
+        data: {
+          name: `${session.title} (mixdown)`,
+          url: audioUrl,
+          duration,
+          podcastId: session.podcastId,
+        },
+      }),
+      // Results of processing any earlier audio no longer apply
+      prisma.podcast.update({
+        where: { id: session.podcastId },
+        data: {
+          audioUrl,
+          duration: Math.round(duration),
+          audioMp3Url: null,
+          audioAacUrl: null,
+          bitrate: null,
+          codec: null,
+          loudness: null,
+          processedAt: null,
+          waveform: Prisma.DbNull,
+        },
+      }),
+    ]);
+
+    await sendSignal(session.id, 'mixdown', { payload: { podcastId: session.podcastId } });
+
+    return { audioUrl, duration, tracks: tracks.length };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
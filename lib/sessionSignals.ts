@@ -0,0 +1,110 @@
+/**
+ * Recording session signaling
+ * Signals are rows in the SessionSignal table, delivered in id order to the participants'
+ * event streams (GET /api/sessions/[id]/events). A signal is either for everyone in the
+ * session or for one participant (WebRTC offers, answers and ICE candidates), and is never
+ * delivered back to its sender. Old signals are deleted by the cron (see /api/jobs/run).
+ */
+
+import { Prisma, SessionSignal } from '@prisma/client';
+import prisma from './prismadb';
+import { RelaySignalType, SESSION_SETTINGS, ServerSignalType, SessionSignalEvent } from './recordingSessions';
+
+const MAX_SIGNALS_PER_POLL = 100;
+
+export const toSignalEvent = (signal: SessionSignal): SessionSignalEvent => ({
+  id: signal.id,
+  type: signal.type as SessionSignalEvent['type'],
+  payload: signal.payload,
+  fromId: signal.fromId,
+  createdAt: signal.createdAt.toISOString(),
+});
+
+/**
+ * Queue a signal for the session's participants, or only for `toId`
+ */
+export const sendSignal = (
+  sessionId: string,
+  type: RelaySignalType | ServerSignalType,
+  options: { payload?: Prisma.InputJsonValue; fromId?: string; toId?: string } = {}
+): Promise<SessionSignal> =>
+  prisma.sessionSignal.create({
+    data: {
+      sessionId,
+      type,
+      payload: options.payload,
+      fromId: options.fromId,
+      toId: options.toId,
+    },
+  });
+
+/**
+ * Signals for a participant that were sent after `afterId`
+ */
+export const getSignalsAfter = (sessionId: string, participantId: string, afterId: number): Promise<SessionSignal[]> =>
+  prisma.sessionSignal.findMany({
+    where: {
+      sessionId,
+      id: { gt: afterId },
+      AND: [
+        { OR: [{ toId: null }, { toId: participantId }] },
+        { OR: [{ fromId: null }, { fromId: { not: participantId } }] },
+      ],
+    },
+    orderBy: { id: 'asc' },
+    take: MAX_SIGNALS_PER_POLL,
+  });
+
+// Id of the session's newest signal, where a new stream starts from
+export const getLatestSignalId = async (sessionId: string): Promise<number> => {
+  const latest = await prisma.sessionSignal.findFirst({
+    where: { sessionId },
+    orderBy: { id: 'desc' },
+    select: { id: true },
+  });
+  return latest?.id || 0;
+};
+
+/**
+ * Record that a participant is connected; tells the others when they come online
+ */
+export const markParticipantSeen = async (sessionId: string, participantId: string, now: Date = new Date()) => {
+  const participant = await prisma.sessionParticipant.findUnique({
+    where: { id: participantId },
+    select: { lastSeenAt: true },
+  });
+  const wasOnline = participant
+    ? now.getTime() - participant.lastSeenAt.getTime() < SESSION_SETTINGS.PRESENCE_TIMEOUT_MS
+    : false;
+
+  await prisma.sessionParticipant.update({
+    where: { id: participantId },
+    data: { lastSeenAt: now },
+  });
+
+  if (!wasOnline) {
+    await sendSignal(sessionId, 'presence', { payload: { participantId, isOnline: true } });
+  }
+};
+
+/**
+ * Tell the others that a participant's stream has closed
+ */
+export const markParticipantGone = async (sessionId: string, participantId: string) => {
+  // Back-date lastSeenAt so the participant shows as offline until their stream reconnects
+  await prisma.sessionParticipant.update({
+    where: { id: participantId },
+    data: { lastSeenAt: new Date(Date.now() - SESSION_SETTINGS.PRESENCE_TIMEOUT_MS) },
+  });
+  await sendSignal(sessionId, 'presence', { payload: { participantId, isOnline: false } });
+};
+
+/**
+ * Delete signals older than SIGNAL_RETENTION_MS; returns how many were deleted
+ */
+export const deleteOldSignals = async (now: Date = new Date()): Promise<number> => {
+  const { count } = await prisma.sessionSignal.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - SESSION_SETTINGS.SIGNAL_RETENTION_MS) } },
+  });
+  return count;
+};
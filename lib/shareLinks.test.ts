@@ -0,0 +1,93 @@
+import {
+  SHARE_LINK_SETTINGS,
+  generateShareToken,
+  getFailedPasswordUpdate,
+  getPasswordRetryAfter,
+  getShareLinkStatus,
+  getSharePlayWhere,
+  parseShareLinkRequest,
+  toShareLinkSummary,
+} from './shareLinks';
+
+const now = new Date('2025-04-05T12:00:00Z');
+
+describe('shareLinks', () => {
+  it('parses share link options', () => {
+    expect(parseShareLinkRequest({}, now)).toEqual({
+      data: { label: null, password: null, expiresAt: null, maxPlays: null },
+    });
+
+    expect(parseShareLinkRequest({ label: ' Guest ', expiresInDays: 7, maxPlays: '3', password: 'secret' }, now)).toEqual({
+      data: {
+        label: 'Guest',
+        password: 'secret',
+        expiresAt: new Date('2025-04-12T12:00:00Z'),
+        maxPlays: 3,
+      },
+    });
+
+    expect(parseShareLinkRequest({ expiresAt: '2025-05-01T00:00:00Z' }, now).data?.expiresAt).toEqual(new Date('2025-05-01T00:00:00Z'));
+  });
+
+  it('rejects invalid options', () => {
+    expect(parseShareLinkRequest({ password: 'abc' }, now).error).toBe('password must be at least 4 characters');
+    expect(parseShareLinkRequest({ expiresAt: 'soon' }, now).error).toBe('expiresAt must be a valid date');
+    expect(parseShareLinkRequest({ expiresAt: '2025-04-01T00:00:00Z' }, now).error).toBe('expiresAt must be in the future');
+    expect(parseShareLinkRequest({ expiresInDays: 400 }, now).error).toBe('Share links can last at most 365 days');
+    expect(parseShareLinkRequest({ expiresInDays: -1 }, now).error).toBe('expiresInDays must be a positive number');
+    expect(parseShareLinkRequest({ maxPlays: 1.5 }, now).error).toMatch(/^maxPlays must be a whole number/);
+  });
+
+  it('works out whether a link can still be used', () => {
+    const link = { revokedAt: null, expiresAt: null, maxPlays: null, plays: 12 };
+
+    expect(getShareLinkStatus(link, now)).toBe('active');
+    expect(getShareLinkStatus({ ...link, maxPlays: 12 }, now)).toBe('exhausted');
+    expect(getShareLinkStatus({ ...link, expiresAt: new Date('2025-04-05T11:59:59Z') }, now)).toBe('expired');
+    expect(getShareLinkStatus({ ...link, revokedAt: now, maxPlays: 1 }, now)).toBe('revoked');
+  });
+
+  it('locks a link for a while after too many wrong passwords', () => {
+    expect(getFailedPasswordUpdate({ failedPasswordAttempts: 0 }, now)).toEqual({ failedPasswordAttempts: 1 });
+
+    const locked = getFailedPasswordUpdate({ failedPasswordAttempts: SHARE_LINK_SETTINGS.MAX_PASSWORD_ATTEMPTS - 1 }, now);
+    expect(locked).toEqual({
+      failedPasswordAttempts: 0,
+      passwordLockedUntil: new Date(now.getTime() + SHARE_LINK_SETTINGS.PASSWORD_LOCKOUT_MS),
+    });
+
+    expect(getPasswordRetryAfter({ passwordLockedUntil: locked.passwordLockedUntil }, now))
+      .toBe(SHARE_LINK_SETTINGS.PASSWORD_LOCKOUT_MS / 1000);
+    expect(getPasswordRetryAfter({ passwordLockedUntil: now }, now)).toBe(0);
+    expect(getPasswordRetryAfter({ passwordLockedUntil: null }, now)).toBe(0);
+  });
+
+  it('counts plays only while a link has some left', () => {
+    expect(getSharePlayWhere({ id: 'link1', maxPlays: null })).toEqual({ id: 'link1' });
+    expect(getSharePlayWhere({ id: 'link1', maxPlays: 5 })).toEqual({ id: 'link1', plays: { lt: 5 } });
+  });
+
+  it('never exposes the password hash', () => {
+    const summary = toShareLinkSummary({
+      id: 'link1',
+      token: 'abc123',
+      label: null,
+      passwordHash: '$2b$12$hash',
+      expiresAt: null,
+      maxPlays: 5,
+      plays: 1,
+      lastPlayedAt: null,
+      revokedAt: null,
+      createdAt: now,
+    }, now);
+
+    expect(summary).toEqual(expect.objectContaining({ path: '/s/abc123', hasPassword: true, status: 'active' }));
+    expect(summary).not.toHaveProperty('passwordHash');
+  });
+
+  it('generates URL-safe tokens', () => {
+    const token = generateShareToken();
+    expect(token).toMatch(/^[A-Za-z0-9_-]{24}$/);
+    expect(generateShareToken()).not.toBe(token);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Episode share links
+ * A share link lets anyone holding its token listen to a private episode at /s/[token]
+ * without signing in, until it expires, runs out of plays or is revoked. Each play is
+ * counted and answered with a short-lived signed audio URL (see lib/media.ts). Links
+ * without a password also work as `?share=<token>` on /api/media/[podcastId].
+ */
+
+import { randomBytes } from 'crypto';
+
+export const SHARE_LINK_SETTINGS = {
+  TOKEN_BYTES: 18, // 24 URL-safe characters
+  MAX_PLAYS: 1000,
+  MAX_EXPIRY_DAYS: 365,
+  MIN_PASSWORD_LENGTH: 4,
+  // Wrong passwords allowed before a link stops checking them for a while
+  MAX_PASSWORD_ATTEMPTS: 5,
+  PASSWORD_LOCKOUT_MS: 15 * 60 * 1000, // 15 minutes
+  MAX_LABEL_LENGTH: 100,
+};
+
+export type ShareLinkStatus = 'active' | 'revoked' | 'expired' | 'exhausted';
+
+export interface ShareLinkInput {
+  label: string | null;
+  password: string | null;
+  expiresAt: Date | null;
+  maxPlays: number | null;
+}
+
+interface ShareLinkRecord {
+  id: string;
+  token: string;
+  label: string | null;
+  passwordHash: string | null;
+  expiresAt: Date | null;
+  maxPlays: number | null;
+  plays: number;
+  lastPlayedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export const generateShareToken = (): string =>
+  randomBytes(SHARE_LINK_SETTINGS.TOKEN_BYTES).toString('base64url');
+
+export const getSharePath = (token: string): string => `/s/${encodeURIComponent(token)}`;
+
+/**
+ * Validate the body of POST /api/podcasts/[id]/share-links.
+ * Expiry is given as `expiresAt` (ISO date) or `expiresInDays`; both are optional.
+ */
+export const parseShareLinkRequest = (
+  body: any,
+  now: Date = new Date()
+): { data?: ShareLinkInput; error?: string } => {
+  const label = typeof body?.label === 'string' ? body.label.trim() : '';
+  if (label.length > SHARE_LINK_SETTINGS.MAX_LABEL_LENGTH) {
+    return { error: `label may be at most ${SHARE_LINK_SETTINGS.MAX_LABEL_LENGTH} characters` };
+  }
+
+  const password = typeof body?.password === 'string' && body.password !== '' ? body.password : null;
+  if (password !== null && password.length < SHARE_LINK_SETTINGS.MIN_PASSWORD_LENGTH) {
+    return { error: `password must be at least ${SHARE_LINK_SETTINGS.MIN_PASSWORD_LENGTH} characters` };
+  }
+
+  let expiresAt: Date | null = null;
+  if (body?.expiresAt) {
+    expiresAt = new Date(body.expiresAt);
+    if (isNaN(expiresAt.getTime())) {
+      return { error: 'expiresAt must be a valid date' };
+    }
+  } else if (body?.expiresInDays !== undefined && body.expiresInDays !== null && body.expiresInDays !== '') {
+    const days = Number(body.expiresInDays);
+    if (!(days > 0)) {
+      return { error: 'expiresInDays must be a positive number' };
+    }
+    expiresAt = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  if (expiresAt) {
+    if (expiresAt <= now) {
+      return { error: 'expiresAt must be in the future' };
+    }
+    if (expiresAt.getTime() - now.getTime() > SHARE_LINK_SETTINGS.MAX_EXPIRY_DAYS * 24 * 60 * 60 * 1000) {
+      return { error: `Share links can last at most ${SHARE_LINK_SETTINGS.MAX_EXPIRY_DAYS} days` };
+    }
+  }
+
+  let maxPlays: number | null = null;
+  if (body?.maxPlays !== undefined && body.maxPlays !== null && body.maxPlays !== '') {
+    maxPlays = Number(body.maxPlays);
+    if (!Number.isInteger(maxPlays) || maxPlays < 1 || maxPlays > SHARE_LINK_SETTINGS.MAX_PLAYS) {
+      return { error: `maxPlays must be a whole number between 1 and ${SHARE_LINK_SETTINGS.MAX_PLAYS}` };
+    }
+  }
+
+  return { data: { label: label || null, password, expiresAt, maxPlays } };
+};
+
+export const getShareLinkStatus = (
+  link: Pick<ShareLinkRecord, 'revokedAt' | 'expiresAt' | 'maxPlays' | 'plays'>,
+  now: Date = new Date()
+): ShareLinkStatus => {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt <= now) return 'expired';
+  if (link.maxPlays !== null && link.plays >= link.maxPlays) return 'exhausted';
+  return 'active';
+};
+
+/**
+ * Prisma filter that matches a link only while it has plays left, so counting a play with
+ * updateMany respects the limit even with concurrent listeners
+ */
+export const getSharePlayWhere = (link: Pick<ShareLinkRecord, 'id' | 'maxPlays'>) =>
+  link.maxPlays === null ? { id: link.id } : { id: link.id, plays: { lt: link.maxPlays } };
+
+/**
+ * Seconds until a link checks passwords again after too many wrong ones, or 0
+ */
+export const getPasswordRetryAfter = (
+  link: { passwordLockedUntil: Date | null },
+  now: Date = new Date()
+): number =>
+  link.passwordLockedUntil && link.passwordLockedUntil > now
+    ? Math.ceil((link.passwordLockedUntil.getTime() - now.getTime()) / 1000)
+    : 0;
+
+/**
+ * Update for a wrong password: count it, and lock the link once there have been too many
+ */
+export const getFailedPasswordUpdate = (
+  link: { failedPasswordAttempts: number },
+  now: Date = new Date()
+) =>
+  link.failedPasswordAttempts + 1 >= SHARE_LINK_SETTINGS.MAX_PASSWORD_ATTEMPTS
+    ? { failedPasswordAttempts: 0, passwordLockedUntil: new Date(now.getTime() + SHARE_LINK_SETTINGS.PASSWORD_LOCKOUT_MS) }
+    : { failedPasswordAttempts: link.failedPasswordAttempts + 1 };
+
+/**
+ * Message shown to a listener when a link can no longer be used
+ */
+export const getShareLinkStatusMessage = (status: ShareLinkStatus): string | null => {
+  switch (status) {
+    case 'revoked':
+      return 'This link has been disabled by the creator';
+    case 'expired':
+      return 'This link has expired';
+    case 'exhausted':
+      return 'This link has reached its play limit';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Shape a share link for the creator, never exposing the password hash
+ */
+export const toShareLinkSummary = (link: ShareLinkRecord, now: Date = new Date()) => ({
+  id: link.id,
+  token: link.token,
+  path: getSharePath(link.token),
+  label: link.label,
+  hasPassword: Boolean(link.passwordHash),
+  expiresAt: link.expiresAt ? link.expiresAt.toISOString() : null,
+  maxPlays: link.maxPlays,
+  plays: link.plays,
+  lastPlayedAt: link.lastPlayedAt ? link.lastPlayedAt.toISOString() : null,
+  revokedAt: link.revokedAt ? link.revokedAt.toISOString() : null,
+  createdAt: link.createdAt.toISOString(),
+  status: getShareLinkStatus(link, now),
+});
+
+export type ShareLinkSummary = ReturnType<typeof toShareLinkSummary>;
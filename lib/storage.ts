@@ -1,21 +1,54 @@
 // Client-side wrapper for Prisma database operations
 import prisma from './prismadb';
 import { uploadAudioFile } from './fileStorage';
+import type { AnalyticsInterval, AnalyticsMetric, AnalyticsPoint, RetentionPoint } from './analytics';
+import type { SearchFacet, SearchType } from './search';
+import type { JobStatus, JobSummary, JobType } from './jobs';
+import type { ShareLinkSummary } from './shareLinks';
+import type { EditDecisionList, TakeKind, TakeSummary } from './edl';
+import type { RecordingSessionSummary, RelaySignalType } from './recordingSessions';
+import type { ConversationParticipantSummary, ConversationRole } from './messages';
+import type { PublishStatus } from './episodes';
+import type { WaveformData } from './waveform';
+
+export interface Show {
+  id: string;
+  title: string;
+  description?: string;
+  artwork?: string;
+  category?: string;
+  language: string;
+  explicit: boolean;
+  createdAt: string;
+  updatedAt?: string;
+  userId: string;
+  episodeCount?: number;
+}
 
 export interface Podcast {
   id: string;
   title: string;
   description: string;
   audioUrl: string;
+  audioMp3Url?: string | null;
+  audioAacUrl?: string | null;
+  waveform?: WaveformData | null;
   coverImage?: string;
   duration?: number;
   createdAt: string;
   updatedAt?: string;
+  status?: PublishStatus;
+  publishAt?: string | null;
   listens?: number;
   likes?: number;
   comments?: number;
   isPublic: boolean;
   userId: string;
+  showId?: string | null;
+  show?: Pick<Show, 'id' | 'title' | 'artwork'> | null;
+  seasonNumber?: number | null;
+  episodeNumber?: number | null;
+  episodeType?: 'full' | 'trailer' | 'bonus';
   user: {
     id: string;
     name: string;
@@ -24,6 +57,37 @@ export interface Podcast {
   tags?: { id: string; name: string }[];
 }
 
+export interface CreatorAnalytics {
+  range: { from: string; to: string; interval: AnalyticsInterval };
+  podcastId: string | null;
+  totals: Record<AnalyticsMetric, number>;
+  series: AnalyticsPoint[];
+  lifetime?: {
+    podcasts: number;
+    plays: number;
+    likes: number;
+    comments: number;
+    followers: number;
+  };
+  episodes?: { id: string; title: string; plays: number; uniqueListeners: number }[];
+}
+
+export interface EpisodeRetention {
+  podcastId: string;
+  duration: number;
+  starters: number;
+  curve: RetentionPoint[];
+}
+
+export interface SearchResults {
+  query: string;
+  podcasts?: SearchFacet<Pick<Podcast, 'id' | 'title' | 'description' | 'coverImage' | 'duration' | 'createdAt' | 'listens' | 'user'> & {
+    moment: { startTime: number; text: string } | null;
+  }>;
+  users?: SearchFacet<{ id: string; name: string; image?: string; followers: number; podcastCount: number }>;
+  tags?: SearchFacet<{ id: string; name: string; podcastCount: number }>;
+}
+
 // Upload audio file to Supabase Storage
 export const uploadLargeFile = async (
   file: File,
@@ -100,7 +164,7 @@ export const addPodcast = async (podcast: Omit<Podcast, 'id' | 'createdAt' | 'up
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.message || 'Failed to create podcast');
+    throw new Error(error.error || error.message || 'Failed to create podcast');
   }
 
   return response.json();
@@ -137,6 +201,669 @@ export const deletePodcast = async (podcastId: string): Promise<boolean> => {
   }
 };
 
+// Fields of a draft episode that the record page autosaves
+export interface DraftFields {
+  title?: string;
+  description?: string;
+  coverImage?: string | null;
+  isPublic?: boolean;
+  audioUrl?: string;
+}
+
+// Get a single podcast; drafts are only returned to their creator
+export const getPodcast = async (podcastId: string): Promise<Podcast> => {
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch podcast');
+  }
+
+  return response.json();
+};
+
+// Start a draft episode; the title and audio can be filled in later
+export const createDraft = async (fields: DraftFields): Promise<Podcast> => {
+  const response = await fetch('/api/podcasts', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...fields, status: 'draft' }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to save draft');
+  }
+
+  return response.json();
+};
+
+// Save changes to a draft, or publish or schedule it along with `status` and `publishAt`
+export const saveDraft = async (
+  podcastId: string,
+  fields: DraftFields & { status?: PublishStatus; publishAt?: string | null }
+): Promise<Podcast> => {
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(fields),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to save draft');
+  }
+
+  return response.json();
+};
+
+// Get shows owned by a specific user
+export const getUserShows = async (userId: string): Promise<Show[]> => {
+  try {
+    const response = await fetch(`/api/shows?userId=${encodeURIComponent(userId)}`);
+    if (!response.ok) throw new Error('Failed to fetch shows');
+    return response.json();
+  } catch (error) {
+    console.error('Error fetching user shows:', error);
+    return [];
+  }
+};
+
+// Create a new show for the current user
+export const addShow = async (show: Omit<Show, 'id' | 'createdAt' | 'updatedAt' | 'userId' | 'episodeCount'>): Promise<Show> => {
+  const response = await fetch('/api/shows', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(show),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to create show');
+  }
+
+  return response.json();
+};
+
+// Get analytics for the current creator, or one of their episodes when podcastId is set
+export const getCreatorAnalytics = async (options: {
+  from?: string;
+  to?: string;
+  interval?: AnalyticsInterval;
+  podcastId?: string;
+} = {}): Promise<CreatorAnalytics> => {
+  const params = new URLSearchParams();
+  Object.entries(options).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const response = await fetch(`/api/analytics?${params.toString()}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch analytics');
+  }
+
+  return response.json();
+};
+
+// Get the listener retention curve for one of the current creator's episodes
+export const getEpisodeRetention = async (podcastId: string): Promise<EpisodeRetention> => {
+  const response = await fetch(`/api/analytics/podcasts/${encodeURIComponent(podcastId)}/retention`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch retention');
+  }
+
+  return response.json();
+};
+
+// Search podcasts, users and tags; pass a type to page through a single facet
+export const search = async (
+  query: string,
+  options: { type?: SearchType; page?: number; limit?: number } = {}
+): Promise<SearchResults> => {
+  const params = new URLSearchParams({ q: query });
+  if (options.type) params.set('type', options.type);
+  if (options.page) params.set('page', String(options.page));
+  if (options.limit) params.set('limit', String(options.limit));
+
+  const response = await fetch(`/api/search?${params.toString()}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to search');
+  }
+
+  return response.json();
+};
+
+// Upload a WebVTT, SRT or JSON transcript for one of the current user's podcasts
+export const uploadTranscript = async (podcastId: string, file: File): Promise<{ id: string; format: string; segmentCount: number }> => {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}/transcript`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to upload transcript');
+  }
+
+  return response.json();
+};
+
+// A chapter as served in Podcasting 2.0 JSON chapters
+export interface Chapter {
+  startTime: number;
+  title: string;
+  url?: string;
+  img?: string;
+}
+
+// Get an episode's chapters
+export const getChapters = async (podcastId: string): Promise<Chapter[]> => {
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}/chapters`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch chapters');
+  }
+
+  const data = await response.json();
+  return data.chapters;
+};
+
+// Replace the chapters of one of the current user's podcasts; start times may be seconds or "H:MM:SS"
+export const updateChapters = async (
+  podcastId: string,
+  chapters: { startTime: number | string; title: string; url?: string; image?: string }[]
+): Promise<Chapter[]> => {
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}/chapters`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chapters }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to update chapters');
+  }
+
+  const data = await response.json();
+  return data.chapters;
+};
+
+// Get background jobs (e.g. transcriptions) for the current user's podcasts
+export const getJobs = async (
+  options: { podcastId?: string; type?: JobType; status?: JobStatus } = {}
+): Promise<JobSummary[]> => {
+  const params = new URLSearchParams();
+  Object.entries(options).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const response = await fetch(`/api/jobs?${params.toString()}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch jobs');
+  }
+
+  return response.json();
+};
+
+// Re-queue a failed job
+export const retryJob = async (jobId: string): Promise<JobSummary> => {
+  const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/retry`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to retry job');
+  }
+
+  return response.json();
+};
+
+// Get the share links of one of the current user's podcasts
+export const getShareLinks = async (podcastId: string): Promise<ShareLinkSummary[]> => {
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}/share-links`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch share links');
+  }
+
+  return response.json();
+};
+
+// Create a share link; every option is optional
+export const createShareLink = async (
+  podcastId: string,
+  options: { label?: string; expiresInDays?: number; maxPlays?: number; password?: string }
+): Promise<ShareLinkSummary> => {
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}/share-links`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to create share link');
+  }
+
+  return response.json();
+};
+
+export const revokeShareLink = async (podcastId: string, linkId: string): Promise<ShareLinkSummary> => {
+  const response = await fetch(
+    `/api/podcasts/${encodeURIComponent(podcastId)}/share-links/${encodeURIComponent(linkId)}`,
+    { method: 'DELETE' }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to revoke share link');
+  }
+
+  return response.json();
+};
+
+// A draft's saved edit; needsRender is true when it has changed since the audio was rendered
+export interface EditState {
+  edl: EditDecisionList;
+  edlUpdatedAt: string | null;
+  edlRenderedAt: string | null;
+  needsRender: boolean;
+}
+
+export const getTakes = async (podcastId: string): Promise<TakeSummary[]> => {
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}/takes`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch takes');
+  }
+
+  return response.json();
+};
+
+// Add an uploaded file to a draft as a take (voice) or music bed (music)
+export const addTake = async (
+  podcastId: string,
+  take: { url: string; name: string; kind: TakeKind; duration: number }
+): Promise<TakeSummary> => {
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}/takes`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(take),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to add take');
+  }
+
+  return response.json();
+};
+
+export const renameTake = async (podcastId: string, takeId: string, name: string): Promise<TakeSummary> => {
+  const response = await fetch(
+    `/api/podcasts/${encodeURIComponent(podcastId)}/takes/${encodeURIComponent(takeId)}`,
+    {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to rename take');
+  }
+
+  return response.json();
+};
+
+export const deleteTake = async (podcastId: string, takeId: string): Promise<void> => {
+  const response = await fetch(
+    `/api/podcasts/${encodeURIComponent(podcastId)}/takes/${encodeURIComponent(takeId)}`,
+    { method: 'DELETE' }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to delete take');
+  }
+};
+
+export const getEdit = async (podcastId: string): Promise<EditState> => {
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}/edit`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch edit');
+  }
+
+  return response.json();
+};
+
+export const saveEdit = async (podcastId: string, edl: EditDecisionList): Promise<EditState> => {
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}/edit`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(edl),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to save edit');
+  }
+
+  return response.json();
+};
+
+// Queue rendering the saved edit; follow the returned job with getJobs
+export const renderEdit = async (podcastId: string): Promise<JobSummary> => {
+  const response = await fetch(`/api/podcasts/${encodeURIComponent(podcastId)}/edit/render`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to render edit');
+  }
+
+  return response.json();
+};
+
+// A recording session as seen by one of its participants
+export interface RecordingSessionState extends RecordingSessionSummary {
+  participantId: string; // The current user's participant id
+  serverTime: number; // Server clock when the response was sent (ms since epoch)
+}
+
+export const createRecordingSession = async (title: string): Promise<RecordingSessionSummary> => {
+  const response = await fetch('/api/sessions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to create recording session');
+  }
+
+  return response.json();
+};
+
+export const getRecordingSession = async (sessionId: string): Promise<RecordingSessionState> => {
+  const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}`, { cache: 'no-store' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load recording session');
+  }
+
+  return response.json();
+};
+
+// What an invite link is for; isParticipant is true once the current user has joined
+export const getSessionInvite = async (token: string): Promise<{
+  id: string;
+  title: string;
+  status: RecordingSessionSummary['status'];
+  host: { id: string; name: string | null; image: string | null };
+  isParticipant: boolean;
+}> => {
+  const response = await fetch(`/api/sessions/join/${encodeURIComponent(token)}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load invite');
+  }
+
+  return response.json();
+};
+
+export const joinRecordingSession = async (token: string): Promise<{ id: string; participantId: string }> => {
+  const response = await fetch(`/api/sessions/join/${encodeURIComponent(token)}`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to join recording session');
+  }
+
+  return response.json();
+};
+
+// Start or stop recording for every participant (host only)
+export const setSessionRecording = async (
+  sessionId: string,
+  action: 'start' | 'stop'
+): Promise<RecordingSessionSummary> => {
+  const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/${action}`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to ${action} recording`);
+  }
+
+  return response.json();
+};
+
+// Relay a WebRTC offer, answer or ICE candidate to another participant
+export const sendSessionSignal = async (
+  sessionId: string,
+  signal: { type: RelaySignalType; toId: string; payload: unknown }
+): Promise<void> => {
+  const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/signals`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(signal),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to send signal');
+  }
+};
+
+export const submitSessionTrack = async (
+  sessionId: string,
+  track: { url: string; offset: number; duration: number }
+): Promise<void> => {
+  const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/track`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(track),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to save track');
+  }
+};
+
+// Queue mixing the tracks into the session's draft (host only)
+export const mixdownRecordingSession = async (sessionId: string): Promise<{ podcastId: string; job: JobSummary }> => {
+  const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/mixdown`, { method: 'POST' });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to mix recording session');
+  }
+
+  return response.json();
+};
+
+// A conversation with its members, as returned by the conversations API
+export interface ConversationDetails {
+  id: string;
+  isGroup: boolean;
+  title: string | null; // Groups only
+  image: string | null; // Groups only
+  lastMessageAt: string;
+  participants: ConversationParticipantSummary[];
+}
+
+export const createGroupConversation = async (group: {
+  title: string;
+  image?: string | null;
+  userIds: string[];
+}): Promise<ConversationDetails> => {
+  const response = await fetch('/api/conversations', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(group),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to create group');
+  }
+
+  return response.json();
+};
+
+// Change a group's title or avatar (admins only)
+export const updateGroupConversation = async (
+  conversationId: string,
+  changes: { title?: string; image?: string | null }
+): Promise<ConversationDetails> => {
+  const response = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to update group');
+  }
+
+  return response.json();
+};
+
+export const addGroupMembers = async (conversationId: string, userIds: string[]): Promise<ConversationDetails> => {
+  const response = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}/members`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userIds }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to add members');
+  }
+
+  return response.json();
+};
+
+export const setGroupMemberRole = async (
+  conversationId: string,
+  userId: string,
+  role: ConversationRole
+): Promise<ConversationDetails> => {
+  const response = await fetch(
+    `/api/conversations/${encodeURIComponent(conversationId)}/members/${encodeURIComponent(userId)}`,
+    {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to change role');
+  }
+
+  return response.json();
+};
+
+// Remove a member from a group, or leave it when userId is the current user
+export const removeGroupMember = async (conversationId: string, userId: string): Promise<void> => {
+  const response = await fetch(
+    `/api/conversations/${encodeURIComponent(conversationId)}/members/${encodeURIComponent(userId)}`,
+    { method: 'DELETE' }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to remove member');
+  }
+};
+
+// An episode as shown on its share page
+export interface SharedPodcast {
+  id: string;
+  title: string;
+  description: string | null;
+  coverImage: string | null;
+  duration: number | null;
+  waveform: WaveformData | null;
+  createdAt: string;
+  user: { id: string; name: string; image?: string | null };
+  chapters: Chapter[];
+}
+
+// Look up a share link; the podcast is null until the password has been given
+export const getSharedEpisode = async (token: string): Promise<{ passwordRequired: boolean; podcast: SharedPodcast | null }> => {
+  const response = await fetch(`/api/share/${encodeURIComponent(token)}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load share link');
+  }
+
+  return response.json();
+};
+
+// Use a share link, counting a play; returns a short-lived audio URL
+export const playSharedEpisode = async (token: string, password?: string): Promise<{ podcast: SharedPodcast; audioUrl: string }> => {
+  const response = await fetch(`/api/share/${encodeURIComponent(token)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ password }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load share link');
+  }
+
+  return response.json();
+};
+
+// Group episodes by the show they belong to; episodes without a show are keyed under null
+export const groupPodcastsByShow = (podcasts: Podcast[]): { show: Podcast['show']; episodes: Podcast[] }[] => {
+  const groups: { show: Podcast['show']; episodes: Podcast[] }[] = [];
+  
+  podcasts.forEach(podcast => {
+    const showId = podcast.show?.id || null;
+    let group = groups.find(g => (g.show?.id || null) === showId);
+    if (!group) {
+      group = { show: podcast.show || null, episodes: [] };
+      groups.push(group);
+    }
+    group.episodes.push(podcast);
+  });
+  
+  // Standalone episodes go last
+  return groups.sort((a, b) => Number(!a.show) - Number(!b.show));
+};
+
 // For backward compatibility with any existing code using the old synchronous functions
 // these will be mocked with stub implementations that call the async versions
 export const getAllPodcastsSync = (): Podcast[] => {
@@ -0,0 +1,93 @@
+/**
+ * Storage drivers
+ * STORAGE_DRIVER selects where uploaded files live: "supabase" (default), "s3" for AWS S3
+ * or an S3-compatible service such as MinIO (see ./s3.ts), or "local" for development
+ * and tests without any storage service.
+ */
+
+import { createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { UPLOAD_FOLDERS, UploadFolder } from '../uploads';
+import { createLocalDriver } from './local';
+import { createS3Driver } from './s3';
+import { createSupabaseDriver } from './supabase';
+import { StorageDriver } from './types';
+
+export type { PutOptions, StorageBody, StorageDriver, StoredObject } from './types';
+
+export const STORAGE_DRIVERS = ['supabase', 's3', 'local'] as const;
+
+/**
+ * Bucket holding files uploaded to a folder; STORAGE_*_BUCKET override the Supabase bucket names
+ */
+export const getBucketForFolder = (folder: UploadFolder): string =>
+  folder === 'podcast-audio'
+    ? process.env.STORAGE_PODCASTS_BUCKET || process.env.NEXT_PUBLIC_SUPABASE_PODCASTS_BUCKET || 'podcasts'
+    : process.env.STORAGE_IMAGES_BUCKET || process.env.NEXT_PUBLIC_SUPABASE_IMAGES_BUCKET || 'images';
+
+/**
+ * Folder whose files live in a bucket, or null for a bucket the app doesn't use
+ */
+export const getFolderForBucket = (bucket: string): UploadFolder | null => {
+  for (let i = 0; i < UPLOAD_FOLDERS.length; i++) {
+    if (getBucketForFolder(UPLOAD_FOLDERS[i]) === bucket) return UPLOAD_FOLDERS[i];
+  }
+  return null;
+};
+
+export const getStorageDriver = (folder: UploadFolder): StorageDriver => {
+  const driver = process.env.STORAGE_DRIVER || 'supabase';
+  const bucket = getBucketForFolder(folder);
+
+  switch (driver) {
+    case 'supabase':
+      return createSupabaseDriver(bucket);
+    case 's3':
+      return createS3Driver(bucket);
+    case 'local':
+      return createLocalDriver(bucket);
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected one of: ${STORAGE_DRIVERS.join(', ')})`);
+  }
+};
+
+/**
+ * Locate a file from its public URL, or null when the URL is not served by the current driver
+ */
+export const findStoredFile = (url: string): { folder: UploadFolder; key: string } | null => {
+  const path = url.split(/[?#]/)[0];
+
+  for (let i = 0; i < UPLOAD_FOLDERS.length; i++) {
+    const folder = UPLOAD_FOLDERS[i];
+    const prefix = getStorageDriver(folder).getPublicUrl('');
+
+    if (path.startsWith(prefix) && path.length > prefix.length) {
+      const key = path.slice(prefix.length).split('/').map(decodeURIComponent).join('/');
+      return { folder, key };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Signed URL for a file in storage; URLs served from elsewhere are returned unchanged
+ */
+export const getSignedFileUrl = async (url: string, expiresIn: number): Promise<string> => {
+  const storedFile = findStoredFile(url);
+  return storedFile ? getStorageDriver(storedFile.folder).getSignedUrl(storedFile.key, expiresIn) : url;
+};
+
+/**
+ * Copy a file in storage to disk, e.g. for ffmpeg. Files are read through the driver, so
+ * this works with private buckets; other URLs are refused, so a URL a user submitted can't
+ * make the server fetch from arbitrary hosts.
+ */
+export const downloadFile = async (url: string, filePath: string): Promise<void> => {
+  const storedFile = findStoredFile(url);
+  if (!storedFile) {
+    throw new Error(`Not a file in storage: ${url}`);
+  }
+
+  await pipeline(await getStorageDriver(storedFile.folder).get(storedFile.key), createWriteStream(filePath));
+};
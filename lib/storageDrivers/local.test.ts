@@ -0,0 +1,69 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createLocalDriver, getLocalContentType, resolveLocalPath, signLocalFile, verifyLocalSignature } from './local';
+
+const readAll = (stream: NodeJS.ReadableStream): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', chunk => chunks.push(Buffer.from(chunk)));
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString()));
+    stream.on('error', reject);
+  });
+
+describe('local storage driver', () => {
+  const env = process.env;
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), 'storage-'));
+    process.env = { ...env, LOCAL_STORAGE_DIR: root, STORAGE_SIGNING_SECRET: 'test-secret', NEXT_PUBLIC_APP_URL: 'https://pods.example.com/' };
+  });
+
+  afterEach(() => {
+    process.env = env;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('stores, describes and deletes files', async () => {
+    const driver = createLocalDriver('podcasts');
+
+    await driver.put('user1/episode.mp3', Buffer.from('audio'));
+    expect(await readAll(await driver.get('user1/episode.mp3'))).toBe('audio');
+    expect(await driver.head('user1/episode.mp3')).toEqual(expect.objectContaining({ size: 5, contentType: 'audio/mpeg' }));
+
+    await driver.delete(['user1/episode.mp3']);
+    expect(await driver.head('user1/episode.mp3')).toBeNull();
+  });
+
+  it('refuses keys outside the bucket', () => {
+    expect(resolveLocalPath('podcasts', 'user1/a.mp3')).toBe(path.join(root, 'podcasts', 'user1', 'a.mp3'));
+    expect(() => resolveLocalPath('podcasts', '../images/a.png')).toThrow('Invalid storage key');
+  });
+
+  it('refuses buckets outside the storage root', () => {
+    expect(() => resolveLocalPath('../.', 'etc/passwd')).toThrow('Invalid storage bucket');
+    expect(() => resolveLocalPath('.', 'podcasts/a.mp3')).toThrow('Invalid storage bucket');
+    expect(() => resolveLocalPath('podcasts/../..', 'a.mp3')).toThrow('Invalid storage bucket');
+  });
+
+  it('builds public and signed URLs', async () => {
+    const driver = createLocalDriver('podcasts');
+
+    expect(driver.getPublicUrl('user1/my episode.mp3')).toBe('https://pods.example.com/api/files/podcasts/user1/my%20episode.mp3');
+
+    const url = new URL(await driver.getSignedUrl('user1/a.mp3', 60));
+    const expires = url.searchParams.get('expires');
+    const signature = url.searchParams.get('signature');
+
+    expect(verifyLocalSignature('podcasts', 'user1/a.mp3', expires, signature)).toBe(true);
+    expect(verifyLocalSignature('podcasts', 'user1/b.mp3', expires, signature)).toBe(false);
+    expect(verifyLocalSignature('podcasts', 'user1/a.mp3', expires, signature, Date.now() + 120000)).toBe(false);
+    expect(verifyLocalSignature('podcasts', 'user1/a.mp3', '0', signLocalFile('podcasts', 'user1/a.mp3', 0))).toBe(false);
+  });
+
+  it('guesses content types from the extension', () => {
+    expect(getLocalContentType('a/b.M4A')).toBe('audio/mp4');
+    expect(getLocalContentType('a/b')).toBe('application/octet-stream');
+  });
+});
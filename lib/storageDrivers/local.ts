@@ -0,0 +1,145 @@
+/**
+ * Local filesystem storage driver
+ * Stores each bucket as a directory under LOCAL_STORAGE_DIR (default ".storage") and
+ * serves files through /api/files/[bucket]/[...key]. Meant for development and tests.
+ * Signed URLs carry an HMAC of the path and expiry made with STORAGE_SIGNING_SECRET
+ * (falling back to NEXTAUTH_SECRET).
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rename, rm, stat } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StorageDriver } from './types';
+
+// Content types of the files the app stores, by extension
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.webm': 'audio/webm',
+  '.mp4': 'video/mp4',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+export const getLocalStorageRoot = (): string =>
+  path.resolve(process.env.LOCAL_STORAGE_DIR || '.storage');
+
+export const getLocalContentType = (key: string): string =>
+  CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+
+/**
+ * Absolute path of a key, refusing buckets that would escape the storage root and keys
+ * that would escape the bucket directory
+ */
+export const resolveLocalPath = (bucket: string, key: string): string => {
+  const root = getLocalStorageRoot();
+  const bucketDir = path.resolve(root, bucket);
+
+  if (path.dirname(bucketDir) !== root) {
+    throw new Error(`Invalid storage bucket: ${bucket}`);
+  }
+
+  const filePath = path.resolve(bucketDir, key);
+
+  if (!filePath.startsWith(bucketDir + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+
+  return filePath;
+};
+
+const getSigningSecret = (): string => {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET or NEXTAUTH_SECRET must be set to sign file URLs');
+  }
+  return secret;
+};
+
+/**
+ * HMAC for a local file URL that is valid until `expires` (Unix seconds)
+ */
+export const signLocalFile = (bucket: string, key: string, expires: number): string =>
+  createHmac('sha256', getSigningSecret()).update(`${bucket}/${key}:${expires}`).digest('hex');
+
+/**
+ * Check the expires/signature query parameters of a signed local file URL
+ */
+export const verifyLocalSignature = (
+  bucket: string,
+  key: string,
+  expires: string | null,
+  signature: string | null,
+  now: number = Date.now()
+): boolean => {
+  const expiresAt = Number(expires);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < now) return false;
+
+  const expected = Buffer.from(signLocalFile(bucket, key, expiresAt));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+export const createLocalDriver = (bucket: string): StorageDriver => {
+  const getFileUrl = (key: string) => {
+    const siteUrl = (process.env.NEXT_PUBLIC_APP_URL || '').replace(/\/+$/, '');
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${siteUrl}/api/files/${encodeURIComponent(bucket)}/${encodedKey}`;
+  };
+
+  return {
+    name: 'local',
+
+    put: async (key, body) => {
+      const filePath = resolveLocalPath(bucket, key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+
+      // Write to a temporary file first so readers never see a partial file
+      const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+      try {
+        await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, createWriteStream(tempPath));
+        await rename(tempPath, filePath);
+      } catch (error) {
+        await rm(tempPath, { force: true });
+        throw error;
+      }
+    },
+
+    get: async key => {
+      const filePath = resolveLocalPath(bucket, key);
+      await stat(filePath);
+      return createReadStream(filePath);
+    },
+
+    delete: async keys => {
+      await Promise.all(keys.map(key => rm(resolveLocalPath(bucket, key), { force: true })));
+    },
+
+    head: async key => {
+      const fileStat = await stat(resolveLocalPath(bucket, key)).catch(() => null);
+      if (!fileStat?.isFile()) return null;
+
+      return {
+        size: fileStat.size,
+        contentType: getLocalContentType(key),
+        lastModified: fileStat.mtime,
+      };
+    },
+
+    getPublicUrl: getFileUrl,
+
+    getSignedUrl: async (key, expiresIn) => {
+      const expires = Math.floor(Date.now() / 1000) + expiresIn;
+      return `${getFileUrl(key)}?expires=${expires}&signature=${signLocalFile(bucket, key, expires)}`;
+    },
+  };
+};
@@ -0,0 +1,129 @@
+/**
+ * S3-compatible storage driver
+ * Works with AWS S3 and self-hosted services such as MinIO.
+ *
+ * Configuration:
+ * - S3_ENDPOINT: API endpoint, e.g. "http://localhost:9000" for MinIO (omit for AWS)
+ * - S3_REGION: region (default "us-east-1")
+ * - S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY: credentials (default AWS credential chain)
+ * - S3_FORCE_PATH_STYLE: "true" to address buckets as /bucket/key (required by MinIO)
+ * - S3_PUBLIC_URL: base URL public files are served from, e.g. a CDN (default derived from the endpoint)
+ */
+
+import { Readable } from 'stream';
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { StorageDriver } from './types';
+
+// DeleteObjects accepts at most this many keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+let client: S3Client | null = null;
+
+const getS3Client = (): S3Client => {
+  if (!client) {
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+    client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+  }
+
+  return client;
+};
+
+/**
+ * Public URL of a key, following the same addressing style as the API
+ */
+export const getS3PublicUrl = (bucket: string, key: string): string => {
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+  const publicUrl = (process.env.S3_PUBLIC_URL || '').replace(/\/+$/, '');
+
+  if (publicUrl) {
+    return `${publicUrl}/${bucket}/${encodedKey}`;
+  }
+
+  const endpoint = (process.env.S3_ENDPOINT || '').replace(/\/+$/, '');
+  if (endpoint && process.env.S3_FORCE_PATH_STYLE === 'true') {
+    return `${endpoint}/${bucket}/${encodedKey}`;
+  }
+  if (endpoint) {
+    const { protocol, host } = new URL(endpoint);
+    return `${protocol}//${bucket}.${host}/${encodedKey}`;
+  }
+
+  return `https://${bucket}.s3.${process.env.S3_REGION || 'us-east-1'}.amazonaws.com/${encodedKey}`;
+};
+
+const isNotFound = (error: any): boolean =>
+  error?.name === 'NotFound' || error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404;
+
+export const createS3Driver = (bucket: string): StorageDriver => ({
+  name: 's3',
+
+  put: async (key, body, options = {}) => {
+    // lib-storage switches to a multipart upload for streams of unknown length
+    await new Upload({
+      client: getS3Client(),
+      params: {
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        CacheControl: options.cacheControl ? `max-age=${options.cacheControl}` : undefined,
+      },
+    }).done();
+  },
+
+  get: async key => {
+    const { Body } = await getS3Client().send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+
+    if (!Body) {
+      throw new Error(`Failed to read ${key}: empty response`);
+    }
+
+    return Body as Readable;
+  },
+
+  delete: async keys => {
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      const { Errors } = await getS3Client().send(new DeleteObjectsCommand({
+        Bucket: bucket,
+        Delete: { Objects: keys.slice(i, i + DELETE_BATCH_SIZE).map(Key => ({ Key })), Quiet: true },
+      }));
+
+      if (Errors && Errors.length > 0) {
+        throw new Error(`Failed to delete files: ${Errors[0].Key}: ${Errors[0].Message}`);
+      }
+    }
+  },
+
+  head: async key => {
+    try {
+      const object = await getS3Client().send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+      return {
+        size: object.ContentLength ?? 0,
+        contentType: object.ContentType || null,
+        lastModified: object.LastModified || null,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  },
+
+  getPublicUrl: key => getS3PublicUrl(bucket, key),
+
+  getSignedUrl: async (key, expiresIn) =>
+    getSignedUrl(getS3Client(), new GetObjectCommand({ Bucket: bucket, Key: key }), { expiresIn }),
+});
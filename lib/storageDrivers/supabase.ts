@@ -0,0 +1,88 @@
+/**
+ * Supabase Storage driver
+ * Uses the service role client, so it must only run on the server.
+ */
+
+import { Readable } from 'stream';
+import { getServiceSupabase } from '../supabaseClient';
+import { StorageBody, StorageDriver } from './types';
+
+// supabase-js needs the whole body up front
+const toBuffer = async (body: StorageBody): Promise<Buffer> => {
+  if (Buffer.isBuffer(body)) return body;
+
+  const chunks: Buffer[] = [];
+  return new Promise((resolve, reject) => {
+    body.on('data', chunk => chunks.push(Buffer.from(chunk)));
+    body.on('end', () => resolve(Buffer.concat(chunks)));
+    body.on('error', reject);
+  });
+};
+
+export const createSupabaseDriver = (bucket: string): StorageDriver => {
+  const storage = () => getServiceSupabase().storage.from(bucket);
+
+  return {
+    name: 'supabase',
+
+    put: async (key, body, options = {}) => {
+      const { error } = await storage().upload(key, await toBuffer(body), {
+        contentType: options.contentType,
+        cacheControl: options.cacheControl || '3600',
+        upsert: true,
+      });
+
+      if (error) {
+        throw new Error(`Failed to store ${key}: ${error.message}`);
+      }
+    },
+
+    get: async key => {
+      const { data, error } = await storage().download(key);
+
+      if (error || !data) {
+        throw new Error(`Failed to read ${key}: ${error?.message || 'not found'}`);
+      }
+
+      return Readable.from([Buffer.from(await data.arrayBuffer())]);
+    },
+
+    delete: async keys => {
+      if (keys.length === 0) return;
+
+      const { error } = await storage().remove(keys);
+      if (error) {
+        throw new Error(`Failed to delete files: ${error.message}`);
+      }
+    },
+
+    head: async key => {
+      const { data, error } = await storage().info(key);
+
+      if (error) {
+        // info() does not distinguish a missing file from other failures
+        const { data: exists } = await storage().exists(key);
+        if (!exists) return null;
+        throw new Error(`Failed to read ${key}: ${error.message}`);
+      }
+
+      return {
+        size: data.size ?? 0,
+        contentType: data.contentType || null,
+        lastModified: data.lastModified ? new Date(data.lastModified) : null,
+      };
+    },
+
+    getPublicUrl: key => storage().getPublicUrl(key).data.publicUrl,
+
+    getSignedUrl: async (key, expiresIn) => {
+      const { data, error } = await storage().createSignedUrl(key, expiresIn);
+
+      if (error || !data) {
+        throw new Error(`Failed to sign ${key}: ${error?.message || 'not found'}`);
+      }
+
+      return data.signedUrl;
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import type { Readable } from 'stream';
+
+export type StorageBody = Buffer | Readable;
+
+export interface PutOptions {
+  contentType?: string;
+  cacheControl?: string; // max-age in seconds
+}
+
+export interface StoredObject {
+  size: number;
+  contentType: string | null;
+  lastModified: Date | null;
+}
+
+/**
+ * A place files are stored. Keys are relative to one bucket (podcast audio or images).
+ */
+export interface StorageDriver {
+  name: string;
+  put(key: string, body: StorageBody, options?: PutOptions): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(keys: string[]): Promise<void>;
+  // Metadata of a stored file, or null when it does not exist
+  head(key: string): Promise<StoredObject | null>;
+  getPublicUrl(key: string): string;
+  // Time-limited URL that works even when the bucket is private
+  getSignedUrl(key: string, expiresIn: number): Promise<string>;
+}
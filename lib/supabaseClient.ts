@@ -1,5 +1,4 @@
 import { createClient } from '@supabase/supabase-js';
-import { StorageClient } from '@supabase/storage-js';
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 import type { Database } from '@/types/supabase'
 
@@ -9,15 +8,6 @@ export const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
 );
 
-// Initialize the Supabase storage client
-export const storage = new StorageClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
-  {
-    apikey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
-    Authorization: `Bearer ${process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''}`,
-  }
-);
-
 // Get the current user ID from the session
 export const getCurrentUserId = async (): Promise<string | null> => {
   try {
@@ -55,17 +45,6 @@ export const getServiceSupabase = () => {
   return createClient(supabaseUrl, serviceRoleKey);
 };
 
-// Custom fetch implementation for handling additional headers
-function customFetch(url: RequestInfo | URL, init?: RequestInit): Promise<Response> {
-  return fetch(url, {
-    ...init,
-    headers: {
-      ...init?.headers,
-      'Cache-Control': 'no-store',
-    },
-  });
-}
-
 // Error handling function for storage operations
 export function handleStorageError(error: any): string {
   console.error('Storage error:', error);
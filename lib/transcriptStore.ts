@@ -0,0 +1,36 @@
+/**
+ * Transcript persistence
+ * Used by the transcript upload route and the transcription job so both replace an
+ * episode's transcript the same way.
+ */
+
+import prisma from './prismadb';
+import { TranscriptFormat, TranscriptSegmentInput } from './transcripts';
+
+/**
+ * Replace the episode's transcript (and all of its segments) in one transaction
+ */
+export const replaceTranscript = async (
+  podcastId: string,
+  transcript: {
+    format: TranscriptFormat;
+    language?: string | null;
+    source?: string;
+    segments: TranscriptSegmentInput[];
+  }
+) =>
+  prisma.$transaction(async (tx) => {
+    await tx.transcript.deleteMany({ where: { podcastId } });
+
+    return tx.transcript.create({
+      data: {
+        podcastId,
+        format: transcript.format,
+        language: transcript.language || 'en',
+        source: transcript.source || 'upload',
+        segments: {
+          createMany: { data: transcript.segments },
+        },
+      },
+    });
+  });
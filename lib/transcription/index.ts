@@ -0,0 +1,78 @@
+/**
+ * Transcription pipeline
+ * Picks the configured TranscriptionProvider and runs transcription jobs queued when
+ * an episode is created, storing the result as the episode's transcript.
+ *
+ * TRANSCRIPTION_PROVIDER selects the engine: "whisper-cpp" or "stub". When it is not
+ * set, episodes are not transcribed automatically.
+ */
+
+import prisma from '../prismadb';
+import { downloadFile } from '../storageDrivers';
+import { replaceTranscript } from '../transcriptStore';
+import { createStubTranscriptionProvider } from './stub';
+import { TranscriptionProvider } from './types';
+import { createWhisperCppProvider } from './whisperCpp';
+
+export type { TranscriptionProvider, TranscriptionRequest, TranscriptionResult } from './types';
+
+export const TRANSCRIPTION_PROVIDERS = ['whisper-cpp', 'stub'] as const;
+
+export const isTranscriptionEnabled = (): boolean => Boolean(process.env.TRANSCRIPTION_PROVIDER);
+
+export const getTranscriptionProvider = (): TranscriptionProvider => {
+  const provider = process.env.TRANSCRIPTION_PROVIDER;
+
+  switch (provider) {
+    case 'whisper-cpp':
+      return createWhisperCppProvider();
+    case 'stub':
+      return createStubTranscriptionProvider();
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${provider}" (expected one of: ${TRANSCRIPTION_PROVIDERS.join(', ')})`);
+  }
+};
+
+/**
+ * Job handler: transcribe the job's podcast and replace its transcript
+ */
+export const runTranscriptionJob = async (
+  job: { podcastId: string | null; payload?: any },
+  provider: TranscriptionProvider = getTranscriptionProvider()
+) => {
+  if (!job.podcastId) {
+    throw new Error('Transcription job has no podcast');
+  }
+
+  const podcast = await prisma.podcast.findUnique({
+    where: { id: job.podcastId },
+    select: { audioUrl: true },
+  });
+
+  if (!podcast) {
+    throw new Error('Podcast no longer exists');
+  }
+
+  const result = await provider.transcribe({
+    audioUrl: podcast.audioUrl,
+    download: filePath => downloadFile(podcast.audioUrl, filePath),
+    language: job.payload?.language,
+  });
+
+  if (result.segments.length === 0) {
+    throw new Error('Transcription produced no speech');
+  }
+
+  await replaceTranscript(job.podcastId, {
+    format: 'json',
+    language: result.language,
+    source: provider.name,
+    segments: result.segments,
+  });
+
+  return {
+    provider: provider.name,
+    language: result.language,
+    segmentCount: result.segments.length,
+  };
+};
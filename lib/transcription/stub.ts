@@ -0,0 +1,22 @@
+/**
+ * Stub transcription provider
+ * Returns a fixed transcript (or fails with the given error) without running any
+ * engine, for tests and local development.
+ */
+
+import { TranscriptionProvider, TranscriptionResult } from './types';
+
+const DEFAULT_RESULT: TranscriptionResult = {
+  language: 'en',
+  segments: [{ startTime: 0, endTime: 5, text: 'This is a placeholder transcript.' }],
+};
+
+export const createStubTranscriptionProvider = (
+  result: TranscriptionResult | Error = DEFAULT_RESULT
+): TranscriptionProvider => ({
+  name: 'stub',
+  transcribe: async () => {
+    if (result instanceof Error) throw result;
+    return result;
+  },
+});
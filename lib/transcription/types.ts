@@ -0,0 +1,23 @@
+/**
+ * Transcription provider contract
+ * Every engine adapter turns an episode's audio into timestamped transcript segments.
+ */
+
+import { TranscriptSegmentInput } from '../transcripts';
+
+export interface TranscriptionRequest {
+  audioUrl: string;
+  // Copy the audio to a local file, reading it through the storage driver
+  download(filePath: string): Promise<void>;
+  language?: string | null; // ISO 639-1 code; providers auto-detect when omitted
+}
+
+export interface TranscriptionResult {
+  language: string;
+  segments: TranscriptSegmentInput[];
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
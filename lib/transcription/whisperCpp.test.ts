@@ -0,0 +1,37 @@
+import { parseWhisperCppOutput } from './whisperCpp';
+
+describe('parseWhisperCppOutput', () => {
+  it('converts millisecond offsets into segments', () => {
+    const result = parseWhisperCppOutput({
+      result: { language: 'de' },
+      transcription: [
+        { offsets: { from: 0, to: 2500 }, text: ' Willkommen zur  Show.' },
+        { offsets: { from: 2500, to: 6120 }, text: ' Heute geht es um Podcasts.' },
+      ],
+    });
+
+    expect(result).toEqual({
+      language: 'de',
+      segments: [
+        { startTime: 0, endTime: 2.5, text: 'Willkommen zur Show.' },
+        { startTime: 2.5, endTime: 6.12, text: 'Heute geht es um Podcasts.' },
+      ],
+    });
+  });
+
+  it('drops empty segments and defaults the language', () => {
+    const result = parseWhisperCppOutput({
+      transcription: [
+        { offsets: { from: 0, to: 1000 }, text: '   ' },
+        { offsets: { from: 1000, to: 2000 }, text: 'Hello' },
+      ],
+    });
+
+    expect(result.language).toBe('en');
+    expect(result.segments).toEqual([{ startTime: 1, endTime: 2, text: 'Hello' }]);
+  });
+
+  it('rejects output without a transcription', () => {
+    expect(() => parseWhisperCppOutput({})).toThrow('whisper.cpp output has no transcription');
+  });
+});
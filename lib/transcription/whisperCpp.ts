@@ -0,0 +1,105 @@
+/**
+ * whisper.cpp transcription provider
+ * Reads the episode audio from storage, converts it to the 16kHz mono WAV whisper.cpp expects
+ * with ffmpeg, then runs the whisper.cpp CLI and reads its JSON output.
+ *
+ * Configuration:
+ * - WHISPER_CPP_BIN: CLI binary (default "whisper-cli")
+ * - WHISPER_CPP_MODEL: path to a ggml model file (required)
+ * - WHISPER_CPP_THREADS: worker threads (default: whisper.cpp's own default)
+ * - FFMPEG_PATH: ffmpeg binary (default "ffmpeg")
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { TranscriptSegmentInput } from '../transcripts';
+import { TranscriptionProvider, TranscriptionResult } from './types';
+
+const execFileAsync = promisify(execFile);
+
+export interface WhisperCppOptions {
+  binary: string;
+  model?: string;
+  threads?: number;
+  ffmpegPath: string;
+  timeoutMs: number;
+}
+
+const getDefaultOptions = (): WhisperCppOptions => ({
+  binary: process.env.WHISPER_CPP_BIN || 'whisper-cli',
+  model: process.env.WHISPER_CPP_MODEL,
+  threads: process.env.WHISPER_CPP_THREADS ? parseInt(process.env.WHISPER_CPP_THREADS, 10) : undefined,
+  ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+  timeoutMs: 2 * 60 * 60 * 1000, // 2 hours
+});
+
+/**
+ * Convert whisper.cpp `-oj` output (offsets in milliseconds) into transcript segments
+ */
+export const parseWhisperCppOutput = (output: any): TranscriptionResult => {
+  if (!output || !Array.isArray(output.transcription)) {
+    throw new Error('whisper.cpp output has no transcription');
+  }
+
+  const segments: TranscriptSegmentInput[] = output.transcription
+    .map((entry: any) => ({
+      startTime: Number(entry.offsets?.from) / 1000,
+      endTime: Number(entry.offsets?.to) / 1000,
+      text: String(entry.text || '').replace(/\s+/g, ' ').trim(),
+    }))
+    .filter((segment: TranscriptSegmentInput) =>
+      segment.text && !isNaN(segment.startTime) && !isNaN(segment.endTime)
+    );
+
+  return {
+    language: output.result?.language || 'en',
+    segments,
+  };
+};
+
+export const createWhisperCppProvider = (overrides: Partial<WhisperCppOptions> = {}): TranscriptionProvider => {
+  const options = { ...getDefaultOptions(), ...overrides };
+
+  return {
+    name: 'whisper-cpp',
+
+    transcribe: async ({ download, language }) => {
+      if (!options.model) {
+        throw new Error('WHISPER_CPP_MODEL is not configured');
+      }
+
+      const workDir = await mkdtemp(path.join(tmpdir(), 'whisper-'));
+
+      try {
+        const sourcePath = path.join(workDir, 'source');
+        const wavPath = path.join(workDir, 'audio.wav');
+        const outputBase = path.join(workDir, 'transcript');
+        await download(sourcePath);
+
+        await execFileAsync(
+          options.ffmpegPath,
+          ['-nostdin', '-y', '-i', sourcePath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath],
+          { timeout: options.timeoutMs }
+        );
+
+        const args = ['-m', options.model, '-f', wavPath, '-oj', '-of', outputBase, '-l', language || 'auto'];
+        if (options.threads) {
+          args.push('-t', String(options.threads));
+        }
+
+        await execFileAsync(options.binary, args, {
+          timeout: options.timeoutMs,
+          maxBuffer: 64 * 1024 * 1024,
+        });
+
+        const output = JSON.parse(await readFile(`${outputBase}.json`, 'utf8'));
+        return parseWhisperCppOutput(output);
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+};
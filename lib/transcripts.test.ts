@@ -0,0 +1,60 @@
+import { detectTranscriptFormat, formatTimestamp, parseTimestamp, parseTranscript } from './transcripts';
+
+describe('transcripts', () => {
+  it('parses WebVTT and SRT timestamps', () => {
+    expect(parseTimestamp('00:01.500')).toBe(1.5);
+    expect(parseTimestamp('01:02:03.456')).toBeCloseTo(3723.456);
+    expect(parseTimestamp('00:00:04,2')).toBe(4.2);
+    expect(() => parseTimestamp('soon')).toThrow('Invalid timestamp');
+  });
+
+  it('parses WebVTT cues with voice tags and skips notes', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      'NOTE recorded live',
+      '',
+      'intro',
+      '00:00.000 --> 00:04.000 align:start',
+      '<v Alex>Welcome to the show</v>',
+      '',
+      '00:04.000 --> 00:09.500',
+      'Today we talk about',
+      '<i>sourdough</i>',
+    ].join('\r\n');
+
+    expect(parseTranscript(vtt, 'vtt')).toEqual([
+      { startTime: 0, endTime: 4, text: 'Welcome to the show', speaker: 'Alex' },
+      { startTime: 4, endTime: 9.5, text: 'Today we talk about sourdough', speaker: undefined },
+    ]);
+  });
+
+  it('parses SRT and JSON transcripts in time order', () => {
+    const srt = '1\n00:00:05,000 --> 00:00:07,000\nSecond line\n\n2\n00:00:01,000 --> 00:00:03,000\nFirst line\n';
+    expect(parseTranscript(srt, 'srt').map(segment => segment.text)).toEqual(['First line', 'Second line']);
+
+    const json = JSON.stringify({ segments: [{ start: 0, end: 2.5, text: ' Hello ', speaker: 'Sam' }] });
+    expect(parseTranscript(json, 'json')).toEqual([
+      { startTime: 0, endTime: 2.5, text: 'Hello', speaker: 'Sam' },
+    ]);
+  });
+
+  it('rejects transcripts without usable segments', () => {
+    expect(() => parseTranscript('WEBVTT\n\n', 'vtt')).toThrow('no segments');
+    expect(() => parseTranscript('[{"text":"hi"}]', 'json')).toThrow('missing start or end');
+    expect(() => parseTranscript('1\n00:00:05,000 --> 00:00:01,000\nBackwards', 'srt')).toThrow('invalid time range');
+  });
+
+  it('detects the format from the file name or content', () => {
+    expect(detectTranscriptFormat('', 'episode.SRT')).toBe('srt');
+    expect(detectTranscriptFormat('WEBVTT\n')).toBe('vtt');
+    expect(detectTranscriptFormat('[]')).toBe('json');
+    expect(detectTranscriptFormat('1\n00:00:01,000 --> 00:00:02,000\nHi')).toBe('srt');
+    expect(detectTranscriptFormat('plain text')).toBeNull();
+  });
+
+  it('formats display timestamps', () => {
+    expect(formatTimestamp(75)).toBe('1:15');
+    expect(formatTimestamp(3723.9)).toBe('1:02:03');
+  });
+});
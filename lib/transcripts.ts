@@ -0,0 +1,194 @@
+/**
+ * Transcript parsing
+ * Turns uploaded WebVTT, SRT or JSON transcripts into timestamped segments that are
+ * stored per episode and searched to deep-link listeners to the moment a topic comes up.
+ */
+
+export const TRANSCRIPT_FORMATS = ['vtt', 'srt', 'json'] as const;
+
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number];
+
+export const TRANSCRIPT_SETTINGS = {
+  MAX_BYTES: 5 * 1024 * 1024, // 5MB
+  MAX_SEGMENTS: 20000,
+};
+
+export interface TranscriptSegmentInput {
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+  text: string;
+  speaker?: string;
+}
+
+const TIMING_PATTERN = /^\s*(\S+)\s+-->\s+(\S+)/;
+
+/**
+ * Parse a cue timestamp such as "01:02:03.456", "02:03.456" or the SRT style "00:02:03,456"
+ */
+export const parseTimestamp = (value: string): number => {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours || '0', 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    (fraction ? parseInt(fraction.padEnd(3, '0'), 10) / 1000 : 0)
+  );
+};
+
+/**
+ * Format seconds as a "M:SS" or "H:MM:SS" timestamp for display
+ */
+export const formatTimestamp = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds || 0));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainder = String(seconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${remainder}`
+    : `${minutes}:${remainder}`;
+};
+
+/**
+ * Work out the format from the file name, content type or the content itself
+ */
+export const detectTranscriptFormat = (
+  content: string,
+  fileName?: string | null,
+  contentType?: string | null
+): TranscriptFormat | null => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension && TRANSCRIPT_FORMATS.includes(extension as TranscriptFormat)) {
+    return extension as TranscriptFormat;
+  }
+
+  if (contentType?.includes('text/vtt')) return 'vtt';
+  if (contentType?.includes('application/x-subrip')) return 'srt';
+  if (contentType?.includes('application/json')) return 'json';
+
+  const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+  if (trimmed.startsWith('WEBVTT')) return 'vtt';
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+  if (/^\d+\s*\r?\n\s*\S+\s+-->\s+\S+/.test(trimmed)) return 'srt';
+
+  return null;
+};
+
+// Pull the speaker out of a WebVTT voice tag and strip any other markup
+const cleanCueText = (lines: string[]): { text: string; speaker?: string } => {
+  const joined = lines.join(' ');
+  const voice = /<v(?:\.[^\s>]+)*\s+([^>]+)>/.exec(joined);
+
+  return {
+    text: joined.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim(),
+    speaker: voice ? voice[1].trim() : undefined,
+  };
+};
+
+// Both WebVTT and SRT are blank-line separated blocks with a "start --> end" timing line
+const parseCueBlocks = (content: string): TranscriptSegmentInput[] => {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const segments: TranscriptSegmentInput[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line));
+
+    // Headers, NOTE, STYLE and REGION blocks have no timing line
+    if (timingIndex === -1) return;
+
+    const [, start, end] = TIMING_PATTERN.exec(lines[timingIndex]) as RegExpExecArray;
+    const { text, speaker } = cleanCueText(lines.slice(timingIndex + 1));
+    if (!text) return;
+
+    segments.push({
+      startTime: parseTimestamp(start),
+      endTime: parseTimestamp(end),
+      text,
+      speaker,
+    });
+  });
+
+  return segments;
+};
+
+export const parseWebVtt = (content: string): TranscriptSegmentInput[] => {
+  if (!content.replace(/^\uFEFF/, '').trimStart().startsWith('WEBVTT')) {
+    throw new Error('WebVTT transcripts must start with "WEBVTT"');
+  }
+
+  return parseCueBlocks(content);
+};
+
+export const parseSrt = (content: string): TranscriptSegmentInput[] => parseCueBlocks(content);
+
+/**
+ * Accepts an array of segments or an object with a `segments` array (as produced by
+ * Whisper). Segments may use `start`/`end` or `startTime`/`endTime`, in seconds.
+ */
+export const parseJsonTranscript = (content: string): TranscriptSegmentInput[] => {
+  let data;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Transcript is not valid JSON');
+  }
+
+  const rawSegments = Array.isArray(data) ? data : data?.segments;
+  if (!Array.isArray(rawSegments)) {
+    throw new Error('JSON transcripts must be an array of segments or have a "segments" array');
+  }
+
+  return rawSegments.map((segment, index) => {
+    const startTime = Number(segment.startTime ?? segment.start);
+    const endTime = Number(segment.endTime ?? segment.end);
+    if (isNaN(startTime) || isNaN(endTime)) {
+      throw new Error(`Segment ${index + 1} is missing start or end times`);
+    }
+
+    return {
+      startTime,
+      endTime,
+      text: String(segment.text || '').replace(/\s+/g, ' ').trim(),
+      speaker: segment.speaker ? String(segment.speaker) : undefined,
+    };
+  }).filter(segment => segment.text);
+};
+
+/**
+ * Parse a transcript and validate the resulting segments
+ */
+export const parseTranscript = (content: string, format: TranscriptFormat): TranscriptSegmentInput[] => {
+  const parsers: Record<TranscriptFormat, (content: string) => TranscriptSegmentInput[]> = {
+    vtt: parseWebVtt,
+    srt: parseSrt,
+    json: parseJsonTranscript,
+  };
+
+  const segments = parsers[format](content);
+
+  if (segments.length === 0) {
+    throw new Error('Transcript contains no segments');
+  }
+
+  if (segments.length > TRANSCRIPT_SETTINGS.MAX_SEGMENTS) {
+    throw new Error(`Transcripts may contain at most ${TRANSCRIPT_SETTINGS.MAX_SEGMENTS} segments`);
+  }
+
+  segments.forEach((segment, index) => {
+    if (segment.startTime < 0 || segment.endTime < segment.startTime) {
+      throw new Error(`Segment ${index + 1} has an invalid time range`);
+    }
+  });
+
+  return segments.sort((a, b) => a.startTime - b.startTime);
+};
@@ -0,0 +1,170 @@
+/**
+ * Resumable upload sessions
+ * Persists upload sessions and their parts in the database and stages part data in the
+ * configured storage driver until the upload is completed and assembled into one file.
+ * See lib/uploads.ts for the protocol and validation rules.
+ */
+
+import { createHash } from 'crypto';
+import { PassThrough, Readable } from 'stream';
+import { Upload, UploadPart } from '@prisma/client';
+import prisma from './prismadb';
+import { StorageDriver, getStorageDriver } from './storageDrivers';
+import {
+  CreateUploadRequest,
+  UPLOAD_SETTINGS,
+  UploadFolder,
+  UploadLayout,
+  UploadSession,
+  buildUploadKey,
+  getPartCount,
+  getPartKey,
+} from './uploads';
+
+/**
+ * Shape an upload and its parts for API responses
+ */
+export const toUploadSession = (upload: Upload & { parts: UploadPart[] }): UploadSession => ({
+  id: upload.id,
+  fileName: upload.fileName,
+  contentType: upload.contentType,
+  folder: upload.folder as UploadFolder,
+  size: upload.size,
+  partSize: upload.partSize,
+  partCount: upload.partCount,
+  status: upload.status as UploadSession['status'],
+  url: upload.url,
+  expiresAt: upload.expiresAt.toISOString(),
+  parts: upload.parts
+    .map(part => ({ partNumber: part.partNumber, size: part.size, checksum: part.checksum }))
+    .sort((a, b) => a.partNumber - b.partNumber),
+});
+
+export const createUpload = async (userId: string, request: CreateUploadRequest) =>
+  prisma.upload.create({
+    data: {
+      ...request,
+      partCount: request.size === null ? null : getPartCount(request.size, request.partSize),
+      expiresAt: new Date(Date.now() + UPLOAD_SETTINGS.EXPIRY_MS),
+      userId,
+    },
+    include: { parts: true },
+  });
+
+export const getUploadWithParts = async (uploadId: string) =>
+  prisma.upload.findUnique({
+    where: { id: uploadId },
+    include: { parts: true },
+  });
+
+export const computeChecksum = (data: Buffer): string =>
+  createHash('sha256').update(data).digest('hex');
+
+/**
+ * Stage one verified part; re-sending a part replaces it
+ */
+export const savePart = async (upload: Upload, partNumber: number, data: Buffer, checksum: string) => {
+  await getStorageDriver(upload.folder as UploadFolder).put(getPartKey(upload.id, partNumber), data);
+
+  return prisma.uploadPart.upsert({
+    where: { uploadId_partNumber: { uploadId: upload.id, partNumber } },
+    create: { uploadId: upload.id, partNumber, size: data.length, checksum },
+    update: { size: data.length, checksum, createdAt: new Date() },
+  });
+};
+
+// Stream the staged parts back-to-back without buffering the whole file
+const concatParts = (driver: StorageDriver, keys: string[]): Readable => {
+  const output = new PassThrough();
+
+  const pipeNext = async (index: number): Promise<void> => {
+    if (index === keys.length) {
+      output.end();
+      return;
+    }
+
+    const part = await driver.get(keys[index]);
+    await new Promise<void>((resolve, reject) => {
+      part.on('end', resolve);
+      part.on('error', reject);
+      part.pipe(output, { end: false });
+    });
+
+    return pipeNext(index + 1);
+  };
+
+  pipeNext(0).catch(error => output.destroy(error));
+  return output;
+};
+
+/**
+ * Assemble the parts into the final file, then drop the staged parts.
+ * `layout` comes from getUploadLayout and fixes the size of streaming uploads.
+ */
+export const completeUpload = async (upload: Upload & { parts: UploadPart[] }, layout: UploadLayout) => {
+  const driver = getStorageDriver(upload.folder as UploadFolder);
+  const partKeys = upload.parts
+    .map(part => part.partNumber)
+    .sort((a, b) => a - b)
+    .map(partNumber => getPartKey(upload.id, partNumber));
+  const storageKey = buildUploadKey(upload.userId, upload.fileName, upload.id);
+
+  await driver.put(storageKey, concatParts(driver, partKeys), {
+    contentType: upload.contentType,
+    cacheControl: '31536000',
+  });
+
+  const completed = await prisma.upload.update({
+    where: { id: upload.id },
+    data: {
+      ...layout,
+      status: 'completed',
+      storageKey,
+      url: driver.getPublicUrl(storageKey),
+      completedAt: new Date(),
+    },
+    include: { parts: true },
+  });
+
+  await driver.delete(partKeys).catch(error => {
+    console.error(`Failed to delete staged parts of upload ${upload.id}:`, error);
+  });
+
+  return completed;
+};
+
+// Delete staged part data and records, leaving the session with its final status
+const discardUpload = async (upload: Upload & { parts: UploadPart[] }, status: 'aborted' | 'expired') => {
+  await getStorageDriver(upload.folder as UploadFolder).delete(
+    upload.parts.map(part => getPartKey(upload.id, part.partNumber))
+  );
+
+  await prisma.$transaction([
+    prisma.uploadPart.deleteMany({ where: { uploadId: upload.id } }),
+    prisma.upload.update({ where: { id: upload.id }, data: { status } }),
+  ]);
+};
+
+export const abortUpload = async (upload: Upload & { parts: UploadPart[] }) =>
+  discardUpload(upload, 'aborted');
+
+/**
+ * Clean up pending uploads that were abandoned past their expiry
+ */
+export const expireAbandonedUploads = async (limit = 50): Promise<number> => {
+  const expired = await prisma.upload.findMany({
+    where: { status: 'pending', expiresAt: { lt: new Date() } },
+    include: { parts: true },
+    take: limit,
+  });
+
+  for (let i = 0; i < expired.length; i++) {
+    try {
+      await discardUpload(expired[i], 'expired');
+    } catch (error) {
+      console.error(`Failed to expire upload ${expired[i].id}:`, error);
+    }
+  }
+
+  return expired.length;
+};
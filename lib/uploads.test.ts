@@ -0,0 +1,139 @@
+import {
+  UPLOAD_SETTINGS,
+  buildUploadKey,
+  findChecksumMismatch,
+  getExpectedPartSize,
+  getMaxPartNumber,
+  getMissingParts,
+  getPartCount,
+  getPartSizeError,
+  getUploadClosedReason,
+  getUploadLayout,
+  isOwnStorageKey,
+  normalizeChecksum,
+  parseCreateUploadRequest,
+  parsePartNumber,
+} from './uploads';
+
+const MB = 1024 * 1024;
+const HEX = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+describe('uploads', () => {
+  it('validates new upload requests', () => {
+    expect(parseCreateUploadRequest({ fileName: 'ep1.mp3', contentType: 'Audio/MPEG', size: 20 * MB })).toEqual({
+      request: {
+        fileName: 'ep1.mp3',
+        contentType: 'audio/mpeg',
+        folder: 'podcast-audio',
+        size: 20 * MB,
+        partSize: UPLOAD_SETTINGS.PART_SIZE,
+      },
+    });
+
+    expect(parseCreateUploadRequest({ contentType: 'audio/mpeg', size: 10 }).error).toBe('fileName, contentType and size are required');
+    expect(parseCreateUploadRequest({ fileName: 'a.mp3', contentType: 'audio/mpeg', size: 10, folder: 'etc' }).error).toMatch(/^folder must be/);
+    expect(parseCreateUploadRequest({ fileName: 'a.exe', contentType: 'application/x-msdownload', size: 10 }).error).toBe('application/x-msdownload files cannot be uploaded to podcast-audio');
+    expect(parseCreateUploadRequest({ fileName: 'a.png', contentType: 'image/png', size: 10, folder: 'images' }).request).toBeDefined();
+    expect(parseCreateUploadRequest({ fileName: 'a.svg', contentType: 'image/svg+xml', size: 10, folder: 'images' }).error).toBe('image/svg+xml files cannot be uploaded to images');
+    expect(parseCreateUploadRequest({ fileName: 'a.mp3', contentType: 'audio/mpeg', size: 0 }).error).toBe('size must be a positive number of bytes');
+    expect(parseCreateUploadRequest({ fileName: 'a.mp3', contentType: 'audio/mpeg', size: 2048 * MB }).error).toBe('Files may be at most 1024MB');
+    expect(parseCreateUploadRequest({ fileName: 'a.mp3', contentType: 'audio/mpeg', size: 10, partSize: 1024 }).error).toMatch(/^partSize must be between/);
+  });
+
+  it('splits files into parts where only the last may be shorter', () => {
+    const upload = { size: 20 * MB, partSize: 8 * MB, partCount: getPartCount(20 * MB, 8 * MB) };
+
+    expect(upload.partCount).toBe(3);
+    expect(getExpectedPartSize(upload, 1)).toBe(8 * MB);
+    expect(getExpectedPartSize(upload, 3)).toBe(4 * MB);
+    expect(getPartCount(1, 8 * MB)).toBe(1);
+  });
+
+  it('parses part numbers within range', () => {
+    expect(parsePartNumber('2', 3)).toBe(2);
+    expect(parsePartNumber('0', 3)).toBeNull();
+    expect(parsePartNumber('4', 3)).toBeNull();
+    expect(parsePartNumber('1.5', 3)).toBeNull();
+  });
+
+  it('accepts hex and base64 checksums', () => {
+    expect(normalizeChecksum(HEX.toUpperCase())).toBe(HEX);
+    expect(normalizeChecksum('47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=')).toBe(HEX);
+    expect(normalizeChecksum('abc')).toBeNull();
+    expect(normalizeChecksum(null)).toBeNull();
+  });
+
+  it('only accepts parts while the upload is pending and unexpired', () => {
+    const now = new Date('2025-04-03T12:00:00Z');
+
+    expect(getUploadClosedReason({ status: 'pending', expiresAt: new Date('2025-04-04T12:00:00Z') }, now)).toBeNull();
+    expect(getUploadClosedReason({ status: 'pending', expiresAt: new Date('2025-04-03T11:00:00Z') }, now)).toBe('Upload has expired');
+    expect(getUploadClosedReason({ status: 'completed', expiresAt: new Date('2025-04-04T12:00:00Z') }, now)).toBe('Upload is completed');
+  });
+
+  it('reports missing parts and checksum mismatches', () => {
+    const received = [
+      { partNumber: 1, size: 8, checksum: HEX },
+      { partNumber: 3, size: 4, checksum: HEX },
+    ];
+
+    expect(getMissingParts(4, received)).toEqual([2, 4]);
+    expect(findChecksumMismatch(received, undefined)).toBeNull();
+    expect(findChecksumMismatch(received, [{ partNumber: 1, checksum: HEX }])).toBeNull();
+    expect(findChecksumMismatch(received, [{ partNumber: 3, checksum: '0'.repeat(64) }])).toBe(3);
+    expect(findChecksumMismatch(received, [{ partNumber: 2, checksum: HEX }])).toBe(2);
+  });
+
+  it('accepts streaming uploads without a size', () => {
+    expect(parseCreateUploadRequest({ fileName: 'take.webm', contentType: 'audio/webm', streaming: true, partSize: MB })).toEqual({
+      request: { fileName: 'take.webm', contentType: 'audio/webm', folder: 'podcast-audio', size: null, partSize: MB },
+    });
+  });
+
+  it('checks part sizes for sized and streaming uploads', () => {
+    const sized = { size: 20 * MB, partSize: 8 * MB, partCount: 3 };
+    const streaming = { size: null, partSize: MB, partCount: null };
+
+    expect(getMaxPartNumber(sized)).toBe(3);
+    expect(getMaxPartNumber(streaming)).toBe(1024);
+    expect(getPartSizeError(sized, 3, 4 * MB)).toBeNull();
+    expect(getPartSizeError(sized, 1, 4 * MB)).toBe(`Part 1 must be ${8 * MB} bytes, received ${4 * MB}`);
+    expect(getPartSizeError(streaming, 5, 1000)).toBeNull();
+    expect(getPartSizeError(streaming, 5, MB + 1)).toBe(`Part 5 must be between 1 and ${MB} bytes, received ${MB + 1}`);
+  });
+
+  it('works out the layout of an upload being completed', () => {
+    const sized = { size: 20 * MB, partSize: 8 * MB, partCount: 3 };
+    const streaming = { size: null, partSize: MB, partCount: null };
+
+    expect(getUploadLayout(sized, [{ partNumber: 1, size: 8 * MB }])).toEqual({ error: 'Missing parts: 2, 3', missing: [2, 3] });
+    expect(getUploadLayout(streaming, [
+      { partNumber: 2, size: 100 },
+      { partNumber: 1, size: MB },
+    ])).toEqual({ layout: { size: MB + 100, partCount: 2 } });
+    expect(getUploadLayout(streaming, [{ partNumber: 2, size: 100 }]).missing).toEqual([1]);
+    expect(getUploadLayout(streaming, [
+      { partNumber: 1, size: 100 },
+      { partNumber: 2, size: 100 },
+    ]).error).toBe(`Part 1 must be ${MB} bytes, since it is not the last part`);
+    expect(getUploadLayout(streaming, []).error).toBe('No parts have been uploaded');
+  });
+
+  it('builds storage keys that keep only safe extensions', () => {
+    expect(buildUploadKey('user1', 'My Episode.MP3', 'abc')).toBe('user1/abc.mp3');
+    expect(buildUploadKey('user1', 'notes', 'abc')).toBe('user1/abc');
+    expect(buildUploadKey('user1', 'x.../../evil', 'abc')).toBe('user1/abc');
+  });
+
+  it('only accepts keys inside the user\'s folder', () => {
+    expect(isOwnStorageKey('user1/abc.mp3', 'user1')).toBe(true);
+    expect(isOwnStorageKey('user1/sub/abc.mp3', 'user1')).toBe(true);
+    expect(isOwnStorageKey('user2/abc.mp3', 'user1')).toBe(false);
+    expect(isOwnStorageKey('user1/../user2/abc.mp3', 'user1')).toBe(false);
+    expect(isOwnStorageKey('user1/./abc.mp3', 'user1')).toBe(false);
+    expect(isOwnStorageKey('user1//abc.mp3', 'user1')).toBe(false);
+    expect(isOwnStorageKey('user1/..\\user2\\abc.mp3', 'user1')).toBe(false);
+    expect(isOwnStorageKey('user1/', 'user1')).toBe(false);
+    expect(isOwnStorageKey(42, 'user1')).toBe(false);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Resumable upload rules
+ * Shared by the /api/uploads routes and the browser uploader in lib/fileStorage.ts.
+ *
+ * Protocol (S3-style multipart):
+ * 1. POST /api/uploads creates a session and returns its part size and count
+ * 2. PUT /api/uploads/[uploadId]/parts/[partNumber] uploads each part with its SHA-256
+ *    in the X-Content-SHA256 header; parts can be sent in any order and re-sent
+ * 3. GET /api/uploads/[uploadId] lists received parts so a reloaded page can resume
+ * 4. POST /api/uploads/[uploadId]/complete assembles the parts into the final file
+ * Sessions that are not completed before they expire are cleaned up by /api/jobs/run.
+ *
+ * Streaming uploads (`streaming: true` instead of `size`) are for files that are still being
+ * produced, like a recording in progress: parts are sent in order as they fill up and the
+ * size and part count are worked out from the received parts on completion.
+ */
+
+export const UPLOAD_FOLDERS = ['podcast-audio', 'images'] as const;
+
+export type UploadFolder = typeof UPLOAD_FOLDERS[number];
+
+export const UPLOAD_STATUSES = ['pending', 'completed', 'aborted', 'expired'] as const;
+
+export type UploadStatus = typeof UPLOAD_STATUSES[number];
+
+export const UPLOAD_SETTINGS = {
+  PART_SIZE: 8 * 1024 * 1024, // 8MB
+  MIN_PART_SIZE: 1024 * 1024, // 1MB
+  MAX_PART_SIZE: 32 * 1024 * 1024, // 32MB
+  MAX_FILE_SIZE: 1024 * 1024 * 1024, // 1GB
+  EXPIRY_MS: 24 * 60 * 60 * 1000, // 24 hours
+  CHECKSUM_HEADER: 'x-content-sha256',
+};
+
+// Content types accepted for each folder. Images are raster formats only: an SVG can carry
+// scripts, which would run on the app's origin when the local driver serves it.
+const FOLDER_CONTENT_TYPES: Record<UploadFolder, RegExp> = {
+  'podcast-audio': /^(audio\/|video\/webm$|video\/mp4$|application\/octet-stream$)/,
+  images: /^image\/(jpeg|png|gif|webp)$/,
+};
+
+export interface CreateUploadRequest {
+  fileName: string;
+  contentType: string;
+  folder: UploadFolder;
+  size: number | null; // null for streaming uploads
+  partSize: number;
+}
+
+export interface UploadLayout {
+  size: number;
+  partCount: number;
+}
+
+export interface UploadPartSummary {
+  partNumber: number;
+  size: number;
+  checksum: string;
+}
+
+export interface UploadSession {
+  id: string;
+  fileName: string;
+  contentType: string;
+  folder: UploadFolder;
+  size: number | null;
+  partSize: number;
+  partCount: number | null;
+  status: UploadStatus;
+  url: string | null;
+  expiresAt: string;
+  parts: UploadPartSummary[];
+}
+
+/**
+ * Validate the body of POST /api/uploads
+ */
+export const parseCreateUploadRequest = (body: any): { request?: CreateUploadRequest; error?: string } => {
+  const fileName = typeof body?.fileName === 'string' ? body.fileName.trim() : '';
+  const contentType = typeof body?.contentType === 'string' ? body.contentType.trim().toLowerCase() : '';
+  const folder = body?.folder || 'podcast-audio';
+  const streaming = body?.streaming === true;
+  const size = streaming ? null : Number(body?.size);
+  const partSize = body?.partSize === undefined ? UPLOAD_SETTINGS.PART_SIZE : Number(body.partSize);
+
+  if (!fileName || !contentType) {
+    return { error: 'fileName, contentType and size are required' };
+  }
+
+  if (!UPLOAD_FOLDERS.includes(folder)) {
+    return { error: `folder must be one of: ${UPLOAD_FOLDERS.join(', ')}` };
+  }
+
+  if (!FOLDER_CONTENT_TYPES[folder as UploadFolder].test(contentType)) {
+    return { error: `${contentType} files cannot be uploaded to ${folder}` };
+  }
+
+  if (size !== null && (!Number.isInteger(size) || size <= 0)) {
+    return { error: 'size must be a positive number of bytes' };
+  }
+
+  if (size !== null && size > UPLOAD_SETTINGS.MAX_FILE_SIZE) {
+    return { error: `Files may be at most ${UPLOAD_SETTINGS.MAX_FILE_SIZE / 1024 / 1024}MB` };
+  }
+
+  if (
+    !Number.isInteger(partSize) ||
+    partSize < UPLOAD_SETTINGS.MIN_PART_SIZE ||
+    partSize > UPLOAD_SETTINGS.MAX_PART_SIZE
+  ) {
+    return { error: `partSize must be between ${UPLOAD_SETTINGS.MIN_PART_SIZE} and ${UPLOAD_SETTINGS.MAX_PART_SIZE} bytes` };
+  }
+
+  return { request: { fileName, contentType, folder, size, partSize } };
+};
+
+export const getPartCount = (size: number, partSize: number): number =>
+  Math.max(1, Math.ceil(size / partSize));
+
+/**
+ * Exact size part `partNumber` (1-based) must have; only the last part may be shorter
+ */
+export const getExpectedPartSize = (
+  upload: { size: number; partSize: number; partCount: number },
+  partNumber: number
+): number =>
+  partNumber === upload.partCount
+    ? upload.size - (upload.partCount - 1) * upload.partSize
+    : upload.partSize;
+
+/**
+ * Highest part number an upload accepts; streaming uploads may grow up to the file size limit
+ */
+export const getMaxPartNumber = (upload: { partSize: number; partCount: number | null }): number =>
+  upload.partCount ?? Math.ceil(UPLOAD_SETTINGS.MAX_FILE_SIZE / upload.partSize);
+
+/**
+ * Why a received part has the wrong size, or null when it fits. A streaming upload's
+ * parts may be shorter than partSize, since any of them could turn out to be the last.
+ */
+export const getPartSizeError = (
+  upload: { size: number | null; partSize: number; partCount: number | null },
+  partNumber: number,
+  received: number
+): string | null => {
+  if (upload.size === null || upload.partCount === null) {
+    return received > 0 && received <= upload.partSize
+      ? null
+      : `Part ${partNumber} must be between 1 and ${upload.partSize} bytes, received ${received}`;
+  }
+
+  const expected = getExpectedPartSize({ size: upload.size, partSize: upload.partSize, partCount: upload.partCount }, partNumber);
+  return received === expected ? null : `Part ${partNumber} must be ${expected} bytes, received ${received}`;
+};
+
+/**
+ * Parse the partNumber route segment, returning null when it is out of range
+ */
+export const parsePartNumber = (value: string, partCount: number): number | null => {
+  const partNumber = Number(value);
+  return Number.isInteger(partNumber) && partNumber >= 1 && partNumber <= partCount ? partNumber : null;
+};
+
+/**
+ * Accept a SHA-256 checksum as hex or base64 and return it as lowercase hex
+ */
+export const normalizeChecksum = (value: string | null | undefined): string | null => {
+  const checksum = (value || '').trim();
+
+  if (/^[0-9a-f]{64}$/i.test(checksum)) {
+    return checksum.toLowerCase();
+  }
+
+  if (/^[A-Za-z0-9+/]{43}=$/.test(checksum)) {
+    return Array.from(atob(checksum), char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+  }
+
+  return null;
+};
+
+/**
+ * Why parts can no longer be sent to an upload, or null while it accepts them
+ */
+export const getUploadClosedReason = (
+  upload: { status: string; expiresAt: Date },
+  now: Date = new Date()
+): string | null => {
+  if (upload.status !== 'pending') return `Upload is ${upload.status}`;
+  if (upload.expiresAt < now) return 'Upload has expired';
+  return null;
+};
+
+/**
+ * Part numbers that have not been received yet
+ */
+export const getMissingParts = (partCount: number, received: { partNumber: number }[]): number[] => {
+  const receivedNumbers = received.map(part => part.partNumber);
+  const missing: number[] = [];
+
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (!receivedNumbers.includes(partNumber)) missing.push(partNumber);
+  }
+
+  return missing;
+};
+
+/**
+ * Work out the final size and part count of an upload that is being completed, or why it
+ * can't be completed yet. Streaming uploads end at their highest received part, so every
+ * part before it must be present and full.
+ */
+export const getUploadLayout = (
+  upload: { size: number | null; partSize: number; partCount: number | null },
+  received: { partNumber: number; size: number }[]
+): { layout?: UploadLayout; error?: string; missing?: number[] } => {
+  if (upload.size !== null && upload.partCount !== null) {
+    const missing = getMissingParts(upload.partCount, received);
+    return missing.length > 0
+      ? { error: `Missing parts: ${missing.join(', ')}`, missing }
+      : { layout: { size: upload.size, partCount: upload.partCount } };
+  }
+
+  if (received.length === 0) {
+    return { error: 'No parts have been uploaded' };
+  }
+
+  const partCount = Math.max(...received.map(part => part.partNumber));
+  const missing = getMissingParts(partCount, received);
+  if (missing.length > 0) {
+    return { error: `Missing parts: ${missing.join(', ')}`, missing };
+  }
+
+  const short = received.find(part => part.partNumber < partCount && part.size !== upload.partSize);
+  if (short) {
+    return { error: `Part ${short.partNumber} must be ${upload.partSize} bytes, since it is not the last part` };
+  }
+
+  return { layout: { size: received.reduce((total, part) => total + part.size, 0), partCount } };
+};
+
+/**
+ * Compare the parts the client says it sent with what the server received
+ */
+export const findChecksumMismatch = (
+  received: UploadPartSummary[],
+  claimed: { partNumber: number; checksum: string }[] | undefined
+): number | null => {
+  if (!Array.isArray(claimed)) return null;
+
+  const mismatch = claimed.find(part => {
+    const stored = received.find(candidate => candidate.partNumber === part.partNumber);
+    return !stored || stored.checksum !== normalizeChecksum(part.checksum);
+  });
+
+  return mismatch ? mismatch.partNumber : null;
+};
+
+/**
+ * Final storage key: the owner's folder plus a random name that keeps a safe extension
+ */
+export const buildUploadKey = (userId: string, fileName: string, id: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  const extension = dot > 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+  return /^[a-z0-9]{1,8}$/.test(extension) ? `${userId}/${id}.${extension}` : `${userId}/${id}`;
+};
+
+/**
+ * Whether a storage key lies in a user's folder. Keys with "." or ".." segments, empty
+ * segments or backslashes are refused, since a driver could resolve them elsewhere.
+ */
+export const isOwnStorageKey = (key: unknown, userId: string): boolean => {
+  if (typeof key !== 'string' || key.includes('\\')) return false;
+
+  const segments = key.split('/');
+  return segments.length > 1 &&
+    segments[0] === userId &&
+    segments.every(segment => segment !== '' && segment !== '.' && segment !== '..');
+};
+
+/**
+ * Staging key of an uploaded part
+ */
+export const getPartKey = (uploadId: string, partNumber: number): string =>
+  `uploads/${uploadId}/part-${partNumber}`;
+
+/**
+ * localStorage key identifying a file across page reloads, so an interrupted upload can resume
+ */
+export const getResumeKey = (file: { name: string; size: number; lastModified: number }, folder: UploadFolder): string =>
+  `upload:${folder}:${file.name}:${file.size}:${file.lastModified}`;
@@ -0,0 +1,61 @@
+import {
+  createWaveformBuilder,
+  getSamplesPerPixel,
+  getWaveformDuration,
+  getWaveformPeaks,
+  isWaveformData,
+  WAVEFORM_SETTINGS,
+} from './waveform';
+
+// Encode samples as signed 16-bit little-endian PCM, like ffmpeg's s16le output
+const pcm = (samples: number[]): Uint8Array => {
+  const bytes = new Uint8Array(samples.length * 2);
+  samples.forEach((sample, index) => {
+    bytes[index * 2] = sample & 0xff;
+    bytes[index * 2 + 1] = (sample >> 8) & 0xff;
+  });
+  return bytes;
+};
+
+describe('waveform', () => {
+  it('fits any episode length into a fixed number of points', () => {
+    expect(getSamplesPerPixel(3600)).toBe(Math.ceil((3600 * WAVEFORM_SETTINGS.SAMPLE_RATE) / WAVEFORM_SETTINGS.POINTS));
+    expect(getSamplesPerPixel(0)).toBe(1);
+  });
+
+  it('builds 8-bit min/max pairs in the audiowaveform format', () => {
+    const builder = createWaveformBuilder(2, 8000);
+    builder.addChunk(pcm([1000, -2000, 32767, -32768, 256]));
+
+    expect(builder.finish()).toEqual({
+      version: 2,
+      channels: 1,
+      sample_rate: 8000,
+      samples_per_pixel: 2,
+      bits: 8,
+      length: 3,
+      data: [-8, 3, -128, 127, 1, 1],
+    });
+  });
+
+  it('handles samples split across chunks', () => {
+    const bytes = pcm([-300, 5000, -7000]);
+    const builder = createWaveformBuilder(3);
+    builder.addChunk(bytes.slice(0, 3));
+    builder.addChunk(bytes.slice(3));
+
+    expect(builder.finish().data).toEqual([-7000 >> 8, 5000 >> 8]);
+  });
+
+  it('validates stored data and converts it to wavesurfer peaks', () => {
+    const waveform = createWaveformBuilder(4000, 8000);
+    waveform.addChunk(pcm(new Array(8000).fill(0).map((_, i) => (i % 2 ? 16384 : -16384))));
+    const data = waveform.finish();
+
+    expect(isWaveformData(data)).toBe(true);
+    expect(isWaveformData({ ...data, length: 5 })).toBe(false);
+    expect(isWaveformData(null)).toBe(false);
+    expect(getWaveformDuration(data)).toBe(1);
+    expect(getWaveformPeaks(data)).toEqual([[64 / 127, 64 / 127], [-0.5, -0.5]]);
+  });
+});
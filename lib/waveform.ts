@@ -0,0 +1,131 @@
+/**
+ * Waveform peaks
+ * Peaks are computed once during audio processing from the normalized rendition and
+ * stored on the Podcast in the audiowaveform JSON format (version 2, 8-bit, mono) so
+ * players can draw a scrubber without downloading and decoding the audio.
+ * See https://github.com/bbc/audiowaveform/blob/master/doc/DataFormat.md
+ */
+
+export const WAVEFORM_SETTINGS = {
+  SAMPLE_RATE: 8000, // Audio is decoded at this rate for peak detection
+  POINTS: 1000, // Min/max pairs per episode, regardless of length
+  BITS: 8,
+};
+
+export interface WaveformData {
+  version: 2;
+  channels: 1;
+  sample_rate: number;
+  samples_per_pixel: number;
+  bits: 8;
+  length: number;
+  data: number[]; // Interleaved min/max pairs, -128 to 127
+}
+
+/**
+ * Samples per min/max pair needed to fit an episode of `duration` seconds into WAVEFORM_SETTINGS.POINTS
+ */
+export const getSamplesPerPixel = (duration: number, sampleRate: number = WAVEFORM_SETTINGS.SAMPLE_RATE): number =>
+  Math.max(1, Math.ceil((duration * sampleRate) / WAVEFORM_SETTINGS.POINTS));
+
+/**
+ * Accumulates signed 16-bit little-endian mono PCM (as streamed from ffmpeg) into peaks.
+ * Chunks may split a sample across boundaries; the stray byte is carried over.
+ */
+export const createWaveformBuilder = (samplesPerPixel: number, sampleRate: number = WAVEFORM_SETTINGS.SAMPLE_RATE) => {
+  const data: number[] = [];
+  let min = 0;
+  let max = 0;
+  let count = 0;
+  let carry: number | null = null;
+
+  const flush = () => {
+    // 16-bit samples are reduced to 8 bits by dropping the low byte
+    data.push(min >> 8, max >> 8);
+    min = 0;
+    max = 0;
+    count = 0;
+  };
+
+  const addSample = (sample: number) => {
+    if (count === 0) {
+      min = sample;
+      max = sample;
+    } else if (sample < min) {
+      min = sample;
+    } else if (sample > max) {
+      max = sample;
+    }
+    count++;
+    if (count === samplesPerPixel) flush();
+  };
+
+  return {
+    addChunk: (chunk: Uint8Array) => {
+      let offset = 0;
+
+      if (carry !== null && chunk.length > 0) {
+        addSample(((chunk[0] << 8) | carry) << 16 >> 16);
+        carry = null;
+        offset = 1;
+      }
+
+      for (; offset + 1 < chunk.length; offset += 2) {
+        addSample(((chunk[offset + 1] << 8) | chunk[offset]) << 16 >> 16);
+      }
+
+      if (offset < chunk.length) {
+        carry = chunk[offset];
+      }
+    },
+
+    finish: (): WaveformData => {
+      if (count > 0) flush();
+
+      return {
+        version: 2,
+        channels: 1,
+        sample_rate: sampleRate,
+        samples_per_pixel: samplesPerPixel,
+        bits: 8,
+        length: data.length / 2,
+        data,
+      };
+    },
+  };
+};
+
+/**
+ * Check that a stored value looks like 8-bit mono audiowaveform data
+ */
+export const isWaveformData = (value: unknown): value is WaveformData => {
+  const waveform = value as WaveformData | null;
+  return Boolean(
+    waveform &&
+    waveform.channels === 1 &&
+    waveform.bits === 8 &&
+    Array.isArray(waveform.data) &&
+    waveform.data.length === waveform.length * 2
+  );
+};
+
+/**
+ * Length of the audio the waveform covers, in seconds
+ */
+export const getWaveformDuration = (waveform: WaveformData): number =>
+  (waveform.length * waveform.samples_per_pixel) / waveform.sample_rate;
+
+/**
+ * Split min/max pairs into the [top, bottom] channels wavesurfer.js draws, scaled to -1..1
+ */
+export const getWaveformPeaks = (waveform: WaveformData): [number[], number[]] => {
+  const top: number[] = [];
+  const bottom: number[] = [];
+
+  for (let index = 0; index < waveform.length; index++) {
+    bottom.push(waveform.data[index * 2] / 128);
+    top.push(waveform.data[index * 2 + 1] / 127);
+  }
+
+  return [top, bottom];
+};
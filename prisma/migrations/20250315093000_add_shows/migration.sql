@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "Show" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "artwork" TEXT,
+    "category" TEXT,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "explicit" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "Show_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Podcast" ADD COLUMN     "episodeNumber" INTEGER,
+ADD COLUMN     "episodeType" TEXT NOT NULL DEFAULT 'full',
+ADD COLUMN     "seasonNumber" INTEGER,
+ADD COLUMN     "showId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Show_userId_idx" ON "Show"("userId");
+
+-- CreateIndex
+CREATE INDEX "Podcast_showId_idx" ON "Podcast"("showId");
+
+-- AddForeignKey
+ALTER TABLE "Show" ADD CONSTRAINT "Show_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Podcast" ADD CONSTRAINT "Podcast_showId_fkey" FOREIGN KEY ("showId") REFERENCES "Show"("id") ON DELETE SET NULL ON UPDATE CASCADE;
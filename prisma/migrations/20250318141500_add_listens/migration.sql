@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "Listen" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "listenerHash" TEXT NOT NULL,
+    "listenedSeconds" INTEGER NOT NULL DEFAULT 0,
+    "lastPosition" INTEGER NOT NULL DEFAULT 0,
+    "maxPosition" INTEGER NOT NULL DEFAULT 0,
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "counted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "podcastId" TEXT NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "Listen_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Listen_sessionId_key" ON "Listen"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "Listen_podcastId_counted_idx" ON "Listen"("podcastId", "counted");
+
+-- CreateIndex
+CREATE INDEX "Listen_podcastId_listenerHash_createdAt_idx" ON "Listen"("podcastId", "listenerHash", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Listen" ADD CONSTRAINT "Listen_podcastId_fkey" FOREIGN KEY ("podcastId") REFERENCES "Podcast"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Listen" ADD CONSTRAINT "Listen_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
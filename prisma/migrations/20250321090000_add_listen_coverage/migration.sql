@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Listen" ADD COLUMN     "coverage" INTEGER NOT NULL DEFAULT 0;
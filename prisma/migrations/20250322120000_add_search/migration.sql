@@ -0,0 +1,91 @@
+-- Trigram matching for typo-tolerant search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "Podcast" ADD COLUMN     "searchVector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "Podcast_searchVector_idx" ON "Podcast" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Podcast_title_trgm_idx" ON "Podcast" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "User_name_trgm_idx" ON "User" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Tag_name_trgm_idx" ON "Tag" USING GIN ("name" gin_trgm_ops);
+
+-- Rebuild a podcast's search document from its own fields, its tag names and its creator's name
+CREATE OR REPLACE FUNCTION podcast_search_refresh(podcast_id TEXT) RETURNS void AS $$
+  UPDATE "Podcast" p SET "searchVector" =
+    setweight(to_tsvector('english', coalesce(p."title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(p."description", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(t."name", ' ')
+      FROM "_PodcastTags" pt
+      JOIN "Tag" t ON t."id" = pt."B"
+      WHERE pt."A" = p."id"
+    ), '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce((
+      SELECT u."name" FROM "User" u WHERE u."id" = p."userId"
+    ), '')), 'C')
+  WHERE p."id" = podcast_id;
+$$ LANGUAGE sql;
+
+-- Keep the search document in sync with podcast edits
+CREATE OR REPLACE FUNCTION podcast_search_podcast_trigger() RETURNS trigger AS $$
+BEGIN
+  PERFORM podcast_search_refresh(NEW."id");
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER podcast_search_podcast
+AFTER INSERT OR UPDATE OF "title", "description", "userId" ON "Podcast"
+FOR EACH ROW EXECUTE FUNCTION podcast_search_podcast_trigger();
+
+-- ...with tags being added to or removed from a podcast
+CREATE OR REPLACE FUNCTION podcast_search_tags_trigger() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM podcast_search_refresh(OLD."A");
+  ELSE
+    PERFORM podcast_search_refresh(NEW."A");
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER podcast_search_tags
+AFTER INSERT OR DELETE ON "_PodcastTags"
+FOR EACH ROW EXECUTE FUNCTION podcast_search_tags_trigger();
+
+-- ...with tag renames
+CREATE OR REPLACE FUNCTION podcast_search_tag_trigger() RETURNS trigger AS $$
+BEGIN
+  PERFORM podcast_search_refresh(pt."A") FROM "_PodcastTags" pt WHERE pt."B" = NEW."id";
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER podcast_search_tag
+AFTER UPDATE OF "name" ON "Tag"
+FOR EACH ROW WHEN (OLD."name" IS DISTINCT FROM NEW."name")
+EXECUTE FUNCTION podcast_search_tag_trigger();
+
+-- ...and with creators changing their name
+CREATE OR REPLACE FUNCTION podcast_search_user_trigger() RETURNS trigger AS $$
+BEGIN
+  PERFORM podcast_search_refresh(p."id") FROM "Podcast" p WHERE p."userId" = NEW."id";
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER podcast_search_user
+AFTER UPDATE OF "name" ON "User"
+FOR EACH ROW WHEN (OLD."name" IS DISTINCT FROM NEW."name")
+EXECUTE FUNCTION podcast_search_user_trigger();
+
+-- Backfill existing podcasts
+SELECT podcast_search_refresh("id") FROM "Podcast";
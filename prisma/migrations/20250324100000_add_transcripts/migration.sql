@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "Transcript" (
+    "id" TEXT NOT NULL,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "format" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "podcastId" TEXT NOT NULL,
+
+    CONSTRAINT "Transcript_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TranscriptSegment" (
+    "id" TEXT NOT NULL,
+    "startTime" DOUBLE PRECISION NOT NULL,
+    "endTime" DOUBLE PRECISION NOT NULL,
+    "text" TEXT NOT NULL,
+    "speaker" TEXT,
+    "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('english', "text")) STORED,
+    "transcriptId" TEXT NOT NULL,
+
+    CONSTRAINT "TranscriptSegment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transcript_podcastId_key" ON "Transcript"("podcastId");
+
+-- CreateIndex
+CREATE INDEX "TranscriptSegment_transcriptId_startTime_idx" ON "TranscriptSegment"("transcriptId", "startTime");
+
+-- CreateIndex
+CREATE INDEX "TranscriptSegment_searchVector_idx" ON "TranscriptSegment" USING GIN ("searchVector");
+
+-- AddForeignKey
+ALTER TABLE "Transcript" ADD CONSTRAINT "Transcript_podcastId_fkey" FOREIGN KEY ("podcastId") REFERENCES "Podcast"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TranscriptSegment" ADD CONSTRAINT "TranscriptSegment_transcriptId_fkey" FOREIGN KEY ("transcriptId") REFERENCES "Transcript"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Podcast" ADD COLUMN     "audioAacUrl" TEXT,
+ADD COLUMN     "audioMp3Url" TEXT,
+ADD COLUMN     "bitrate" INTEGER,
+ADD COLUMN     "codec" TEXT,
+ADD COLUMN     "loudness" DOUBLE PRECISION,
+ADD COLUMN     "processedAt" TIMESTAMP(3);
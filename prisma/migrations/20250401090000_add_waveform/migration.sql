@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Podcast" ADD COLUMN     "waveform" JSONB;
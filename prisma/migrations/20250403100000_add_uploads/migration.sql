@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "Upload" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "folder" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "partSize" INTEGER NOT NULL,
+    "partCount" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "storageKey" TEXT,
+    "url" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "Upload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UploadPart" (
+    "id" TEXT NOT NULL,
+    "partNumber" INTEGER NOT NULL,
+    "size" INTEGER NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uploadId" TEXT NOT NULL,
+
+    CONSTRAINT "UploadPart_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Upload_userId_status_idx" ON "Upload"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "Upload_status_expiresAt_idx" ON "Upload"("status", "expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UploadPart_uploadId_partNumber_key" ON "UploadPart"("uploadId", "partNumber");
+
+-- AddForeignKey
+ALTER TABLE "Upload" ADD CONSTRAINT "Upload_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UploadPart" ADD CONSTRAINT "UploadPart_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "Upload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
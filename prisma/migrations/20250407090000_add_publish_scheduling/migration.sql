@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Podcast" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'published',
+ADD COLUMN "publishAt" TIMESTAMP(3);
+
+-- Existing episodes went out when they were created
+UPDATE "Podcast" SET "publishAt" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "Podcast_status_publishAt_idx" ON "Podcast"("status", "publishAt");
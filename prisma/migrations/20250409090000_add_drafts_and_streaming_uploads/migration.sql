@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Podcast" ALTER COLUMN "audioUrl" SET DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "Upload" ALTER COLUMN "size" DROP NOT NULL,
+ALTER COLUMN "partCount" DROP NOT NULL;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Podcast" ADD COLUMN "edl" JSONB,
+ADD COLUMN "edlUpdatedAt" TIMESTAMP(3),
+ADD COLUMN "edlRenderedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Take" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'voice',
+    "url" TEXT NOT NULL,
+    "duration" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "podcastId" TEXT NOT NULL,
+
+    CONSTRAINT "Take_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Take_podcastId_idx" ON "Take"("podcastId");
+
+-- AddForeignKey
+ALTER TABLE "Take" ADD CONSTRAINT "Take_podcastId_fkey" FOREIGN KEY ("podcastId") REFERENCES "Podcast"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,76 @@
+-- CreateTable
+CREATE TABLE "RecordingSession" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "inviteToken" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'waiting',
+    "startAt" TIMESTAMP(3),
+    "stoppedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "hostId" TEXT NOT NULL,
+    "podcastId" TEXT,
+
+    CONSTRAINT "RecordingSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SessionParticipant" (
+    "id" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'guest',
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "trackUrl" TEXT,
+    "trackOffset" DOUBLE PRECISION,
+    "trackDuration" DOUBLE PRECISION,
+    "sessionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "SessionParticipant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SessionSignal" (
+    "id" SERIAL NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sessionId" TEXT NOT NULL,
+    "fromId" TEXT,
+    "toId" TEXT,
+
+    CONSTRAINT "SessionSignal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecordingSession_inviteToken_key" ON "RecordingSession"("inviteToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecordingSession_podcastId_key" ON "RecordingSession"("podcastId");
+
+-- CreateIndex
+CREATE INDEX "RecordingSession_hostId_idx" ON "RecordingSession"("hostId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SessionParticipant_sessionId_userId_key" ON "SessionParticipant"("sessionId", "userId");
+
+-- CreateIndex
+CREATE INDEX "SessionSignal_sessionId_id_idx" ON "SessionSignal"("sessionId", "id");
+
+-- CreateIndex
+CREATE INDEX "SessionSignal_createdAt_idx" ON "SessionSignal"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "RecordingSession" ADD CONSTRAINT "RecordingSession_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecordingSession" ADD CONSTRAINT "RecordingSession_podcastId_fkey" FOREIGN KEY ("podcastId") REFERENCES "Podcast"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionParticipant" ADD CONSTRAINT "SessionParticipant_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "RecordingSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionParticipant" ADD CONSTRAINT "SessionParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SessionSignal" ADD CONSTRAINT "SessionSignal_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "RecordingSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
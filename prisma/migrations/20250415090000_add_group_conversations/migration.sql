@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "image" TEXT,
+ADD COLUMN     "isGroup" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "title" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'text';
+
+-- CreateTable
+CREATE TABLE "ConversationParticipant" (
+    "id" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "conversationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "ConversationParticipant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversationParticipant_conversationId_userId_key" ON "ConversationParticipant"("conversationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "ConversationParticipant_userId_idx" ON "ConversationParticipant"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ConversationParticipant" ADD CONSTRAINT "ConversationParticipant_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationParticipant" ADD CONSTRAINT "ConversationParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move the existing 1:1 participants over from the implicit many-to-many table
+INSERT INTO "ConversationParticipant" ("id", "role", "joinedAt", "conversationId", "userId")
+SELECT md5(uc."A" || ':' || uc."B"), 'member', c."createdAt", uc."A", uc."B"
+FROM "_UserConversations" uc
+JOIN "Conversation" c ON c."id" = uc."A";
+
+-- DropTable
+DROP TABLE "_UserConversations";
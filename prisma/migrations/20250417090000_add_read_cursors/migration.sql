@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "ConversationParticipant" ADD COLUMN     "lastDeliveredAt" TIMESTAMP(3),
+ADD COLUMN     "lastReadAt" TIMESTAMP(3),
+ADD COLUMN     "lastReadMessageId" TEXT;
+
+-- Start each member's cursors at the newest message sent to them that was marked read
+UPDATE "ConversationParticipant" cp
+SET "lastReadMessageId" = latest."id",
+    "lastReadAt" = latest."createdAt",
+    "lastDeliveredAt" = latest."createdAt"
+FROM (
+    SELECT DISTINCT ON (m."conversationId", p."userId") m."conversationId", p."userId", m."id", m."createdAt"
+    FROM "Message" m
+    JOIN "ConversationParticipant" p ON p."conversationId" = m."conversationId" AND p."userId" <> m."senderId"
+    WHERE m."readAt" IS NOT NULL
+    ORDER BY m."conversationId", p."userId", m."createdAt" DESC
+) latest
+WHERE latest."conversationId" = cp."conversationId" AND latest."userId" = cp."userId";
+
+-- AlterTable
+ALTER TABLE "Message" DROP COLUMN "readAt";
+
+-- CreateIndex
+CREATE INDEX "Message_conversationId_createdAt_idx" ON "Message"("conversationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ConversationParticipant" ADD CONSTRAINT "ConversationParticipant_lastReadMessageId_fkey" FOREIGN KEY ("lastReadMessageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "MessageAttachment" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "url" TEXT,
+    "duration" DOUBLE PRECISION,
+    "startTime" DOUBLE PRECISION,
+    "endTime" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "messageId" TEXT NOT NULL,
+    "podcastId" TEXT,
+
+    CONSTRAINT "MessageAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageAttachment_messageId_key" ON "MessageAttachment"("messageId");
+
+-- CreateIndex
+CREATE INDEX "MessageAttachment_podcastId_idx" ON "MessageAttachment"("podcastId");
+
+-- AddForeignKey
+ALTER TABLE "MessageAttachment" ADD CONSTRAINT "MessageAttachment_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MessageAttachment" ADD CONSTRAINT "MessageAttachment_podcastId_fkey" FOREIGN KEY ("podcastId") REFERENCES "Podcast"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ShareLink" ADD COLUMN "failedPasswordAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "passwordLockedUntil" TIMESTAMP(3);